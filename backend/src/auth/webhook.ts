@@ -0,0 +1,138 @@
+import crypto from 'crypto';
+import { Request, Response, NextFunction } from 'express';
+import { getConfig } from '../config.js';
+import { getWebhookSecret, recordWebhookRejection } from '../database.js';
+import { getWorkspace } from '../clickup/workspaces.js';
+
+// Request z surowym body — ustawiane przez express.json({ verify }) w index.ts.
+// HMAC musi być liczony z dokładnie tych bajtów, które wysłał ClickUp.
+export interface RawBodyRequest extends Request {
+  rawBody?: Buffer;
+}
+
+export type WebhookRejectionReason =
+  | 'missing_signature'
+  | 'missing_secret'
+  | 'invalid_signature'
+  | 'stale_timestamp'
+  | 'replay';
+
+// Domyślne okno czasowe akceptacji eventu (sekundy), liczone od history_items[].date — czyli od chwili
+// zdarzenia, nie dostawy. ClickUp ponawia nieudane dostawy i dosyła zaległe eventy po reaktywacji webhooka,
+// więc okno musi je objąć (72h). Przed powtórzeniem chroni cache sygnatur i dziennik webhook_events.
+const DEFAULT_MAX_AGE_SEC = 72 * 60 * 60;
+
+// Sygnatury już przetworzonych webhooków → timestamp wygaśnięcia (ms).
+// Ten sam podpisany payload nie może zostać przyjęty drugi raz w oknie czasowym.
+const seenSignatures = new Map<string, number>();
+
+function getMaxAgeMs(): number {
+  const raw = parseInt(getConfig('CLICKUP_WEBHOOK_MAX_AGE_SEC', String(DEFAULT_MAX_AGE_SEC))!, 10);
+  return (Number.isFinite(raw) && raw > 0 ? raw : DEFAULT_MAX_AGE_SEC) * 1000;
+}
+
+function pruneSeenSignatures(now: number) {
+  for (const [signature, expiresAt] of seenSignatures) {
+    if (expiresAt <= now) {
+      seenSignatures.delete(signature);
+    }
+  }
+}
+
+// Sekret per webhook_id → sekret workspace'u z payloadu (team_id) → sekret globalny
+function resolveSecret(webhookId?: string, teamId?: string): string | null {
+  if (webhookId) {
+    const secret = getWebhookSecret(webhookId);
+    if (secret) return secret;
+  }
+  if (teamId) {
+    const workspace = getWorkspace(teamId);
+    if (workspace?.webhook_secret) return workspace.webhook_secret;
+  }
+  return getConfig('CLICKUP_WEBHOOK_SECRET') || null;
+}
+
+export function computeWebhookSignature(secret: string, body: Buffer | string): string {
+  return crypto.createHmac('sha256', secret).update(body).digest('hex');
+}
+
+function signaturesMatch(expected: string, received: string): boolean {
+  const a = Buffer.from(expected, 'utf8');
+  const b = Buffer.from(received.trim().toLowerCase(), 'utf8');
+  return a.length === b.length && crypto.timingSafeEqual(a, b);
+}
+
+// Najstarszy timestamp z history_items (ms). ClickUp nie wysyła nagłówka z czasem,
+// więc okno replay opiera się na dacie zdarzenia w payloadzie (objętym podpisem).
+function getEventTimestamp(body: any): number | null {
+  const items = Array.isArray(body?.history_items) ? body.history_items : [];
+  const dates = items
+    .map((item: any) => Number(item?.date))
+    .filter((value: number) => Number.isFinite(value) && value > 0);
+  return dates.length > 0 ? Math.min(...dates) : null;
+}
+
+/**
+ * Usuwa sygnaturę z cache replay — wywoływane gdy przetwarzanie webhooka się nie powiodło,
+ * żeby ponowna dostawa tego samego payloadu przez ClickUp nie została odrzucona.
+ */
+export function forgetWebhookSignature(signature: string | undefined) {
+  if (signature) {
+    seenSignatures.delete(signature.trim().toLowerCase());
+  }
+}
+
+/**
+ * Middleware weryfikujące webhooki ClickUp:
+ *   1. HMAC-SHA256 surowego body vs nagłówek X-Signature (sekret per webhook_id, per workspace lub globalny)
+ *   2. Timestamp zdarzenia w oknie CLICKUP_WEBHOOK_MAX_AGE_SEC
+ *   3. Ta sama sygnatura nie może być przyjęta ponownie w tym oknie
+ * Każde odrzucenie trafia do tabeli webhook_rejections (licznik w panelu admina).
+ */
+export function verifyClickUpWebhook(req: RawBodyRequest, res: Response, next: NextFunction) {
+  const body = req.body || {};
+  const webhookId = typeof body.webhook_id === 'string' ? body.webhook_id : undefined;
+  const signature = req.header('X-Signature');
+
+  const reject = (reason: WebhookRejectionReason) => {
+    console.warn(`🚫 Odrzucono webhook (${reason}) webhook_id=${webhookId || '-'} ip=${req.ip}`);
+    recordWebhookRejection({
+      webhookId: webhookId ?? null,
+      event: typeof body.event === 'string' ? body.event : null,
+      reason,
+      remoteIp: req.ip ?? null,
+    });
+    return res.status(401).json({ error: 'Nieprawidłowy podpis webhooka', reason });
+  };
+
+  if (!signature) {
+    return reject('missing_signature');
+  }
+
+  const teamId = typeof body.team_id === 'string' || typeof body.team_id === 'number' ? String(body.team_id) : undefined;
+  const secret = resolveSecret(webhookId, teamId);
+  if (!secret) {
+    return reject('missing_secret');
+  }
+
+  const expected = computeWebhookSignature(secret, req.rawBody ?? JSON.stringify(body));
+  if (!signaturesMatch(expected, signature)) {
+    return reject('invalid_signature');
+  }
+
+  const now = Date.now();
+  const maxAgeMs = getMaxAgeMs();
+  const eventTimestamp = getEventTimestamp(body);
+  if (eventTimestamp !== null && Math.abs(now - eventTimestamp) > maxAgeMs) {
+    return reject('stale_timestamp');
+  }
+
+  pruneSeenSignatures(now);
+  const normalizedSignature = signature.trim().toLowerCase();
+  if (seenSignatures.has(normalizedSignature)) {
+    return reject('replay');
+  }
+  seenSignatures.set(normalizedSignature, now + maxAgeMs);
+
+  next();
+}
@@ -1,14 +1,18 @@
 import { getConfig } from './config.js';
+import { clickUpRequest, clickUpJson, getClickUpToken } from './clickup/client.js';
 
-const CLICKUP_API_BASE = 'https://api.clickup.com/api/v2';
-const DEFAULT_TEAM_ID = '4552118';
-
-export function getClickUpTeamId(): string {
-  return getConfig('CLICKUP_TEAM_ID', DEFAULT_TEAM_ID)!;
+// Workspace domyślny (CLICKUP_TEAM_ID z .env lub panelu admina). Kolejne workspace'y: tabela workspaces
+// (clickup/workspaces.ts). Bez konfiguracji nie zgadujemy workspace'u — dane nie trafią do cudzego team_id.
+export function isClickUpTeamConfigured(): boolean {
+  return Boolean(getConfig('CLICKUP_TEAM_ID'));
 }
 
-function getClickUpToken(): string | null {
-  return getConfig('CLICKUP_API_TOKEN') || null;
+export function getClickUpTeamId(): string {
+  const teamId = getConfig('CLICKUP_TEAM_ID');
+  if (!teamId) {
+    throw new Error('Nie skonfigurowano CLICKUP_TEAM_ID (backend/.env albo Panel → Ustawienia)');
+  }
+  return teamId;
 }
 
 export type ClickUpTaskDetails = {
@@ -19,24 +23,66 @@ export type ClickUpTaskDetails = {
   folder?: { id: string; name: string };
   space?: { id: string; name: string };
   url?: string;
+  // Estymata w ms (null = brak), termin jako ISO, przypisani użytkownicy i task nadrzędny (subtaski)
+  time_estimate?: number | null;
+  due_date?: string | null;
+  assignees?: Array<{ id: string; username: string }>;
+  parent?: string | null;
+  // Wartość pola CLICKUP_PROJECT_FIELD (ID listy lub nazwa projektu) — nadpisuje mapowanie po liście
+  project_field?: string | null;
 };
 
-export async function fetchClickUpTask(taskId: string): Promise<ClickUpTaskDetails | null> {
-  const token = getClickUpToken();
+// Pole własne ClickUp jako tekst: dropdown/labels → nazwa opcji, relacja z listą/zadaniem → ID
+function readCustomFieldValue(field: any): string | null {
+  const value = field?.value;
+  if (value === undefined || value === null || value === '') return null;
+
+  const options: Array<{ id: string; name?: string; label?: string; orderindex?: number }> =
+    field.type_config?.options || [];
+  const optionName = (raw: unknown) => {
+    const option = options.find((o) => o.id === raw || (typeof raw === 'number' && o.orderindex === raw));
+    return option ? option.name || option.label || null : null;
+  };
+
+  if (field.type === 'drop_down') {
+    return optionName(typeof value === 'string' && /^\d+$/.test(value) ? Number(value) : value);
+  }
+  if (Array.isArray(value)) {
+    const first = value[0];
+    if (first === undefined) return null;
+    if (field.type === 'labels') return optionName(first);
+    return typeof first === 'object' ? (first?.id != null ? String(first.id) : null) : String(first);
+  }
+  return String(value).trim() || null;
+}
+
+// Pole projektu szukane po ID albo nazwie (bez rozróżniania wielkości liter)
+function readProjectField(customFields: unknown): string | null {
+  const fieldKey = (getConfig('CLICKUP_PROJECT_FIELD', '') || '').trim().toLowerCase();
+  if (!fieldKey || !Array.isArray(customFields)) return null;
+  const field = customFields.find(
+    (f: any) => String(f?.id).toLowerCase() === fieldKey || String(f?.name || '').trim().toLowerCase() === fieldKey
+  );
+  return field ? readCustomFieldValue(field) : null;
+}
+
+export async function fetchClickUpTask(
+  taskId: string,
+  apiToken?: string | null
+): Promise<ClickUpTaskDetails | null> {
+  const token = apiToken ?? getClickUpToken();
   if (!token) {
     return null;
   }
 
   try {
-    const response = await fetch(`${CLICKUP_API_BASE}/task/${taskId}`, {
-      headers: { Authorization: token },
-    });
+    const response = await clickUpRequest(`/task/${taskId}`, { token });
 
-    if (!response.ok) {
+    if (!response.ok || !response.data) {
       return null;
     }
 
-    const data = await response.json();
+    const data = response.data;
 
     return {
       id: data.id || taskId,
@@ -46,6 +92,13 @@ export async function fetchClickUpTask(taskId: string): Promise<ClickUpTaskDetai
       folder: data.folder ? { id: data.folder.id, name: data.folder.name } : undefined,
       space: data.space ? { id: data.space.id, name: data.space.name } : undefined,
       url: data.url || `https://app.clickup.com/t/${taskId}`,
+      time_estimate: data.time_estimate != null && Number(data.time_estimate) > 0 ? Number(data.time_estimate) : null,
+      due_date: data.due_date ? new Date(Number(data.due_date)).toISOString() : null,
+      assignees: Array.isArray(data.assignees)
+        ? data.assignees.map((a: any) => ({ id: String(a.id), username: a.username || String(a.id) }))
+        : [],
+      parent: data.parent ? String(data.parent) : null,
+      project_field: readProjectField(data.custom_fields),
     };
   } catch (error) {
     console.error('Błąd pobierania taska z ClickUp:', error);
@@ -53,7 +106,7 @@ export async function fetchClickUpTask(taskId: string): Promise<ClickUpTaskDetai
   }
 }
 
-type ClickUpTimeEntry = {
+export type ClickUpTimeEntry = {
   id?: string;
   task?: { id?: string; name?: string; url?: string };
   task_id?: string;
@@ -64,6 +117,7 @@ type ClickUpTimeEntry = {
   duration?: number | string;
   billable?: boolean;
   description?: string;
+  tags?: Array<{ name?: string; tag_bg?: string; tag_fg?: string; creator?: number }>;
 };
 
 export async function fetchClickUpTimeEntries(params: {
@@ -74,74 +128,40 @@ export async function fetchClickUpTimeEntries(params: {
   limit: number;
   assignee?: string;
   includeLocationNames?: boolean;
+  token?: string | null;
 }): Promise<ClickUpTimeEntry[]> {
-  const token = getClickUpToken();
-  if (!token) {
-    throw new Error('Brak CLICKUP_API_TOKEN w .env');
-  }
-
-  const searchParams = new URLSearchParams({
-    start_date: String(params.startMs),
-    end_date: String(params.endMs),
-    page: String(params.page),
-    limit: String(params.limit),
+  // Błędy (także po wyczerpaniu ponowień 429) są rzucane — import nie może po cichu pominąć strony
+  const data = await clickUpJson(`/team/${params.teamId}/time_entries`, {
+    query: {
+      start_date: params.startMs,
+      end_date: params.endMs,
+      page: params.page,
+      limit: params.limit,
+      assignee: params.assignee,
+      include_location_names: params.includeLocationNames ? 'true' : undefined,
+    },
+    token: params.token ?? undefined,
   });
 
-  if (params.assignee) {
-    searchParams.set('assignee', params.assignee);
-  }
-
-  if (params.includeLocationNames) {
-    searchParams.set('include_location_names', 'true');
-  }
-
-  const response = await fetch(
-    `${CLICKUP_API_BASE}/team/${params.teamId}/time_entries?${searchParams.toString()}`,
-    { headers: { Authorization: token } }
-  );
-
-  const bodyText = await response.text();
-  if (!response.ok) {
-    throw new Error(`ClickUp API error ${response.status}: ${bodyText}`);
+  if (Array.isArray(data?.data)) {
+    return data.data as ClickUpTimeEntry[];
   }
-
-  try {
-    const data = JSON.parse(bodyText);
-    if (Array.isArray(data?.data)) {
-      return data.data as ClickUpTimeEntry[];
-    }
-    if (Array.isArray(data)) {
-      return data as ClickUpTimeEntry[];
-    }
-    return [];
-  } catch {
-    return [];
+  if (Array.isArray(data)) {
+    return data as ClickUpTimeEntry[];
   }
+  return [];
 }
 
-export async function fetchClickUpTeamMembers(teamId: string): Promise<Array<{
+export async function fetchClickUpTeamMembers(teamId: string, token?: string | null): Promise<Array<{
   id: number;
   username: string;
   email?: string;
   color?: string;
   profilePicture?: string | null;
 }>> {
-  const token = getClickUpToken();
-  if (!token) {
-    throw new Error('Brak CLICKUP_API_TOKEN w .env');
-  }
-
-  const response = await fetch(`${CLICKUP_API_BASE}/team`, {
-    headers: { Authorization: token },
-  });
-
-  const bodyText = await response.text();
-  if (!response.ok) {
-    throw new Error(`ClickUp API error ${response.status}: ${bodyText}`);
-  }
+  const data = await clickUpJson('/team', { token: token ?? undefined });
 
   try {
-    const data = JSON.parse(bodyText);
     const team = data?.teams?.find((t: any) => String(t.id) === String(teamId));
     if (!team) {
       return [];
@@ -158,3 +178,188 @@ export async function fetchClickUpTeamMembers(teamId: string): Promise<Array<{
     return [];
   }
 }
+
+// ── Webhooki (rejestracja w ClickUp z panelu admina) ────────────────
+
+export type ClickUpWebhookHealth = 'active' | 'failing' | 'suspended' | string;
+
+export type ClickUpWebhook = {
+  id: string;
+  endpoint: string;
+  events: string[];
+  status: ClickUpWebhookHealth;
+  fail_count: number;
+  secret: string | null;
+  space_id: string | null;
+  folder_id: string | null;
+  list_id: string | null;
+  task_id: string | null;
+};
+
+function mapClickUpWebhook(raw: any): ClickUpWebhook {
+  return {
+    id: String(raw.id),
+    endpoint: raw.endpoint || '',
+    events: Array.isArray(raw.events) ? raw.events : [],
+    status: raw.health?.status || raw.status || 'active',
+    fail_count: Number(raw.health?.fail_count) || 0,
+    secret: raw.secret || null,
+    space_id: raw.space_id != null ? String(raw.space_id) : null,
+    folder_id: raw.folder_id != null ? String(raw.folder_id) : null,
+    list_id: raw.list_id != null ? String(raw.list_id) : null,
+    task_id: raw.task_id != null ? String(raw.task_id) : null,
+  };
+}
+
+export async function fetchClickUpWebhooks(teamId: string, token?: string | null): Promise<ClickUpWebhook[]> {
+  const data = await clickUpJson(`/team/${teamId}/webhook`, { token: token ?? undefined });
+  return (data?.webhooks || []).map(mapClickUpWebhook);
+}
+
+export async function createClickUpWebhook(
+  teamId: string,
+  params: { endpoint: string; events: string[] },
+  token?: string | null
+): Promise<ClickUpWebhook> {
+  const data = await clickUpJson(`/team/${teamId}/webhook`, {
+    method: 'POST',
+    token: token ?? undefined,
+    body: { endpoint: params.endpoint, events: params.events },
+  });
+  // ClickUp zwraca { id, webhook: {...} } — sekret jest tylko w odpowiedzi na utworzenie i w liście
+  return mapClickUpWebhook({ id: data?.id, ...(data?.webhook || {}) });
+}
+
+export async function updateClickUpWebhook(
+  webhookId: string,
+  params: { endpoint: string; events: string[]; status: 'active' | 'inactive' },
+  token?: string | null
+): Promise<ClickUpWebhook> {
+  const data = await clickUpJson(`/webhook/${webhookId}`, {
+    method: 'PUT',
+    token: token ?? undefined,
+    body: params,
+  });
+  return mapClickUpWebhook({ id: data?.id || webhookId, ...(data?.webhook || {}) });
+}
+
+export async function deleteClickUpWebhook(webhookId: string, token?: string | null): Promise<void> {
+  await clickUpJson(`/webhook/${webhookId}`, { method: 'DELETE', token: token ?? undefined });
+}
+
+// ── Hierarchia (space → folder → lista) ─────────────────────────────
+
+export type ClickUpHierarchyNode = { id: string; name: string; archived: boolean };
+export type ClickUpFolder = ClickUpHierarchyNode & { lists: ClickUpHierarchyNode[] };
+
+function mapHierarchyNode(raw: any): ClickUpHierarchyNode {
+  return { id: String(raw.id), name: raw.name || '', archived: Boolean(raw.archived) };
+}
+
+export async function fetchClickUpSpaces(teamId: string, token?: string | null): Promise<ClickUpHierarchyNode[]> {
+  const data = await clickUpJson(`/team/${teamId}/space`, { token: token ?? undefined, query: { archived: 'false' } });
+  return (data?.spaces || []).map(mapHierarchyNode);
+}
+
+// Foldery przychodzą razem ze swoimi listami — jedno wywołanie na space
+export async function fetchClickUpFolders(spaceId: string, token?: string | null): Promise<ClickUpFolder[]> {
+  const data = await clickUpJson(`/space/${spaceId}/folder`, { token: token ?? undefined, query: { archived: 'false' } });
+  return (data?.folders || []).map((raw: any) => ({
+    ...mapHierarchyNode(raw),
+    lists: (raw.lists || []).map(mapHierarchyNode),
+  }));
+}
+
+// Listy bez folderu (bezpośrednio w space)
+export async function fetchClickUpFolderlessLists(spaceId: string, token?: string | null): Promise<ClickUpHierarchyNode[]> {
+  const data = await clickUpJson(`/space/${spaceId}/list`, { token: token ?? undefined, query: { archived: 'false' } });
+  return (data?.lists || []).map(mapHierarchyNode);
+}
+
+// ── Timer (osobisty token użytkownika — token zespołu nie działa w cudzym imieniu) ──
+
+export type ClickUpAuthorizedUser = { id: string; username: string; email: string | null };
+
+export async function fetchClickUpAuthorizedUser(token: string): Promise<ClickUpAuthorizedUser> {
+  const data = await clickUpJson('/user', { token });
+  if (!data?.user?.id) {
+    throw new Error('ClickUp API: brak użytkownika w odpowiedzi /user');
+  }
+  return { id: String(data.user.id), username: data.user.username || '', email: data.user.email || null };
+}
+
+export async function fetchClickUpCurrentTimer(teamId: string, token: string): Promise<ClickUpTimeEntry | null> {
+  const data = await clickUpJson(`/team/${teamId}/time_entries/current`, { token });
+  return data?.data ?? null;
+}
+
+// POST nie jest ponawiany przy 5xx (patrz isRetryable) — dwa kliknięcia nie uruchomią dwóch timerów
+export async function startClickUpTimer(teamId: string, taskId: string, token: string): Promise<ClickUpTimeEntry> {
+  const data = await clickUpJson(`/team/${teamId}/time_entries/start`, {
+    method: 'POST',
+    token,
+    body: { tid: taskId },
+  });
+  return data?.data ?? {};
+}
+
+export async function stopClickUpTimer(teamId: string, token: string): Promise<ClickUpTimeEntry | null> {
+  const data = await clickUpJson(`/team/${teamId}/time_entries/stop`, { method: 'POST', token });
+  return data?.data ?? null;
+}
+
+// ── Ręczne wpisy czasu (zapis z aplikacji) ──────────────────────────
+
+export type ClickUpTimeEntryInput = {
+  taskId: string;
+  startMs: number;
+  durationMs: number;
+  description?: string | null;
+  billable?: boolean;
+  // Tylko tokenem admina workspace'u: wpis w imieniu innego członka
+  assignee?: string;
+};
+
+export async function createClickUpTimeEntry(
+  teamId: string,
+  input: ClickUpTimeEntryInput,
+  token?: string | null
+): Promise<ClickUpTimeEntry> {
+  const data = await clickUpJson(`/team/${teamId}/time_entries`, {
+    method: 'POST',
+    token: token ?? undefined,
+    body: {
+      tid: input.taskId,
+      start: input.startMs,
+      duration: input.durationMs,
+      description: input.description || '',
+      billable: input.billable ?? false,
+      ...(input.assignee ? { assignee: Number(input.assignee) } : {}),
+    },
+  });
+  return data?.data ?? {};
+}
+
+export async function updateClickUpTimeEntry(
+  teamId: string,
+  entryId: string,
+  input: ClickUpTimeEntryInput,
+  token?: string | null
+): Promise<void> {
+  await clickUpJson(`/team/${teamId}/time_entries/${entryId}`, {
+    method: 'PUT',
+    token: token ?? undefined,
+    body: {
+      tid: input.taskId,
+      start: input.startMs,
+      end: input.startMs + input.durationMs,
+      duration: input.durationMs,
+      description: input.description || '',
+      ...(input.billable !== undefined ? { billable: input.billable } : {}),
+    },
+  });
+}
+
+export async function deleteClickUpTimeEntry(teamId: string, entryId: string, token?: string | null): Promise<void> {
+  await clickUpJson(`/team/${teamId}/time_entries/${entryId}`, { method: 'DELETE', token: token ?? undefined });
+}
@@ -0,0 +1,393 @@
+import { getConfig } from '../config.js';
+
+const DEFAULT_CLICKUP_API_BASE = 'https://api.clickup.com/api/v2';
+
+// Limit ClickUp: 100 req/min na token (plany Free/Unlimited/Business).
+// Wyższe plany mają więcej — można podnieść przez CLICKUP_RATE_LIMIT_PER_MIN.
+const DEFAULT_RATE_LIMIT_PER_MIN = 100;
+const DEFAULT_TIMEOUT_MS = 15_000;
+const DEFAULT_MAX_RETRIES = 4;
+const BASE_BACKOFF_MS = 500;
+const MAX_BACKOFF_MS = 30_000;
+
+export function getClickUpToken(): string | null {
+  return getConfig('CLICKUP_API_TOKEN') || null;
+}
+
+// CLICKUP_API_BASE pozwala podpiąć lokalny fake serwer (npm run fake-api) zamiast produkcyjnego API
+export function getClickUpApiBase(): string {
+  return (getConfig('CLICKUP_API_BASE') || DEFAULT_CLICKUP_API_BASE).replace(/\/+$/, '');
+}
+
+function getNumberConfig(key: string, fallback: number): number {
+  const value = parseInt(getConfig(key, String(fallback))!, 10);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+// ── Token bucket ─────────────────────────────────────────────────────
+// Osobny dla każdego tokenu — ClickUp liczy limit per token, a nie per endpoint.
+// Wspólny dla wszystkich wywołań tym tokenem (polling, import, backfill, panel admina).
+
+type RateLimitState = { limit: number | null; remaining: number | null; resetAt: number | null };
+
+type TokenLimiter = {
+  bucketTokens: number | null;
+  bucketUpdatedAt: number;
+  // Ustawiane z nagłówków X-RateLimit-* / 429 — do tego czasu nie wysyłamy żądań tym tokenem
+  blockedUntil: number;
+  lastRateLimit: RateLimitState;
+};
+
+const limiters = new Map<string, TokenLimiter>();
+
+function getLimiter(token: string): TokenLimiter {
+  let limiter = limiters.get(token);
+  if (!limiter) {
+    limiter = {
+      bucketTokens: null,
+      bucketUpdatedAt: Date.now(),
+      blockedUntil: 0,
+      lastRateLimit: { limit: null, remaining: null, resetAt: null },
+    };
+    limiters.set(token, limiter);
+  }
+  return limiter;
+}
+
+function sleep(ms: number) {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+function refillBucket(limiter: TokenLimiter, capacity: number) {
+  const now = Date.now();
+  const refillPerMs = capacity / 60_000;
+  if (limiter.bucketTokens === null) {
+    limiter.bucketTokens = capacity;
+  } else {
+    limiter.bucketTokens = Math.min(capacity, limiter.bucketTokens + (now - limiter.bucketUpdatedAt) * refillPerMs);
+  }
+  limiter.bucketUpdatedAt = now;
+}
+
+async function acquireToken(limiter: TokenLimiter): Promise<number> {
+  const capacity = getNumberConfig('CLICKUP_RATE_LIMIT_PER_MIN', DEFAULT_RATE_LIMIT_PER_MIN);
+  let waitedMs = 0;
+
+  for (;;) {
+    const now = Date.now();
+    if (limiter.blockedUntil > now) {
+      const waitMs = limiter.blockedUntil - now;
+      waitedMs += waitMs;
+      await sleep(waitMs);
+      continue;
+    }
+
+    refillBucket(limiter, capacity);
+    if (limiter.bucketTokens! >= 1) {
+      limiter.bucketTokens! -= 1;
+      return waitedMs;
+    }
+
+    const waitMs = Math.ceil((1 - limiter.bucketTokens!) / (capacity / 60_000));
+    waitedMs += waitMs;
+    await sleep(waitMs);
+  }
+}
+
+// ClickUp: X-RateLimit-Reset w sekundach epoki
+function updateRateLimitFromHeaders(limiter: TokenLimiter, headers: Headers) {
+  const limit = Number(headers.get('x-ratelimit-limit'));
+  const remaining = Number(headers.get('x-ratelimit-remaining'));
+  const reset = Number(headers.get('x-ratelimit-reset'));
+
+  if (!headers.has('x-ratelimit-remaining')) {
+    return;
+  }
+
+  const lastRateLimit: RateLimitState = {
+    limit: Number.isFinite(limit) && limit > 0 ? limit : limiter.lastRateLimit.limit,
+    remaining: Number.isFinite(remaining) ? remaining : null,
+    resetAt: Number.isFinite(reset) && reset > 0 ? reset * 1000 : null,
+  };
+  limiter.lastRateLimit = lastRateLimit;
+
+  if (lastRateLimit.remaining !== null && lastRateLimit.remaining <= 0 && lastRateLimit.resetAt) {
+    limiter.blockedUntil = Math.max(limiter.blockedUntil, lastRateLimit.resetAt);
+  }
+  // Serwer wie lepiej — nie pozwól lokalnemu bucketowi wydać więcej niż zostało
+  if (lastRateLimit.remaining !== null && limiter.bucketTokens !== null) {
+    limiter.bucketTokens = Math.min(limiter.bucketTokens, lastRateLimit.remaining);
+  }
+}
+
+// Token w metrykach tylko w skróconej postaci — pełny nie może wyciec przez API
+function maskToken(token: string): string {
+  return token.length > 12 ? `${token.slice(0, 6)}…${token.slice(-4)}` : '…';
+}
+
+function getRetryDelayMs(response: Response | null, attempt: number): number {
+  if (response) {
+    const retryAfter = Number(response.headers.get('retry-after'));
+    if (Number.isFinite(retryAfter) && retryAfter > 0) {
+      return retryAfter * 1000;
+    }
+    const reset = Number(response.headers.get('x-ratelimit-reset'));
+    if (response.status === 429 && Number.isFinite(reset) && reset > 0) {
+      return Math.max(0, reset * 1000 - Date.now()) + 250;
+    }
+  }
+  const backoff = Math.min(MAX_BACKOFF_MS, BASE_BACKOFF_MS * 2 ** attempt);
+  return backoff + Math.floor(Math.random() * BASE_BACKOFF_MS);
+}
+
+// ── Metryki per endpoint ─────────────────────────────────────────────
+
+export type ClickUpEndpointMetrics = {
+  endpoint: string;
+  requests: number;
+  errors: number;
+  retries: number;
+  rate_limited: number;
+  timeouts: number;
+  total_ms: number;
+  avg_ms: number;
+  throttled_ms: number;
+  last_status: number | null;
+  last_error: string | null;
+  last_at: string | null;
+};
+
+const metrics = new Map<string, ClickUpEndpointMetrics>();
+
+// ID zespołu, zadania (np. 86c0abcd1) lub webhooka (UUID)
+function isIdSegment(segment: string): boolean {
+  return /\d/.test(segment) && /^[a-z0-9-]+$/i.test(segment);
+}
+
+// /team/123/time_entries/current → GET /team/:id/time_entries/current
+function normalizeEndpoint(method: string, path: string): string {
+  const [pathname] = path.split('?');
+  const normalized = pathname
+    .split('/')
+    .map((segment) => (isIdSegment(segment) ? ':id' : segment))
+    .join('/');
+  return `${method} ${normalized}`;
+}
+
+function getEndpointMetrics(endpoint: string): ClickUpEndpointMetrics {
+  let entry = metrics.get(endpoint);
+  if (!entry) {
+    entry = {
+      endpoint,
+      requests: 0,
+      errors: 0,
+      retries: 0,
+      rate_limited: 0,
+      timeouts: 0,
+      total_ms: 0,
+      avg_ms: 0,
+      throttled_ms: 0,
+      last_status: null,
+      last_error: null,
+      last_at: null,
+    };
+    metrics.set(endpoint, entry);
+  }
+  return entry;
+}
+
+export function getClickUpMetrics() {
+  const endpoints = Array.from(metrics.values())
+    .map((entry) => ({ ...entry, avg_ms: entry.requests > 0 ? Math.round(entry.total_ms / entry.requests) : 0 }))
+    .sort((a, b) => b.requests - a.requests);
+  const now = Date.now();
+
+  return {
+    per_minute: getNumberConfig('CLICKUP_RATE_LIMIT_PER_MIN', DEFAULT_RATE_LIMIT_PER_MIN),
+    // Stan limitu osobno dla każdego użytego tokenu (workspace'y mogą mieć własne)
+    rate_limits: Array.from(limiters.entries()).map(([token, limiter]) => ({
+      token: maskToken(token),
+      ...limiter.lastRateLimit,
+      resetAt: limiter.lastRateLimit.resetAt ? new Date(limiter.lastRateLimit.resetAt).toISOString() : null,
+      blocked_until: limiter.blockedUntil > now ? new Date(limiter.blockedUntil).toISOString() : null,
+      bucket_tokens: limiter.bucketTokens !== null ? Math.floor(limiter.bucketTokens) : null,
+    })),
+    endpoints,
+  };
+}
+
+export function resetClickUpMetrics() {
+  metrics.clear();
+}
+
+// ── Request ──────────────────────────────────────────────────────────
+
+export type ClickUpRequestOptions = {
+  method?: string;
+  body?: unknown;
+  query?: Record<string, string | number | boolean | undefined>;
+  // Domyślnie CLICKUP_API_TOKEN z konfiguracji
+  token?: string;
+  timeoutMs?: number;
+  maxRetries?: number;
+};
+
+export type ClickUpResponse<T> = {
+  ok: boolean;
+  status: number;
+  data: T | null;
+  text: string;
+};
+
+function buildUrl(path: string, query?: ClickUpRequestOptions['query']): string {
+  const url = `${getClickUpApiBase()}${path}`;
+  if (!query) return url;
+
+  const searchParams = new URLSearchParams();
+  for (const [key, value] of Object.entries(query)) {
+    if (value !== undefined) {
+      searchParams.set(key, String(value));
+    }
+  }
+  const qs = searchParams.toString();
+  return qs ? `${url}?${qs}` : url;
+}
+
+// 429 oznacza, że żądanie nie zostało wykonane — bezpiecznie ponowić każde.
+// 5xx i błędy sieci ponawiamy tylko dla metod idempotentnych (POST mógł już coś utworzyć).
+function isRetryable(method: string, status: number | null) {
+  if (status === 429) return true;
+  const idempotent = method === 'GET' || method === 'PUT' || method === 'DELETE';
+  return idempotent && (status === null || status >= 500);
+}
+
+/**
+ * Wywołanie ClickUp API przez limiter tokenu.
+ * Ponawia 429/5xx oraz błędy sieci/timeouty z backoffem; nie rzuca przy odpowiedziach 4xx —
+ * wywołujący decyduje, co zrobić ze statusem (patrz clickUpJson dla wersji rzucającej).
+ */
+export async function clickUpRequest<T = any>(
+  path: string,
+  options: ClickUpRequestOptions = {}
+): Promise<ClickUpResponse<T>> {
+  const token = options.token ?? getClickUpToken();
+  if (!token) {
+    throw new Error('Brak CLICKUP_API_TOKEN w .env');
+  }
+
+  const method = (options.method || 'GET').toUpperCase();
+  const url = buildUrl(path, options.query);
+  const timeoutMs = options.timeoutMs ?? getNumberConfig('CLICKUP_REQUEST_TIMEOUT_MS', DEFAULT_TIMEOUT_MS);
+  const maxRetries = options.maxRetries ?? DEFAULT_MAX_RETRIES;
+  const endpointMetrics = getEndpointMetrics(normalizeEndpoint(method, path));
+  const limiter = getLimiter(token);
+
+  for (let attempt = 0; ; attempt++) {
+    endpointMetrics.throttled_ms += await acquireToken(limiter);
+
+    const startedAt = Date.now();
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), timeoutMs);
+    let response: Response | null = null;
+    let text: string | null = null;
+
+    try {
+      response = await fetch(url, {
+        method,
+        headers: {
+          Authorization: token,
+          ...(options.body !== undefined ? { 'Content-Type': 'application/json' } : {}),
+        },
+        body: options.body !== undefined ? JSON.stringify(options.body) : undefined,
+        signal: controller.signal,
+      });
+      text = await response.text();
+
+      endpointMetrics.requests++;
+      endpointMetrics.total_ms += Date.now() - startedAt;
+      endpointMetrics.last_status = response.status;
+      endpointMetrics.last_at = new Date().toISOString();
+      updateRateLimitFromHeaders(limiter, response.headers);
+
+      if (response.status === 429) {
+        endpointMetrics.rate_limited++;
+      }
+
+      if (isRetryable(method, response.status) && attempt < maxRetries) {
+        const delayMs = getRetryDelayMs(response, attempt);
+        if (response.status === 429) {
+          limiter.blockedUntil = Math.max(limiter.blockedUntil, Date.now() + delayMs);
+        }
+        endpointMetrics.retries++;
+        console.warn(
+          `⏳ [ClickUp] ${method} ${path.split('?')[0]} → ${response.status}, ponawiam za ${Math.round(delayMs / 1000)}s (${attempt + 1}/${maxRetries})`
+        );
+        await sleep(delayMs);
+        continue;
+      }
+
+      if (!response.ok) {
+        endpointMetrics.errors++;
+        endpointMetrics.last_error = `HTTP ${response.status}: ${text.slice(0, 200)}`;
+      }
+
+      let data: T | null = null;
+      if (text) {
+        try {
+          data = JSON.parse(text) as T;
+        } catch {
+          if (response.ok) {
+            endpointMetrics.errors++;
+            endpointMetrics.last_error = 'Nieprawidłowy JSON w odpowiedzi';
+            throw new Error(`ClickUp API: nieprawidłowy JSON z ${method} ${path.split('?')[0]}`);
+          }
+        }
+      }
+
+      return { ok: response.ok, status: response.status, data, text };
+    } catch (error) {
+      if (text !== null) {
+        // Błąd po otrzymaniu odpowiedzi (np. nieprawidłowy JSON) — nie ponawiamy
+        throw error;
+      }
+
+      const isTimeout = controller.signal.aborted;
+      endpointMetrics.requests++;
+      endpointMetrics.errors++;
+      endpointMetrics.total_ms += Date.now() - startedAt;
+      endpointMetrics.last_status = null;
+      endpointMetrics.last_at = new Date().toISOString();
+      endpointMetrics.last_error = isTimeout
+        ? `Timeout po ${timeoutMs}ms`
+        : error instanceof Error ? error.message : String(error);
+      if (isTimeout) {
+        endpointMetrics.timeouts++;
+      }
+
+      if (isRetryable(method, null) && attempt < maxRetries) {
+        const delayMs = getRetryDelayMs(null, attempt);
+        endpointMetrics.retries++;
+        console.warn(
+          `⏳ [ClickUp] ${method} ${path.split('?')[0]} → ${endpointMetrics.last_error}, ponawiam za ${Math.round(delayMs / 1000)}s (${attempt + 1}/${maxRetries})`
+        );
+        await sleep(delayMs);
+        continue;
+      }
+
+      throw isTimeout ? new Error(`ClickUp API timeout (${timeoutMs}ms): ${method} ${path.split('?')[0]}`) : error;
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+}
+
+/**
+ * Jak clickUpRequest, ale rzuca przy statusie != 2xx (po wyczerpaniu ponowień).
+ */
+export async function clickUpJson<T = any>(path: string, options: ClickUpRequestOptions = {}): Promise<T> {
+  const response = await clickUpRequest<T>(path, options);
+  if (!response.ok) {
+    throw new Error(`ClickUp API error ${response.status}: ${response.text}`);
+  }
+  return (response.data ?? {}) as T;
+}
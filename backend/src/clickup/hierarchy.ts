@@ -0,0 +1,75 @@
+import { db, getHierarchyRows, upsertFolder, upsertList, upsertSpace } from '../database.js';
+import { fetchClickUpFolderlessLists, fetchClickUpFolders, fetchClickUpSpaces } from '../clickup.js';
+import { Workspace } from './workspaces.js';
+
+export type HierarchySyncResult = { spaces: number; folders: number; lists: number; archived: number };
+
+/**
+ * Pobiera drzewo space → folder → lista workspace'u i zapisuje je w tabelach hierarchii.
+ * Węzły, których ClickUp już nie zwraca (zarchiwizowane/usunięte), dostają archived = 1 —
+ * nie kasujemy ich, bo wskazują na nie stare wpisy czasu.
+ */
+export async function syncWorkspaceHierarchy(
+  workspace: Pick<Workspace, 'team_id' | 'api_token' | 'name'>,
+  onSpace?: (index: number, total: number) => void
+): Promise<HierarchySyncResult> {
+  const spaces = await fetchClickUpSpaces(workspace.team_id, workspace.api_token);
+  const seen = { spaces: new Set<string>(), folders: new Set<string>(), lists: new Set<string>() };
+
+  for (const [index, space] of spaces.entries()) {
+    upsertSpace({ id: space.id, name: space.name, teamId: workspace.team_id, archived: space.archived });
+    seen.spaces.add(space.id);
+
+    const folders = await fetchClickUpFolders(space.id, workspace.api_token);
+    for (const folder of folders) {
+      upsertFolder({ id: folder.id, name: folder.name, spaceId: space.id, archived: folder.archived });
+      seen.folders.add(folder.id);
+      for (const list of folder.lists) {
+        upsertList({ id: list.id, name: list.name, folderId: folder.id, spaceId: space.id, archived: list.archived });
+        seen.lists.add(list.id);
+      }
+    }
+
+    const folderless = await fetchClickUpFolderlessLists(space.id, workspace.api_token);
+    for (const list of folderless) {
+      upsertList({ id: list.id, name: list.name, folderId: null, spaceId: space.id, archived: list.archived });
+      seen.lists.add(list.id);
+    }
+
+    onSpace?.(index + 1, spaces.length);
+  }
+
+  const archived = archiveMissingNodes(workspace.team_id, seen);
+  console.log(
+    `🌳 Hierarchia ${workspace.name}: ${seen.spaces.size} space'ów, ${seen.folders.size} folderów, ` +
+      `${seen.lists.size} list${archived > 0 ? `, zarchiwizowano ${archived}` : ''}`
+  );
+
+  return { spaces: seen.spaces.size, folders: seen.folders.size, lists: seen.lists.size, archived };
+}
+
+function archiveMissingNodes(
+  teamId: string,
+  seen: { spaces: Set<string>; folders: Set<string>; lists: Set<string> }
+): number {
+  const { spaces, folders, lists } = getHierarchyRows(teamId);
+  const teamSpaceIds = new Set(spaces.map((s) => s.id));
+  let archived = 0;
+
+  db.transaction(() => {
+    const archive = (table: 'spaces' | 'folders' | 'lists', id: string) => {
+      archived += db.prepare(`UPDATE ${table} SET archived = 1 WHERE id = ? AND archived = 0`).run(id).changes;
+    };
+    for (const space of spaces) {
+      if (!seen.spaces.has(space.id)) archive('spaces', space.id);
+    }
+    for (const folder of folders) {
+      if (folder.space_id && teamSpaceIds.has(folder.space_id) && !seen.folders.has(folder.id)) archive('folders', folder.id);
+    }
+    for (const list of lists) {
+      if (list.space_id && teamSpaceIds.has(list.space_id) && !seen.lists.has(list.id)) archive('lists', list.id);
+    }
+  })();
+
+  return archived;
+}
@@ -0,0 +1,597 @@
+import {
+  db,
+  upsertTask,
+  upsertUser,
+  linkEntriesToTaskHierarchy,
+  createSyncRun,
+  finishSyncRun,
+  recordSyncChange,
+  setTimeEntryTags,
+  normalizeTag,
+  SyncRunStatus,
+} from '../database.js';
+import { getConfig } from '../config.js';
+import {
+  ClickUpTaskDetails,
+  ClickUpTimeEntry,
+  fetchClickUpTask,
+  fetchClickUpTeamMembers,
+  fetchClickUpTimeEntries,
+} from '../clickup.js';
+import { listActiveWorkspaces, Workspace } from './workspaces.js';
+import { syncWorkspaceHierarchy } from './hierarchy.js';
+import { MAX_IMPORT_ENTRIES_PER_USER } from '../constants.js';
+import { applyLongEntryPolicy } from '../forgottenTimers.js';
+
+// Domyślne parametry nocnej re-synchronizacji — nadpisywalne w panelu admina (getConfig)
+const DEFAULT_RESYNC_HOUR = 3;
+const DEFAULT_RESYNC_DAYS = 14;
+const DEFAULT_RESYNC_TIMEZONE = 'Europe/Warsaw';
+const RESYNC_CHECK_INTERVAL_MS = 10 * 60 * 1000;
+const RESYNC_PAGE_LIMIT = 100;
+
+// Wpis time entry w postaci zapisywanej do tabeli time_entries
+export type ImportedTimeEntry = {
+  id: string;
+  task_id: string;
+  task_name: string;
+  user_id: string;
+  user_name: string;
+  user_email: string | null;
+  start_time: string | null;
+  end_time: string | null;
+  duration: number;
+  billable: number;
+  description: string | null;
+  task_url: string | null;
+  list_name: string | null;
+  folder_name: string | null;
+  space_name: string | null;
+  list_id: string | null;
+  folder_id: string | null;
+  space_id: string | null;
+  team_id: string;
+  tags: string[];
+};
+
+export type TaskDetailsCache = Map<string, ClickUpTaskDetails | null>;
+
+/**
+ * Normalizuje wpis z ClickUp API do wiersza time_entries.
+ * Przy okazji zapisuje task (raz na task dzięki cache) i użytkownika.
+ * Zwraca null dla wpisów niekompletnych i pominiętych przez politykę długich wpisów (drop).
+ */
+export async function normalizeClickUpTimeEntry(
+  entry: ClickUpTimeEntry,
+  taskCache: TaskDetailsCache,
+  workspace: Pick<Workspace, 'team_id' | 'api_token'>
+): Promise<ImportedTimeEntry | null> {
+  const entryId = entry.id ? String(entry.id) : null;
+  const taskId = entry.task?.id || entry.task_id;
+  const user = entry.user;
+  const userId = user?.id ?? entry.user_id;
+
+  if (!entryId || !taskId || !userId) {
+    return null;
+  }
+
+  const startValue = Number(entry.start ?? (entry as any).start_time);
+  const endValue = Number(entry.end ?? (entry as any).end_time);
+  const rawDuration = Number(entry.duration ?? 0);
+
+  const startIso = Number.isFinite(startValue) ? new Date(startValue).toISOString() : null;
+  const endIso = Number.isFinite(endValue) ? new Date(endValue).toISOString() : null;
+
+  // Absurdalnie długi wpis (np. zostawiony timer na kilka dni): cap / drop / flag wg polityki workspace'u
+  const decision = Number.isFinite(rawDuration)
+    ? applyLongEntryPolicy({
+        id: entryId,
+        teamId: workspace.team_id,
+        userId: String(userId),
+        userName: user?.username || null,
+        taskId: String(taskId),
+        taskName: entry.task?.name || null,
+        startTime: startIso,
+        duration: rawDuration,
+        source: 'import',
+      })
+    : { store: true, duration: 0 };
+  if (!decision.store) {
+    return null;
+  }
+  const durationValue = decision.duration;
+
+  const taskIdStr = String(taskId);
+  let taskDetails = taskCache.get(taskIdStr);
+  if (!taskDetails) {
+    taskDetails = await fetchClickUpTask(taskIdStr, workspace.api_token);
+    taskCache.set(taskIdStr, taskDetails);
+    if (taskDetails) {
+      upsertTask({ ...taskDetails, teamId: workspace.team_id });
+      // Także starsze wpisy zadania spoza zakresu — po przeniesieniu bez webhooka
+      linkEntriesToTaskHierarchy(taskIdStr);
+    }
+  }
+
+  if (user?.id) {
+    upsertUser({
+      id: String(user.id),
+      username: user.username,
+      email: user.email,
+      color: user.color,
+      profilePicture: user.profilePicture || undefined,
+      teamId: workspace.team_id,
+    });
+  }
+
+  return {
+    id: entryId,
+    task_id: taskIdStr,
+    task_name: taskDetails?.name || entry.task?.name || `Zadanie ${taskIdStr}`,
+    user_id: String(userId),
+    user_name: user?.username || String(userId),
+    user_email: user?.email || null,
+    start_time: startIso,
+    end_time: endIso,
+    duration: Number.isFinite(durationValue) ? durationValue : 0,
+    billable: entry.billable ? 1 : 0,
+    description: entry.description || null,
+    task_url: taskDetails?.url || entry.task?.url || `https://app.clickup.com/t/${taskIdStr}`,
+    list_name: taskDetails?.list?.name || null,
+    folder_name: taskDetails?.folder?.name || null,
+    space_name: taskDetails?.space?.name || null,
+    list_id: taskDetails?.list?.id || null,
+    folder_id: taskDetails?.folder?.id || null,
+    space_id: taskDetails?.space?.id || null,
+    team_id: workspace.team_id,
+    tags: (entry.tags || []).map((tag) => normalizeTag(tag?.name || '')).filter(Boolean),
+  };
+}
+
+const insertEntrySql = `
+  INSERT INTO time_entries (
+    id, task_id, task_name, user_id, user_name, user_email,
+    start_time, end_time, duration, billable, description, task_url, list_name, folder_name, space_name,
+    list_id, folder_id, space_id, team_id
+  ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  ON CONFLICT(id) DO UPDATE SET
+    task_id = excluded.task_id,
+    task_name = excluded.task_name,
+    user_id = excluded.user_id,
+    user_name = excluded.user_name,
+    user_email = excluded.user_email,
+    start_time = excluded.start_time,
+    end_time = excluded.end_time,
+    duration = excluded.duration,
+    billable = excluded.billable,
+    description = excluded.description,
+    task_url = excluded.task_url,
+    list_name = excluded.list_name,
+    folder_name = excluded.folder_name,
+    space_name = excluded.space_name,
+    list_id = COALESCE(excluded.list_id, list_id),
+    folder_id = COALESCE(excluded.folder_id, folder_id),
+    space_id = COALESCE(excluded.space_id, space_id),
+    team_id = excluded.team_id,
+    deleted_at = NULL,
+    local_edit_at = NULL
+`;
+
+// Zapis paczki wpisów w jednej transakcji (wpis obecny w ClickUp = nieusunięty).
+// Tagi są nadpisywane — usunięcie tagu w ClickUp znika też u nas.
+export function upsertImportedTimeEntries(items: ImportedTimeEntry[]): void {
+  const insertEntry = db.prepare(insertEntrySql);
+  db.transaction(() => {
+    for (const item of items) {
+      insertEntry.run(
+        item.id,
+        item.task_id,
+        item.task_name,
+        item.user_id,
+        item.user_name,
+        item.user_email,
+        item.start_time,
+        item.end_time,
+        item.duration,
+        item.billable,
+        item.description,
+        item.task_url,
+        item.list_name,
+        item.folder_name,
+        item.space_name,
+        item.list_id,
+        item.folder_id,
+        item.space_id,
+        item.team_id
+      );
+      setTimeEntryTags(item.id, item.tags);
+    }
+  })();
+}
+
+/**
+ * Pobiera wszystkie strony wpisów jednego użytkownika i przekazuje je do onPage.
+ * truncated = paginacja przerwana (duplikaty / limit) — lista wpisów może być niepełna.
+ * startPage pozwala wznowić pobieranie od checkpointu zadania w tle.
+ */
+export async function forEachTimeEntryPage(
+  params: {
+    teamId: string;
+    token?: string | null;
+    startMs: number;
+    endMs: number;
+    limit: number;
+    assignee: string;
+    startPage?: number;
+  },
+  onPage: (entries: ClickUpTimeEntry[], page: number) => Promise<void>
+): Promise<{ pages: number; fetched: number; truncated: boolean }> {
+  let page = params.startPage ?? 0;
+  let fetched = 0;
+  const seenIds = new Set<string>();
+
+  while (true) {
+    const entries = await fetchClickUpTimeEntries({
+      teamId: params.teamId,
+      startMs: params.startMs,
+      endMs: params.endMs,
+      page,
+      limit: params.limit,
+      assignee: params.assignee,
+      includeLocationNames: true,
+      token: params.token,
+    });
+
+    if (entries.length === 0) {
+      if (page === 0) console.log(`      Brak wpisów`);
+      return { pages: page, fetched, truncated: false };
+    }
+
+    // Wykrywanie duplikatów — ClickUp API potrafi zwracać te same wpisy w kółko
+    let duplicates = 0;
+    for (const entry of entries) {
+      const eid = entry.id ? String(entry.id) : null;
+      if (eid && seenIds.has(eid)) {
+        duplicates++;
+      } else if (eid) {
+        seenIds.add(eid);
+      }
+    }
+    if (duplicates > entries.length / 2) {
+      console.log(`      ⚠️ Strona ${page + 1}: ${duplicates}/${entries.length} duplikatów — przerywam paginację`);
+      return { pages: page, fetched, truncated: true };
+    }
+
+    fetched += entries.length;
+    console.log(`      Strona ${page + 1}: ${entries.length} wpisów (łącznie: ${fetched})`);
+
+    // Safety limit per user — zabezpieczenie przed nieskończoną paginacją API
+    if (fetched >= MAX_IMPORT_ENTRIES_PER_USER) {
+      console.log(`      ⚠️ Osiągnięto limit ${MAX_IMPORT_ENTRIES_PER_USER} wpisów dla użytkownika ${params.assignee} — przerywam`);
+      return { pages: page + 1, fetched, truncated: true };
+    }
+
+    await onPage(entries, page);
+
+    if (entries.length < params.limit) {
+      return { pages: page + 1, fetched, truncated: false };
+    }
+    page += 1;
+  }
+}
+
+// ── Nocna re-synchronizacja ──────────────────────────────────────────
+
+// Pola porównywane z bazą — zmiana któregokolwiek trafia do raportu
+const TRACKED_ENTRY_FIELDS = ['task_id', 'duration', 'start_time', 'end_time', 'billable'] as const;
+
+type ExistingEntry = {
+  id: string;
+  task_id: string | null;
+  user_id: string | null;
+  duration: number | null;
+  start_time: string | null;
+  end_time: string | null;
+  billable: number | null;
+  deleted_at: string | null;
+};
+
+let runningSyncId: number | null = null;
+let schedulerTimer: NodeJS.Timeout | null = null;
+
+function getNumberConfig(key: string, fallback: number): number {
+  const value = parseInt(getConfig(key, String(fallback))!, 10);
+  return Number.isFinite(value) && value >= 0 ? value : fallback;
+}
+
+function toReportValue(value: string | number | null | undefined): string | null {
+  return value === null || value === undefined ? null : String(value);
+}
+
+export function getRunningSyncId(): number | null {
+  return runningSyncId;
+}
+
+/**
+ * Uruchamia re-synchronizację ostatnich `days` dni w tle i zwraca ID przebiegu.
+ * Rzuca błąd, jeśli poprzedni przebieg jeszcze trwa.
+ */
+export function startTimeEntriesResync(options: { trigger: 'scheduled' | 'manual'; days?: number }): number {
+  if (runningSyncId !== null) {
+    throw new Error(`Re-synchronizacja #${runningSyncId} jeszcze trwa`);
+  }
+
+  const days = options.days ?? getNumberConfig('RESYNC_DAYS', DEFAULT_RESYNC_DAYS);
+  if (!Number.isFinite(days) || days < 1 || days > 365) {
+    throw new Error('Liczba dni musi być z zakresu 1-365');
+  }
+
+  const end = new Date();
+  const start = new Date(end.getTime() - days * 24 * 60 * 60 * 1000);
+  const runId = createSyncRun(options.trigger, start.toISOString(), end.toISOString());
+  runningSyncId = runId;
+
+  executeResync(runId, start, end)
+    .catch((error) => {
+      console.error(`❌ [RESYNC] Przebieg #${runId} przerwany:`, error instanceof Error ? error.message : error);
+      finishSyncRun(runId, {
+        status: 'failed',
+        fetched: 0,
+        created: 0,
+        updated: 0,
+        deleted: 0,
+        skipped: 0,
+        error: error instanceof Error ? error.message : 'Nieznany błąd',
+      });
+    })
+    .finally(() => {
+      runningSyncId = null;
+    });
+
+  return runId;
+}
+
+async function executeResync(runId: number, start: Date, end: Date): Promise<void> {
+  const startIso = start.toISOString();
+  const endIso = end.toISOString();
+
+  console.log(`\n🔁 [RESYNC] Przebieg #${runId}: ${startIso.split('T')[0]} → ${endIso.split('T')[0]}`);
+
+  const counts = { fetched: 0, created: 0, updated: 0, deleted: 0, skipped: 0 };
+  const errors: string[] = [];
+  const taskCache: TaskDetailsCache = new Map();
+
+  for (const workspace of listActiveWorkspaces()) {
+    try {
+      await resyncWorkspace(runId, workspace, start, end, counts, errors, taskCache);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Nieznany błąd';
+      console.error(`   ❌ Workspace ${workspace.name}:`, message);
+      errors.push(`${workspace.name}: ${message}`);
+    }
+  }
+
+  const status: SyncRunStatus = errors.length > 0 ? 'failed' : 'success';
+  finishSyncRun(runId, { status, ...counts, error: errors.length > 0 ? errors.join('; ') : null });
+
+  console.log(
+    `${status === 'success' ? '✅' : '⚠️'} [RESYNC] Przebieg #${runId}: ` +
+      `nowe ${counts.created}, zmienione ${counts.updated}, usunięte ${counts.deleted}, pominięte ${counts.skipped}`
+  );
+}
+
+async function resyncWorkspace(
+  runId: number,
+  workspace: Workspace,
+  start: Date,
+  end: Date,
+  counts: { fetched: number; created: number; updated: number; deleted: number; skipped: number },
+  errors: string[],
+  taskCache: TaskDetailsCache
+): Promise<void> {
+  const teamId = workspace.team_id;
+  const startIso = start.toISOString();
+  const endIso = end.toISOString();
+
+  console.log(`   🏢 Workspace ${workspace.name} (${teamId})`);
+
+  // Nazwy space'ów/folderów/list — zmiana nazwy w ClickUp trafia do raportów bez przepisywania wpisów
+  try {
+    await syncWorkspaceHierarchy(workspace);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Nieznany błąd';
+    console.error(`   ❌ Hierarchia ${workspace.name}:`, message);
+    errors.push(`${workspace.name} (hierarchia): ${message}`);
+  }
+
+  const members = await fetchClickUpTeamMembers(teamId, workspace.api_token);
+  for (const member of members) {
+    upsertUser({
+      id: String(member.id),
+      username: member.username,
+      email: member.email,
+      color: member.color,
+      profilePicture: member.profilePicture || undefined,
+      teamId,
+    });
+  }
+
+  const getExisting = db.prepare(`
+    SELECT id, task_id, user_id, duration, start_time, end_time, billable, deleted_at
+    FROM time_entries WHERE id = ?
+  `);
+
+  for (const member of members) {
+    const userId = String(member.id);
+    const seen = new Set<string>();
+    console.log(`   👤 ${member.username} (${userId})`);
+
+    try {
+      const result = await forEachTimeEntryPage(
+        {
+          teamId,
+          token: workspace.api_token,
+          startMs: start.getTime(),
+          endMs: end.getTime(),
+          limit: RESYNC_PAGE_LIMIT,
+          assignee: userId,
+        },
+        async (entries) => {
+          const normalized: ImportedTimeEntry[] = [];
+
+          for (const entry of entries) {
+            if (entry.id) seen.add(String(entry.id));
+
+            const item = await normalizeClickUpTimeEntry(entry, taskCache, workspace);
+            // Aktywne timery obsługuje polling/webhook — tu tylko zakończone wpisy
+            if (!item || item.duration < 0 || !item.end_time) {
+              counts.skipped += 1;
+              continue;
+            }
+            normalized.push(item);
+          }
+
+          db.transaction(() => {
+            for (const item of normalized) {
+              const existing = getExisting.get(item.id) as ExistingEntry | undefined;
+
+              if (!existing) {
+                counts.created += 1;
+                recordSyncChange({ runId, entryId: item.id, change: 'created', userId: item.user_id, taskId: item.task_id });
+                continue;
+              }
+
+              let changed = false;
+              if (existing.deleted_at) {
+                changed = true;
+                recordSyncChange({
+                  runId,
+                  entryId: item.id,
+                  change: 'updated',
+                  field: 'deleted_at',
+                  oldValue: existing.deleted_at,
+                  newValue: null,
+                  userId: item.user_id,
+                  taskId: item.task_id,
+                });
+              }
+              for (const field of TRACKED_ENTRY_FIELDS) {
+                const oldValue = toReportValue(existing[field]);
+                const newValue = toReportValue(item[field]);
+                if (oldValue === newValue) continue;
+                changed = true;
+                recordSyncChange({
+                  runId,
+                  entryId: item.id,
+                  change: 'updated',
+                  field,
+                  oldValue,
+                  newValue,
+                  userId: item.user_id,
+                  taskId: item.task_id,
+                });
+              }
+              if (changed) counts.updated += 1;
+            }
+            upsertImportedTimeEntries(normalized);
+          })();
+        }
+      );
+
+      counts.fetched += result.fetched;
+
+      // Usunięcia wykrywamy tylko przy pełnej liście wpisów użytkownika
+      if (result.truncated) {
+        console.log(`      ⚠️ Lista niepełna — pomijam wykrywanie usunięć`);
+        continue;
+      }
+
+      const stored = db
+        .prepare(
+          `SELECT id, task_id, duration FROM time_entries
+           WHERE user_id = ? AND team_id = ? AND deleted_at IS NULL AND end_time IS NOT NULL
+             AND start_time >= ? AND start_time <= ?`
+        )
+        .all(userId, teamId, startIso, endIso) as Array<{ id: string; task_id: string | null; duration: number | null }>;
+
+      const removed = stored.filter((row) => !seen.has(row.id));
+      if (removed.length > 0) {
+        const markDeleted = db.prepare(`UPDATE time_entries SET deleted_at = datetime('now') WHERE id = ?`);
+        db.transaction(() => {
+          for (const row of removed) {
+            markDeleted.run(row.id);
+            recordSyncChange({
+              runId,
+              entryId: row.id,
+              change: 'deleted',
+              oldValue: toReportValue(row.duration),
+              userId,
+              taskId: row.task_id,
+            });
+          }
+        })();
+        counts.deleted += removed.length;
+        console.log(`      🗑️ Usunięte w ClickUp: ${removed.length}`);
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Nieznany błąd';
+      console.error(`      ❌ Błąd dla ${member.username}:`, message);
+      errors.push(`${member.username}: ${message}`);
+    }
+  }
+}
+
+// Data (YYYY-MM-DD) i godzina w strefie firmy
+function getZonedDateHour(date: Date, timeZone: string): { day: string; hour: number } {
+  try {
+    const parts = new Intl.DateTimeFormat('en-CA', {
+      timeZone,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: 'numeric',
+      hourCycle: 'h23',
+    }).formatToParts(date);
+    const get = (type: string) => parts.find((p) => p.type === type)?.value || '';
+    return { day: `${get('year')}-${get('month')}-${get('day')}`, hour: parseInt(get('hour'), 10) };
+  } catch {
+    return { day: date.toISOString().split('T')[0], hour: date.getHours() };
+  }
+}
+
+function checkSchedule() {
+  if (getConfig('RESYNC_ENABLED', 'true') === 'false' || runningSyncId !== null) {
+    return;
+  }
+
+  const timeZone = getConfig('RESYNC_TIMEZONE', DEFAULT_RESYNC_TIMEZONE)!;
+  const now = getZonedDateHour(new Date(), timeZone);
+  if (now.hour < getNumberConfig('RESYNC_HOUR', DEFAULT_RESYNC_HOUR)) {
+    return;
+  }
+
+  // Jeden zaplanowany przebieg na dobę — także po restarcie serwera
+  const last = db
+    .prepare(`SELECT started_at FROM sync_runs WHERE trigger = 'scheduled' ORDER BY id DESC LIMIT 1`)
+    .get() as { started_at: string } | undefined;
+  if (last && getZonedDateHour(new Date(last.started_at.replace(' ', 'T') + 'Z'), timeZone).day === now.day) {
+    return;
+  }
+
+  try {
+    startTimeEntriesResync({ trigger: 'scheduled' });
+  } catch (error) {
+    console.error('❌ [RESYNC] Nie udało się uruchomić:', error instanceof Error ? error.message : error);
+  }
+}
+
+export function startResyncScheduler() {
+  if (schedulerTimer) return;
+
+  console.log(
+    `🌙 Re-synchronizacja time entries: codziennie od ${getNumberConfig('RESYNC_HOUR', DEFAULT_RESYNC_HOUR)}:00, ` +
+      `ostatnie ${getNumberConfig('RESYNC_DAYS', DEFAULT_RESYNC_DAYS)} dni`
+  );
+  checkSchedule();
+  schedulerTimer = setInterval(checkSchedule, RESYNC_CHECK_INTERVAL_MS);
+}
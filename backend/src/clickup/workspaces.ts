@@ -0,0 +1,106 @@
+import { getConfig } from '../config.js';
+import { getClickUpTeamId, isClickUpTeamConfigured } from '../clickup.js';
+import { getClickUpToken } from './client.js';
+import { getWebhookTeamId, getWorkspaceRow, getWorkspaceRows, WorkspaceRow } from '../database.js';
+
+/**
+ * Workspace ClickUp widziany przez resztę backendu.
+ * Domyślny pochodzi z CLICKUP_TEAM_ID / CLICKUP_API_TOKEN / CLICKUP_WEBHOOK_SECRET,
+ * kolejne z tabeli workspaces. Brak tokenu/sekretu w wierszu = fallback na ustawienia globalne.
+ * Bez CLICKUP_TEAM_ID nie ma workspace'u domyślnego — działają tylko dodane w panelu.
+ */
+export type Workspace = {
+  team_id: string;
+  name: string;
+  api_token: string | null;
+  webhook_secret: string | null;
+  is_active: boolean;
+  is_default: boolean;
+};
+
+function fromRow(row: WorkspaceRow, isDefault: boolean): Workspace {
+  return {
+    team_id: row.team_id,
+    name: row.name,
+    api_token: row.api_token || getClickUpToken(),
+    webhook_secret: row.webhook_secret || getConfig('CLICKUP_WEBHOOK_SECRET') || null,
+    // Workspace'u domyślnego nie da się wyłączyć — to on obsługuje dane sprzed migracji
+    is_active: isDefault || row.is_active === 1,
+    is_default: isDefault,
+  };
+}
+
+function defaultWorkspace(): Workspace | null {
+  if (!isClickUpTeamConfigured()) {
+    return null;
+  }
+  const teamId = getClickUpTeamId();
+  const row = getWorkspaceRow(teamId);
+  if (row) {
+    return fromRow(row, true);
+  }
+  return {
+    team_id: teamId,
+    name: 'Domyślny',
+    api_token: getClickUpToken(),
+    webhook_secret: getConfig('CLICKUP_WEBHOOK_SECRET') || null,
+    is_active: true,
+    is_default: true,
+  };
+}
+
+// Rzuca błąd, gdy CLICKUP_TEAM_ID nie jest ustawiony — wywołujący nie ma innego źródła team_id
+export function getDefaultTeamId(): string {
+  return getClickUpTeamId();
+}
+
+export function isDefaultTeamId(teamId: string): boolean {
+  return isClickUpTeamConfigured() && teamId === getClickUpTeamId();
+}
+
+export function listWorkspaces(): Workspace[] {
+  const def = defaultWorkspace();
+  const others = getWorkspaceRows()
+    .filter((row) => row.team_id !== def?.team_id)
+    .map((row) => fromRow(row, false));
+  return def ? [def, ...others] : others;
+}
+
+export function listActiveWorkspaces(): Workspace[] {
+  return listWorkspaces().filter((w) => w.is_active);
+}
+
+export function getWorkspace(teamId: string | null | undefined): Workspace | null {
+  if (!teamId) return defaultWorkspace();
+  return listWorkspaces().find((w) => w.team_id === String(teamId)) ?? null;
+}
+
+/** Token do wywołań ClickUp dla danego workspace'u (nieznany workspace → token globalny). */
+export function getWorkspaceToken(teamId: string | null | undefined): string | null {
+  return getWorkspace(teamId)?.api_token ?? getClickUpToken();
+}
+
+/**
+ * Workspace, z którego przyszedł webhook: team_id z payloadu → workspace przypisany
+ * przy rejestracji webhooka → workspace domyślny.
+ */
+export function resolveWebhookTeamId(payload: { team_id?: unknown; webhook_id?: unknown }): string {
+  if (payload.team_id !== undefined && payload.team_id !== null && payload.team_id !== '') {
+    return String(payload.team_id);
+  }
+  if (typeof payload.webhook_id === 'string') {
+    const teamId = getWebhookTeamId(payload.webhook_id);
+    if (teamId) return teamId;
+  }
+  return getDefaultTeamId();
+}
+
+/**
+ * Filtr ?team_id= z query. undefined = bez filtra (wszystkie workspace'y),
+ * null = nieznany workspace (endpoint powinien zwrócić 400).
+ */
+export function parseTeamIdFilter(value: unknown): string | undefined | null {
+  if (value === undefined || value === '' || value === 'all') return undefined;
+  if (typeof value !== 'string') return null;
+  return listWorkspaces().some((w) => w.team_id === value) ? value : null;
+}
@@ -1,13 +1,149 @@
-// Maksymalny czas trwania pojedynczego wpisu: 12 godzin (w milisekundach).
-// Wpisy przekraczające ten limit są pomijane przy imporcie i filtrowane w zapytaniach.
+// Domyślny maksymalny czas trwania pojedynczego wpisu: 12 godzin (w milisekundach).
+// Początkowa wartość polityki 'default' w duration_policies (i fallback, gdy jej brak).
 // Zapobiega sytuacjom, gdy ktoś zapomni wyłączyć timer (np. 81h).
 export const MAX_ENTRY_DURATION_MS = 12 * 60 * 60 * 1000; // 12h = 43200000ms
 
+// Projekt zadania (alias t): pole własne ClickUp (CLICKUP_PROJECT_FIELD — ID listy albo nazwa projektu
+// z Notion) ma pierwszeństwo przed listą. Ustawione pole bez pasującego projektu = wpis niezmapowany.
+export const TASK_PROJECT_ID_SQL = `
+  CASE
+    WHEN t.project_field IS NOT NULL THEN COALESCE(
+      (SELECT fp.clickup_id FROM notion_projects fp WHERE fp.clickup_id = t.project_field LIMIT 1),
+      (SELECT fp.clickup_id FROM notion_projects fp
+       WHERE fp.clickup_id IS NOT NULL AND LOWER(fp.name) = LOWER(t.project_field)
+       LIMIT 1)
+    )
+    ELSE t.list_id
+  END`;
+
+// Polityka długości wpisu (tabela duration_policies): wpis → pracownik → projekt → domyślna.
+// column: 'max_duration' = limit wpisu, 'id' = która polityka go wyznacza.
+// entry: wyrażenia SQL dla ID wpisu, użytkownika i taska (kolumny te.* albo parametry ?).
+export function durationPolicySQL(
+  column: 'max_duration' | 'id',
+  entry: { id: string; userId: string; taskId: string }
+): string {
+  const lookup = (scope: string, target: string) =>
+    `(SELECT dp.${column} FROM duration_policies dp WHERE dp.scope = '${scope}' AND dp.target_id = ${target})`;
+  const projectId = `(SELECT ${TASK_PROJECT_ID_SQL} FROM tasks t WHERE t.id = ${entry.taskId})`;
+  return `COALESCE(
+    ${lookup('entry', entry.id)},
+    ${lookup('user', entry.userId)},
+    ${lookup('project', projectId)},
+    ${lookup('default', "''")}${column === 'max_duration' ? `,\n    ${MAX_ENTRY_DURATION_MS}` : ''}
+  )`;
+}
+
+const ENTRY_POLICY_COLUMNS = { id: 'te.id', userId: 'te.user_id', taskId: 'te.task_id' };
+
+// Limit czasu wpisu (alias te) według polityki
+export const ENTRY_MAX_DURATION_SQL = durationPolicySQL('max_duration', ENTRY_POLICY_COLUMNS);
+
+// ID polityki, która wyznacza limit wpisu (alias te) — raport wykluczonych wpisów w panelu admina
+export const ENTRY_DURATION_POLICY_ID_SQL = durationPolicySQL('id', ENTRY_POLICY_COLUMNS);
+
+// Warunek "wpis liczy się w statystykach" (alias te) — do CASE WHEN albo WHERE.
+export const WITHIN_DURATION_LIMIT_SQL = `te.duration > 0 AND te.duration <= ${ENTRY_MAX_DURATION_SQL}`;
+
 // Fragment SQL do filtrowania wpisów w zapytaniach.
-// Użycie: dodaj do WHERE clause w zapytaniach na time_entries.
-export const DURATION_FILTER_SQL = `AND te.duration > 0 AND te.duration <= ${MAX_ENTRY_DURATION_MS}`;
+// Użycie: dodaj do WHERE clause w zapytaniach na time_entries (alias te).
+export const DURATION_FILTER_SQL = `AND ${WITHIN_DURATION_LIMIT_SQL}`;
+
+// Fragment SQL wykluczający wpisy usunięte w ClickUp (soft-delete, kolumna deleted_at).
+export const NOT_DELETED_SQL = `AND te.deleted_at IS NULL`;
+
+// Wpisy oznaczone przez admina jako zdublowane (nakładające się na inny wpis) — pomijane w zarobkach.
+export const NOT_OVERLAP_EXCLUDED_SQL = `AND te.id NOT IN (SELECT entry_id FROM overlap_exclusions)`;
+
+// Początek historii stawek: pierwsza wersja stawki pracownika obowiązuje dla wszystkich wcześniejszych wpisów.
+export const RATE_HISTORY_START = '1970-01-01T00:00:00.000Z';
+
+// Dopisek do JOIN na wersje stawek pracownika (alias nw z worker_rates): wersja obowiązująca
+// w chwili startu wpisu (alias te). julianday — start_time bywa zapisany w różnych formatach.
+export const WORKER_RATE_IN_EFFECT_SQL = `AND julianday(te.start_time) >= julianday(nw.valid_from)
+      AND (nw.valid_to IS NULL OR julianday(te.start_time) < julianday(nw.valid_to))`;
+
+// Cennik projektu (stawka, budżet miesięczny) jest wersjonowany miesiącami ('YYYY-MM');
+// pierwsza wersja obowiązuje od początku historii.
+export const PRICING_HISTORY_START_MONTH = '1970-01';
+
+// Dopisek do JOIN na wersje cennika projektu (alias np z project_pricing): wersja obowiązująca
+// w miesiącu startu wpisu (alias te). valid_to — pierwszy miesiąc następnej wersji.
+export const PROJECT_PRICING_IN_EFFECT_SQL = `AND strftime('%Y-%m', te.start_time) >= np.valid_from
+      AND (np.valid_to IS NULL OR strftime('%Y-%m', te.start_time) < np.valid_to)`;
 
 // Maksymalna liczba wpisów do pobrania per użytkownik przy imporcie.
 // Zabezpieczenie przed nieskończoną paginacją ClickUp API (bug: API zwraca
 // pełne strony w kółko, nie kończąc się nigdy dla niektórych użytkowników).
 export const MAX_IMPORT_ENTRIES_PER_USER = 10_000;
+
+// Filtr ?tags=a,b — wpis ma przynajmniej jeden z tagów (tabela time_entry_tags).
+// Zwraca fragment WHERE (alias te) i parametry; pusta lista = bez filtra.
+export function buildTagFilterSQL(tags: string[]): { clause: string; params: string[] } {
+  if (tags.length === 0) {
+    return { clause: '', params: [] };
+  }
+  return {
+    clause: `AND te.id IN (SELECT entry_id FROM time_entry_tags WHERE tag IN (${tags.map(() => '?').join(', ')}))`,
+    params: tags,
+  };
+}
+
+// Parsuje ?tags= (lista po przecinku) do znormalizowanych nazw tagów
+export function parseTagsParam(value: unknown): string[] {
+  if (typeof value !== 'string') return [];
+  return [...new Set(value.split(',').map((tag) => tag.trim().toLowerCase()).filter(Boolean))];
+}
+
+// Aktualne nazwy listy/folderu/space'u z tabel hierarchii (fallback: nazwa skopiowana na wpis).
+// Użycie: HIERARCHY_JOIN_SQL po FROM time_entries te, HIERARCHY_NAMES_SQL w SELECT (po te.*).
+export const HIERARCHY_JOIN_SQL = `
+  LEFT JOIN lists hl ON hl.id = te.list_id
+  LEFT JOIN folders hf ON hf.id = te.folder_id
+  LEFT JOIN spaces hs ON hs.id = te.space_id`;
+
+export const HIERARCHY_NAMES_SQL = `
+  COALESCE(hl.name, te.list_name) as list_name,
+  COALESCE(hf.name, te.folder_name) as folder_name,
+  COALESCE(hs.name, te.space_name) as space_name`;
+
+// Filtr ?space_id= / ?folder_id= / ?list_id= (dowolny poziom hierarchii, alias te)
+export function buildHierarchyFilterSQL(query: Record<string, unknown>): { clause: string; params: string[] } {
+  const clauses: string[] = [];
+  const params: string[] = [];
+  for (const column of ['space_id', 'folder_id', 'list_id']) {
+    const value = query[column];
+    if (typeof value === 'string' && value !== '') {
+      clauses.push(`AND te.${column} = ?`);
+      params.push(value);
+    }
+  }
+  return { clause: clauses.join(' '), params };
+}
+
+// Maksymalna głębokość zagnieżdżenia subtasków przy zwijaniu (zabezpieczenie przed cyklem parent_id)
+export const MAX_SUBTASK_DEPTH = 10;
+
+// Zadanie najwyższego poziomu dla każdego taska (tasks.parent_id). Użycie:
+// WITH RECURSIVE ${TASK_ROOTS_CTE} ... LEFT JOIN task_roots tr ON tr.task_id = te.task_id,
+// a w SELECT / GROUP BY ${TASK_ROOT_ID_SQL} (wpisy bez taska w tabeli tasks zostają przy swoim task_id).
+export const TASK_ROOTS_CTE = `
+  task_chain(task_id, ancestor_id, parent_id, depth) AS (
+    SELECT id, id, parent_id, 0 FROM tasks
+    UNION ALL
+    SELECT c.task_id, p.id, p.parent_id, c.depth + 1
+    FROM task_chain c
+    JOIN tasks p ON p.id = c.parent_id
+    WHERE c.depth < ${MAX_SUBTASK_DEPTH}
+  ),
+  task_roots(task_id, root_id) AS (
+    SELECT task_id, ancestor_id FROM task_chain
+    WHERE parent_id IS NULL OR parent_id NOT IN (SELECT id FROM tasks) OR depth = ${MAX_SUBTASK_DEPTH}
+  )`;
+
+export const TASK_ROOT_ID_SQL = `COALESCE(tr.root_id, te.task_id)`;
+
+// ?rollup=1 — czas subtasków liczony pod zadaniem najwyższego poziomu
+export function parseRollupParam(value: unknown): boolean {
+  return value === '1' || value === 'true';
+}
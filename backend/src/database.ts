@@ -5,6 +5,13 @@ import fs from 'fs';
 import crypto from 'crypto';
 import { hashPassword } from './auth/password.js';
 import { AppUser, AppUserPublic } from './types/auth.js';
+import {
+  MAX_ENTRY_DURATION_MS,
+  MAX_SUBTASK_DEPTH,
+  PRICING_HISTORY_START_MONTH,
+  RATE_HISTORY_START,
+  durationPolicySQL,
+} from './constants.js';
 
 const __dirname = path.dirname(fileURLToPath(import.meta.url));
 const dbPath = process.env.DB_PATH || path.join(__dirname, '..', 'data', 'activity.db');
@@ -74,6 +81,12 @@ export async function initDatabase() {
   db.prepare(`CREATE INDEX IF NOT EXISTS idx_time_entries_start ON time_entries(start_time)`).run();
   db.prepare(`CREATE INDEX IF NOT EXISTS idx_time_entries_end ON time_entries(end_time)`).run();
 
+  // Migracja: soft-delete wpisów usuniętych w ClickUp (webhook z after === null)
+  const timeEntryCols = db.prepare(`PRAGMA table_info(time_entries)`).all() as Array<{ name: string }>;
+  if (!timeEntryCols.some((c) => c.name === 'deleted_at')) {
+    db.prepare(`ALTER TABLE time_entries ADD COLUMN deleted_at DATETIME`).run();
+  }
+
   // Tabela użytkowników aplikacji (auth)
   db.prepare(`
     CREATE TABLE IF NOT EXISTS app_users (
@@ -146,6 +159,434 @@ export async function initDatabase() {
     )
   `).run();
 
+  // Sekrety webhooków ClickUp per webhook_id — kilka zarejestrowanych webhooków może działać równolegle.
+  // Gdy brak wpisu dla webhook_id, weryfikacja używa CLICKUP_WEBHOOK_SECRET z getConfig.
+  db.prepare(`
+    CREATE TABLE IF NOT EXISTS webhook_secrets (
+      webhook_id TEXT PRIMARY KEY,
+      secret TEXT NOT NULL,
+      description TEXT,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    )
+  `).run();
+
+  // Log odrzuconych webhooków (zła sygnatura, replay, przeterminowany timestamp)
+  db.prepare(`
+    CREATE TABLE IF NOT EXISTS webhook_rejections (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      webhook_id TEXT,
+      event TEXT,
+      reason TEXT NOT NULL,
+      remote_ip TEXT,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    )
+  `).run();
+
+  db.prepare(`CREATE INDEX IF NOT EXISTS idx_webhook_rejections_created ON webhook_rejections(created_at)`).run();
+
+  // Dziennik przyjętych webhooków — surowy payload + status przetwarzania (do replay z panelu admina)
+  db.prepare(`
+    CREATE TABLE IF NOT EXISTS webhook_events (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      webhook_id TEXT,
+      event TEXT,
+      task_id TEXT,
+      raw_body TEXT NOT NULL,
+      status TEXT DEFAULT 'pending' CHECK(status IN ('pending', 'processed', 'ignored', 'failed')),
+      error TEXT,
+      attempts INTEGER DEFAULT 0,
+      received_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      processed_at DATETIME
+    )
+  `).run();
+
+  db.prepare(`CREATE INDEX IF NOT EXISTS idx_webhook_events_status ON webhook_events(status)`).run();
+  db.prepare(`CREATE INDEX IF NOT EXISTS idx_webhook_events_received ON webhook_events(received_at)`).run();
+  db.prepare(`CREATE INDEX IF NOT EXISTS idx_webhook_events_task ON webhook_events(task_id)`).run();
+
+  // Migracja: klucz dostawy (webhook_id + ID history_items) — ponowienie tej samej dostawy przez ClickUp
+  // nie tworzy nowego wiersza w dzienniku i nie jest przetwarzane drugi raz
+  const webhookEventCols = db.prepare('PRAGMA table_info(webhook_events)').all() as Array<{ name: string }>;
+  if (!webhookEventCols.some((c) => c.name === 'delivery_key')) {
+    db.prepare('ALTER TABLE webhook_events ADD COLUMN delivery_key TEXT').run();
+  }
+  db.prepare(`CREATE UNIQUE INDEX IF NOT EXISTS idx_webhook_events_delivery ON webhook_events(delivery_key)`).run();
+
+  // Migracja: soft-delete zadań usuniętych w ClickUp (webhook taskDeleted)
+  const taskCols = db.prepare(`PRAGMA table_info(tasks)`).all() as Array<{ name: string }>;
+  if (!taskCols.some((c) => c.name === 'deleted_at')) {
+    db.prepare(`ALTER TABLE tasks ADD COLUMN deleted_at DATETIME`).run();
+  }
+
+  // Historia zmian zadań (przeniesienie do innej listy, zmiana nazwy/statusu, usunięcie).
+  // Przeniesienie zmienia atrybucję przychodu (tasks.list_id → notion_projects.clickup_id).
+  db.prepare(`
+    CREATE TABLE IF NOT EXISTS task_history (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      task_id TEXT NOT NULL,
+      event TEXT NOT NULL,
+      field TEXT NOT NULL,
+      old_value TEXT,
+      new_value TEXT,
+      old_label TEXT,
+      new_label TEXT,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    )
+  `).run();
+
+  db.prepare(`CREATE INDEX IF NOT EXISTS idx_task_history_task ON task_history(task_id)`).run();
+  db.prepare(`CREATE INDEX IF NOT EXISTS idx_task_history_created ON task_history(created_at)`).run();
+
+  // Raporty nocnej re-synchronizacji time entries (zmiany w ClickUp, które nie przyszły webhookiem)
+  db.prepare(`
+    CREATE TABLE IF NOT EXISTS sync_runs (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      trigger TEXT NOT NULL,
+      status TEXT NOT NULL DEFAULT 'running',
+      window_start DATETIME NOT NULL,
+      window_end DATETIME NOT NULL,
+      fetched INTEGER NOT NULL DEFAULT 0,
+      created INTEGER NOT NULL DEFAULT 0,
+      updated INTEGER NOT NULL DEFAULT 0,
+      deleted INTEGER NOT NULL DEFAULT 0,
+      skipped INTEGER NOT NULL DEFAULT 0,
+      error TEXT,
+      started_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      finished_at DATETIME
+    )
+  `).run();
+
+  db.prepare(`
+    CREATE TABLE IF NOT EXISTS sync_changes (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      run_id INTEGER NOT NULL,
+      entry_id TEXT NOT NULL,
+      change TEXT NOT NULL,
+      field TEXT,
+      old_value TEXT,
+      new_value TEXT,
+      user_id TEXT,
+      task_id TEXT,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    )
+  `).run();
+
+  db.prepare(`CREATE INDEX IF NOT EXISTS idx_sync_changes_run ON sync_changes(run_id)`).run();
+  db.prepare(`CREATE INDEX IF NOT EXISTS idx_sync_changes_entry ON sync_changes(entry_id)`).run();
+
+  // Zadania w tle (import, backfill, sync Notion, naprawy) — postęp, anulowanie, checkpointy
+  db.prepare(`
+    CREATE TABLE IF NOT EXISTS jobs (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      type TEXT NOT NULL,
+      status TEXT NOT NULL DEFAULT 'queued',
+      params TEXT,
+      progress TEXT,
+      checkpoint TEXT,
+      result TEXT,
+      error TEXT,
+      cancel_requested INTEGER NOT NULL DEFAULT 0,
+      attempts INTEGER NOT NULL DEFAULT 0,
+      created_by INTEGER,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      started_at DATETIME,
+      finished_at DATETIME,
+      updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    )
+  `).run();
+
+  db.prepare(`CREATE INDEX IF NOT EXISTS idx_jobs_status ON jobs(status)`).run();
+
+  // Raport uzgodnienia z ClickUp (zadanie reconcile_time_entries): dni użytkownika z rozbieżnościami.
+  // missing/extra/changed_ids = JSON z ID wpisów (brak u nas / brak w ClickUp / inny czas trwania lub start)
+  db.prepare(`
+    CREATE TABLE IF NOT EXISTS reconcile_days (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      job_id INTEGER NOT NULL,
+      team_id TEXT NOT NULL,
+      user_id TEXT NOT NULL,
+      user_name TEXT,
+      day TEXT NOT NULL,
+      clickup_duration INTEGER NOT NULL DEFAULT 0,
+      local_duration INTEGER NOT NULL DEFAULT 0,
+      clickup_count INTEGER NOT NULL DEFAULT 0,
+      local_count INTEGER NOT NULL DEFAULT 0,
+      missing_ids TEXT NOT NULL DEFAULT '[]',
+      extra_ids TEXT NOT NULL DEFAULT '[]',
+      changed_ids TEXT NOT NULL DEFAULT '[]',
+      reimport_job_id INTEGER,
+      reimported_at DATETIME,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    )
+  `).run();
+
+  db.prepare(`CREATE INDEX IF NOT EXISTS idx_reconcile_days_job ON reconcile_days(job_id)`).run();
+
+  // Zadanie przerwane restartem wraca do kolejki — wznowi się od ostatniego checkpointu
+  db.prepare(`UPDATE jobs SET status = 'queued', updated_at = CURRENT_TIMESTAMP WHERE status = 'running'`).run();
+
+  // Przebieg przerwany restartem serwera nigdy się nie zakończy — oznacz jako błąd
+  db.prepare(`
+    UPDATE sync_runs SET status = 'failed', error = 'Przerwany restartem serwera', finished_at = CURRENT_TIMESTAMP
+    WHERE status = 'running'
+  `).run();
+
+  // Workspace'y ClickUp (druga firma / siostrzana agencja) — token i sekret webhooków per workspace.
+  // Workspace domyślny pochodzi z CLICKUP_TEAM_ID; wiersz z tym samym team_id nadpisuje jego nazwę/token.
+  db.prepare(`
+    CREATE TABLE IF NOT EXISTS workspaces (
+      team_id TEXT PRIMARY KEY,
+      name TEXT NOT NULL,
+      api_token TEXT,
+      webhook_secret TEXT,
+      is_active INTEGER NOT NULL DEFAULT 1,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    )
+  `).run();
+
+  // Migracja: team_id na danych z ClickUp. Istniejące wiersze należą do workspace'u domyślnego —
+  // bez CLICKUP_TEAM_ID nie ma do kogo ich przypisać, więc start przerywamy zamiast zgadywać.
+  const defaultTeamId = getSetting('CLICKUP_TEAM_ID') ?? process.env.CLICKUP_TEAM_ID ?? null;
+  for (const table of ['time_entries', 'tasks', 'users', 'webhook_secrets']) {
+    const cols = db.prepare(`PRAGMA table_info(${table})`).all() as Array<{ name: string }>;
+    if (!cols.some((c) => c.name === 'team_id')) {
+      const { count } = db.prepare(`SELECT COUNT(*) as count FROM ${table}`).get() as { count: number };
+      if (table !== 'webhook_secrets' && count > 0 && !defaultTeamId) {
+        throw new Error(`Migracja team_id (${table}): ustaw CLICKUP_TEAM_ID workspace'u, z którego pochodzą dane`);
+      }
+      db.prepare(`ALTER TABLE ${table} ADD COLUMN team_id TEXT`).run();
+      if (table !== 'webhook_secrets' && count > 0) {
+        db.prepare(`UPDATE ${table} SET team_id = ? WHERE team_id IS NULL`).run(defaultTeamId);
+      }
+    }
+  }
+  db.prepare(`CREATE INDEX IF NOT EXISTS idx_time_entries_team ON time_entries(team_id)`).run();
+
+  // Tagi wpisów czasu z ClickUp (np. "meeting", "bugfix", "nieplatne") — wiele na wpis
+  db.prepare(`
+    CREATE TABLE IF NOT EXISTS time_entry_tags (
+      entry_id TEXT NOT NULL,
+      tag TEXT NOT NULL,
+      PRIMARY KEY (entry_id, tag)
+    )
+  `).run();
+  db.prepare(`CREATE INDEX IF NOT EXISTS idx_time_entry_tags_tag ON time_entry_tags(tag)`).run();
+
+  // Hierarchia ClickUp (space → folder → lista). Nazwy żyją tylko tutaj — zmiana nazwy listy
+  // w ClickUp nie wymaga przepisywania wpisów. Folder może nie istnieć (listy bez folderu).
+  db.prepare(`
+    CREATE TABLE IF NOT EXISTS spaces (
+      id TEXT PRIMARY KEY,
+      team_id TEXT,
+      name TEXT NOT NULL,
+      archived INTEGER NOT NULL DEFAULT 0,
+      synced_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    )
+  `).run();
+
+  db.prepare(`
+    CREATE TABLE IF NOT EXISTS folders (
+      id TEXT PRIMARY KEY,
+      space_id TEXT,
+      name TEXT NOT NULL,
+      archived INTEGER NOT NULL DEFAULT 0,
+      synced_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    )
+  `).run();
+
+  db.prepare(`
+    CREATE TABLE IF NOT EXISTS lists (
+      id TEXT PRIMARY KEY,
+      folder_id TEXT,
+      space_id TEXT,
+      name TEXT NOT NULL,
+      archived INTEGER NOT NULL DEFAULT 0,
+      synced_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    )
+  `).run();
+
+  // Migracja: wpisy wskazują na listę/folder/space po ID (nazwy dołączane z tabel hierarchii)
+  const entryCols = db.prepare('PRAGMA table_info(time_entries)').all() as Array<{ name: string }>;
+  if (!entryCols.some((c) => c.name === 'list_id')) {
+    db.prepare('ALTER TABLE time_entries ADD COLUMN list_id TEXT').run();
+    db.prepare('ALTER TABLE time_entries ADD COLUMN folder_id TEXT').run();
+    db.prepare('ALTER TABLE time_entries ADD COLUMN space_id TEXT').run();
+    db.prepare(`
+      UPDATE time_entries
+      SET list_id = (SELECT t.list_id FROM tasks t WHERE t.id = time_entries.task_id),
+          folder_id = (SELECT t.folder_id FROM tasks t WHERE t.id = time_entries.task_id),
+          space_id = (SELECT t.space_id FROM tasks t WHERE t.id = time_entries.task_id)
+    `).run();
+
+    // Startowa hierarchia z tego, co już wiemy o taskach — pełną uzupełni synchronizacja z ClickUp
+    db.prepare(`
+      INSERT OR IGNORE INTO spaces (id, team_id, name)
+      SELECT space_id, MAX(team_id), MAX(space_name) FROM tasks
+      WHERE space_id IS NOT NULL AND space_name IS NOT NULL GROUP BY space_id
+    `).run();
+    db.prepare(`
+      INSERT OR IGNORE INTO folders (id, space_id, name)
+      SELECT folder_id, MAX(space_id), MAX(folder_name) FROM tasks
+      WHERE folder_id IS NOT NULL AND folder_name IS NOT NULL GROUP BY folder_id
+    `).run();
+    db.prepare(`
+      INSERT OR IGNORE INTO lists (id, folder_id, space_id, name)
+      SELECT list_id, MAX(folder_id), MAX(space_id), MAX(list_name) FROM tasks
+      WHERE list_id IS NOT NULL AND list_name IS NOT NULL GROUP BY list_id
+    `).run();
+  }
+  db.prepare(`CREATE INDEX IF NOT EXISTS idx_time_entries_list ON time_entries(list_id)`).run();
+  db.prepare(`CREATE INDEX IF NOT EXISTS idx_time_entries_folder ON time_entries(folder_id)`).run();
+  db.prepare(`CREATE INDEX IF NOT EXISTS idx_time_entries_space ON time_entries(space_id)`).run();
+
+  // Migracja: estymata (ms), termin, przypisani (JSON [{id, username}]) i task nadrzędny z ClickUp
+  const taskEstimateCols = db.prepare('PRAGMA table_info(tasks)').all() as Array<{ name: string }>;
+  if (!taskEstimateCols.some((c) => c.name === 'time_estimate')) {
+    db.prepare('ALTER TABLE tasks ADD COLUMN time_estimate INTEGER').run();
+    db.prepare('ALTER TABLE tasks ADD COLUMN due_date DATETIME').run();
+    db.prepare('ALTER TABLE tasks ADD COLUMN assignees TEXT').run();
+    db.prepare('ALTER TABLE tasks ADD COLUMN parent_id TEXT').run();
+  }
+
+  // Migracja: wartość pola własnego ClickUp z projektem (CLICKUP_PROJECT_FIELD)
+  if (!taskEstimateCols.some((c) => c.name === 'project_field')) {
+    db.prepare('ALTER TABLE tasks ADD COLUMN project_field TEXT').run();
+  }
+
+  // Migracja: wpis zmieniony z aplikacji (zapis do ClickUp), czeka na potwierdzenie webhookiem / re-synchronizacją
+  if (!timeEntryCols.some((c) => c.name === 'local_edit_at')) {
+    db.prepare('ALTER TABLE time_entries ADD COLUMN local_edit_at DATETIME').run();
+  }
+
+  // Migracja: polityka dla wpisów dłuższych niż ich limit (duration_policies) per workspace (NULL = LONG_ENTRY_POLICY)
+  const workspaceCols = db.prepare('PRAGMA table_info(workspaces)').all() as Array<{ name: string }>;
+  if (!workspaceCols.some((c) => c.name === 'long_entry_policy')) {
+    db.prepare('ALTER TABLE workspaces ADD COLUMN long_entry_policy TEXT').run();
+  }
+
+  // Wpisy dłuższe niż limit: co zrobiła z nimi polityka (capped / dropped) i kolejka do przejrzenia (pending).
+  // resolved_duration = czas ustalony przez admina — re-synchronizacja go nie nadpisze.
+  db.prepare(`
+    CREATE TABLE IF NOT EXISTS long_entry_reviews (
+      entry_id TEXT PRIMARY KEY,
+      team_id TEXT,
+      user_id TEXT,
+      user_name TEXT,
+      task_id TEXT,
+      task_name TEXT,
+      start_time DATETIME,
+      raw_duration INTEGER NOT NULL,
+      max_duration INTEGER NOT NULL,
+      source TEXT NOT NULL,
+      status TEXT NOT NULL,
+      resolved_duration INTEGER,
+      resolved_by INTEGER,
+      resolved_at DATETIME,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    )
+  `).run();
+  db.prepare(`CREATE INDEX IF NOT EXISTS idx_long_entry_reviews_status ON long_entry_reviews(status)`).run();
+
+  // Alerty o zapomnianych timerach — jeden na wpis i rodzaj progu
+  db.prepare(`
+    CREATE TABLE IF NOT EXISTS timer_alerts (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      entry_id TEXT NOT NULL,
+      kind TEXT NOT NULL,
+      team_id TEXT,
+      user_id TEXT,
+      user_name TEXT,
+      task_id TEXT,
+      task_name TEXT,
+      start_time DATETIME,
+      message TEXT NOT NULL,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      UNIQUE(entry_id, kind)
+    )
+  `).run();
+
+  // Limity długości wpisu: domyślny (target_id '') i nadpisania per pracownik (ID ClickUp),
+  // projekt (clickup_id projektu) i wpis. Wpis dłuższy niż jego limit nie liczy się w statystykach.
+  db.prepare(`
+    CREATE TABLE IF NOT EXISTS duration_policies (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      scope TEXT NOT NULL,
+      target_id TEXT NOT NULL DEFAULT '',
+      max_duration INTEGER NOT NULL,
+      note TEXT,
+      updated_by INTEGER,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      UNIQUE(scope, target_id)
+    )
+  `).run();
+  db.prepare(`
+    INSERT OR IGNORE INTO duration_policies (scope, target_id, max_duration, note)
+    VALUES ('default', '', ?, 'Domyślny limit')
+  `).run(MAX_ENTRY_DURATION_MS);
+
+  // Nakładające się wpisy: strona wykluczona przez admina z zarobków (druga zostaje)
+  db.prepare(`
+    CREATE TABLE IF NOT EXISTS overlap_exclusions (
+      entry_id TEXT PRIMARY KEY,
+      user_id TEXT,
+      overlaps_with TEXT,
+      excluded_by INTEGER,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    )
+  `).run();
+
+  // Historia stawek pracowników — notion_workers trzyma tylko bieżącą stawkę z Notion.
+  // Koszt wpisu liczony stawką obowiązującą w chwili jego startu; valid_to NULL = wersja bieżąca.
+  db.prepare(`
+    CREATE TABLE IF NOT EXISTS worker_rates (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      clickup_user_id TEXT NOT NULL,
+      hourly_rate REAL NOT NULL DEFAULT 0,
+      valid_from TEXT NOT NULL,
+      valid_to TEXT,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    )
+  `).run();
+  db.prepare(`CREATE INDEX IF NOT EXISTS idx_worker_rates_user ON worker_rates(clickup_user_id, valid_from)`).run();
+  // Migracja: pracownicy bez historii dostają bieżącą stawkę od początku (tak liczyły się dotąd wszystkie miesiące)
+  recordWorkerRates();
+
+  // Wersje cennika projektu (stawka godzinowa, budżet miesięczny) — miesiące 'YYYY-MM', valid_to
+  // to pierwszy miesiąc następnej wersji (NULL = bieżąca). Źródło: synchronizacja Notion albo admin.
+  db.prepare(`
+    CREATE TABLE IF NOT EXISTS project_pricing (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      clickup_id TEXT NOT NULL,
+      hourly_rate REAL NOT NULL DEFAULT 0,
+      monthly_budget REAL NOT NULL DEFAULT 0,
+      valid_from TEXT NOT NULL,
+      valid_to TEXT,
+      source TEXT NOT NULL DEFAULT 'notion',
+      updated_by INTEGER,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      UNIQUE(clickup_id, valid_from)
+    )
+  `).run();
+  // Migracja: projekty bez historii dostają bieżący cennik z Notion od początku
+  recordProjectPricing();
+
+  // Osobiste tokeny ClickUp (start/stop timera z dashboardu) — token zespołu nie działa w imieniu innych.
+  // Osobna tabela, żeby token nie trafiał do SELECT * z app_users.
+  db.prepare(`
+    CREATE TABLE IF NOT EXISTS app_user_clickup_tokens (
+      app_user_id INTEGER PRIMARY KEY,
+      api_token TEXT NOT NULL,
+      clickup_user_id TEXT NOT NULL,
+      clickup_username TEXT,
+      updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    )
+  `).run();
+
   // Seed admin user jeśli nie istnieje
   await seedAdminUser();
 
@@ -308,18 +749,21 @@ export function upsertUser(user: {
   email?: string;
   color?: string;
   profilePicture?: string;
+  teamId?: string;
 }) {
+  // team_id = workspace, w którym użytkownik pojawił się pierwszy raz (ID użytkowników ClickUp są globalne)
   const stmt = db.prepare(`
-    INSERT INTO users (id, username, email, color, profile_picture, updated_at)
-    VALUES (?, ?, ?, ?, ?, CURRENT_TIMESTAMP)
+    INSERT INTO users (id, username, email, color, profile_picture, team_id, updated_at)
+    VALUES (?, ?, ?, ?, ?, ?, CURRENT_TIMESTAMP)
     ON CONFLICT(id) DO UPDATE SET
       username = COALESCE(excluded.username, username),
       email = COALESCE(excluded.email, email),
       color = COALESCE(excluded.color, color),
       profile_picture = COALESCE(excluded.profile_picture, profile_picture),
+      team_id = COALESCE(team_id, excluded.team_id),
       updated_at = CURRENT_TIMESTAMP
   `);
-  stmt.run(user.id, user.username, user.email, user.color, user.profilePicture);
+  stmt.run(user.id, user.username, user.email, user.color, user.profilePicture, user.teamId ?? null);
 }
 
 // ── app_settings CRUD ────────────────────────────────────────────────
@@ -356,6 +800,193 @@ export function getAllSettings(): AppSetting[] {
   return db.prepare('SELECT key, value, description, is_secret, updated_at FROM app_settings ORDER BY key').all() as AppSetting[];
 }
 
+// ── webhook_secrets / webhook_rejections ─────────────────────────────
+export type WebhookSecret = {
+  webhook_id: string;
+  secret: string;
+  description: string | null;
+  team_id: string | null;
+  created_at: string;
+  updated_at: string;
+};
+
+export function getWebhookSecret(webhookId: string): string | null {
+  const row = db.prepare('SELECT secret FROM webhook_secrets WHERE webhook_id = ?').get(webhookId) as
+    | { secret: string }
+    | undefined;
+  return row?.secret ?? null;
+}
+
+export function getWebhookTeamId(webhookId: string): string | null {
+  const row = db.prepare('SELECT team_id FROM webhook_secrets WHERE webhook_id = ?').get(webhookId) as
+    | { team_id: string | null }
+    | undefined;
+  return row?.team_id ?? null;
+}
+
+export function getAllWebhookSecrets(): WebhookSecret[] {
+  return db.prepare('SELECT * FROM webhook_secrets ORDER BY created_at').all() as WebhookSecret[];
+}
+
+export function setWebhookSecret(
+  webhookId: string,
+  secret: string,
+  description?: string | null,
+  teamId?: string | null
+): void {
+  db.prepare(`
+    INSERT INTO webhook_secrets (webhook_id, secret, description, team_id, updated_at)
+    VALUES (?, ?, ?, ?, CURRENT_TIMESTAMP)
+    ON CONFLICT(webhook_id) DO UPDATE SET
+      secret = excluded.secret,
+      description = COALESCE(excluded.description, description),
+      team_id = COALESCE(excluded.team_id, team_id),
+      updated_at = CURRENT_TIMESTAMP
+  `).run(webhookId, secret, description ?? null, teamId ?? null);
+}
+
+export function deleteWebhookSecret(webhookId: string): boolean {
+  return db.prepare('DELETE FROM webhook_secrets WHERE webhook_id = ?').run(webhookId).changes > 0;
+}
+
+// Odrzucenia starsze niż okno retencji są usuwane przy zapisie kolejnego (tabela nie rośnie bez końca)
+export const WEBHOOK_REJECTIONS_RETENTION_DAYS = 30;
+
+export function recordWebhookRejection(rejection: {
+  webhookId?: string | null;
+  event?: string | null;
+  reason: string;
+  remoteIp?: string | null;
+}): void {
+  db.prepare(`
+    INSERT INTO webhook_rejections (webhook_id, event, reason, remote_ip)
+    VALUES (?, ?, ?, ?)
+  `).run(rejection.webhookId ?? null, rejection.event ?? null, rejection.reason, rejection.remoteIp ?? null);
+  db.prepare(`DELETE FROM webhook_rejections WHERE created_at < datetime('now', ?)`).run(
+    `-${WEBHOOK_REJECTIONS_RETENTION_DAYS} days`
+  );
+}
+
+// ── webhook_events (dziennik) ────────────────────────────────────────
+export type WebhookEventStatus = 'pending' | 'processed' | 'ignored' | 'failed';
+
+export type WebhookEventRow = {
+  id: number;
+  webhook_id: string | null;
+  event: string | null;
+  task_id: string | null;
+  raw_body: string;
+  delivery_key: string | null;
+  status: WebhookEventStatus;
+  error: string | null;
+  attempts: number;
+  received_at: string;
+  processed_at: string | null;
+};
+
+/**
+ * Zapisuje webhook w dzienniku. Z deliveryKey ponowiona dostawa (ten sam klucz) nie tworzy
+ * nowego wiersza — zwracany jest istniejący event z duplicate = true.
+ */
+export function insertWebhookEvent(event: {
+  webhookId?: string | null;
+  event?: string | null;
+  taskId?: string | null;
+  rawBody: string;
+  deliveryKey?: string | null;
+}): { id: number; duplicate: boolean; status: WebhookEventStatus } {
+  const result = db.prepare(`
+    INSERT OR IGNORE INTO webhook_events (webhook_id, event, task_id, raw_body, delivery_key)
+    VALUES (?, ?, ?, ?, ?)
+  `).run(event.webhookId ?? null, event.event ?? null, event.taskId ?? null, event.rawBody, event.deliveryKey ?? null);
+
+  if (result.changes === 0) {
+    const existing = db
+      .prepare('SELECT id, status FROM webhook_events WHERE delivery_key = ?')
+      .get(event.deliveryKey) as { id: number; status: WebhookEventStatus };
+    return { id: existing.id, duplicate: true, status: existing.status };
+  }
+  return { id: result.lastInsertRowid as number, duplicate: false, status: 'pending' };
+}
+
+export function getWebhookEventById(id: number): WebhookEventRow | undefined {
+  return db.prepare('SELECT * FROM webhook_events WHERE id = ?').get(id) as WebhookEventRow | undefined;
+}
+
+export function markWebhookEvent(id: number, status: WebhookEventStatus, error?: string | null): void {
+  db.prepare(`
+    UPDATE webhook_events
+    SET status = ?, error = ?, attempts = attempts + 1, processed_at = CURRENT_TIMESTAMP
+    WHERE id = ?
+  `).run(status, error ?? null, id);
+}
+
+// ── tasks / task_history ─────────────────────────────────────────────
+export type TaskRow = {
+  id: string;
+  name: string | null;
+  status: string | null;
+  list_id: string | null;
+  list_name: string | null;
+  folder_id: string | null;
+  folder_name: string | null;
+  space_id: string | null;
+  space_name: string | null;
+  url: string | null;
+  team_id: string | null;
+  created_at: string;
+  updated_at: string;
+  deleted_at: string | null;
+};
+
+export type TaskHistoryField = 'list' | 'name' | 'status' | 'deleted';
+
+export type TaskHistoryRow = {
+  id: number;
+  task_id: string;
+  event: string;
+  field: TaskHistoryField;
+  old_value: string | null;
+  new_value: string | null;
+  old_label: string | null;
+  new_label: string | null;
+  created_at: string;
+};
+
+export function getTaskById(id: string): TaskRow | undefined {
+  return db.prepare('SELECT * FROM tasks WHERE id = ?').get(id) as TaskRow | undefined;
+}
+
+export function recordTaskHistory(change: {
+  taskId: string;
+  event: string;
+  field: TaskHistoryField;
+  oldValue?: string | null;
+  newValue?: string | null;
+  oldLabel?: string | null;
+  newLabel?: string | null;
+}): void {
+  db.prepare(`
+    INSERT INTO task_history (task_id, event, field, old_value, new_value, old_label, new_label)
+    VALUES (?, ?, ?, ?, ?, ?, ?)
+  `).run(
+    change.taskId,
+    change.event,
+    change.field,
+    change.oldValue ?? null,
+    change.newValue ?? null,
+    change.oldLabel ?? null,
+    change.newLabel ?? null
+  );
+}
+
+export function markTaskDeleted(id: string): void {
+  db.prepare(`
+    UPDATE tasks SET deleted_at = CURRENT_TIMESTAMP, updated_at = CURRENT_TIMESTAMP
+    WHERE id = ? AND deleted_at IS NULL
+  `).run(id);
+}
+
 export function upsertTask(task: {
   id: string;
   name?: string;
@@ -364,11 +995,26 @@ export function upsertTask(task: {
   folder?: { id: string; name: string };
   space?: { id: string; name: string };
   url?: string;
+  teamId?: string;
+  // undefined = brak szczegółów z ClickUp (zostaw zapisane), null = pole wyczyszczone w ClickUp
+  time_estimate?: number | null;
+  due_date?: string | null;
+  assignees?: Array<{ id: string; username: string }>;
+  parent?: string | null;
+  project_field?: string | null;
+  // Tylko przywrócenie zadania w ClickUp zdejmuje soft-delete — zwykła aktualizacja go nie cofa
+  undelete?: boolean;
 }) {
+  const hasDetails = task.time_estimate !== undefined ? 1 : 0;
+  const undelete = task.undelete ? 1 : 0;
   const stmt = db.prepare(`
-    INSERT INTO tasks (id, name, status, list_id, list_name, folder_id, folder_name, space_id, space_name, url, updated_at)
-    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, CURRENT_TIMESTAMP)
+    INSERT INTO tasks (
+      id, name, status, list_id, list_name, folder_id, folder_name, space_id, space_name, url, team_id,
+      time_estimate, due_date, assignees, parent_id, project_field, updated_at
+    )
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, CURRENT_TIMESTAMP)
     ON CONFLICT(id) DO UPDATE SET
+      team_id = COALESCE(excluded.team_id, team_id),
       name = COALESCE(excluded.name, name),
       status = COALESCE(excluded.status, status),
       list_id = COALESCE(excluded.list_id, list_id),
@@ -378,7 +1024,13 @@ export function upsertTask(task: {
       space_id = COALESCE(excluded.space_id, space_id),
       space_name = COALESCE(excluded.space_name, space_name),
       url = COALESCE(excluded.url, url),
-      updated_at = CURRENT_TIMESTAMP
+      time_estimate = CASE WHEN ${hasDetails} THEN excluded.time_estimate ELSE time_estimate END,
+      due_date = CASE WHEN ${hasDetails} THEN excluded.due_date ELSE due_date END,
+      assignees = CASE WHEN ${hasDetails} THEN excluded.assignees ELSE assignees END,
+      parent_id = CASE WHEN ${hasDetails} THEN excluded.parent_id ELSE parent_id END,
+      project_field = CASE WHEN ${hasDetails} THEN excluded.project_field ELSE project_field END,
+      updated_at = CURRENT_TIMESTAMP,
+      deleted_at = CASE WHEN ${undelete} THEN NULL ELSE deleted_at END
   `);
   stmt.run(
     task.id,
@@ -390,6 +1042,903 @@ export function upsertTask(task: {
     task.folder?.name,
     task.space?.id,
     task.space?.name,
-    task.url
+    task.url,
+    task.teamId ?? null,
+    task.time_estimate ?? null,
+    task.due_date ?? null,
+    task.assignees ? JSON.stringify(task.assignees) : null,
+    task.parent ?? null,
+    task.project_field ?? null
+  );
+
+  // Task z ClickUp niesie aktualne nazwy listy/folderu/space'u — odśwież je w hierarchii
+  if (task.space) {
+    upsertSpace({ id: task.space.id, name: task.space.name, teamId: task.teamId });
+  }
+  if (task.folder) {
+    upsertFolder({ id: task.folder.id, name: task.folder.name, spaceId: task.space?.id });
+  }
+  if (task.list) {
+    upsertList({ id: task.list.id, name: task.list.name, folderId: task.folder?.id, spaceId: task.space?.id });
+  }
+}
+
+export type TaskTreeRow = {
+  id: string;
+  name: string | null;
+  url: string | null;
+  list_name: string | null;
+  parent_id: string | null;
+};
+
+// Zadania wraz ze wszystkimi przodkami (parent_id) — do zwijania subtasków pod zadanie nadrzędne
+export function getTasksWithAncestors(taskIds: string[]): Map<string, TaskTreeRow> {
+  const result = new Map<string, TaskTreeRow>();
+  // Paczki po 500 — limit parametrów SQLite
+  for (let i = 0; i < taskIds.length; i += 500) {
+    const chunk = taskIds.slice(i, i + 500);
+    const rows = db
+      .prepare(
+        `WITH RECURSIVE chain(id, depth) AS (
+           SELECT id, 0 FROM tasks WHERE id IN (${chunk.map(() => '?').join(', ')})
+           UNION
+           SELECT t.parent_id, c.depth + 1
+           FROM chain c
+           JOIN tasks t ON t.id = c.id
+           WHERE t.parent_id IS NOT NULL AND c.depth < ${MAX_SUBTASK_DEPTH}
+         )
+         SELECT t.id, t.name, t.url, COALESCE(l.name, t.list_name) as list_name, t.parent_id
+         FROM tasks t
+         LEFT JOIN lists l ON l.id = t.list_id
+         WHERE t.id IN (SELECT id FROM chain)`
+      )
+      .all(...chunk) as TaskTreeRow[];
+    for (const row of rows) {
+      result.set(row.id, row);
+    }
+  }
+  return result;
+}
+
+// ── sync_runs / sync_changes ─────────────────────────────────────────
+export type SyncRunStatus = 'running' | 'success' | 'failed';
+export type SyncChangeType = 'created' | 'updated' | 'deleted';
+
+export type SyncRunRow = {
+  id: number;
+  trigger: string;
+  status: SyncRunStatus;
+  window_start: string;
+  window_end: string;
+  fetched: number;
+  created: number;
+  updated: number;
+  deleted: number;
+  skipped: number;
+  error: string | null;
+  started_at: string;
+  finished_at: string | null;
+};
+
+export type SyncChangeRow = {
+  id: number;
+  run_id: number;
+  entry_id: string;
+  change: SyncChangeType;
+  field: string | null;
+  old_value: string | null;
+  new_value: string | null;
+  user_id: string | null;
+  task_id: string | null;
+  created_at: string;
+};
+
+export function createSyncRun(trigger: string, windowStart: string, windowEnd: string): number {
+  const result = db.prepare(`
+    INSERT INTO sync_runs (trigger, window_start, window_end) VALUES (?, ?, ?)
+  `).run(trigger, windowStart, windowEnd);
+  return Number(result.lastInsertRowid);
+}
+
+export function finishSyncRun(id: number, result: {
+  status: SyncRunStatus;
+  fetched: number;
+  created: number;
+  updated: number;
+  deleted: number;
+  skipped: number;
+  error?: string | null;
+}): void {
+  db.prepare(`
+    UPDATE sync_runs
+    SET status = ?, fetched = ?, created = ?, updated = ?, deleted = ?, skipped = ?, error = ?,
+        finished_at = CURRENT_TIMESTAMP
+    WHERE id = ?
+  `).run(
+    result.status,
+    result.fetched,
+    result.created,
+    result.updated,
+    result.deleted,
+    result.skipped,
+    result.error ?? null,
+    id
+  );
+}
+
+export function getSyncRunById(id: number): SyncRunRow | undefined {
+  return db.prepare('SELECT * FROM sync_runs WHERE id = ?').get(id) as SyncRunRow | undefined;
+}
+
+export function recordSyncChange(change: {
+  runId: number;
+  entryId: string;
+  change: SyncChangeType;
+  field?: string | null;
+  oldValue?: string | null;
+  newValue?: string | null;
+  userId?: string | null;
+  taskId?: string | null;
+}): void {
+  db.prepare(`
+    INSERT INTO sync_changes (run_id, entry_id, change, field, old_value, new_value, user_id, task_id)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+  `).run(
+    change.runId,
+    change.entryId,
+    change.change,
+    change.field ?? null,
+    change.oldValue ?? null,
+    change.newValue ?? null,
+    change.userId ?? null,
+    change.taskId ?? null
+  );
+}
+
+// ── jobs ─────────────────────────────────────────────────────────────
+export type JobStatus = 'queued' | 'running' | 'succeeded' | 'failed' | 'cancelled';
+
+export type JobRow = {
+  id: number;
+  type: string;
+  status: JobStatus;
+  params: string | null;
+  progress: string | null;
+  checkpoint: string | null;
+  result: string | null;
+  error: string | null;
+  cancel_requested: number;
+  attempts: number;
+  created_by: number | null;
+  created_at: string;
+  started_at: string | null;
+  finished_at: string | null;
+  updated_at: string;
+};
+
+export function createJob(type: string, params: Record<string, unknown>, createdBy?: number | null): number {
+  const result = db.prepare(`
+    INSERT INTO jobs (type, params, created_by) VALUES (?, ?, ?)
+  `).run(type, JSON.stringify(params), createdBy ?? null);
+  return Number(result.lastInsertRowid);
+}
+
+export function getJobById(id: number): JobRow | undefined {
+  return db.prepare('SELECT * FROM jobs WHERE id = ?').get(id) as JobRow | undefined;
+}
+
+// ── reconcile_days ───────────────────────────────────────────────────
+export type ReconcileDayRow = {
+  id: number;
+  job_id: number;
+  team_id: string;
+  user_id: string;
+  user_name: string | null;
+  day: string;
+  clickup_duration: number;
+  local_duration: number;
+  clickup_count: number;
+  local_count: number;
+  missing_ids: string;
+  extra_ids: string;
+  changed_ids: string;
+  reimport_job_id: number | null;
+  reimported_at: string | null;
+  created_at: string;
+};
+
+export type ReconcileDayInput = {
+  team_id: string;
+  user_id: string;
+  user_name: string | null;
+  day: string;
+  clickup_duration: number;
+  local_duration: number;
+  clickup_count: number;
+  local_count: number;
+  missing_ids: string[];
+  extra_ids: string[];
+  changed_ids: string[];
+};
+
+// Zastępuje dni jednego użytkownika — wznowione zadanie nie dubluje wierszy
+export function replaceReconcileDays(jobId: number, teamId: string, userId: string, days: ReconcileDayInput[]): void {
+  const insert = db.prepare(`
+    INSERT INTO reconcile_days (
+      job_id, team_id, user_id, user_name, day, clickup_duration, local_duration,
+      clickup_count, local_count, missing_ids, extra_ids, changed_ids
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `);
+  db.transaction(() => {
+    db.prepare('DELETE FROM reconcile_days WHERE job_id = ? AND team_id = ? AND user_id = ?').run(jobId, teamId, userId);
+    for (const day of days) {
+      insert.run(
+        jobId,
+        day.team_id,
+        day.user_id,
+        day.user_name,
+        day.day,
+        day.clickup_duration,
+        day.local_duration,
+        day.clickup_count,
+        day.local_count,
+        JSON.stringify(day.missing_ids),
+        JSON.stringify(day.extra_ids),
+        JSON.stringify(day.changed_ids)
+      );
+    }
+  })();
+}
+
+export function getReconcileDays(jobId: number, ids?: number[]): ReconcileDayRow[] {
+  if (ids && ids.length === 0) return [];
+  const idClause = ids ? `AND id IN (${ids.map(() => '?').join(', ')})` : '';
+  return db
+    .prepare(`SELECT * FROM reconcile_days WHERE job_id = ? ${idClause} ORDER BY day, user_name, id`)
+    .all(jobId, ...(ids ?? [])) as ReconcileDayRow[];
+}
+
+export function markReconcileDayReimported(id: number, reimportJobId: number): void {
+  db.prepare(`
+    UPDATE reconcile_days SET reimport_job_id = ?, reimported_at = CURRENT_TIMESTAMP WHERE id = ?
+  `).run(reimportJobId, id);
+}
+
+// ── workspaces ───────────────────────────────────────────────────────
+export type WorkspaceRow = {
+  team_id: string;
+  name: string;
+  api_token: string | null;
+  webhook_secret: string | null;
+  is_active: number;
+  long_entry_policy: string | null;
+  created_at: string;
+  updated_at: string;
+};
+
+export function getWorkspaceRows(): WorkspaceRow[] {
+  return db.prepare('SELECT * FROM workspaces ORDER BY created_at, team_id').all() as WorkspaceRow[];
+}
+
+export function getWorkspaceRow(teamId: string): WorkspaceRow | undefined {
+  return db.prepare('SELECT * FROM workspaces WHERE team_id = ?').get(teamId) as WorkspaceRow | undefined;
+}
+
+export function upsertWorkspace(workspace: {
+  teamId: string;
+  name: string;
+  apiToken?: string | null;
+  webhookSecret?: string | null;
+  isActive?: boolean;
+  longEntryPolicy?: string | null;
+}): void {
+  // undefined = bez zmian, null / '' = wyczyść (fallback na ustawienia globalne)
+  db.prepare(`
+    INSERT INTO workspaces (team_id, name, api_token, webhook_secret, is_active, long_entry_policy, updated_at)
+    VALUES (?, ?, ?, ?, ?, ?, CURRENT_TIMESTAMP)
+    ON CONFLICT(team_id) DO UPDATE SET
+      name = excluded.name,
+      api_token = CASE WHEN ? THEN excluded.api_token ELSE api_token END,
+      webhook_secret = CASE WHEN ? THEN excluded.webhook_secret ELSE webhook_secret END,
+      is_active = excluded.is_active,
+      long_entry_policy = CASE WHEN ? THEN excluded.long_entry_policy ELSE long_entry_policy END,
+      updated_at = CURRENT_TIMESTAMP
+  `).run(
+    workspace.teamId,
+    workspace.name,
+    workspace.apiToken || null,
+    workspace.webhookSecret || null,
+    workspace.isActive === false ? 0 : 1,
+    workspace.longEntryPolicy || null,
+    workspace.apiToken !== undefined ? 1 : 0,
+    workspace.webhookSecret !== undefined ? 1 : 0,
+    workspace.longEntryPolicy !== undefined ? 1 : 0
   );
 }
+
+export function deleteWorkspace(teamId: string): boolean {
+  return db.prepare('DELETE FROM workspaces WHERE team_id = ?').run(teamId).changes > 0;
+}
+
+// ── long_entry_reviews / timer_alerts ───────────────────────────────
+export type LongEntryReviewStatus = 'pending' | 'capped' | 'dropped' | 'adjusted' | 'excluded';
+
+export type LongEntryReviewRow = {
+  entry_id: string;
+  team_id: string | null;
+  user_id: string | null;
+  user_name: string | null;
+  task_id: string | null;
+  task_name: string | null;
+  start_time: string | null;
+  raw_duration: number;
+  max_duration: number;
+  source: string;
+  status: LongEntryReviewStatus;
+  resolved_duration: number | null;
+  resolved_by: number | null;
+  resolved_at: string | null;
+  created_at: string;
+  updated_at: string;
+};
+
+export function getLongEntryReview(entryId: string): LongEntryReviewRow | undefined {
+  return db.prepare('SELECT * FROM long_entry_reviews WHERE entry_id = ?').get(entryId) as LongEntryReviewRow | undefined;
+}
+
+// Ponowne wykrycie (re-synchronizacja, kolejny webhook) aktualizuje tylko nierozstrzygnięte wpisy
+export function recordLongEntryReview(review: {
+  entryId: string;
+  teamId: string | null;
+  userId: string | null;
+  userName: string | null;
+  taskId: string | null;
+  taskName: string | null;
+  startTime: string | null;
+  rawDuration: number;
+  maxDuration: number;
+  source: string;
+  status: LongEntryReviewStatus;
+}): void {
+  db.prepare(`
+    INSERT INTO long_entry_reviews (
+      entry_id, team_id, user_id, user_name, task_id, task_name, start_time,
+      raw_duration, max_duration, source, status
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    ON CONFLICT(entry_id) DO UPDATE SET
+      raw_duration = excluded.raw_duration,
+      max_duration = excluded.max_duration,
+      start_time = COALESCE(excluded.start_time, start_time),
+      task_name = COALESCE(excluded.task_name, task_name),
+      status = excluded.status,
+      updated_at = CURRENT_TIMESTAMP
+    WHERE long_entry_reviews.resolved_at IS NULL
+  `).run(
+    review.entryId,
+    review.teamId,
+    review.userId,
+    review.userName,
+    review.taskId,
+    review.taskName,
+    review.startTime,
+    review.rawDuration,
+    review.maxDuration,
+    review.source,
+    review.status
+  );
+}
+
+export function resolveLongEntryReview(
+  entryId: string,
+  resolution: { status: LongEntryReviewStatus; duration: number | null; resolvedBy: number }
+): void {
+  db.prepare(`
+    UPDATE long_entry_reviews
+    SET status = ?, resolved_duration = ?, resolved_by = ?, resolved_at = CURRENT_TIMESTAMP, updated_at = CURRENT_TIMESTAMP
+    WHERE entry_id = ?
+  `).run(resolution.status, resolution.duration, resolution.resolvedBy, entryId);
+}
+
+export type TimerAlertRow = {
+  id: number;
+  entry_id: string;
+  kind: string;
+  team_id: string | null;
+  user_id: string | null;
+  user_name: string | null;
+  task_id: string | null;
+  task_name: string | null;
+  start_time: string | null;
+  message: string;
+  created_at: string;
+};
+
+// Zwraca nowy alert albo null, gdy ten próg był już zgłoszony dla wpisu
+export function insertTimerAlert(alert: Omit<TimerAlertRow, 'id' | 'created_at'>): TimerAlertRow | null {
+  const result = db.prepare(`
+    INSERT OR IGNORE INTO timer_alerts (entry_id, kind, team_id, user_id, user_name, task_id, task_name, start_time, message)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `).run(
+    alert.entry_id,
+    alert.kind,
+    alert.team_id,
+    alert.user_id,
+    alert.user_name,
+    alert.task_id,
+    alert.task_name,
+    alert.start_time,
+    alert.message
+  );
+  if (result.changes === 0) return null;
+  return db.prepare('SELECT * FROM timer_alerts WHERE id = ?').get(result.lastInsertRowid) as TimerAlertRow;
+}
+
+// ── duration_policies ────────────────────────────────────────────────
+export type DurationPolicyScope = 'default' | 'user' | 'project' | 'entry';
+
+export type DurationPolicyRow = {
+  id: number;
+  scope: DurationPolicyScope;
+  target_id: string;
+  max_duration: number;
+  note: string | null;
+  updated_by: number | null;
+  created_at: string;
+  updated_at: string;
+};
+
+export function getDurationPolicies(): DurationPolicyRow[] {
+  return db
+    .prepare(
+      `SELECT * FROM duration_policies
+       ORDER BY CASE scope WHEN 'default' THEN 0 WHEN 'user' THEN 1 WHEN 'project' THEN 2 ELSE 3 END, target_id`
+    )
+    .all() as DurationPolicyRow[];
+}
+
+export function getDurationPolicy(id: number): DurationPolicyRow | undefined {
+  return db.prepare('SELECT * FROM duration_policies WHERE id = ?').get(id) as DurationPolicyRow | undefined;
+}
+
+export function upsertDurationPolicy(policy: {
+  scope: DurationPolicyScope;
+  targetId: string;
+  maxDuration: number;
+  note?: string | null;
+  updatedBy: number;
+}): DurationPolicyRow {
+  db.prepare(`
+    INSERT INTO duration_policies (scope, target_id, max_duration, note, updated_by)
+    VALUES (?, ?, ?, ?, ?)
+    ON CONFLICT(scope, target_id) DO UPDATE SET
+      max_duration = excluded.max_duration,
+      note = excluded.note,
+      updated_by = excluded.updated_by,
+      updated_at = CURRENT_TIMESTAMP
+  `).run(policy.scope, policy.targetId, policy.maxDuration, policy.note ?? null, policy.updatedBy);
+  return db
+    .prepare('SELECT * FROM duration_policies WHERE scope = ? AND target_id = ?')
+    .get(policy.scope, policy.targetId) as DurationPolicyRow;
+}
+
+// Polityki domyślnej nie da się usunąć — tylko zmienić jej limit
+export function deleteDurationPolicy(id: number): boolean {
+  return db.prepare(`DELETE FROM duration_policies WHERE id = ? AND scope != 'default'`).run(id).changes > 0;
+}
+
+const entryMaxDurationQuery = `SELECT ${durationPolicySQL('max_duration', { id: '?', userId: '?', taskId: '?' })} as max_duration`;
+
+// Limit dla wpisu, który może jeszcze nie być w bazie (import, webhook, ręczny wpis)
+export function getEntryMaxDuration(entry: { id?: string | null; userId?: string | null; taskId?: string | null }): number {
+  const row = db.prepare(entryMaxDurationQuery).get(entry.id ?? null, entry.userId ?? null, entry.taskId ?? null) as {
+    max_duration: number;
+  };
+  return row.max_duration;
+}
+
+// ── overlap_exclusions ───────────────────────────────────────────────
+export function excludeOverlappingEntry(entry: {
+  entryId: string;
+  userId: string | null;
+  overlapsWith: string | null;
+  excludedBy: number;
+}): void {
+  db.prepare(`
+    INSERT INTO overlap_exclusions (entry_id, user_id, overlaps_with, excluded_by)
+    VALUES (?, ?, ?, ?)
+    ON CONFLICT(entry_id) DO UPDATE SET
+      overlaps_with = excluded.overlaps_with,
+      excluded_by = excluded.excluded_by,
+      created_at = CURRENT_TIMESTAMP
+  `).run(entry.entryId, entry.userId, entry.overlapsWith, entry.excludedBy);
+}
+
+export function restoreOverlappingEntry(entryId: string): boolean {
+  return db.prepare('DELETE FROM overlap_exclusions WHERE entry_id = ?').run(entryId).changes > 0;
+}
+
+// ── worker_rates ─────────────────────────────────────────────────────
+export type WorkerRateRow = {
+  id: number;
+  clickup_user_id: string;
+  hourly_rate: number;
+  valid_from: string;
+  valid_to: string | null;
+  created_at: string;
+};
+
+export function getWorkerRates(clickupUserId?: string): WorkerRateRow[] {
+  return clickupUserId
+    ? (db
+        .prepare('SELECT * FROM worker_rates WHERE clickup_user_id = ? ORDER BY valid_from DESC')
+        .all(clickupUserId) as WorkerRateRow[])
+    : (db.prepare('SELECT * FROM worker_rates ORDER BY clickup_user_id, valid_from DESC').all() as WorkerRateRow[]);
+}
+
+/**
+ * Porównuje stawki z notion_workers (MAX per ID ClickUp, jak w zarobkach) z bieżącymi wersjami.
+ * Zmieniona stawka zamyka bieżącą wersję w chwili changedAt i otwiera nową; pracownik bez historii
+ * dostaje pierwszą wersję od RATE_HISTORY_START. Zwraca liczbę dopisanych wersji.
+ */
+export function recordWorkerRates(changedAt: string = new Date().toISOString()): number {
+  const workers = db
+    .prepare(
+      `SELECT clickup_user_id, COALESCE(MAX(hourly_rate), 0) as hourly_rate
+       FROM notion_workers
+       WHERE clickup_user_id IS NOT NULL
+       GROUP BY clickup_user_id`
+    )
+    .all() as Array<{ clickup_user_id: string; hourly_rate: number }>;
+  const getCurrent = db.prepare(
+    'SELECT id, hourly_rate FROM worker_rates WHERE clickup_user_id = ? AND valid_to IS NULL'
+  );
+  const closeVersion = db.prepare('UPDATE worker_rates SET valid_to = ? WHERE id = ?');
+  const insertVersion = db.prepare(
+    'INSERT INTO worker_rates (clickup_user_id, hourly_rate, valid_from) VALUES (?, ?, ?)'
+  );
+
+  const record = db.transaction(() => {
+    let added = 0;
+    for (const worker of workers) {
+      const current = getCurrent.get(worker.clickup_user_id) as { id: number; hourly_rate: number } | undefined;
+      if (current && current.hourly_rate === worker.hourly_rate) continue;
+      if (current) {
+        closeVersion.run(changedAt, current.id);
+      }
+      insertVersion.run(worker.clickup_user_id, worker.hourly_rate, current ? changedAt : RATE_HISTORY_START);
+      added++;
+    }
+    return added;
+  });
+  return record();
+}
+
+// ── project_pricing ──────────────────────────────────────────────────
+export type ProjectPricingSource = 'notion' | 'admin';
+
+export type ProjectPricingRow = {
+  id: number;
+  clickup_id: string;
+  hourly_rate: number;
+  monthly_budget: number;
+  valid_from: string;
+  valid_to: string | null;
+  source: ProjectPricingSource;
+  updated_by: number | null;
+  created_at: string;
+  updated_at: string;
+};
+
+export type ProjectPricingValues = { hourly_rate: number; monthly_budget: number };
+
+export function getProjectPricing(clickupId?: string): ProjectPricingRow[] {
+  return clickupId
+    ? (db
+        .prepare('SELECT * FROM project_pricing WHERE clickup_id = ? ORDER BY valid_from DESC')
+        .all(clickupId) as ProjectPricingRow[])
+    : (db.prepare('SELECT * FROM project_pricing ORDER BY clickup_id, valid_from DESC').all() as ProjectPricingRow[]);
+}
+
+export function getProjectPricingVersion(id: number): ProjectPricingRow | undefined {
+  return db.prepare('SELECT * FROM project_pricing WHERE id = ?').get(id) as ProjectPricingRow | undefined;
+}
+
+// Bieżący cennik z Notion per clickup_id (MAX jak w zarobkach) — do wykrycia zmian przy synchronizacji
+export function getNotionProjectPricing(): Map<string, ProjectPricingValues> {
+  const rows = db
+    .prepare(
+      `SELECT clickup_id, COALESCE(MAX(hourly_rate), 0) as hourly_rate, COALESCE(MAX(monthly_budget), 0) as monthly_budget
+       FROM notion_projects
+       WHERE clickup_id IS NOT NULL
+       GROUP BY clickup_id`
+    )
+    .all() as Array<{ clickup_id: string } & ProjectPricingValues>;
+  return new Map(rows.map((row) => [row.clickup_id, { hourly_rate: row.hourly_rate, monthly_budget: row.monthly_budget }]));
+}
+
+// valid_to każdej wersji = valid_from następnej — zakresy bez dziur i nakładek po każdej zmianie
+function refreshProjectPricingRanges(clickupId: string): void {
+  db.prepare(`
+    UPDATE project_pricing
+    SET valid_to = (
+      SELECT MIN(next.valid_from) FROM project_pricing next
+      WHERE next.clickup_id = project_pricing.clickup_id AND next.valid_from > project_pricing.valid_from
+    )
+    WHERE clickup_id = ?
+  `).run(clickupId);
+}
+
+/**
+ * Dodaje albo nadpisuje wersję cennika od miesiąca validFrom. Pierwsza wersja projektu
+ * zawsze obowiązuje od PRICING_HISTORY_START_MONTH, żeby wcześniejsze wpisy miały cennik.
+ */
+export function upsertProjectPricing(version: {
+  clickupId: string;
+  validFrom: string;
+  hourlyRate: number;
+  monthlyBudget: number;
+  source: ProjectPricingSource;
+  updatedBy?: number | null;
+}): ProjectPricingRow {
+  const save = db.transaction(() => {
+    const hasVersions = db.prepare('SELECT 1 FROM project_pricing WHERE clickup_id = ?').get(version.clickupId);
+    const validFrom = hasVersions ? version.validFrom : PRICING_HISTORY_START_MONTH;
+    db.prepare(`
+      INSERT INTO project_pricing (clickup_id, hourly_rate, monthly_budget, valid_from, source, updated_by)
+      VALUES (?, ?, ?, ?, ?, ?)
+      ON CONFLICT(clickup_id, valid_from) DO UPDATE SET
+        hourly_rate = excluded.hourly_rate,
+        monthly_budget = excluded.monthly_budget,
+        source = excluded.source,
+        updated_by = excluded.updated_by,
+        updated_at = CURRENT_TIMESTAMP
+    `).run(
+      version.clickupId,
+      version.hourlyRate,
+      version.monthlyBudget,
+      validFrom,
+      version.source,
+      version.updatedBy ?? null
+    );
+    refreshProjectPricingRanges(version.clickupId);
+    return db
+      .prepare('SELECT * FROM project_pricing WHERE clickup_id = ? AND valid_from = ?')
+      .get(version.clickupId, validFrom) as ProjectPricingRow;
+  });
+  return save();
+}
+
+// Pierwszej wersji nie da się usunąć — tylko zmienić jej stawki
+export function deleteProjectPricing(id: number): boolean {
+  const remove = db.transaction(() => {
+    const version = getProjectPricingVersion(id);
+    if (!version || version.valid_from === PRICING_HISTORY_START_MONTH) return false;
+    db.prepare('DELETE FROM project_pricing WHERE id = ?').run(id);
+    refreshProjectPricingRanges(version.clickup_id);
+    return true;
+  });
+  return remove();
+}
+
+/**
+ * Zapisuje cennik z notion_projects jako wersje: projekt bez historii dostaje pierwszą wersję,
+ * a projekt, którego stawka lub budżet w Notion zmieniły się względem previous (stan sprzed
+ * synchronizacji), nową wersję od następnego miesiąca — bieżący miesiąc zostaje przy cenniku,
+ * którym był już liczony. Wersji wpisanej przez admina Notion nie nadpisuje: taki projekt
+ * trafia do conflicts. Bez previous — tylko uzupełnia brakujące.
+ */
+export function recordProjectPricing(previous?: Map<string, ProjectPricingValues>): {
+  saved: number;
+  conflicts: Array<{ clickup_id: string; valid_from: string }>;
+} {
+  const now = new Date();
+  const month = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1)).toISOString().slice(0, 7);
+  const hasVersions = db.prepare('SELECT 1 FROM project_pricing WHERE clickup_id = ?');
+  const existingSource = db.prepare('SELECT source FROM project_pricing WHERE clickup_id = ? AND valid_from = ?');
+  let saved = 0;
+  const conflicts: Array<{ clickup_id: string; valid_from: string }> = [];
+  for (const [clickupId, current] of getNotionProjectPricing()) {
+    const before = previous?.get(clickupId);
+    const changed =
+      previous !== undefined &&
+      (!before || before.hourly_rate !== current.hourly_rate || before.monthly_budget !== current.monthly_budget);
+    if (hasVersions.get(clickupId)) {
+      if (!changed) continue;
+      const existing = existingSource.get(clickupId, month) as { source: ProjectPricingSource } | undefined;
+      if (existing?.source === 'admin') {
+        conflicts.push({ clickup_id: clickupId, valid_from: month });
+        continue;
+      }
+    }
+    upsertProjectPricing({
+      clickupId,
+      validFrom: month,
+      hourlyRate: current.hourly_rate,
+      monthlyBudget: current.monthly_budget,
+      source: 'notion',
+    });
+    saved++;
+  }
+  return { saved, conflicts };
+}
+
+// ── app_user_clickup_tokens ──────────────────────────────────────────
+export type AppUserClickUpTokenRow = {
+  app_user_id: number;
+  api_token: string;
+  clickup_user_id: string;
+  clickup_username: string | null;
+  updated_at: string;
+};
+
+export function getAppUserClickUpToken(appUserId: number): AppUserClickUpTokenRow | undefined {
+  return db.prepare('SELECT * FROM app_user_clickup_tokens WHERE app_user_id = ?').get(appUserId) as
+    | AppUserClickUpTokenRow
+    | undefined;
+}
+
+export function setAppUserClickUpToken(
+  appUserId: number,
+  token: { apiToken: string; clickupUserId: string; clickupUsername?: string | null }
+): void {
+  db.prepare(`
+    INSERT INTO app_user_clickup_tokens (app_user_id, api_token, clickup_user_id, clickup_username, updated_at)
+    VALUES (?, ?, ?, ?, CURRENT_TIMESTAMP)
+    ON CONFLICT(app_user_id) DO UPDATE SET
+      api_token = excluded.api_token,
+      clickup_user_id = excluded.clickup_user_id,
+      clickup_username = excluded.clickup_username,
+      updated_at = CURRENT_TIMESTAMP
+  `).run(appUserId, token.apiToken, token.clickupUserId, token.clickupUsername || null);
+}
+
+export function deleteAppUserClickUpToken(appUserId: number): boolean {
+  return db.prepare('DELETE FROM app_user_clickup_tokens WHERE app_user_id = ?').run(appUserId).changes > 0;
+}
+
+// ── time_entry_tags ──────────────────────────────────────────────────
+
+// Tagi porównujemy bez wielkości liter — ClickUp i tak zapisuje je małymi literami
+export function normalizeTag(tag: string): string {
+  return tag.trim().toLowerCase();
+}
+
+// Zastępuje tagi wpisu (wpis w ClickUp zawsze niesie pełną listę tagów)
+export function setTimeEntryTags(entryId: string, tags: string[]): void {
+  const unique = [...new Set(tags.map(normalizeTag).filter(Boolean))];
+  const insert = db.prepare('INSERT OR IGNORE INTO time_entry_tags (entry_id, tag) VALUES (?, ?)');
+  db.transaction(() => {
+    db.prepare('DELETE FROM time_entry_tags WHERE entry_id = ?').run(entryId);
+    for (const tag of unique) {
+      insert.run(entryId, tag);
+    }
+  })();
+}
+
+export function getTagsForEntries(entryIds: string[]): Map<string, string[]> {
+  const result = new Map<string, string[]>();
+  // Paczki po 500 — limit parametrów SQLite
+  for (let i = 0; i < entryIds.length; i += 500) {
+    const chunk = entryIds.slice(i, i + 500);
+    const rows = db
+      .prepare(
+        `SELECT entry_id, tag FROM time_entry_tags
+         WHERE entry_id IN (${chunk.map(() => '?').join(', ')})
+         ORDER BY tag`
+      )
+      .all(...chunk) as Array<{ entry_id: string; tag: string }>;
+    for (const row of rows) {
+      const list = result.get(row.entry_id) || [];
+      list.push(row.tag);
+      result.set(row.entry_id, list);
+    }
+  }
+  return result;
+}
+
+export function getAllTags(): Array<{ tag: string; entries: number }> {
+  return db
+    .prepare(
+      `SELECT tt.tag, COUNT(*) as entries
+       FROM time_entry_tags tt
+       JOIN time_entries te ON te.id = tt.entry_id
+       WHERE te.deleted_at IS NULL
+       GROUP BY tt.tag
+       ORDER BY entries DESC, tt.tag`
+    )
+    .all() as Array<{ tag: string; entries: number }>;
+}
+
+// ── hierarchy (spaces / folders / lists) ─────────────────────────────
+export type HierarchyNodeRow = {
+  id: string;
+  name: string;
+  archived: number;
+};
+
+export type SpaceRow = HierarchyNodeRow & { team_id: string | null };
+export type FolderRow = HierarchyNodeRow & { space_id: string | null };
+export type ListRow = HierarchyNodeRow & { folder_id: string | null; space_id: string | null };
+
+// Puste nazwy (np. folder ukryty w ClickUp) nie nadpisują znanych
+export function upsertSpace(space: { id: string; name?: string | null; teamId?: string | null; archived?: boolean }) {
+  if (!space.id || !space.name) return;
+  db.prepare(`
+    INSERT INTO spaces (id, team_id, name, archived, synced_at)
+    VALUES (?, ?, ?, ?, CURRENT_TIMESTAMP)
+    ON CONFLICT(id) DO UPDATE SET
+      team_id = COALESCE(excluded.team_id, team_id),
+      name = excluded.name,
+      archived = COALESCE(?, archived),
+      synced_at = CURRENT_TIMESTAMP
+  `).run(space.id, space.teamId ?? null, space.name, space.archived ? 1 : 0, archivedParam(space.archived));
+}
+
+export function upsertFolder(folder: { id: string; name?: string | null; spaceId?: string | null; archived?: boolean }) {
+  if (!folder.id || !folder.name) return;
+  db.prepare(`
+    INSERT INTO folders (id, space_id, name, archived, synced_at)
+    VALUES (?, ?, ?, ?, CURRENT_TIMESTAMP)
+    ON CONFLICT(id) DO UPDATE SET
+      space_id = COALESCE(excluded.space_id, space_id),
+      name = excluded.name,
+      archived = COALESCE(?, archived),
+      synced_at = CURRENT_TIMESTAMP
+  `).run(folder.id, folder.spaceId ?? null, folder.name, folder.archived ? 1 : 0, archivedParam(folder.archived));
+}
+
+export function upsertList(list: {
+  id: string;
+  name?: string | null;
+  folderId?: string | null;
+  spaceId?: string | null;
+  archived?: boolean;
+}) {
+  if (!list.id || !list.name) return;
+  db.prepare(`
+    INSERT INTO lists (id, folder_id, space_id, name, archived, synced_at)
+    VALUES (?, ?, ?, ?, ?, CURRENT_TIMESTAMP)
+    ON CONFLICT(id) DO UPDATE SET
+      folder_id = COALESCE(excluded.folder_id, folder_id),
+      space_id = COALESCE(excluded.space_id, space_id),
+      name = excluded.name,
+      archived = COALESCE(?, archived),
+      synced_at = CURRENT_TIMESTAMP
+  `).run(list.id, list.folderId ?? null, list.spaceId ?? null, list.name, list.archived ? 1 : 0, archivedParam(list.archived));
+}
+
+// undefined = nie wiemy (np. dane z taska) — zostaw dotychczasową flagę
+function archivedParam(archived: boolean | undefined): number | null {
+  return archived === undefined ? null : archived ? 1 : 0;
+}
+
+// ID listy/folderu/space'u wpisów z tasks — uzupełnia brakujące (task nie był dostępny przy zapisie)
+// i poprawia nieaktualne (zadanie przeniesione, a webhook nie doszedł). Zgodne wiersze pomija.
+export function linkEntriesToTaskHierarchy(taskId: string): number {
+  return db
+    .prepare(`
+      UPDATE time_entries
+      SET list_id = t.list_id, folder_id = t.folder_id, space_id = t.space_id
+      FROM tasks t
+      WHERE t.id = time_entries.task_id
+        AND time_entries.task_id = ?
+        AND t.list_id IS NOT NULL
+        AND (
+          time_entries.list_id IS NOT t.list_id
+          OR time_entries.folder_id IS NOT t.folder_id
+          OR time_entries.space_id IS NOT t.space_id
+        )
+    `)
+    .run(taskId).changes;
+}
+
+export function getHierarchyRows(teamId?: string): { spaces: SpaceRow[]; folders: FolderRow[]; lists: ListRow[] } {
+  const spaces = (
+    teamId
+      ? db.prepare('SELECT id, team_id, name, archived FROM spaces WHERE team_id = ? ORDER BY name').all(teamId)
+      : db.prepare('SELECT id, team_id, name, archived FROM spaces ORDER BY name').all()
+  ) as SpaceRow[];
+  const folders = db.prepare('SELECT id, space_id, name, archived FROM folders ORDER BY name').all() as FolderRow[];
+  const lists = db.prepare('SELECT id, folder_id, space_id, name, archived FROM lists ORDER BY name').all() as ListRow[];
+  return { spaces, folders, lists };
+}
@@ -0,0 +1,216 @@
+import { db } from './database.js';
+import { getConfig } from './config.js';
+import { NOT_DELETED_SQL, WITHIN_DURATION_LIMIT_SQL } from './constants.js';
+
+// Dzień pracownika jako bloki z trackingiem i przerwy między nimi, w godzinach pracy
+// (WORKDAY_HOURS, strefa POLL_TIMEZONE) — do wyłapania zapomnianego trackingu.
+
+const DEFAULT_WORKDAY_HOURS = '9-17';
+const DEFAULT_TIMEZONE = 'Europe/Warsaw';
+
+export type WorkWindow = { startMinute: number; endMinute: number };
+
+export type TimelineEntry = {
+  id: string;
+  task_id: string | null;
+  task_name: string | null;
+  start: string;
+  end: string;
+  running: boolean;
+};
+
+export type TimelineSpan = { start: string; end: string; duration: number };
+
+export type DayTimeline = {
+  user_id: string;
+  date: string;
+  timezone: string;
+  day: { start: string; end: string };
+  work_window: { start: string; end: string; label: string };
+  first_start: string | null;
+  last_stop: string | null;
+  tracked_duration: number;
+  tracked_in_window: number;
+  untracked_in_window: number;
+  longest_gap: TimelineSpan | null;
+  blocks: TimelineSpan[];
+  gaps: TimelineSpan[];
+  entries: TimelineEntry[];
+};
+
+/** "8-16", "8:30-16:30" → minuty od północy; null dla nieprawidłowego zakresu. */
+export function parseWorkWindow(value: string | null | undefined): WorkWindow | null {
+  const match = /^\s*(\d{1,2})(?::(\d{2}))?\s*-\s*(\d{1,2})(?::(\d{2}))?\s*$/.exec(value || '');
+  if (!match) return null;
+  const startMinute = Number(match[1]) * 60 + Number(match[2] || 0);
+  const endMinute = Number(match[3]) * 60 + Number(match[4] || 0);
+  if (startMinute >= endMinute || endMinute > 24 * 60) return null;
+  return { startMinute, endMinute };
+}
+
+export function getWorkWindow(): WorkWindow {
+  return parseWorkWindow(getConfig('WORKDAY_HOURS', DEFAULT_WORKDAY_HOURS)) ?? parseWorkWindow(DEFAULT_WORKDAY_HOURS)!;
+}
+
+function formatMinute(minute: number): string {
+  return `${Math.floor(minute / 60)}:${String(minute % 60).padStart(2, '0')}`;
+}
+
+// Przesunięcie strefy względem UTC w danej chwili (ms)
+function getTimeZoneOffset(date: Date, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  }).formatToParts(date);
+  const get = (type: string) => Number(parts.find((p) => p.type === type)?.value);
+  const asUtc = Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'), get('second'));
+  return asUtc - Math.floor(date.getTime() / 1000) * 1000;
+}
+
+// Lokalny czas (dzień + minuta od północy) w strefie → chwila UTC; druga iteracja poprawia zmianę czasu
+function zonedTime(day: string, minute: number, timeZone: string): number {
+  const [year, month, date] = day.split('-').map(Number);
+  const guess = Date.UTC(year, month - 1, date, 0, minute);
+  const offset = getTimeZoneOffset(new Date(guess), timeZone);
+  const corrected = getTimeZoneOffset(new Date(guess - offset), timeZone);
+  return guess - corrected;
+}
+
+export function getTimelineTimeZone(): string {
+  const timeZone = getConfig('POLL_TIMEZONE', DEFAULT_TIMEZONE)!;
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return timeZone;
+  } catch {
+    return DEFAULT_TIMEZONE;
+  }
+}
+
+// Dzisiejsza data (YYYY-MM-DD) w strefie
+export function getLocalDate(date: Date, timeZone: string): string {
+  return new Intl.DateTimeFormat('en-CA', { timeZone, year: 'numeric', month: '2-digit', day: '2-digit' }).format(date);
+}
+
+// Przedziały [start, end) minus zakryte przez bloki, przycięte do zakresu
+function subtractBlocks(from: number, to: number, blocks: Array<[number, number]>): Array<[number, number]> {
+  const gaps: Array<[number, number]> = [];
+  let cursor = from;
+  for (const [start, end] of blocks) {
+    if (end <= cursor) continue;
+    if (start >= to) break;
+    if (start > cursor) gaps.push([cursor, Math.min(start, to)]);
+    cursor = Math.max(cursor, end);
+    if (cursor >= to) break;
+  }
+  if (cursor < to) gaps.push([cursor, to]);
+  return gaps;
+}
+
+const toSpan = ([start, end]: [number, number]): TimelineSpan => ({
+  start: new Date(start).toISOString(),
+  end: new Date(end).toISOString(),
+  duration: end - start,
+});
+
+/**
+ * Oś dnia pracownika: wpisy (także trwający timer — do teraz), bloki po scaleniu nakładających się
+ * wpisów i przerwy w oknie godzin pracy. Wpisy ponad limit długości są pomijane jak w statystykach.
+ */
+export function buildDayTimeline(params: {
+  userId: string;
+  date: string;
+  window: WorkWindow;
+  timeZone: string;
+  now?: Date;
+}): DayTimeline {
+  const now = (params.now ?? new Date()).getTime();
+  const dayStart = zonedTime(params.date, 0, params.timeZone);
+  const dayEnd = zonedTime(params.date, 24 * 60, params.timeZone);
+  const windowStart = zonedTime(params.date, params.window.startMinute, params.timeZone);
+  const windowEnd = zonedTime(params.date, params.window.endMinute, params.timeZone);
+
+  // Szerszy zakres start_time (wpis mógł zacząć się poprzedniego dnia) — dokładne przycięcie niżej
+  const rows = db
+    .prepare(
+      `SELECT te.id, te.task_id, te.task_name, te.start_time, te.end_time
+       FROM time_entries te
+       WHERE te.user_id = ?
+         AND te.start_time >= ? AND te.start_time < ?
+         AND (te.end_time IS NULL OR (${WITHIN_DURATION_LIMIT_SQL}))
+         ${NOT_DELETED_SQL}
+       ORDER BY te.start_time`
+    )
+    .all(
+      params.userId,
+      new Date(dayStart - 24 * 60 * 60 * 1000).toISOString(),
+      new Date(dayEnd).toISOString()
+    ) as Array<{ id: string; task_id: string | null; task_name: string | null; start_time: string; end_time: string | null }>;
+
+  const entries: TimelineEntry[] = [];
+  const intervals: Array<[number, number]> = [];
+  for (const row of rows) {
+    const start = new Date(row.start_time).getTime();
+    const end = row.end_time ? new Date(row.end_time).getTime() : now;
+    if (!Number.isFinite(start) || !Number.isFinite(end) || end <= dayStart || start >= dayEnd || end <= start) {
+      continue;
+    }
+    const clipped: [number, number] = [Math.max(start, dayStart), Math.min(end, dayEnd)];
+    intervals.push(clipped);
+    entries.push({
+      id: row.id,
+      task_id: row.task_id,
+      task_name: row.task_name,
+      start: new Date(clipped[0]).toISOString(),
+      end: new Date(clipped[1]).toISOString(),
+      running: !row.end_time,
+    });
+  }
+
+  // Scalanie nakładających się / stykających wpisów w bloki
+  intervals.sort((a, b) => a[0] - b[0]);
+  const blocks: Array<[number, number]> = [];
+  for (const [start, end] of intervals) {
+    const last = blocks[blocks.length - 1];
+    if (last && start <= last[1]) {
+      last[1] = Math.max(last[1], end);
+    } else {
+      blocks.push([start, end]);
+    }
+  }
+
+  // Przerwy liczone tylko do teraz — przyszła część dzisiejszego okna nie jest "nietrackowana"
+  const gapsEnd = Math.min(windowEnd, Math.max(now, windowStart));
+  const gaps = subtractBlocks(windowStart, gapsEnd, blocks);
+  const untrackedInWindow = gaps.reduce((sum, [start, end]) => sum + (end - start), 0);
+  const longestGap = gaps.reduce<[number, number] | null>(
+    (longest, gap) => (!longest || gap[1] - gap[0] > longest[1] - longest[0] ? gap : longest),
+    null
+  );
+
+  return {
+    user_id: params.userId,
+    date: params.date,
+    timezone: params.timeZone,
+    day: { start: new Date(dayStart).toISOString(), end: new Date(dayEnd).toISOString() },
+    work_window: {
+      start: new Date(windowStart).toISOString(),
+      end: new Date(windowEnd).toISOString(),
+      label: `${formatMinute(params.window.startMinute)}-${formatMinute(params.window.endMinute)}`,
+    },
+    first_start: blocks.length > 0 ? new Date(blocks[0][0]).toISOString() : null,
+    last_stop: blocks.length > 0 ? new Date(blocks[blocks.length - 1][1]).toISOString() : null,
+    tracked_duration: blocks.reduce((sum, [start, end]) => sum + (end - start), 0),
+    tracked_in_window: gapsEnd - windowStart - untrackedInWindow,
+    untracked_in_window: untrackedInWindow,
+    longest_gap: longestGap ? toSpan(longestGap) : null,
+    blocks: blocks.map(toSpan),
+    gaps: gaps.map(toSpan),
+    entries,
+  };
+}
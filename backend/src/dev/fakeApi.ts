@@ -0,0 +1,653 @@
+import crypto from 'crypto';
+import express, { NextFunction, Request, Response, Router } from 'express';
+import dotenv from 'dotenv';
+import { buildFakeScenario, FakeMember, FakeNotionPage, FakeScenario, FakeTimeEntry, findFakeList } from './fakeData.js';
+
+/**
+ * Lokalny fake ClickUp + Notion API do developmentu bez produkcyjnych tokenów (npm run fake-api).
+ * Backend kieruje się na niego przez CLICKUP_API_BASE / NOTION_API_BASE (patrz README).
+ *
+ *   /clickup/api/v2/...  — członkowie, zadania, hierarchia, time entries (z bugiem powtarzającej się strony),
+ *                          aktywne timery, rejestracja webhooków
+ *   /notion/v1/...       — query baz pracowników i projektów, /users
+ *   /__fake/...          — sterowanie: start/stop timera, ręczny wpis, usunięcie wpisu, przeniesienie zadania,
+ *                          reset, stan. Każda zmiana wysyła podpisany webhook (taskTimeTrackedUpdated / taskMoved).
+ */
+
+dotenv.config();
+
+const PORT = parseInt(process.env.FAKE_API_PORT || '4010', 10);
+const TEAM_ID = process.env.FAKE_API_TEAM_ID || process.env.CLICKUP_TEAM_ID || undefined;
+// Bez webhooków zarejestrowanych przez panel admina eventy idą tu, podpisane sekretem globalnym backendu
+const WEBHOOK_TARGET = process.env.FAKE_WEBHOOK_TARGET || `http://localhost:${process.env.PORT || 3001}/webhook/clickup`;
+const WEBHOOK_SECRET = process.env.FAKE_WEBHOOK_SECRET || process.env.CLICKUP_WEBHOOK_SECRET || 'fake-webhook-secret';
+const AUTOPLAY_SEC = parseInt(process.env.FAKE_AUTOPLAY_SEC || '0', 10);
+const WORKERS_DB_IDS = ['fake-workers-db', process.env.NOTION_WORKERS_DB, process.env.NOTION_WORKERS_DS].filter(Boolean);
+const PROJECTS_DB_IDS = ['fake-projects-db', process.env.NOTION_PROJECTS_DB, process.env.NOTION_PROJECTS_DS].filter(Boolean);
+const MAX_DELIVERIES_LOG = 50;
+
+type FakeWebhook = {
+  id: string;
+  endpoint: string;
+  events: string[];
+  status: 'active' | 'inactive';
+  fail_count: number;
+  secret: string;
+};
+
+type WebhookDelivery = { at: string; webhook_id: string; endpoint: string; status: number | null; error?: string };
+
+let scenario: FakeScenario = buildFakeScenario({ teamId: TEAM_ID });
+const webhooks = new Map<string, FakeWebhook>();
+const deliveries: WebhookDelivery[] = [];
+let entrySeq = scenario.time_entries.length + 1;
+
+function resetScenario() {
+  scenario = buildFakeScenario({ teamId: TEAM_ID });
+  entrySeq = scenario.time_entries.length + 1;
+}
+
+function nextEntryId(): string {
+  return `fe${String(entrySeq++).padStart(7, '0')}`;
+}
+
+function getMember(userId: unknown): FakeMember | undefined {
+  return scenario.members.find((member) => String(member.id) === String(userId));
+}
+
+function getTask(taskId: string) {
+  return scenario.tasks.find((task) => task.id === taskId);
+}
+
+function getRunningEntry(userId: number): FakeTimeEntry | undefined {
+  return scenario.time_entries.find((entry) => entry.user_id === userId && entry.end === null);
+}
+
+function taskUrl(taskId: string): string {
+  return `https://app.clickup.com/t/${taskId}`;
+}
+
+// ── Kształty odpowiedzi ClickUp ──────────────────────────────────────
+
+function toClickUpUser(member: FakeMember) {
+  return {
+    id: member.id,
+    username: member.username,
+    email: member.email,
+    color: member.color,
+    initials: member.username
+      .split(' ')
+      .map((part) => part[0])
+      .join(''),
+    profilePicture: member.profilePicture,
+  };
+}
+
+function toClickUpTask(taskId: string) {
+  const task = getTask(taskId)!;
+  const location = findFakeList(scenario.spaces, task.list_id)!;
+  return {
+    id: task.id,
+    name: task.name,
+    status: { status: task.status, type: task.status === 'complete' ? 'closed' : 'custom' },
+    url: taskUrl(task.id),
+    team_id: scenario.team.id,
+    list: { id: location.list.id, name: location.list.name },
+    folder: location.folder ? { id: location.folder.id, name: location.folder.name } : { id: location.space.id, name: 'hidden', hidden: true },
+    space: { id: location.space.id, name: location.space.name },
+    time_estimate: task.time_estimate,
+    due_date: null,
+    assignees: task.assignees.map((id) => toClickUpUser(getMember(id)!)),
+    parent: task.parent,
+    custom_fields: [],
+  };
+}
+
+function toClickUpTimeEntry(entry: FakeTimeEntry, includeLocationNames: boolean) {
+  const task = getTask(entry.task_id)!;
+  const location = findFakeList(scenario.spaces, task.list_id)!;
+  return {
+    id: entry.id,
+    task: { id: task.id, name: task.name, status: { status: task.status }, custom_type: null },
+    wid: scenario.team.id,
+    user: toClickUpUser(getMember(entry.user_id)!),
+    billable: entry.billable,
+    start: String(entry.start),
+    // Trwający timer: brak end, duration = -start (jak w ClickUp)
+    ...(entry.end !== null ? { end: String(entry.end) } : {}),
+    duration: String(entry.end !== null ? entry.end - entry.start : -entry.start),
+    description: entry.description,
+    tags: entry.tags.map((name) => ({ name, tag_bg: '#7b68ee', tag_fg: '#ffffff', creator: entry.user_id })),
+    source: 'clickup',
+    at: String(entry.end ?? entry.start),
+    task_location: {
+      list_id: location.list.id,
+      folder_id: location.folder?.id ?? null,
+      space_id: location.space.id,
+      ...(includeLocationNames
+        ? { list_name: location.list.name, folder_name: location.folder?.name ?? null, space_name: location.space.name }
+        : {}),
+    },
+    task_url: taskUrl(task.id),
+  };
+}
+
+function toClickUpWebhook(webhook: FakeWebhook) {
+  return {
+    id: webhook.id,
+    team_id: Number(scenario.team.id),
+    endpoint: webhook.endpoint,
+    events: webhook.events,
+    task_id: null,
+    list_id: null,
+    folder_id: null,
+    space_id: null,
+    health: { status: webhook.status === 'inactive' ? 'suspended' : webhook.fail_count > 0 ? 'failing' : 'active', fail_count: webhook.fail_count },
+    secret: webhook.secret,
+  };
+}
+
+// ── Webhooki do backendu ─────────────────────────────────────────────
+
+function webhookTargets(event: string): Array<{ id: string; endpoint: string; secret: string; webhook?: FakeWebhook }> {
+  const registered = [...webhooks.values()].filter(
+    (webhook) => webhook.status === 'active' && (webhook.events.includes('*') || webhook.events.includes(event))
+  );
+  if (registered.length > 0) {
+    return registered.map((webhook) => ({ id: webhook.id, endpoint: webhook.endpoint, secret: webhook.secret, webhook }));
+  }
+  return [{ id: 'fake-webhook', endpoint: WEBHOOK_TARGET, secret: WEBHOOK_SECRET }];
+}
+
+async function sendWebhook(event: string, taskId: string, historyItem: Record<string, unknown>) {
+  for (const target of webhookTargets(event)) {
+    const body = JSON.stringify({
+      event,
+      webhook_id: target.id,
+      task_id: taskId,
+      team_id: scenario.team.id,
+      history_items: [historyItem],
+    });
+    const signature = crypto.createHmac('sha256', target.secret).update(body).digest('hex');
+    const delivery: WebhookDelivery = { at: new Date().toISOString(), webhook_id: target.id, endpoint: target.endpoint, status: null };
+
+    try {
+      const response = await fetch(target.endpoint, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', 'X-Signature': signature },
+        body,
+      });
+      delivery.status = response.status;
+      if (!response.ok) delivery.error = (await response.text()).slice(0, 200);
+    } catch (error) {
+      delivery.error = error instanceof Error ? error.message : String(error);
+    }
+
+    if (target.webhook) {
+      target.webhook.fail_count = delivery.status !== null && delivery.status < 300 ? 0 : target.webhook.fail_count + 1;
+    }
+    deliveries.unshift(delivery);
+    deliveries.length = Math.min(deliveries.length, MAX_DELIVERIES_LOG);
+    console.log(`📤 [FAKE] ${event} → ${target.endpoint}: ${delivery.status ?? delivery.error}`);
+  }
+}
+
+function webhookEntry(entry: FakeTimeEntry) {
+  const end = entry.end ?? entry.start;
+  return {
+    id: entry.id,
+    start: String(entry.start),
+    end: String(end),
+    time: String(end - entry.start),
+    source: 'clickup',
+    tags: entry.tags.map((name) => ({ name })),
+  };
+}
+
+function fireTimeTracked(entry: FakeTimeEntry, before: FakeTimeEntry | null, after: FakeTimeEntry | null) {
+  const member = getMember(entry.user_id)!;
+  const historyItem = {
+    id: crypto.randomUUID(),
+    type: 1,
+    date: String(Date.now()),
+    field: 'time_spent',
+    parent_id: getTask(entry.task_id)?.list_id,
+    data: {},
+    user: toClickUpUser(member),
+    before: before ? webhookEntry(before) : null,
+    after: after ? webhookEntry(after) : null,
+  };
+  sendWebhook('taskTimeTrackedUpdated', entry.task_id, historyItem).catch((error) =>
+    console.error('❌ [FAKE] Błąd wysyłki webhooka:', error)
+  );
+}
+
+// ── Operacje na timerach (sterowanie i autoplay) ─────────────────────
+
+function stopTimer(member: FakeMember): FakeTimeEntry | null {
+  const running = getRunningEntry(member.id);
+  if (!running) return null;
+  const before = { ...running };
+  running.end = Date.now();
+  fireTimeTracked(running, before, running);
+  return running;
+}
+
+function startTimer(member: FakeMember, taskId?: string): FakeTimeEntry {
+  stopTimer(member);
+  const assigned = scenario.tasks.filter((task) => task.assignees.includes(member.id));
+  const task = (taskId && getTask(taskId)) || assigned[0] || scenario.tasks[0];
+  const entry: FakeTimeEntry = {
+    id: nextEntryId(),
+    task_id: task.id,
+    user_id: member.id,
+    start: Date.now(),
+    end: null,
+    billable: true,
+    description: '',
+    tags: [],
+  };
+  scenario.time_entries.push(entry);
+  fireTimeTracked(entry, null, entry);
+  return entry;
+}
+
+let autoplayIndex = 0;
+
+function autoplayStep() {
+  const member = scenario.members[autoplayIndex % scenario.members.length];
+  autoplayIndex += 1;
+  if (getRunningEntry(member.id)) {
+    stopTimer(member);
+  } else {
+    const assigned = scenario.tasks.filter((task) => task.assignees.includes(member.id));
+    startTimer(member, assigned[autoplayIndex % Math.max(assigned.length, 1)]?.id);
+  }
+}
+
+// ── ClickUp API ──────────────────────────────────────────────────────
+
+function requireClickUpToken(req: Request, res: Response, next: NextFunction) {
+  if (!req.header('Authorization')) {
+    return res.status(401).json({ err: 'Token invalid', ECODE: 'OAUTH_025' });
+  }
+  next();
+}
+
+function requireTeam(req: Request, res: Response, next: NextFunction) {
+  if (req.params.teamId !== scenario.team.id) {
+    return res.status(401).json({ err: 'Team not authorized', ECODE: 'OAUTH_027' });
+  }
+  next();
+}
+
+// Osobisty token: "pk_<id członka>_..." (np. pk_81000001_fake) wskazuje właściciela,
+// każdy inny token należy do pierwszego członka (właściciel tokenu zespołu)
+function tokenMember(req: Request): FakeMember {
+  const match = /^pk_(\d+)_/.exec(req.header('Authorization') || '');
+  return (match && getMember(match[1])) || scenario.members[0];
+}
+
+const clickup = Router();
+clickup.use(requireClickUpToken);
+
+clickup.get('/user', (req, res) => {
+  res.json({ user: toClickUpUser(tokenMember(req)) });
+});
+
+clickup.get('/team', (_req, res) => {
+  res.json({
+    teams: [
+      {
+        id: scenario.team.id,
+        name: scenario.team.name,
+        color: '#7b68ee',
+        members: scenario.members.map((member) => ({ user: { ...toClickUpUser(member), role: 3 } })),
+      },
+    ],
+  });
+});
+
+clickup.get('/team/:teamId/time_entries', requireTeam, (req, res) => {
+  const now = Date.now();
+  const startMs = Number(req.query.start_date) || now - 30 * 24 * 60 * 60 * 1000;
+  const endMs = Number(req.query.end_date) || now;
+  const assignees = typeof req.query.assignee === 'string' ? req.query.assignee.split(',') : null;
+  const limit = Math.max(parseInt(req.query.limit as string, 10) || 100, 1);
+  const page = Math.max(parseInt(req.query.page as string, 10) || 0, 0);
+
+  const entries = scenario.time_entries
+    .filter((entry) => entry.start >= startMs && entry.start <= endMs)
+    .filter((entry) => !assignees || assignees.includes(String(entry.user_id)))
+    .sort((a, b) => a.start - b.start);
+
+  // Bug ClickUp: dla niektórych użytkowników każda kolejna strona zwraca pierwszą
+  const repeatsPages = assignees?.some((id) => scenario.repeat_page_bug_user_ids.includes(Number(id)));
+  const effectivePage = repeatsPages && entries.length > limit ? 0 : page;
+  const includeNames = req.query.include_location_names === 'true';
+
+  res.json({
+    data: entries
+      .slice(effectivePage * limit, (effectivePage + 1) * limit)
+      .map((entry) => toClickUpTimeEntry(entry, includeNames)),
+  });
+});
+
+clickup.get('/team/:teamId/time_entries/current', requireTeam, (req, res) => {
+  const member = req.query.assignee ? getMember(req.query.assignee) : tokenMember(req);
+  const running = member ? getRunningEntry(member.id) : undefined;
+  res.json({ data: running ? toClickUpTimeEntry(running, true) : null });
+});
+
+// Start/stop timera właściciela tokenu (jak w ClickUp: start zatrzymuje poprzedni timer)
+clickup.post('/team/:teamId/time_entries/start', requireTeam, (req, res) => {
+  if (!getTask(req.body?.tid)) {
+    return res.status(404).json({ err: 'Task not found, deleted', ECODE: 'ITEM_013' });
+  }
+  res.json({ data: toClickUpTimeEntry(startTimer(tokenMember(req), req.body.tid), true) });
+});
+
+clickup.post('/team/:teamId/time_entries/stop', requireTeam, (req, res) => {
+  const entry = stopTimer(tokenMember(req));
+  if (!entry) {
+    return res.status(400).json({ err: 'No timer running', ECODE: 'TIMEENTRY_019' });
+  }
+  res.json({ data: toClickUpTimeEntry(entry, true) });
+});
+
+// Ręczne wpisy: członek z "assignee" (token admina) albo właściciel tokenu
+clickup.post('/team/:teamId/time_entries', requireTeam, (req, res) => {
+  const member = req.body?.assignee ? getMember(req.body.assignee) : tokenMember(req);
+  const start = Number(req.body?.start);
+  const duration = Number(req.body?.duration);
+  if (!member || !getTask(req.body?.tid) || !Number.isFinite(start) || !(duration > 0)) {
+    return res.status(400).json({ err: 'Invalid time entry', ECODE: 'TIMEENTRY_001' });
+  }
+  const entry: FakeTimeEntry = {
+    id: nextEntryId(),
+    task_id: req.body.tid,
+    user_id: member.id,
+    start,
+    end: start + duration,
+    billable: Boolean(req.body.billable),
+    description: req.body.description || '',
+    tags: [],
+  };
+  scenario.time_entries.push(entry);
+  fireTimeTracked(entry, null, entry);
+  res.json({ data: toClickUpTimeEntry(entry, true) });
+});
+
+clickup.put('/team/:teamId/time_entries/:entryId', requireTeam, (req, res) => {
+  const entry = scenario.time_entries.find((e) => e.id === req.params.entryId);
+  if (!entry) {
+    return res.status(404).json({ err: 'Time entry not found', ECODE: 'TIMEENTRY_002' });
+  }
+  const before = { ...entry };
+  const start = Number(req.body?.start);
+  if (Number.isFinite(start)) entry.start = start;
+  if (Number.isFinite(Number(req.body?.end))) entry.end = Number(req.body.end);
+  else if (Number(req.body?.duration) > 0) entry.end = entry.start + Number(req.body.duration);
+  if (typeof req.body?.description === 'string') entry.description = req.body.description;
+  if (typeof req.body?.billable === 'boolean') entry.billable = req.body.billable;
+  if (req.body?.tid && getTask(req.body.tid)) entry.task_id = req.body.tid;
+  fireTimeTracked(entry, before, entry);
+  res.json({});
+});
+
+clickup.delete('/team/:teamId/time_entries/:entryId', requireTeam, (req, res) => {
+  const index = scenario.time_entries.findIndex((e) => e.id === req.params.entryId);
+  if (index === -1) {
+    return res.status(404).json({ err: 'Time entry not found', ECODE: 'TIMEENTRY_002' });
+  }
+  const [entry] = scenario.time_entries.splice(index, 1);
+  fireTimeTracked(entry, entry, null);
+  res.json({ data: [toClickUpTimeEntry(entry, true)] });
+});
+
+clickup.get('/task/:taskId', (req, res) => {
+  if (!getTask(req.params.taskId)) {
+    return res.status(404).json({ err: 'Task not found, deleted', ECODE: 'ITEM_013' });
+  }
+  res.json(toClickUpTask(req.params.taskId));
+});
+
+clickup.get('/team/:teamId/space', requireTeam, (_req, res) => {
+  res.json({ spaces: scenario.spaces.map((space) => ({ id: space.id, name: space.name, archived: false })) });
+});
+
+clickup.get('/space/:spaceId/folder', (req, res) => {
+  const space = scenario.spaces.find((s) => s.id === req.params.spaceId);
+  res.json({
+    folders: (space?.folders || []).map((folder) => ({
+      id: folder.id,
+      name: folder.name,
+      archived: false,
+      lists: folder.lists.map((list) => ({ ...list, archived: false })),
+    })),
+  });
+});
+
+clickup.get('/space/:spaceId/list', (req, res) => {
+  const space = scenario.spaces.find((s) => s.id === req.params.spaceId);
+  res.json({ lists: (space?.lists || []).map((list) => ({ ...list, archived: false })) });
+});
+
+clickup.get('/team/:teamId/webhook', requireTeam, (_req, res) => {
+  res.json({ webhooks: [...webhooks.values()].map(toClickUpWebhook) });
+});
+
+clickup.post('/team/:teamId/webhook', requireTeam, (req, res) => {
+  const { endpoint, events } = req.body || {};
+  if (typeof endpoint !== 'string' || !endpoint) {
+    return res.status(400).json({ err: 'Endpoint required', ECODE: 'WH_001' });
+  }
+  const webhook: FakeWebhook = {
+    id: crypto.randomUUID(),
+    endpoint,
+    events: Array.isArray(events) && events.length > 0 ? events : ['*'],
+    status: 'active',
+    fail_count: 0,
+    secret: crypto.randomBytes(24).toString('hex'),
+  };
+  webhooks.set(webhook.id, webhook);
+  res.json({ id: webhook.id, webhook: toClickUpWebhook(webhook) });
+});
+
+clickup.put('/webhook/:webhookId', (req, res) => {
+  const webhook = webhooks.get(req.params.webhookId);
+  if (!webhook) {
+    return res.status(404).json({ err: 'Webhook not found', ECODE: 'WH_004' });
+  }
+  const { endpoint, events, status } = req.body || {};
+  if (typeof endpoint === 'string' && endpoint) webhook.endpoint = endpoint;
+  if (Array.isArray(events) && events.length > 0) webhook.events = events;
+  if (status === 'active' || status === 'inactive') {
+    webhook.status = status;
+    if (status === 'active') webhook.fail_count = 0;
+  }
+  res.json({ id: webhook.id, webhook: toClickUpWebhook(webhook) });
+});
+
+clickup.delete('/webhook/:webhookId', (req, res) => {
+  webhooks.delete(req.params.webhookId);
+  res.json({});
+});
+
+// ── Notion API ───────────────────────────────────────────────────────
+
+function requireNotionToken(req: Request, res: Response, next: NextFunction) {
+  if (!req.header('Authorization')?.startsWith('Bearer ')) {
+    return res.status(401).json({ object: 'error', status: 401, code: 'unauthorized', message: 'API token is invalid.' });
+  }
+  next();
+}
+
+function notionPages(id: string): FakeNotionPage[] | null {
+  if (WORKERS_DB_IDS.includes(id)) return scenario.notion.workers;
+  if (PROJECTS_DB_IDS.includes(id)) return scenario.notion.projects;
+  return null;
+}
+
+function queryNotion(req: Request, res: Response) {
+  const pages = notionPages(req.params.id as string);
+  if (!pages) {
+    return res.status(404).json({
+      object: 'error',
+      status: 404,
+      code: 'object_not_found',
+      message: `Could not find database with ID: ${req.params.id}. Fake: użyj fake-workers-db / fake-projects-db.`,
+    });
+  }
+
+  const pageSize = Math.min(Math.max(Number(req.body?.page_size) || 100, 1), 100);
+  const offset = Number(req.body?.start_cursor) || 0;
+  const results = pages.slice(offset, offset + pageSize).map((page) => ({ object: 'page', ...page }));
+  const nextOffset = offset + pageSize;
+  res.json({
+    object: 'list',
+    results,
+    has_more: nextOffset < pages.length,
+    next_cursor: nextOffset < pages.length ? String(nextOffset) : null,
+  });
+}
+
+const notion = Router();
+notion.use(requireNotionToken);
+notion.post('/databases/:id/query', queryNotion);
+notion.post('/data_sources/:id/query', queryNotion);
+notion.get('/users', (_req, res) => {
+  res.json({
+    object: 'list',
+    results: [{ object: 'user', id: 'fake-bot', type: 'bot', name: 'Fake integration' }],
+    has_more: false,
+    next_cursor: null,
+  });
+});
+
+// ── Sterowanie ───────────────────────────────────────────────────────
+
+const control = Router();
+
+control.get('/state', (_req, res) => {
+  res.json({
+    team: scenario.team,
+    members: scenario.members.length,
+    tasks: scenario.tasks.length,
+    time_entries: scenario.time_entries.length,
+    running: scenario.time_entries
+      .filter((entry) => entry.end === null)
+      .map((entry) => ({ id: entry.id, user: getMember(entry.user_id)?.username, task_id: entry.task_id, start: entry.start })),
+    webhooks: [...webhooks.values()].map(toClickUpWebhook),
+    webhook_target: WEBHOOK_TARGET,
+    deliveries,
+  });
+});
+
+// POST /__fake/timers/start { user_id, task_id? } — zatrzymuje poprzedni timer użytkownika
+control.post('/timers/start', (req, res) => {
+  const member = getMember(req.body?.user_id);
+  if (!member) {
+    return res.status(404).json({ error: 'Nieznany user_id' });
+  }
+  res.json(toClickUpTimeEntry(startTimer(member, req.body?.task_id), true));
+});
+
+// POST /__fake/timers/stop { user_id }
+control.post('/timers/stop', (req, res) => {
+  const member = getMember(req.body?.user_id);
+  if (!member) {
+    return res.status(404).json({ error: 'Nieznany user_id' });
+  }
+  const entry = stopTimer(member);
+  res.json(entry ? toClickUpTimeEntry(entry, true) : { message: 'Brak trwającego timera' });
+});
+
+// POST /__fake/entries { user_id, task_id, start, duration } — ręcznie zalogowany czas (start ISO lub ms, duration ms)
+control.post('/entries', (req, res) => {
+  const member = getMember(req.body?.user_id);
+  const task = getTask(req.body?.task_id);
+  const start = Number.isFinite(Number(req.body?.start)) ? Number(req.body.start) : new Date(req.body?.start).getTime();
+  const duration = Number(req.body?.duration);
+  if (!member || !task || !Number.isFinite(start) || !(duration > 0)) {
+    return res.status(400).json({ error: 'Wymagane: user_id, task_id, start, duration (ms)' });
+  }
+  const entry: FakeTimeEntry = {
+    id: nextEntryId(),
+    task_id: task.id,
+    user_id: member.id,
+    start,
+    end: start + duration,
+    billable: true,
+    description: '',
+    tags: [],
+  };
+  scenario.time_entries.push(entry);
+  fireTimeTracked(entry, null, entry);
+  res.json(toClickUpTimeEntry(entry, true));
+});
+
+// DELETE /__fake/entries/:id — webhook z after = null (usunięcie wpisu w ClickUp)
+control.delete('/entries/:id', (req, res) => {
+  const index = scenario.time_entries.findIndex((entry) => entry.id === req.params.id);
+  if (index === -1) {
+    return res.status(404).json({ error: 'Wpis nie istnieje' });
+  }
+  const [entry] = scenario.time_entries.splice(index, 1);
+  fireTimeTracked(entry, entry, null);
+  res.json({ deleted: entry.id });
+});
+
+// POST /__fake/tasks/:id/move { list_id } — przeniesienie zadania, webhook taskMoved
+control.post('/tasks/:id/move', (req, res) => {
+  const task = getTask(req.params.id);
+  const target = findFakeList(scenario.spaces, req.body?.list_id);
+  if (!task || !target) {
+    return res.status(404).json({ error: 'Nieznane zadanie lub lista' });
+  }
+  const before = findFakeList(scenario.spaces, task.list_id)!;
+  task.list_id = target.list.id;
+  const historyItem = {
+    id: crypto.randomUUID(),
+    type: 1,
+    date: String(Date.now()),
+    field: 'section_moved',
+    parent_id: target.list.id,
+    data: {},
+    user: toClickUpUser(scenario.members[0]),
+    before: { id: before.list.id, name: before.list.name },
+    after: { id: target.list.id, name: target.list.name },
+  };
+  sendWebhook('taskMoved', task.id, historyItem).catch((error) => console.error('❌ [FAKE] Błąd wysyłki webhooka:', error));
+  res.json(toClickUpTask(task.id));
+});
+
+control.post('/reset', (_req, res) => {
+  resetScenario();
+  res.json({ message: 'Scenariusz odtworzony', time_entries: scenario.time_entries.length });
+});
+
+// ── Serwer ───────────────────────────────────────────────────────────
+
+const app = express();
+app.use(express.json());
+app.use((req, _res, next) => {
+  if (!req.path.startsWith('/__fake')) console.log(`[FAKE] ${req.method} ${req.originalUrl}`);
+  next();
+});
+app.use('/clickup/api/v2', clickup);
+app.use('/notion/v1', notion);
+app.use('/__fake', control);
+
+app.listen(PORT, () => {
+  console.log(`🧪 Fake ClickUp/Notion API na http://localhost:${PORT}`);
+  console.log(`   CLICKUP_API_BASE=http://localhost:${PORT}/clickup/api/v2`);
+  console.log(`   NOTION_API_BASE=http://localhost:${PORT}/notion/v1`);
+  console.log(`   CLICKUP_TEAM_ID=${scenario.team.id}, NOTION_WORKERS_DB=fake-workers-db, NOTION_PROJECTS_DB=fake-projects-db`);
+  console.log(`   Webhooki → ${WEBHOOK_TARGET} (chyba że zarejestrowano je w panelu admina)`);
+
+  if (AUTOPLAY_SEC > 0) {
+    console.log(`   Autoplay: start/stop timera co ${AUTOPLAY_SEC}s`);
+    setInterval(autoplayStep, AUTOPLAY_SEC * 1000);
+  }
+});
@@ -0,0 +1,243 @@
+
+// Dane fake serwera (npm run fake-api). Generowane deterministycznie z seeda —
+// każdy restart daje te same wpisy, więc importy i raporty da się porównywać.
+
+// Workspace fake'a, gdy nie podano FAKE_API_TEAM_ID / CLICKUP_TEAM_ID — backend ustawia ten sam CLICKUP_TEAM_ID
+export const FAKE_TEAM_ID = '9000001';
+
+export type FakeMember = {
+  id: number;
+  username: string;
+  email: string;
+  color: string;
+  profilePicture: string | null;
+};
+
+export type FakeList = { id: string; name: string };
+export type FakeFolder = { id: string; name: string; lists: FakeList[] };
+export type FakeSpace = { id: string; name: string; folders: FakeFolder[]; lists: FakeList[] };
+
+export type FakeTask = {
+  id: string;
+  name: string;
+  status: string;
+  list_id: string;
+  time_estimate: number | null;
+  assignees: number[];
+  parent: string | null;
+};
+
+export type FakeTimeEntry = {
+  id: string;
+  task_id: string;
+  user_id: number;
+  start: number;
+  // null = timer trwa
+  end: number | null;
+  billable: boolean;
+  description: string;
+  tags: string[];
+};
+
+export type FakeNotionPage = { id: string; properties: Record<string, unknown> };
+
+export type FakeScenario = {
+  team: { id: string; name: string };
+  members: FakeMember[];
+  spaces: FakeSpace[];
+  tasks: FakeTask[];
+  time_entries: FakeTimeEntry[];
+  // Użytkownicy, dla których /time_entries powtarza w kółko pierwszą stronę (bug ClickUp API)
+  repeat_page_bug_user_ids: number[];
+  notion: { workers: FakeNotionPage[]; projects: FakeNotionPage[] };
+};
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+const TAGS = ['meeting', 'bugfix', 'review', 'research'];
+
+// mulberry32 — mały PRNG z seedem, wystarczy do danych testowych
+function createRandom(seed: number) {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function richText(content: string) {
+  return [{ type: 'text', text: { content }, plain_text: content }];
+}
+
+/**
+ * Scenariusz: 5 członków, 2 space'y z folderami i listami, zadania z subtaskami,
+ * wpisy czasu z ostatnich `days` dni (dni robocze), 2 trwające timery i pracownicy/projekty w Notion.
+ * Członek "Paginacja Bug" ma dość wpisów na kilka stron i trafia na powtarzającą się stronę.
+ */
+export function buildFakeScenario(options: { teamId?: string; days?: number; now?: number } = {}): FakeScenario {
+  const teamId = options.teamId || FAKE_TEAM_ID;
+  const days = options.days ?? 45;
+  const now = options.now ?? Date.now();
+  const random = createRandom(20240601);
+
+  const members: FakeMember[] = [
+    { id: 81000001, username: 'Anna Nowak', email: 'anna@example.com', color: '#7b68ee', profilePicture: null },
+    { id: 81000002, username: 'Piotr Kowalski', email: 'piotr@example.com', color: '#ff7800', profilePicture: null },
+    { id: 81000003, username: 'Ola Wiśniewska', email: 'ola@example.com', color: '#1bbc9c', profilePicture: null },
+    { id: 81000004, username: 'Marek Zieliński', email: 'marek@example.com', color: '#e50000', profilePicture: null },
+    { id: 81000005, username: 'Paginacja Bug', email: 'bug@example.com', color: '#595d66', profilePicture: null },
+  ];
+
+  const spaces: FakeSpace[] = [
+    {
+      id: '90100001',
+      name: 'Klienci',
+      folders: [
+        {
+          id: '90110001',
+          name: 'Sklep Alfa',
+          lists: [
+            { id: '90120001', name: 'Alfa — rozwój' },
+            { id: '90120002', name: 'Alfa — utrzymanie' },
+          ],
+        },
+        { id: '90110002', name: 'Portal Beta', lists: [{ id: '90120003', name: 'Beta — wdrożenie' }] },
+      ],
+      lists: [{ id: '90120004', name: 'Inbox' }],
+    },
+    {
+      id: '90100002',
+      name: 'Wewnętrzne',
+      folders: [],
+      lists: [{ id: '90120005', name: 'Important' }],
+    },
+  ];
+
+  const listIds = spaces.flatMap((space) => [...space.lists, ...space.folders.flatMap((f) => f.lists)]).map((l) => l.id);
+  const tasks: FakeTask[] = [];
+  let taskSeq = 1;
+  for (const listId of listIds) {
+    const list = findFakeList(spaces, listId)!.list;
+    for (let i = 0; i < 4; i++) {
+      const id = `fk${String(taskSeq++).padStart(5, '0')}`;
+      tasks.push({
+        id,
+        name: `${list.name}: zadanie ${i + 1}`,
+        status: i === 3 ? 'complete' : 'in progress',
+        list_id: listId,
+        time_estimate: i % 2 === 0 ? (4 + i * 2) * HOUR_MS : null,
+        assignees: [members[(taskSeq + i) % members.length].id],
+        parent: null,
+      });
+    }
+    // Subtask pierwszego zadania listy
+    const parent = tasks[tasks.length - 4];
+    tasks.push({
+      id: `fk${String(taskSeq++).padStart(5, '0')}`,
+      name: `${parent.name} — poprawki`,
+      status: 'in progress',
+      list_id: listId,
+      time_estimate: 2 * HOUR_MS,
+      assignees: parent.assignees,
+      parent: parent.id,
+    });
+  }
+
+  const timeEntries: FakeTimeEntry[] = [];
+  let entrySeq = 1;
+  const today = new Date(now);
+  today.setUTCHours(0, 0, 0, 0);
+
+  for (let dayOffset = days; dayOffset >= 1; dayOffset--) {
+    const dayStart = today.getTime() - dayOffset * DAY_MS;
+    const weekday = new Date(dayStart).getUTCDay();
+    if (weekday === 0 || weekday === 6) continue;
+
+    for (const member of members) {
+      const isBugMember = member.id === members[members.length - 1].id;
+      const count = isBugMember ? 6 : 2 + Math.floor(random() * 3);
+      let cursor = dayStart + 7 * HOUR_MS + Math.floor(random() * 60) * 60_000;
+
+      for (let i = 0; i < count; i++) {
+        const duration = (20 + Math.floor(random() * 150)) * 60_000;
+        const task = tasks[Math.floor(random() * tasks.length)];
+        timeEntries.push({
+          id: `fe${String(entrySeq++).padStart(7, '0')}`,
+          task_id: task.id,
+          user_id: member.id,
+          start: cursor,
+          end: cursor + duration,
+          billable: random() > 0.3,
+          description: '',
+          tags: random() > 0.6 ? [TAGS[Math.floor(random() * TAGS.length)]] : [],
+        });
+        cursor += duration + Math.floor(random() * 45) * 60_000;
+      }
+    }
+  }
+
+  // Dwa trwające timery (widoczne w /time_entries/current)
+  for (const [index, member] of members.slice(0, 2).entries()) {
+    timeEntries.push({
+      id: `fe${String(entrySeq++).padStart(7, '0')}`,
+      task_id: tasks[index * 3].id,
+      user_id: member.id,
+      start: now - (25 + index * 40) * 60_000,
+      end: null,
+      billable: true,
+      description: '',
+      tags: [],
+    });
+  }
+
+  const workers: FakeNotionPage[] = members.map((member, index) => ({
+    id: `notion-worker-${index + 1}`,
+    properties: {
+      'Imię i nazwisko': { type: 'title', title: richText(member.username) },
+      'ClickUp ID': { type: 'rich_text', rich_text: richText(String(member.id)) },
+      'Stawka godzinowa': { type: 'number', number: 60 + index * 15 },
+      Status: { type: 'status', status: { name: 'Aktywny' } },
+    },
+  }));
+
+  const projects: FakeNotionPage[] = listIds.map((listId, index) => {
+    const list = findFakeList(spaces, listId)!.list;
+    const internal = list.name === 'Important';
+    return {
+      id: `notion-project-${index + 1}`,
+      properties: {
+        Name: { type: 'title', title: richText(list.name) },
+        'Średnia wartość za godzinę': { type: 'number', number: internal ? 0 : 150 + index * 20 },
+        Status: { type: 'status', status: { name: 'W trakcie' } },
+        Tags: { type: 'multi_select', multi_select: internal ? [{ name: 'important' }] : [] },
+        'Do projektu w clickup': { type: 'url', url: `https://app.clickup.com/${teamId}/v/li/${listId}` },
+        'Budżet miesięczny': { type: 'number', number: index % 2 === 0 ? 8000 : null },
+      },
+    };
+  });
+
+  return {
+    team: { id: teamId, name: 'Fake Workspace' },
+    members,
+    spaces,
+    tasks,
+    time_entries: timeEntries,
+    repeat_page_bug_user_ids: [members[members.length - 1].id],
+    notion: { workers, projects },
+  };
+}
+
+export function findFakeList(spaces: FakeSpace[], listId: string) {
+  for (const space of spaces) {
+    const list = space.lists.find((l) => l.id === listId);
+    if (list) return { space, folder: null, list };
+    for (const folder of space.folders) {
+      const folderList = folder.lists.find((l) => l.id === listId);
+      if (folderList) return { space, folder, list: folderList };
+    }
+  }
+  return null;
+}
@@ -0,0 +1,167 @@
+import { Server } from 'socket.io';
+import { getConfig } from './config.js';
+import {
+  getEntryMaxDuration,
+  getLongEntryReview,
+  getWorkspaceRow,
+  insertTimerAlert,
+  recordLongEntryReview,
+} from './database.js';
+import { getDefaultTeamId } from './clickup/workspaces.js';
+import { emitScopedEvent } from './socket.js';
+import type { CachedTimer } from './polling.js';
+
+// Zapomniane timery: alerty o timerach, które trwają za długo, i polityka dla wpisów dłuższych
+// niż ich limit z duration_policies (cap / drop / flag) ustawiana per workspace.
+
+const DEFAULT_FORGOTTEN_TIMER_HOURS = 8;
+const DEFAULT_FORGOTTEN_TIMER_AFTER_HOUR = 20;
+const DEFAULT_LONG_ENTRY_POLICY: LongEntryPolicy = 'flag';
+const DEFAULT_TIMEZONE = 'Europe/Warsaw';
+
+/**
+ * cap  — czas przycinany do limitu, wpis liczy się w statystykach
+ * drop — wpis pomijany (import go nie zapisuje, z webhooka/pollera zostaje z pełnym czasem poza statystykami)
+ * flag — wpis z pełnym czasem poza statystykami trafia do kolejki w panelu admina
+ */
+export type LongEntryPolicy = 'cap' | 'drop' | 'flag';
+export const LONG_ENTRY_POLICIES: LongEntryPolicy[] = ['cap', 'drop', 'flag'];
+
+export function isLongEntryPolicy(value: unknown): value is LongEntryPolicy {
+  return typeof value === 'string' && (LONG_ENTRY_POLICIES as string[]).includes(value);
+}
+
+/** Polityka workspace'u; bez własnej — LONG_ENTRY_POLICY z ustawień. */
+export function getLongEntryPolicy(teamId: string | null | undefined): LongEntryPolicy {
+  const own = getWorkspaceRow(teamId || getDefaultTeamId())?.long_entry_policy;
+  if (isLongEntryPolicy(own)) return own;
+  const global = getConfig('LONG_ENTRY_POLICY', DEFAULT_LONG_ENTRY_POLICY);
+  return isLongEntryPolicy(global) ? global : DEFAULT_LONG_ENTRY_POLICY;
+}
+
+export type LongEntryDecision = { store: boolean; duration: number };
+
+/**
+ * Decyzja dla zakończonego wpisu. Wpis w limicie przechodzi bez zmian; dłuższy jest zapisywany
+ * w long_entry_reviews (także cap/drop — żeby admin wiedział) i traktowany zgodnie z polityką.
+ * Czas ustalony wcześniej przez admina wygrywa z kolejnymi importami.
+ */
+export function applyLongEntryPolicy(entry: {
+  id: string;
+  teamId: string | null;
+  userId: string | null;
+  userName: string | null;
+  taskId: string | null;
+  taskName: string | null;
+  startTime: string | null;
+  duration: number;
+  source: 'poll' | 'webhook' | 'import';
+}): LongEntryDecision {
+  const review = getLongEntryReview(entry.id);
+  if (review?.resolved_at) {
+    return { store: true, duration: review.resolved_duration ?? entry.duration };
+  }
+  const maxDuration = getEntryMaxDuration({ id: entry.id, userId: entry.userId, taskId: entry.taskId });
+  if (entry.duration <= maxDuration) {
+    return { store: true, duration: entry.duration };
+  }
+
+  const policy = getLongEntryPolicy(entry.teamId);
+  const hours = Math.round(entry.duration / 3600000);
+  console.log(
+    `⚠️ [${entry.source}] Wpis ${entry.id} (${entry.userName || entry.userId}): ${hours}h > max ${maxDuration / 3600000}h — ${policy}`
+  );
+
+  recordLongEntryReview({
+    entryId: entry.id,
+    teamId: entry.teamId,
+    userId: entry.userId,
+    userName: entry.userName,
+    taskId: entry.taskId,
+    taskName: entry.taskName,
+    startTime: entry.startTime,
+    rawDuration: entry.duration,
+    maxDuration,
+    source: entry.source,
+    status: policy === 'cap' ? 'capped' : policy === 'drop' ? 'dropped' : 'pending',
+  });
+
+  if (policy === 'cap') {
+    return { store: true, duration: maxDuration };
+  }
+  return { store: policy === 'flag' || entry.source !== 'import', duration: entry.duration };
+}
+
+// ── Detektor (wywoływany po każdym cyklu pollera) ───────────────────
+
+function getNumberConfig(key: string, fallback: number): number {
+  const value = parseFloat(getConfig(key, String(fallback))!);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+// Data (YYYY-MM-DD) i godzina w strefie czasowej pollera
+function localParts(date: Date, timeZone: string): { day: string; hour: number } {
+  const parts = new Intl.DateTimeFormat('en-CA', {
+    timeZone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: 'numeric',
+    hourCycle: 'h23',
+  }).formatToParts(date);
+  const get = (type: string) => parts.find((p) => p.type === type)?.value || '';
+  return { day: `${get('year')}-${get('month')}-${get('day')}`, hour: parseInt(get('hour'), 10) || 0 };
+}
+
+/**
+ * Sprawdza trwające timery względem progów FORGOTTEN_TIMER_HOURS (dłużej niż N godzin)
+ * i FORGOTTEN_TIMER_AFTER_HOUR (timer działa po tej godzinie albo od poprzedniego dnia).
+ * Każdy próg zgłaszany raz na wpis: zapis w timer_alerts + zdarzenie timer_alert (pracownik i admini).
+ */
+export function checkForgottenTimers(io: Server, timers: Iterable<CachedTimer>, now: Date = new Date()) {
+  const maxHours = getNumberConfig('FORGOTTEN_TIMER_HOURS', DEFAULT_FORGOTTEN_TIMER_HOURS);
+  const afterHour = getNumberConfig('FORGOTTEN_TIMER_AFTER_HOUR', DEFAULT_FORGOTTEN_TIMER_AFTER_HOUR);
+  let timeZone = getConfig('POLL_TIMEZONE', DEFAULT_TIMEZONE)!;
+  let nowLocal: { day: string; hour: number };
+  try {
+    nowLocal = localParts(now, timeZone);
+  } catch {
+    // Nieprawidłowa strefa w ustawieniach — jak w pollerze, wracamy do domyślnej
+    timeZone = DEFAULT_TIMEZONE;
+    nowLocal = localParts(now, timeZone);
+  }
+
+  for (const timer of timers) {
+    const startMs = Number.parseInt(timer.start, 10);
+    if (!Number.isFinite(startMs)) continue;
+
+    const runningHours = (now.getTime() - startMs) / 3600000;
+    const startedLocal = localParts(new Date(startMs), timeZone);
+    const alerts: Array<{ kind: string; message: string }> = [];
+
+    if (runningHours >= maxHours) {
+      alerts.push({ kind: 'long_running', message: `Timer działa od ponad ${maxHours}h` });
+    }
+    if (nowLocal.hour >= afterHour || startedLocal.day !== nowLocal.day) {
+      alerts.push({ kind: 'after_hours', message: `Timer działa po ${afterHour}:00` });
+    }
+
+    for (const alert of alerts) {
+      const row = insertTimerAlert({
+        entry_id: timer.id,
+        kind: alert.kind,
+        team_id: timer.team_id || getDefaultTeamId(),
+        user_id: String(timer.user.id),
+        user_name: timer.user.username,
+        task_id: timer.task.id,
+        task_name: timer.task.name,
+        start_time: new Date(startMs).toISOString(),
+        message: alert.message,
+      });
+      if (!row) continue;
+
+      console.log(`⏰ [ALERT] ${timer.user.username}: ${alert.message} (${timer.task.name})`);
+      emitScopedEvent(io, 'timer_alert', { ...row, user_id: String(timer.user.id) });
+    }
+  }
+}
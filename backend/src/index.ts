@@ -11,9 +11,16 @@ import { adminRouter } from './routes/admin.js';
 import { notionRouter } from './routes/notion.js';
 import { earningsRouter } from './routes/earnings.js';
 import { homeRouter } from './routes/home.js';
+import { tasksRouter } from './routes/tasks.js';
+import { timerRouter } from './routes/timer.js';
+import { entriesRouter } from './routes/entries.js';
 import { startPolling } from './polling.js';
+import { startResyncScheduler } from './clickup/sync.js';
+import { startJobWorker } from './jobs/queue.js';
 import { verifyToken } from './auth/jwt.js';
 import { sendActiveSessionsToSocket } from './socket.js';
+import { RawBodyRequest } from './auth/webhook.js';
+import { listWorkspaces } from './clickup/workspaces.js';
 
 dotenv.config();
 
@@ -59,7 +66,14 @@ io.use((socket, next) => {
 
 // Middleware
 app.use(cors());
-app.use(express.json());
+app.use(
+  express.json({
+    // Zachowaj surowe body — potrzebne do weryfikacji HMAC webhooków ClickUp
+    verify: (req, _res, buf) => {
+      (req as RawBodyRequest).rawBody = buf;
+    },
+  })
+);
 
 // Przekaż io do routerów przez app.locals
 app.locals.io = io;
@@ -74,6 +88,9 @@ app.use('/admin', adminRouter);
 app.use('/api/notion', notionRouter);
 app.use('/api/earnings', earningsRouter);
 app.use('/api/home', homeRouter);
+app.use('/api/tasks', tasksRouter);
+app.use('/api/timer', timerRouter);
+app.use('/api/entries', entriesRouter);
 
 // Health check
 app.get('/health', (req, res) => {
@@ -94,7 +111,7 @@ io.on('connection', (socket) => {
         u.profile_picture as user_avatar
        FROM time_entries te
        LEFT JOIN users u ON te.user_id = u.id
-       WHERE te.end_time IS NULL
+       WHERE te.end_time IS NULL AND te.deleted_at IS NULL
        ORDER BY te.start_time DESC`
     )
     .all() as Array<Record<string, unknown> & { user_id?: string; task_id?: string; task_url?: string }>;
@@ -118,6 +135,11 @@ const PORT = process.env.PORT || 3001;
 async function startServer() {
   await initDatabase();
 
+  if (listWorkspaces().length === 0) {
+    console.error('❌ Brak workspace\'u ClickUp — ustaw CLICKUP_TEAM_ID (backend/.env albo Panel → Ustawienia).');
+    console.error('   Do tego czasu polling, synchronizacja i webhooki bez team_id nie mają dokąd zapisywać danych.');
+  }
+
   httpServer.listen(PORT, () => {
     console.log(`
 🚀 ClickUp Activity Monitor Backend
@@ -129,6 +151,12 @@ async function startServer() {
 
     // Uruchom polling aktywnych timerów
     startPolling(io);
+
+    // Worker zadań w tle (import, backfill, sync Notion) — wznawia przerwane restartem
+    startJobWorker();
+
+    // Nocna re-synchronizacja ostatnich dni (zmiany w ClickUp bez webhooka)
+    startResyncScheduler();
   });
 }
 
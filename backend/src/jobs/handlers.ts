@@ -0,0 +1,634 @@
+import {
+  db,
+  getEntryMaxDuration,
+  getReconcileDays,
+  linkEntriesToTaskHierarchy,
+  markReconcileDayReimported,
+  replaceReconcileDays,
+  ReconcileDayInput,
+  upsertTask,
+  upsertUser,
+} from '../database.js';
+import { fetchClickUpTask, fetchClickUpTeamMembers } from '../clickup.js';
+import {
+  ImportedTimeEntry,
+  TaskDetailsCache,
+  forEachTimeEntryPage,
+  normalizeClickUpTimeEntry,
+  upsertImportedTimeEntries,
+} from '../clickup/sync.js';
+import { getWorkspace, getWorkspaceToken, listActiveWorkspaces } from '../clickup/workspaces.js';
+import { syncWorkspaceHierarchy } from '../clickup/hierarchy.js';
+import { syncProjects, syncWorkers } from '../notion/sync.js';
+import { ENTRY_MAX_DURATION_SQL, NOT_DELETED_SQL } from '../constants.js';
+import type { JobHandler } from './queue.js';
+
+// ── import_time_entries ──────────────────────────────────────────────
+
+type ImportParams = {
+  start: string;
+  end: string;
+  label: string;
+  limit: number;
+  assignees?: string[];
+  // Brak = workspace domyślny (zadania sprzed obsługi wielu workspace'ów)
+  team_id?: string;
+};
+
+type ImportTotals = { fetched: number; saved: number; skipped: number; pages: number };
+
+// Checkpoint: lista assignee ustalona przy starcie + pozycja (użytkownik, następna strona)
+type ImportCheckpoint = {
+  assignee_ids: string[];
+  assignee_index: number;
+  page: number;
+  totals: ImportTotals;
+};
+
+const importTimeEntries: JobHandler<ImportParams, ImportCheckpoint> = async (ctx) => {
+  const { params } = ctx;
+  const workspace = getWorkspace(params.team_id);
+  if (!workspace) {
+    throw new Error(`Nieznany workspace ${params.team_id}`);
+  }
+  const teamId = workspace.team_id;
+  const startMs = new Date(params.start).getTime();
+  const endMs = new Date(params.end).getTime();
+  const limit = params.limit || 100;
+
+  let assigneeIds = ctx.checkpoint?.assignee_ids;
+  if (!assigneeIds) {
+    if (params.assignees && params.assignees.length > 0) {
+      assigneeIds = params.assignees;
+      console.log(`   Assignees (ręcznie): ${assigneeIds.join(', ')}`);
+    } else {
+      const members = await fetchClickUpTeamMembers(teamId, workspace.api_token);
+      assigneeIds = members.map((member) => String(member.id));
+      console.log(`   Znaleziono ${members.length} członków: ${members.map(m => m.username).join(', ')}`);
+
+      // Zapisz wszystkich członków do tabeli users, żeby lista była pełna
+      for (const member of members) {
+        upsertUser({
+          id: String(member.id),
+          username: member.username,
+          email: member.email,
+          color: member.color,
+          profilePicture: member.profilePicture || undefined,
+          teamId,
+        });
+      }
+    }
+  }
+
+  if (assigneeIds.length === 0) {
+    throw new Error('Brak assignee do importu. Sprawdź uprawnienia tokena.');
+  }
+
+  console.log(`\n📦 [IMPORT] Zadanie #${ctx.jobId}: ${params.start.split('T')[0]} → ${params.end.split('T')[0]} (${params.label}, workspace ${workspace.name})`);
+
+  const totals: ImportTotals = ctx.checkpoint?.totals ?? { fetched: 0, saved: 0, skipped: 0, pages: 0 };
+  const taskCache: TaskDetailsCache = new Map();
+  const firstIndex = ctx.checkpoint?.assignee_index ?? 0;
+  const ids = assigneeIds;
+
+  const report = (index: number) =>
+    ctx.reportProgress({ user: index + 1, totalUsers: ids.length, assigneeId: ids[index], ...totals });
+
+  for (let index = firstIndex; index < ids.length; index++) {
+    const assigneeId = ids[index];
+    const startPage = index === firstIndex ? ctx.checkpoint?.page ?? 0 : 0;
+    console.log(`\n   👤 [${index + 1}/${ids.length}] Pobieram wpisy dla użytkownika ${assigneeId}...`);
+    ctx.throwIfCancelled();
+    report(index);
+
+    const pageParams = { teamId, token: workspace.api_token, startMs, endMs, limit, assignee: assigneeId, startPage };
+    await forEachTimeEntryPage(pageParams, async (entries, page) => {
+      ctx.throwIfCancelled();
+
+      const normalized: ImportedTimeEntry[] = [];
+      for (const entry of entries) {
+        const item = await normalizeClickUpTimeEntry(entry, taskCache, workspace);
+        if (item) {
+          normalized.push(item);
+        } else {
+          totals.skipped += 1;
+        }
+      }
+
+      upsertImportedTimeEntries(normalized);
+      totals.fetched += entries.length;
+      totals.saved += normalized.length;
+      totals.pages += 1;
+
+      ctx.saveCheckpoint({ assignee_ids: ids, assignee_index: index, page: page + 1, totals });
+      report(index);
+    });
+
+    ctx.saveCheckpoint({ assignee_ids: ids, assignee_index: index + 1, page: 0, totals });
+  }
+
+  console.log(`\n✅ [IMPORT] Zakończono!`);
+  console.log(`   Pobrano: ${totals.fetched} wpisów, Zapisano: ${totals.saved}, Pominięto: ${totals.skipped}`);
+  console.log(`   Stron API: ${totals.pages}, Członków: ${ids.length}, Tasków w cache: ${taskCache.size}\n`);
+
+  return {
+    range: params.label,
+    team_id: teamId,
+    start: params.start,
+    end: params.end,
+    ...totals,
+    assignees: ids.length,
+  };
+};
+
+// ── backfill_tasks ───────────────────────────────────────────────────
+
+// Bez checkpointu — uzupełnione zadania nie wracają w zapytaniu, więc ponowienie kontynuuje.
+// assignees IS NULL = task zapisany bez szczegółów (estymata, termin) — np. sprzed ich obsługi
+const backfillTasks: JobHandler<{ limit: number }> = async (ctx) => {
+  const limit = ctx.params.limit || 50;
+
+  const taskRows = db
+    .prepare(
+      `SELECT te.task_id as task_id, MIN(te.team_id) as team_id
+       FROM time_entries te
+       LEFT JOIN tasks t ON t.id = te.task_id
+       WHERE (t.id IS NULL OR t.list_id IS NULL OR t.assignees IS NULL)
+         ${NOT_DELETED_SQL}
+       GROUP BY te.task_id
+       LIMIT ?`
+    )
+    .all(limit) as Array<{ task_id: string; team_id: string | null }>;
+
+  const failedTaskIds: string[] = [];
+  let updated = 0;
+
+  for (const [index, row] of taskRows.entries()) {
+    ctx.throwIfCancelled();
+
+    const task = await fetchClickUpTask(row.task_id, getWorkspaceToken(row.team_id));
+    if (!task) {
+      failedTaskIds.push(row.task_id);
+    } else {
+      upsertTask({ ...task, teamId: row.team_id ?? undefined });
+      linkEntriesToTaskHierarchy(task.id);
+      updated += 1;
+    }
+
+    ctx.reportProgress({ processed: index + 1, total: taskRows.length, updated, failed: failedTaskIds.length });
+  }
+
+  return {
+    requested: taskRows.length,
+    updated,
+    failed: failedTaskIds.length,
+    failed_task_ids: failedTaskIds,
+  };
+};
+
+// ── notion_sync_workers / notion_sync_projects ───────────────────────
+
+const notionSyncWorkers: JobHandler = async () => syncWorkers();
+
+const notionSyncProjects: JobHandler = async () => syncProjects();
+
+// ── sync_hierarchy ───────────────────────────────────────────────────
+
+// Space'y / foldery / listy z ClickUp — jeden workspace (params.team_id) albo wszystkie aktywne
+const syncHierarchy: JobHandler<{ team_id?: string }> = async (ctx) => {
+  let workspaces = listActiveWorkspaces();
+  if (ctx.params.team_id) {
+    const workspace = getWorkspace(ctx.params.team_id);
+    if (!workspace) {
+      throw new Error(`Nieznany workspace ${ctx.params.team_id}`);
+    }
+    workspaces = [workspace];
+  }
+
+  const totals = { spaces: 0, folders: 0, lists: 0, archived: 0 };
+  for (const [index, workspace] of workspaces.entries()) {
+    ctx.throwIfCancelled();
+    const result = await syncWorkspaceHierarchy(workspace, (space, spacesTotal) =>
+      ctx.reportProgress({ processed: index, total: workspaces.length, space, spaces_total: spacesTotal })
+    );
+    totals.spaces += result.spaces;
+    totals.folders += result.folders;
+    totals.lists += result.lists;
+    totals.archived += result.archived;
+  }
+
+  return {
+    message: `Zsynchronizowano ${totals.spaces} space'ów, ${totals.folders} folderów, ${totals.lists} list`,
+    ...totals,
+  };
+};
+
+// ── reconcile_time_entries ───────────────────────────────────────────
+
+const RECONCILE_PAGE_LIMIT = 100;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+type ReconcileParams = {
+  start: string;
+  end: string;
+  // Brak = wszystkie aktywne workspace'y
+  team_id?: string;
+};
+
+type ReconcileMember = { team_id: string; user_id: string; user_name: string };
+
+type ReconcileTotals = {
+  users: number;
+  entries: number;
+  mismatched_days: number;
+  missing: number;
+  extra: number;
+  changed: number;
+  truncated_users: string[];
+};
+
+// Checkpoint: lista użytkowników ustalona przy starcie + indeks następnego do sprawdzenia
+type ReconcileCheckpoint = { members: ReconcileMember[]; index: number; totals: ReconcileTotals };
+
+type ReconcileEntry = { id: string; day: string; start_time: string; duration: number };
+
+// Dzień wpisu = data UTC startu, tak jak date(start_time) w raportach
+function entryDay(startIso: string): string {
+  return startIso.slice(0, 10);
+}
+
+function emptyReconcileDay(member: ReconcileMember, day: string): ReconcileDayInput {
+  return {
+    team_id: member.team_id,
+    user_id: member.user_id,
+    user_name: member.user_name,
+    day,
+    clickup_duration: 0,
+    local_duration: 0,
+    clickup_count: 0,
+    local_count: 0,
+    missing_ids: [],
+    extra_ids: [],
+    changed_ids: [],
+  };
+}
+
+/**
+ * Porównuje zakończone wpisy użytkownika z ClickUp i z bazy, dzień po dniu.
+ * Zwraca tylko dni z rozbieżnością: brakujące wpisy, nadmiarowe (usunięte w ClickUp)
+ * albo z innym czasem trwania / startem.
+ */
+function compareReconcileEntries(
+  member: ReconcileMember,
+  remote: ReconcileEntry[],
+  local: ReconcileEntry[]
+): ReconcileDayInput[] {
+  const days = new Map<string, ReconcileDayInput>();
+  const getDay = (day: string) => {
+    let row = days.get(day);
+    if (!row) {
+      row = emptyReconcileDay(member, day);
+      days.set(day, row);
+    }
+    return row;
+  };
+
+  const localById = new Map(local.map((entry) => [entry.id, entry]));
+  const remoteIds = new Set(remote.map((entry) => entry.id));
+
+  for (const entry of remote) {
+    const row = getDay(entry.day);
+    row.clickup_duration += entry.duration;
+    row.clickup_count += 1;
+
+    const stored = localById.get(entry.id);
+    if (!stored) {
+      row.missing_ids.push(entry.id);
+    } else if (stored.duration !== entry.duration || stored.start_time !== entry.start_time) {
+      row.changed_ids.push(entry.id);
+      // Przesunięty na inny dzień — rozbieżny jest też dzień zapisany u nas
+      if (stored.day !== entry.day) getDay(stored.day).changed_ids.push(entry.id);
+    }
+  }
+
+  for (const entry of local) {
+    const row = getDay(entry.day);
+    row.local_duration += entry.duration;
+    row.local_count += 1;
+    if (!remoteIds.has(entry.id)) row.extra_ids.push(entry.id);
+  }
+
+  return [...days.values()].filter(
+    (row) =>
+      row.missing_ids.length > 0 ||
+      row.extra_ids.length > 0 ||
+      row.changed_ids.length > 0 ||
+      row.clickup_duration !== row.local_duration
+  );
+}
+
+const reconcileTimeEntries: JobHandler<ReconcileParams, ReconcileCheckpoint> = async (ctx) => {
+  const { params } = ctx;
+  const startMs = new Date(params.start).getTime();
+  const endMs = new Date(params.end).getTime();
+
+  let members = ctx.checkpoint?.members;
+  if (!members) {
+    let workspaces = listActiveWorkspaces();
+    if (params.team_id) {
+      const workspace = getWorkspace(params.team_id);
+      if (!workspace) {
+        throw new Error(`Nieznany workspace ${params.team_id}`);
+      }
+      workspaces = [workspace];
+    }
+
+    members = [];
+    for (const workspace of workspaces) {
+      for (const member of await fetchClickUpTeamMembers(workspace.team_id, workspace.api_token)) {
+        upsertUser({
+          id: String(member.id),
+          username: member.username,
+          email: member.email,
+          color: member.color,
+          profilePicture: member.profilePicture || undefined,
+          teamId: workspace.team_id,
+        });
+        members.push({ team_id: workspace.team_id, user_id: String(member.id), user_name: member.username });
+      }
+    }
+  }
+
+  console.log(`\n🧮 [RECONCILE] Zadanie #${ctx.jobId}: ${params.start.split('T')[0]} → ${params.end.split('T')[0]}, ${members.length} użytkowników`);
+
+  const totals: ReconcileTotals = ctx.checkpoint?.totals ?? {
+    users: 0,
+    entries: 0,
+    mismatched_days: 0,
+    missing: 0,
+    extra: 0,
+    changed: 0,
+    truncated_users: [],
+  };
+  const list = members;
+
+  const getLocal = db.prepare(`
+    SELECT id, start_time, duration FROM time_entries te
+    WHERE user_id = ? AND team_id = ? AND end_time IS NOT NULL AND start_time >= ? AND start_time <= ?
+      ${NOT_DELETED_SQL}
+      AND id NOT IN (SELECT entry_id FROM long_entry_reviews)
+      AND te.duration <= ${ENTRY_MAX_DURATION_SQL}
+  `);
+
+  for (let index = ctx.checkpoint?.index ?? 0; index < list.length; index++) {
+    const member = list[index];
+    const workspace = getWorkspace(member.team_id);
+    ctx.throwIfCancelled();
+    ctx.reportProgress({ processed: index, total: list.length, user: member.user_name, ...totals });
+
+    const remote: ReconcileEntry[] = [];
+    const result = await forEachTimeEntryPage(
+      {
+        teamId: member.team_id,
+        token: workspace?.api_token,
+        startMs,
+        endMs,
+        limit: RECONCILE_PAGE_LIMIT,
+        assignee: member.user_id,
+      },
+      async (entries) => {
+        ctx.throwIfCancelled();
+        for (const entry of entries) {
+          const start = Number(entry.start);
+          const duration = Number(entry.duration ?? 0);
+          // Bez trwających timerów i wpisów ponad limit (duration_policies) — te obsługuje polityka długich wpisów (long_entry_reviews)
+          if (!entry.id || !entry.end || !Number.isFinite(start) || duration < 0) {
+            continue;
+          }
+          const taskId = entry.task?.id || entry.task_id || null;
+          if (duration > getEntryMaxDuration({ id: String(entry.id), userId: member.user_id, taskId })) {
+            continue;
+          }
+          const startIso = new Date(start).toISOString();
+          remote.push({ id: String(entry.id), day: entryDay(startIso), start_time: startIso, duration });
+        }
+      }
+    );
+
+    // Przy urwanej paginacji każdy niepobrany wpis wyglądałby na nadmiarowy — pomijamy użytkownika
+    if (result.truncated) {
+      console.log(`      ⚠️ ${member.user_name}: lista niepełna — pomijam porównanie`);
+      totals.truncated_users.push(member.user_name);
+    } else {
+      const local = (
+        getLocal.all(member.user_id, member.team_id, new Date(startMs).toISOString(), new Date(endMs).toISOString()) as Array<{
+          id: string;
+          start_time: string;
+          duration: number | null;
+        }>
+      ).map((row) => ({ id: row.id, day: entryDay(row.start_time), start_time: row.start_time, duration: row.duration ?? 0 }));
+
+      const days = compareReconcileEntries(member, remote, local);
+      replaceReconcileDays(ctx.jobId, member.team_id, member.user_id, days);
+
+      totals.entries += remote.length;
+      totals.mismatched_days += days.length;
+      for (const day of days) {
+        totals.missing += day.missing_ids.length;
+        totals.extra += day.extra_ids.length;
+        totals.changed += day.changed_ids.length;
+      }
+      if (days.length > 0) {
+        console.log(`      ⚠️ ${member.user_name}: ${days.length} dni z rozbieżnościami`);
+      }
+    }
+
+    totals.users += 1;
+    ctx.saveCheckpoint({ members: list, index: index + 1, totals });
+  }
+
+  console.log(
+    `✅ [RECONCILE] Dni z rozbieżnościami: ${totals.mismatched_days} ` +
+      `(brakujące ${totals.missing}, nadmiarowe ${totals.extra}, zmienione ${totals.changed})`
+  );
+
+  return {
+    message:
+      totals.mismatched_days > 0
+        ? `Rozbieżności w ${totals.mismatched_days} dniach użytkowników`
+        : 'Dane zgodne z ClickUp',
+    start: params.start,
+    end: params.end,
+    team_id: params.team_id ?? null,
+    ...totals,
+  };
+};
+
+// ── reconcile_reimport ───────────────────────────────────────────────
+
+type ReconcileReimportParams = {
+  reconcile_job_id: number;
+  // Brak = wszystkie dni raportu, których jeszcze nie importowano ponownie
+  day_ids?: number[];
+};
+
+type ReimportTotals = { days: number; saved: number; deleted: number; skipped: number };
+
+type ReconcileReimportCheckpoint = { day_ids: number[]; index: number; totals: ReimportTotals };
+
+// Ponowny import tylko rozbieżnych par użytkownik/dzień z raportu reconcile_time_entries.
+// Wpisy, których ClickUp już nie zwraca, są oznaczane jako usunięte (soft-delete).
+const reconcileReimport: JobHandler<ReconcileReimportParams, ReconcileReimportCheckpoint> = async (ctx) => {
+  const { params } = ctx;
+
+  let dayIds = ctx.checkpoint?.day_ids;
+  if (!dayIds) {
+    const rows = getReconcileDays(params.reconcile_job_id, params.day_ids);
+    dayIds = rows.filter((row) => params.day_ids || !row.reimported_at).map((row) => row.id);
+  }
+  if (dayIds.length === 0) {
+    return { message: 'Brak dni do ponownego importu', days: 0, saved: 0, deleted: 0, skipped: 0 };
+  }
+
+  const rows = new Map(getReconcileDays(params.reconcile_job_id, dayIds).map((row) => [row.id, row]));
+  const totals: ReimportTotals = ctx.checkpoint?.totals ?? { days: 0, saved: 0, deleted: 0, skipped: 0 };
+  const taskCache: TaskDetailsCache = new Map();
+  const ids = dayIds;
+
+  const markDeleted = db.prepare(`
+    UPDATE time_entries SET deleted_at = datetime('now')
+    WHERE user_id = ? AND team_id = ? AND deleted_at IS NULL AND end_time IS NOT NULL
+      AND start_time >= ? AND start_time < ? AND id NOT IN (SELECT value FROM json_each(?))
+  `);
+
+  console.log(`\n🔂 [RECONCILE] Zadanie #${ctx.jobId}: ponowny import ${ids.length} dni z raportu #${params.reconcile_job_id}`);
+
+  for (let index = ctx.checkpoint?.index ?? 0; index < ids.length; index++) {
+    const row = rows.get(ids[index]);
+    ctx.throwIfCancelled();
+    ctx.reportProgress({ processed: index, total: ids.length, ...totals });
+    if (!row) continue;
+
+    const workspace = getWorkspace(row.team_id);
+    if (!workspace) {
+      throw new Error(`Nieznany workspace ${row.team_id}`);
+    }
+
+    const dayStart = new Date(`${row.day}T00:00:00.000Z`);
+    const dayEnd = new Date(dayStart.getTime() + DAY_MS);
+    const seen: string[] = [];
+
+    const result = await forEachTimeEntryPage(
+      {
+        teamId: row.team_id,
+        token: workspace.api_token,
+        startMs: dayStart.getTime(),
+        endMs: dayEnd.getTime() - 1,
+        limit: RECONCILE_PAGE_LIMIT,
+        assignee: row.user_id,
+      },
+      async (entries) => {
+        const normalized: ImportedTimeEntry[] = [];
+        for (const entry of entries) {
+          // Każdy wpis zwrócony przez ClickUp zostaje — także pominięty niżej (timer, brak taska, limit)
+          if (entry.id) seen.push(String(entry.id));
+
+          const item = await normalizeClickUpTimeEntry(entry, taskCache, workspace);
+          // Trwające timery obsługuje polling/webhook
+          if (!item || item.duration < 0 || !item.end_time) {
+            totals.skipped += 1;
+            continue;
+          }
+          normalized.push(item);
+        }
+        upsertImportedTimeEntries(normalized);
+        totals.saved += normalized.length;
+      }
+    );
+
+    if (!result.truncated) {
+      totals.deleted += markDeleted.run(
+        row.user_id,
+        row.team_id,
+        dayStart.toISOString(),
+        dayEnd.toISOString(),
+        JSON.stringify(seen)
+      ).changes;
+    }
+
+    markReconcileDayReimported(row.id, ctx.jobId);
+    totals.days += 1;
+    ctx.saveCheckpoint({ day_ids: ids, index: index + 1, totals });
+  }
+
+  return {
+    message: `Ponownie zaimportowano ${totals.days} dni: zapisano ${totals.saved}, usunięto ${totals.deleted}`,
+    reconcile_job_id: params.reconcile_job_id,
+    ...totals,
+  };
+};
+
+// ── fix_durations ────────────────────────────────────────────────────
+
+// Napraw wpisy z duration=0, które mają start_time i end_time
+const fixDurations: JobHandler = async (ctx) => {
+  const brokenEntries = db
+    .prepare(
+      `SELECT id, task_name, user_name, start_time, end_time, duration
+       FROM time_entries
+       WHERE (duration IS NULL OR duration = 0)
+         AND end_time IS NOT NULL
+         AND start_time IS NOT NULL`
+    )
+    .all() as Array<{
+    id: string;
+    task_name: string;
+    user_name: string;
+    start_time: string;
+    end_time: string;
+    duration: number | null;
+  }>;
+
+  if (brokenEntries.length === 0) {
+    return { message: 'Brak wpisów do naprawy', fixed: 0, total: 0 };
+  }
+
+  const updateStmt = db.prepare('UPDATE time_entries SET duration = ? WHERE id = ?');
+  let fixed = 0;
+
+  for (const [index, entry] of brokenEntries.entries()) {
+    const startMs = new Date(entry.start_time).getTime();
+    const endMs = new Date(entry.end_time).getTime();
+
+    if (Number.isFinite(startMs) && Number.isFinite(endMs) && endMs > startMs) {
+      const durationMs = endMs - startMs;
+      updateStmt.run(durationMs, entry.id);
+      fixed++;
+      console.log(
+        `🔧 Naprawiono: ${entry.user_name} - ${entry.task_name}: ${Math.round(durationMs / 1000 / 60)}min`
+      );
+    }
+
+    if ((index + 1) % 100 === 0) {
+      ctx.throwIfCancelled();
+      ctx.reportProgress({ processed: index + 1, total: brokenEntries.length, fixed });
+    }
+  }
+
+  return {
+    message: `Naprawiono ${fixed} z ${brokenEntries.length} wpisów`,
+    fixed,
+    total: brokenEntries.length,
+  };
+};
+
+export const JOB_HANDLERS = {
+  import_time_entries: importTimeEntries,
+  backfill_tasks: backfillTasks,
+  notion_sync_workers: notionSyncWorkers,
+  notion_sync_projects: notionSyncProjects,
+  fix_durations: fixDurations,
+  sync_hierarchy: syncHierarchy,
+  reconcile_time_entries: reconcileTimeEntries,
+  reconcile_reimport: reconcileReimport,
+} satisfies Record<string, JobHandler>;
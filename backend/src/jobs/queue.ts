@@ -0,0 +1,253 @@
+import { db, createJob, getJobById, JobRow, JobStatus } from '../database.js';
+import { JOB_HANDLERS } from './handlers.js';
+
+// Worker sprawdza kolejkę co kilka sekund; enqueueJob budzi go od razu
+const WORKER_IDLE_MS = 5000;
+const CANCELLED_MESSAGE = 'Zadanie anulowane';
+
+export type JobType = keyof typeof JOB_HANDLERS;
+
+export type JobContext<P = Record<string, unknown>, C = Record<string, unknown>> = {
+  jobId: number;
+  params: P;
+  /** Ostatni zapisany checkpoint (przy wznowieniu) albo null */
+  checkpoint: C | null;
+  reportProgress: (progress: Record<string, unknown>) => void;
+  saveCheckpoint: (checkpoint: C) => void;
+  /** Rzuca błąd, jeśli admin anulował zadanie — wołać między krokami */
+  throwIfCancelled: () => void;
+};
+
+export type JobHandler<P = any, C = any> = (ctx: JobContext<P, C>) => Promise<Record<string, unknown>>;
+
+// Widok zadania dla API — pola JSON już sparsowane
+export type JobView = Omit<JobRow, 'params' | 'progress' | 'checkpoint' | 'result' | 'cancel_requested'> & {
+  params: Record<string, unknown> | null;
+  progress: Record<string, unknown> | null;
+  checkpoint: Record<string, unknown> | null;
+  result: Record<string, unknown> | null;
+  cancel_requested: boolean;
+};
+
+let workerTimer: NodeJS.Timeout | null = null;
+let currentJobId: number | null = null;
+
+function parseJson(value: string | null): Record<string, unknown> | null {
+  if (!value) return null;
+  try {
+    return JSON.parse(value);
+  } catch {
+    return null;
+  }
+}
+
+export function toJobView(row: JobRow): JobView {
+  return {
+    ...row,
+    params: parseJson(row.params),
+    progress: parseJson(row.progress),
+    checkpoint: parseJson(row.checkpoint),
+    result: parseJson(row.result),
+    cancel_requested: row.cancel_requested === 1,
+  };
+}
+
+export function isJobType(type: string): type is JobType {
+  return Object.prototype.hasOwnProperty.call(JOB_HANDLERS, type);
+}
+
+// Parametry z posortowanymi kluczami — { a, b } i { b, a } to to samo zadanie
+function serializeParams(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(serializeParams).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, item]) => item !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([key, item]) => `${JSON.stringify(key)}:${serializeParams(item)}`).join(',')}}`;
+  }
+  return JSON.stringify(value ?? null);
+}
+
+// Czekające lub trwające zadanie tego samego typu z tymi samymi parametrami
+function findActiveDuplicate(type: string, params: Record<string, unknown>, excludeId?: number): JobRow | undefined {
+  const key = serializeParams(params);
+  const active = db
+    .prepare(`SELECT * FROM jobs WHERE type = ? AND status IN ('queued', 'running') AND id != ? ORDER BY id`)
+    .all(type, excludeId ?? 0) as JobRow[];
+  return active.find((job) => serializeParams(parseJson(job.params) ?? {}) === key);
+}
+
+/**
+ * Dodaje zadanie do kolejki. Zadanie tego samego typu z tymi samymi parametrami nie jest
+ * tworzone drugi raz, dopóki poprzednie czeka lub trwa — zwracamy wtedy istniejące.
+ * Inne parametry (workspace, zakres dat, dni) to osobne zadanie w kolejce.
+ */
+export function enqueueJob(
+  type: JobType,
+  params: Record<string, unknown>,
+  createdBy?: number | null
+): { job: JobView; created: boolean } {
+  const existing = findActiveDuplicate(type, params);
+  if (existing) {
+    return { job: toJobView(existing), created: false };
+  }
+
+  const id = createJob(type, params, createdBy);
+  console.log(`🧰 [JOBS] Dodano zadanie #${id} (${type})`);
+  scheduleWorker(0);
+  return { job: toJobView(getJobById(id)!), created: true };
+}
+
+/**
+ * Anulowanie: zadanie w kolejce kończy się od razu, trwające — przy najbliższym
+ * throwIfCancelled() w handlerze.
+ */
+export function cancelJob(id: number): JobView | null {
+  const job = getJobById(id);
+  if (!job) return null;
+
+  if (job.status === 'queued') {
+    db.prepare(`
+      UPDATE jobs SET status = 'cancelled', cancel_requested = 1, finished_at = CURRENT_TIMESTAMP,
+        updated_at = CURRENT_TIMESTAMP
+      WHERE id = ?
+    `).run(id);
+  } else if (job.status === 'running') {
+    db.prepare(`UPDATE jobs SET cancel_requested = 1, updated_at = CURRENT_TIMESTAMP WHERE id = ?`).run(id);
+  }
+
+  return toJobView(getJobById(id)!);
+}
+
+/**
+ * Wznowienie zadania zakończonego błędem lub anulowanego — wraca do kolejki
+ * z zachowanym checkpointem, handler kontynuuje od miejsca przerwania.
+ */
+export function resumeJob(id: number): JobView | null {
+  const job = getJobById(id);
+  if (!job) return null;
+  if (job.status !== 'failed' && job.status !== 'cancelled') {
+    throw new Error(`Nie można wznowić zadania o statusie ${job.status}`);
+  }
+
+  const active = findActiveDuplicate(job.type, parseJson(job.params) ?? {}, id);
+  if (active) {
+    throw new Error(`Takie samo zadanie (#${active.id}) już czeka lub trwa`);
+  }
+
+  db.prepare(`
+    UPDATE jobs SET status = 'queued', cancel_requested = 0, error = NULL, finished_at = NULL,
+      updated_at = CURRENT_TIMESTAMP
+    WHERE id = ?
+  `).run(id);
+  scheduleWorker(0);
+  return toJobView(getJobById(id)!);
+}
+
+function finishJob(id: number, status: JobStatus, fields: { result?: Record<string, unknown>; error?: string | null }) {
+  db.prepare(`
+    UPDATE jobs SET status = ?, result = ?, error = ?, finished_at = CURRENT_TIMESTAMP, updated_at = CURRENT_TIMESTAMP
+    WHERE id = ?
+  `).run(status, fields.result ? JSON.stringify(fields.result) : null, fields.error ?? null, id);
+}
+
+async function runJob(job: JobRow) {
+  const handler = JOB_HANDLERS[job.type as JobType] as JobHandler | undefined;
+  if (!handler) {
+    finishJob(job.id, 'failed', { error: `Nieznany typ zadania: ${job.type}` });
+    return;
+  }
+
+  db.prepare(`
+    UPDATE jobs SET status = 'running', attempts = attempts + 1,
+      started_at = COALESCE(started_at, CURRENT_TIMESTAMP), updated_at = CURRENT_TIMESTAMP
+    WHERE id = ?
+  `).run(job.id);
+  console.log(`▶️  [JOBS] Start #${job.id} (${job.type})${job.checkpoint ? ' — wznowienie od checkpointu' : ''}`);
+
+  const isCancelRequested = () => {
+    const row = db.prepare('SELECT cancel_requested FROM jobs WHERE id = ?').get(job.id) as
+      | { cancel_requested: number }
+      | undefined;
+    return row?.cancel_requested === 1;
+  };
+
+  const ctx: JobContext = {
+    jobId: job.id,
+    params: parseJson(job.params) || {},
+    checkpoint: parseJson(job.checkpoint),
+    reportProgress: (progress) => {
+      db.prepare(`UPDATE jobs SET progress = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?`)
+        .run(JSON.stringify(progress), job.id);
+    },
+    saveCheckpoint: (checkpoint) => {
+      db.prepare(`UPDATE jobs SET checkpoint = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?`)
+        .run(JSON.stringify(checkpoint), job.id);
+    },
+    throwIfCancelled: () => {
+      if (isCancelRequested()) {
+        throw new Error(CANCELLED_MESSAGE);
+      }
+    },
+  };
+
+  try {
+    const result = await handler(ctx);
+    finishJob(job.id, 'succeeded', { result });
+    console.log(`✅ [JOBS] Zakończono #${job.id} (${job.type})`);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Nieznany błąd';
+    if (isCancelRequested()) {
+      finishJob(job.id, 'cancelled', { error: CANCELLED_MESSAGE });
+      console.log(`⏹️  [JOBS] Anulowano #${job.id} (${job.type})`);
+    } else {
+      finishJob(job.id, 'failed', { error: message });
+      console.error(`❌ [JOBS] Błąd #${job.id} (${job.type}):`, message);
+    }
+  }
+}
+
+// Jeden worker, zadania wykonywane po kolei — wspólny limit ClickUp API i jedna baza SQLite
+async function workOnce() {
+  workerTimer = null;
+  if (currentJobId !== null) return;
+
+  const next = db
+    .prepare(`SELECT * FROM jobs WHERE status = 'queued' ORDER BY id LIMIT 1`)
+    .get() as JobRow | undefined;
+
+  if (next) {
+    currentJobId = next.id;
+    try {
+      await runJob(next);
+    } finally {
+      currentJobId = null;
+    }
+    scheduleWorker(0);
+    return;
+  }
+
+  scheduleWorker(WORKER_IDLE_MS);
+}
+
+function scheduleWorker(delayMs: number) {
+  if (currentJobId !== null) return;
+  if (workerTimer) clearTimeout(workerTimer);
+  workerTimer = setTimeout(() => {
+    workOnce().catch((error) => {
+      console.error('❌ [JOBS] Błąd workera:', error);
+      scheduleWorker(WORKER_IDLE_MS);
+    });
+  }, delayMs);
+}
+
+export function getCurrentJobId(): number | null {
+  return currentJobId;
+}
+
+export function startJobWorker() {
+  console.log('🧰 Worker zadań w tle uruchomiony');
+  scheduleWorker(0);
+}
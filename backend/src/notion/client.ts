@@ -1,8 +1,8 @@
 import { Agent, setGlobalDispatcher } from 'undici';
 import { getConfig } from '../config.js';
 
-const NOTION_API_BASE = 'https://api.notion.com/v1';
-const DEFAULT_NOTION_VERSION = '2022-06-28';
+const DEFAULT_NOTION_API_BASE = 'https://api.notion.com/v1';
+export const DEFAULT_NOTION_VERSION = '2022-06-28';
 const DEFAULT_PAGE_SIZE = 100;
 
 // Wymuszenie IPv4 - rozwiązuje problemy z timeout gdy IPv6 nie działa
@@ -13,6 +13,11 @@ const agent = new Agent({
 });
 setGlobalDispatcher(agent);
 
+// NOTION_API_BASE — np. lokalny fake serwer (npm run fake-api)
+export function getNotionApiBase(): string {
+  return (getConfig('NOTION_API_BASE') || DEFAULT_NOTION_API_BASE).replace(/\/+$/, '');
+}
+
 function getNotionHeaders() {
   const token = getConfig('NOTION_API_KEY');
   if (!token) {
@@ -27,7 +32,7 @@ function getNotionHeaders() {
 }
 
 async function notionPost(path: string, body: Record<string, unknown>) {
-  const response = await fetch(`${NOTION_API_BASE}${path}`, {
+  const response = await fetch(`${getNotionApiBase()}${path}`, {
     method: 'POST',
     headers: getNotionHeaders(),
     body: JSON.stringify(body),
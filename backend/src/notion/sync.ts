@@ -1,4 +1,4 @@
-import { db } from '../database.js';
+import { db, getNotionProjectPricing, recordProjectPricing, recordWorkerRates } from '../database.js';
 import { getConfig } from '../config.js';
 import { queryNotionDataSource, queryNotionDatabase } from './client.js';
 
@@ -203,12 +203,15 @@ export async function syncWorkers() {
   });
 
   upsertWorkers(rows);
+  // Zmiana stawki w Notion = nowa wersja od teraz; wcześniejsze wpisy zostają przy starej stawce
+  const rateChanges = recordWorkerRates();
 
   return {
     source,
     total_pages: pages.length,
     saved: rows.length,
     skipped: pages.length - rows.length,
+    rate_changes: rateChanges,
   };
 }
 
@@ -287,12 +290,22 @@ export async function syncProjects() {
     }
   });
 
+  // Cennik sprzed synchronizacji — zmiana w Notion to nowa wersja od następnego miesiąca
+  const previousPricing = getNotionProjectPricing();
   upsertProjects(rows);
+  const pricing = recordProjectPricing(previousPricing);
+  for (const conflict of pricing.conflicts) {
+    console.warn(
+      `⚠️ [NOTION] Cennik projektu ${conflict.clickup_id} od ${conflict.valid_from} ustawił admin — zmiana z Notion pominięta`
+    );
+  }
 
   return {
     source,
     total_pages: pages.length,
     saved: rows.length,
     skipped: pages.length - rows.length,
+    pricing_changes: pricing.saved,
+    pricing_conflicts: pricing.conflicts,
   };
 }
@@ -0,0 +1,169 @@
+import { db } from './database.js';
+import { DURATION_FILTER_SQL, NOT_DELETED_SQL } from './constants.js';
+
+// Nakładające się wpisy jednego pracownika (np. ręczny wpis + timer w tym samym czasie) —
+// w zarobkach liczyłyby się podwójnie. Admin wyklucza jedną ze stron (tabela overlap_exclusions).
+
+// Krótsze nakładki to zwykle przełączenie timera (stop i start w tej samej sekundzie)
+const MIN_OVERLAP_MS = 60 * 1000;
+
+export type OverlapSide = {
+  id: string;
+  task_id: string | null;
+  task_name: string | null;
+  start_time: string;
+  end_time: string;
+  duration: number;
+  excluded: boolean;
+};
+
+export type OverlapPair = {
+  user_id: string;
+  user_name: string | null;
+  overlap_minutes: number;
+  entries: [OverlapSide, OverlapSide];
+};
+
+export type OverlapUserSummary = {
+  user_id: string;
+  user_name: string | null;
+  overlaps: number;
+  unresolved: number;
+  overlap_minutes: number;
+};
+
+type OverlapRow = {
+  user_id: string;
+  user_name: string | null;
+  overlap_ms: number;
+  a_id: string;
+  a_task_id: string | null;
+  a_task_name: string | null;
+  a_start_time: string;
+  a_end_time: string;
+  a_duration: number;
+  a_excluded: number;
+  b_id: string;
+  b_task_id: string | null;
+  b_task_name: string | null;
+  b_start_time: string;
+  b_end_time: string;
+  b_duration: number;
+  b_excluded: number;
+};
+
+// Kolumny wpisu porównywane w parach (alias te z time_entries)
+const ENTRY_COLUMNS_SQL = `te.id, te.user_id, te.user_name, te.task_id, te.task_name, te.start_time, te.end_time, te.duration,
+  julianday(te.start_time) as start_jd,
+  julianday(te.end_time) as end_jd,
+  te.id IN (SELECT entry_id FROM overlap_exclusions) as excluded`;
+
+/**
+ * Pary zakończonych wpisów tego samego user_id, których przedziały się nakładają
+ * (wpisy liczone w statystykach). Co najmniej jedna strona pary zaczyna się w zakresie;
+ * druga może zacząć się przed nim (długi wpis z poprzedniego dnia) albo po nim.
+ * Porównanie na julianday — odporne na różne formaty dat zapisane przez webhook, import i poller.
+ */
+export function findOverlappingEntries(params: { start: string; end: string; userId?: string }): OverlapPair[] {
+  const userClause = params.userId ? 'AND te.user_id = ?' : '';
+  const filterParams = [params.start, params.end, ...(params.userId ? [params.userId] : [])];
+  const rows = db
+    .prepare(
+      `WITH in_range AS (
+        SELECT ${ENTRY_COLUMNS_SQL}
+        FROM time_entries te
+        WHERE te.end_time IS NOT NULL
+          AND te.start_time >= ? AND te.start_time <= ?
+          ${DURATION_FILTER_SQL}
+          ${NOT_DELETED_SQL}
+          ${userClause}
+      ),
+      bounds AS (
+        SELECT MIN(start_jd) as min_jd, MAX(end_jd) as max_jd FROM in_range
+      ),
+      -- Wpisy spoza zakresu, które mogą nachodzić na wpis z zakresu
+      neighbours AS (
+        SELECT ${ENTRY_COLUMNS_SQL}
+        FROM time_entries te, bounds
+        WHERE te.end_time IS NOT NULL
+          AND NOT (te.start_time >= ? AND te.start_time <= ?)
+          AND julianday(te.end_time) > bounds.min_jd
+          AND julianday(te.start_time) < bounds.max_jd
+          ${DURATION_FILTER_SQL}
+          ${NOT_DELETED_SQL}
+          ${userClause}
+      ),
+      candidates AS (
+        SELECT *, 1 as in_range FROM in_range
+        UNION ALL
+        SELECT *, 0 as in_range FROM neighbours
+      )
+      SELECT * FROM (
+        SELECT
+          a.user_id,
+          COALESCE(a.user_name, b.user_name) as user_name,
+          ROUND((MIN(a.end_jd, b.end_jd) - MAX(a.start_jd, b.start_jd)) * 86400000) as overlap_ms,
+          a.id as a_id, a.task_id as a_task_id, a.task_name as a_task_name,
+          a.start_time as a_start_time, a.end_time as a_end_time, a.duration as a_duration, a.excluded as a_excluded,
+          b.id as b_id, b.task_id as b_task_id, b.task_name as b_task_name,
+          b.start_time as b_start_time, b.end_time as b_end_time, b.duration as b_duration, b.excluded as b_excluded,
+          a.start_jd as sort_jd
+        FROM in_range a
+        JOIN candidates b ON b.user_id = a.user_id
+          -- para z dwoma wpisami z zakresu tylko raz
+          AND (b.in_range = 0 OR a.id < b.id)
+          AND a.start_jd < b.end_jd
+          AND b.start_jd < a.end_jd
+      )
+      WHERE overlap_ms >= ?
+      ORDER BY sort_jd DESC`
+    )
+    .all(...filterParams, ...filterParams, MIN_OVERLAP_MS) as OverlapRow[];
+
+  return rows.map((row) => ({
+    user_id: row.user_id,
+    user_name: row.user_name,
+    overlap_minutes: Math.round(row.overlap_ms / 60000),
+    entries: [
+      {
+        id: row.a_id,
+        task_id: row.a_task_id,
+        task_name: row.a_task_name,
+        start_time: row.a_start_time,
+        end_time: row.a_end_time,
+        duration: row.a_duration,
+        excluded: row.a_excluded === 1,
+      },
+      {
+        id: row.b_id,
+        task_id: row.b_task_id,
+        task_name: row.b_task_name,
+        start_time: row.b_start_time,
+        end_time: row.b_end_time,
+        duration: row.b_duration,
+        excluded: row.b_excluded === 1,
+      },
+    ],
+  }));
+}
+
+// Liczba par i suma minut nakładek per pracownik; unresolved = pary bez wykluczonej strony
+export function summarizeOverlaps(pairs: OverlapPair[]): OverlapUserSummary[] {
+  const byUser = new Map<string, OverlapUserSummary>();
+  for (const pair of pairs) {
+    const summary = byUser.get(pair.user_id) ?? {
+      user_id: pair.user_id,
+      user_name: pair.user_name,
+      overlaps: 0,
+      unresolved: 0,
+      overlap_minutes: 0,
+    };
+    summary.overlaps += 1;
+    summary.overlap_minutes += pair.overlap_minutes;
+    if (!pair.entries.some((entry) => entry.excluded)) {
+      summary.unresolved += 1;
+    }
+    byUser.set(pair.user_id, summary);
+  }
+  return [...byUser.values()].sort((a, b) => b.overlap_minutes - a.overlap_minutes);
+}
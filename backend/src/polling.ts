@@ -1,12 +1,20 @@
 import { db, upsertTask } from './database.js';
 import { Server } from 'socket.io';
-import { fetchClickUpTask, getClickUpTeamId } from './clickup.js';
+import { fetchClickUpTask, fetchClickUpTeamMembers } from './clickup.js';
+import { clickUpRequest } from './clickup/client.js';
+import { getDefaultTeamId, getWorkspaceToken, listActiveWorkspaces, Workspace } from './clickup/workspaces.js';
+import { getConfig } from './config.js';
 import { emitActiveSessions, emitScopedEvent } from './socket.js';
-import { MAX_ENTRY_DURATION_MS } from './constants.js';
+import { applyLongEntryPolicy, checkForgottenTimers } from './forgottenTimers.js';
 
-const CLICKUP_API = 'https://api.clickup.com/api/v2';
-const POLL_INTERVAL = 30000; // 30 sekund
-const TEAM_ID = getClickUpTeamId(); // Team ID (workspace)
+// Domyślne parametry pollera — każdy można nadpisać w panelu admina (getConfig)
+const DEFAULT_POLL_INTERVAL_SEC = 30; // w godzinach pracy
+const DEFAULT_POLL_IDLE_INTERVAL_SEC = 300; // noc / weekend
+const DEFAULT_POLL_WORK_HOURS = '7-19';
+const DEFAULT_POLL_TIMEZONE = 'Europe/Warsaw';
+const DEFAULT_POLL_CONCURRENCY = 4;
+const DEFAULT_MEMBERS_CACHE_MIN = 30;
+const DEFAULT_WEBHOOK_TRUST_MIN = 30;
 
 interface RunningTimer {
   id: string;
@@ -27,102 +35,277 @@ interface RunningTimer {
 }
 
 // Rozszerzony timer z info o projekcie (do cache)
-interface CachedTimer extends RunningTimer {
+export interface CachedTimer extends RunningTimer {
   list_name?: string | null;
   folder_name?: string | null;
   space_name?: string | null;
+  team_id?: string | null; // brak = workspace domyślny
 }
 
 interface TimeEntryResponse {
   data: RunningTimer | null;
 }
 
+type TeamMember = { id: number; username: string };
+
 // Cache aktywnych sesji żeby wykrywać zmiany (z info o projekcie)
 let activeTimers: Map<string, CachedTimer> = new Map();
 
-async function fetchRunningTimer(): Promise<RunningTimer | null> {
-  const token = process.env.CLICKUP_API_TOKEN;
-  if (!token) {
-    console.warn('⚠️ Brak CLICKUP_API_TOKEN - polling wyłączony');
-    return null;
+// Cache członków zespołu per workspace — lista zmienia się rzadko, nie ma sensu pobierać /team co cykl
+const membersCache = new Map<string, { members: TeamMember[]; fetchedAt: number }>();
+
+// Timery znane z webhooków: "team_id:user_id" → wpis. Takich członków nie odpytujemy,
+// dopóki webhook jest "świeży" (POLL_WEBHOOK_TRUST_MIN) — stop przyjdzie webhookiem.
+const webhookTimers = new Map<string, { entryId: string; seenAt: number }>();
+
+function timerTeamId(timer: CachedTimer): string {
+  return timer.team_id || getDefaultTeamId();
+}
+
+function webhookKey(teamId: string, userId: string | number): string {
+  return `${teamId}:${userId}`;
+}
+
+// Stan ostatniego cyklu (do /admin/clickup/metrics)
+const pollingStatus = {
+  last_run_at: null as string | null,
+  last_duration_ms: 0,
+  members: 0,
+  polled: 0,
+  skipped: 0,
+  failed: 0,
+  next_interval_sec: DEFAULT_POLL_INTERVAL_SEC,
+};
+
+function getNumberConfig(key: string, fallback: number): number {
+  const value = parseInt(getConfig(key, String(fallback))!, 10);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+/**
+ * Webhook zgłosił start timera — dodaj do cache, żeby poller nie odpytywał tego członka
+ * i nie emitował drugi raz time_entry_started.
+ */
+export function noteWebhookTimerStarted(timer: CachedTimer) {
+  activeTimers.set(timer.id, timer);
+  webhookTimers.set(webhookKey(timerTeamId(timer), timer.user.id), { entryId: timer.id, seenAt: Date.now() });
+}
+
+/**
+ * Webhook zgłosił stop / usunięcie timera — usuń z cache, żeby poller nie emitował
+ * time_entry_stopped ponownie.
+ */
+export function noteWebhookTimerStopped(entryId: string, userId: string, teamId?: string | null) {
+  activeTimers.delete(entryId);
+  const key = webhookKey(teamId || getDefaultTeamId(), userId);
+  if (webhookTimers.get(key)?.entryId === entryId) {
+    webhookTimers.delete(key);
+  }
+}
+
+export function getPollingStatus() {
+  return {
+    ...pollingStatus,
+    active_timers: activeTimers.size,
+    webhook_timers: webhookTimers.size,
+    members_cached_at: Object.fromEntries(
+      [...membersCache].map(([teamId, cache]) => [teamId, new Date(cache.fetchedAt).toISOString()])
+    ),
+  };
+}
+
+async function getTeamMembers(workspace: Workspace): Promise<TeamMember[]> {
+  const ttlMs = getNumberConfig('POLL_MEMBERS_CACHE_MIN', DEFAULT_MEMBERS_CACHE_MIN) * 60_000;
+  const cached = membersCache.get(workspace.team_id);
+  if (cached && Date.now() - cached.fetchedAt < ttlMs) {
+    return cached.members;
   }
 
   try {
-    const res = await fetch(`${CLICKUP_API}/team/${TEAM_ID}/time_entries/current`, {
-      headers: { Authorization: token },
-    });
+    const members = (await fetchClickUpTeamMembers(workspace.team_id, workspace.api_token)).map((m) => ({
+      id: m.id,
+      username: m.username,
+    }));
+    membersCache.set(workspace.team_id, { members, fetchedAt: Date.now() });
+    console.log(`[POLL] Odświeżono listę członków zespołu ${workspace.name} (${members.length})`);
+    return members;
+  } catch (error) {
+    // Przy błędzie lepiej użyć starej listy niż uznać, że nikt nie pracuje
+    console.warn(
+      `[POLL] Nie udało się pobrać członków zespołu ${workspace.name}:`,
+      error instanceof Error ? error.message : error
+    );
+    return cached?.members ?? [];
+  }
+}
+
+// Proste ograniczenie współbieżności (bez dodatkowych zależności)
+async function mapWithConcurrency<T, R>(items: T[], limit: number, fn: (item: T) => Promise<R>): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let nextIndex = 0;
 
-    if (!res.ok) {
-      console.error('❌ Błąd API:', res.status, await res.text());
-      return null;
+  const worker = async () => {
+    while (nextIndex < items.length) {
+      const index = nextIndex++;
+      results[index] = await fn(items[index]);
     }
+  };
 
-    const data: TimeEntryResponse = await res.json();
-    return data.data;
-  } catch (error) {
-    console.error('❌ Błąd fetch:', error);
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+}
+
+/**
+ * Pobierz aktywne timery członków wszystkich aktywnych workspace'ów.
+ * Zwraca null, gdy cykl trzeba pominąć (żaden workspace nie ma tokena / członków) — wtedy niczego nie zamykamy.
+ * Timery członków pominiętych (znane z webhooka), z błędem API lub z pominiętego workspace'u
+ * są przenoszone z cache, żeby nie zostały uznane za zakończone.
+ */
+async function fetchAllRunningTimers(): Promise<CachedTimer[] | null> {
+  const stats = { members: 0, polled: 0, skipped: 0, failed: 0 };
+  const runningTimers: CachedTimer[] = [];
+  let pollable = 0;
+
+  for (const workspace of listActiveWorkspaces()) {
+    const timers = await fetchWorkspaceRunningTimers(workspace, stats);
+    if (timers) {
+      pollable++;
+      runningTimers.push(...timers);
+    } else {
+      for (const timer of activeTimers.values()) {
+        if (timerTeamId(timer) === workspace.team_id) runningTimers.push(timer);
+      }
+    }
+  }
+
+  if (pollable === 0) {
     return null;
   }
+
+  pollingStatus.members = stats.members;
+  pollingStatus.polled = stats.polled;
+  pollingStatus.skipped = stats.skipped;
+  pollingStatus.failed = stats.failed;
+  console.log(
+    `[POLL] Członkowie: ${stats.members}, odpytani: ${stats.polled}, z webhooka: ${stats.skipped}` +
+      (stats.failed > 0 ? `, błędy: ${stats.failed}` : '')
+  );
+
+  return runningTimers;
 }
 
-// Pobierz aktywne timery dla wszystkich członków zespołu
-async function fetchAllRunningTimers(): Promise<RunningTimer[]> {
-  const token = process.env.CLICKUP_API_TOKEN;
+async function fetchWorkspaceRunningTimers(
+  workspace: Workspace,
+  stats: { members: number; polled: number; skipped: number; failed: number }
+): Promise<CachedTimer[] | null> {
+  const token = workspace.api_token;
   if (!token) {
-    console.log('[POLL] Brak tokena');
-    return [];
+    console.log(`[POLL] Brak tokena dla workspace'u ${workspace.name}`);
+    return null;
   }
 
-  // Pobierz listę członków zespołu
-  const members = await fetchTeamMembers();
-  console.log(`[POLL] Sprawdzam ${members.length} członków zespołu`);
-  const runningTimers: RunningTimer[] = [];
+  const teamId = workspace.team_id;
+  const members = await getTeamMembers(workspace);
+  if (members.length === 0) {
+    return null;
+  }
+
+  const now = Date.now();
+  const trustMs = getNumberConfig('POLL_WEBHOOK_TRUST_MIN', DEFAULT_WEBHOOK_TRUST_MIN) * 60_000;
+  const carriedOver: CachedTimer[] = [];
+  const toPoll: TeamMember[] = [];
 
-  // Odpytaj każdego członka
   for (const member of members) {
+    const known = webhookTimers.get(webhookKey(teamId, member.id));
+    const cached = known ? activeTimers.get(known.entryId) : undefined;
+    if (known && cached && now - known.seenAt < trustMs) {
+      carriedOver.push(cached);
+    } else {
+      toPoll.push(member);
+    }
+  }
+
+  let failed = 0;
+  const concurrency = getNumberConfig('POLL_CONCURRENCY', DEFAULT_POLL_CONCURRENCY);
+  const polled = await mapWithConcurrency(toPoll, concurrency, async (member): Promise<CachedTimer | null> => {
     try {
-      const url = `${CLICKUP_API}/team/${TEAM_ID}/time_entries/current?assignee=${member.id}`;
-      const res = await fetch(url, { headers: { Authorization: token } });
+      const res = await clickUpRequest<TimeEntryResponse>(`/team/${teamId}/time_entries/current`, {
+        token,
+        query: { assignee: member.id },
+      });
 
       if (res.ok) {
-        const data: TimeEntryResponse = await res.json();
-        console.log(`[POLL] ${member.username}: ${data.data ? `timer (duration: ${data.data.duration})` : 'brak'}`);
-        if (data.data) {
-          runningTimers.push(data.data);
+        const timer = res.data?.data ?? null;
+        const known = webhookTimers.get(webhookKey(teamId, member.id));
+        if (timer && known?.entryId === timer.id) {
+          // Potwierdzone przez API — znowu ufamy webhookom przez kolejne okno
+          known.seenAt = Date.now();
         }
-      } else {
-        console.log(`[POLL] ${member.username}: błąd ${res.status}`);
+        return timer ? { ...timer, team_id: teamId } : null;
       }
+      console.log(`[POLL] ${member.username}: błąd ${res.status}`);
     } catch (e) {
-      console.log(`[POLL] ${member.username}: exception`);
+      console.log(`[POLL] ${member.username}: ${e instanceof Error ? e.message : 'exception'}`);
+    }
+
+    // Nie wiemy, czy timer nadal działa — zachowaj ostatni znany stan
+    failed++;
+    for (const timer of activeTimers.values()) {
+      if (String(timer.user.id) === String(member.id) && timerTeamId(timer) === teamId) {
+        carriedOver.push(timer);
+      }
+    }
+    return null;
+  });
+
+  stats.members += members.length;
+  stats.polled += toPoll.length;
+  stats.skipped += members.length - toPoll.length;
+  stats.failed += failed;
+
+  const runningTimers = polled.filter((timer): timer is CachedTimer => timer !== null);
+  const seen = new Set(runningTimers.map((timer) => timer.id));
+  for (const timer of carriedOver) {
+    if (!seen.has(timer.id)) {
+      runningTimers.push(timer);
+      seen.add(timer.id);
     }
   }
 
   return runningTimers;
 }
 
-async function fetchTeamMembers(): Promise<Array<{ id: number; username: string }>> {
-  const token = process.env.CLICKUP_API_TOKEN;
-  if (!token) return [];
+// Godziny pracy w strefie firmy, np. "7-19" (pon-pt). Poza nimi odpytujemy rzadziej.
+function isWorkTime(date: Date): boolean {
+  const [fromRaw, toRaw] = (getConfig('POLL_WORK_HOURS', DEFAULT_POLL_WORK_HOURS) || DEFAULT_POLL_WORK_HOURS).split('-');
+  const from = parseInt(fromRaw, 10);
+  const to = parseInt(toRaw, 10);
+  const timeZone = getConfig('POLL_TIMEZONE', DEFAULT_POLL_TIMEZONE)!;
 
+  let hour: number;
+  let weekday: string;
   try {
-    const res = await fetch(`${CLICKUP_API}/team`, {
-      headers: { Authorization: token },
-    });
-
-    if (!res.ok) return [];
+    const parts = new Intl.DateTimeFormat('en-GB', { timeZone, hour: 'numeric', hourCycle: 'h23', weekday: 'short' })
+      .formatToParts(date);
+    hour = parseInt(parts.find((p) => p.type === 'hour')?.value || '0', 10);
+    weekday = parts.find((p) => p.type === 'weekday')?.value || '';
+  } catch {
+    hour = date.getHours();
+    weekday = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'][date.getDay()];
+  }
 
-    const data = await res.json();
-    const team = data.teams?.find((t: any) => t.id === TEAM_ID);
-    if (!team) return [];
+  if (weekday === 'Sat' || weekday === 'Sun') return false;
+  if (!Number.isFinite(from) || !Number.isFinite(to)) return true;
+  return hour >= from && hour < to;
+}
 
-    return team.members.map((m: any) => ({
-      id: m.user.id,
-      username: m.user.username,
-    }));
-  } catch (e) {
-    return [];
+function getNextPollIntervalMs(): number {
+  const workSec = getNumberConfig('POLL_INTERVAL_SEC', DEFAULT_POLL_INTERVAL_SEC);
+  // Ktoś pracuje po godzinach — zostań przy szybkim interwale, żeby złapać stop
+  if (isWorkTime(new Date()) || activeTimers.size > 0) {
+    return workSec * 1000;
   }
+  return getNumberConfig('POLL_IDLE_INTERVAL_SEC', DEFAULT_POLL_IDLE_INTERVAL_SEC) * 1000;
 }
 
 // Helper: parse date string to milliseconds (handles various formats)
@@ -148,8 +331,8 @@ function syncCacheFromDatabase() {
   const activeInDb = db
     .prepare(
       `SELECT id, task_id, task_name, task_url, user_id, user_name, user_email,
-              start_time, list_name, folder_name, space_name
-       FROM time_entries WHERE end_time IS NULL`
+              start_time, list_name, folder_name, space_name, team_id
+       FROM time_entries WHERE end_time IS NULL AND deleted_at IS NULL`
     )
     .all() as Array<{
     id: string;
@@ -163,6 +346,7 @@ function syncCacheFromDatabase() {
     list_name: string | null;
     folder_name: string | null;
     space_name: string | null;
+    team_id: string | null;
   }>;
 
   for (const entry of activeInDb) {
@@ -189,6 +373,7 @@ function syncCacheFromDatabase() {
       list_name: entry.list_name,
       folder_name: entry.folder_name,
       space_name: entry.space_name,
+      team_id: entry.team_id,
     });
   }
 
@@ -196,13 +381,19 @@ function syncCacheFromDatabase() {
 }
 
 export function startPolling(io: Server) {
-  console.log('🔄 Polling aktywnych timerów uruchomiony (co 30s)');
+  console.log(
+    `🔄 Polling aktywnych timerów uruchomiony (co ${getNumberConfig('POLL_INTERVAL_SEC', DEFAULT_POLL_INTERVAL_SEC)}s w godzinach pracy, ` +
+      `${getNumberConfig('POLL_IDLE_INTERVAL_SEC', DEFAULT_POLL_IDLE_INTERVAL_SEC)}s poza nimi)`
+  );
 
   // Sync cache from database first (recover from restart)
   syncCacheFromDatabase();
 
   const poll = async () => {
     const timers = await fetchAllRunningTimers();
+    if (!timers) {
+      return;
+    }
     const currentIds = new Set(timers.map((t) => t.id));
     const previousIds = new Set(activeTimers.keys());
 
@@ -212,36 +403,32 @@ export function startPolling(io: Server) {
         console.log(`▶️ [POLL] ${timer.user.username} zaczął: ${timer.task.name}`);
 
         const startTime = new Date(parseInt(timer.start)).toISOString();
-        const taskDetails = await fetchClickUpTask(timer.task.id);
+        const teamId = timerTeamId(timer);
+        const taskDetails = await fetchClickUpTask(timer.task.id, getWorkspaceToken(teamId));
         const taskName = taskDetails?.name || timer.task.name;
         const taskUrl = taskDetails?.url || timer.task.url || `https://app.clickup.com/t/${timer.task.id}`;
         const listName = taskDetails?.list?.name || null;
         const folderName = taskDetails?.folder?.name || null;
         const spaceName = taskDetails?.space?.name || null;
 
-        upsertTask({
-          id: timer.task.id,
-          name: taskName,
-          status: taskDetails?.status,
-          list: taskDetails?.list,
-          folder: taskDetails?.folder,
-          space: taskDetails?.space,
-          url: taskUrl,
-        });
+        upsertTask({ ...taskDetails, id: timer.task.id, name: taskName, url: taskUrl, teamId });
 
         // Zapisz do bazy
         const stmt = db.prepare(`
           INSERT INTO time_entries (
             id, task_id, task_name, user_id, user_name, user_email,
-            start_time, task_url, list_name, folder_name, space_name
-          ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+            start_time, task_url, list_name, folder_name, space_name, list_id, folder_id, space_id, team_id
+          ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
           ON CONFLICT(id) DO UPDATE SET
             start_time = excluded.start_time,
             task_name = excluded.task_name,
             task_url = excluded.task_url,
             list_name = excluded.list_name,
             folder_name = excluded.folder_name,
-            space_name = excluded.space_name
+            space_name = excluded.space_name,
+            list_id = COALESCE(excluded.list_id, list_id),
+            folder_id = COALESCE(excluded.folder_id, folder_id),
+            space_id = COALESCE(excluded.space_id, space_id)
         `);
 
         stmt.run(
@@ -255,7 +442,11 @@ export function startPolling(io: Server) {
           taskUrl,
           listName,
           folderName,
-          spaceName
+          spaceName,
+          taskDetails?.list?.id || null,
+          taskDetails?.folder?.id || null,
+          taskDetails?.space?.id || null,
+          teamId
         );
 
         // Emituj do klientów
@@ -297,6 +488,10 @@ export function startPolling(io: Server) {
     for (const [id, timer] of activeTimers) {
       if (!currentIds.has(id)) {
         activeTimers.delete(id);
+        const key = webhookKey(timerTeamId(timer), timer.user.id);
+        if (webhookTimers.get(key)?.entryId === id) {
+          webhookTimers.delete(key);
+        }
 
         // Fallback: jeśli webhook nie zadziałał, uzupełnij end_time i duration
         const endTime = new Date().toISOString();
@@ -315,11 +510,19 @@ export function startPolling(io: Server) {
           }
         }
 
-        let durationMs = Number.isFinite(startMs) ? Math.max(0, Date.now() - startMs) : 0;
-        if (durationMs > MAX_ENTRY_DURATION_MS) {
-          console.log(`   ⚠️ Duration ${Math.round(durationMs / 3600000)}h > max ${MAX_ENTRY_DURATION_MS / 3600000}h — capping`);
-          durationMs = MAX_ENTRY_DURATION_MS;
-        }
+        const rawDurationMs = Number.isFinite(startMs) ? Math.max(0, Date.now() - startMs) : 0;
+        // Wpis dłuższy niż limit: cap / drop / flag wg polityki workspace'u
+        const durationMs = applyLongEntryPolicy({
+          id: timer.id,
+          teamId: timerTeamId(timer),
+          userId: String(timer.user.id),
+          userName: timer.user.username,
+          taskId: timer.task.id,
+          taskName: timer.task.name,
+          startTime: Number.isFinite(startMs) ? new Date(startMs).toISOString() : null,
+          duration: rawDurationMs,
+          source: 'poll',
+        }).duration;
         console.log(`   Duration: ${Math.round(durationMs / 1000 / 60)}min (${durationMs}ms)`);
 
         db.prepare(`
@@ -367,11 +570,29 @@ export function startPolling(io: Server) {
     });
 
     emitActiveSessions(io, activeSessions);
+    checkForgottenTimers(io, activeTimers.values());
   };
 
-  // Pierwsze odpytanie od razu
-  poll();
+  // Kolejny cykl planowany po zakończeniu poprzedniego — cykle nigdy się nie nakładają
+  const scheduleNext = () => {
+    const intervalMs = getNextPollIntervalMs();
+    pollingStatus.next_interval_sec = Math.round(intervalMs / 1000);
+    setTimeout(runCycle, intervalMs);
+  };
+
+  const runCycle = async () => {
+    const startedAt = Date.now();
+    try {
+      await poll();
+    } catch (error) {
+      console.error('❌ [POLL] Błąd cyklu:', error);
+    } finally {
+      pollingStatus.last_run_at = new Date(startedAt).toISOString();
+      pollingStatus.last_duration_ms = Date.now() - startedAt;
+      scheduleNext();
+    }
+  };
 
-  // Potem co 30 sekund
-  setInterval(poll, POLL_INTERVAL);
+  // Pierwsze odpytanie od razu
+  runCycle();
 }
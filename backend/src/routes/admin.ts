@@ -11,10 +11,55 @@ import {
   getSetting,
   setSetting,
   deleteSetting,
+  getAllWebhookSecrets,
+  WEBHOOK_REJECTIONS_RETENTION_DAYS,
+  setWebhookSecret,
+  deleteWebhookSecret,
+  getWebhookSecret,
+  getWebhookEventById,
+  getSyncRunById,
+  getJobById,
+  JobRow,
+  getReconcileDays,
+  getWorkspaceRow,
+  upsertWorkspace,
+  deleteWorkspace,
+  getLongEntryReview,
+  resolveLongEntryReview,
+  LongEntryReviewRow,
+  TimerAlertRow,
+  getDurationPolicies,
+  getDurationPolicy,
+  upsertDurationPolicy,
+  deleteDurationPolicy,
+  DurationPolicyRow,
+  DurationPolicyScope,
+  excludeOverlappingEntry,
+  restoreOverlappingEntry,
+  getProjectPricing,
+  getProjectPricingVersion,
+  upsertProjectPricing,
+  deleteProjectPricing,
 } from '../database.js';
 import { getConfig } from '../config.js';
 import { hashPassword } from '../auth/password.js';
 import { requireAuth, requireRole } from '../auth/middleware.js';
+import { replayWebhookEvent, HANDLED_WEBHOOK_EVENTS } from './webhook.js';
+import {
+  fetchClickUpWebhooks,
+  createClickUpWebhook,
+  updateClickUpWebhook,
+  deleteClickUpWebhook,
+} from '../clickup.js';
+import { clickUpRequest, getClickUpMetrics, resetClickUpMetrics } from '../clickup/client.js';
+import { getPollingStatus } from '../polling.js';
+import { DEFAULT_NOTION_VERSION, getNotionApiBase } from '../notion/client.js';
+import { getRunningSyncId, startTimeEntriesResync } from '../clickup/sync.js';
+import { getWorkspace, isDefaultTeamId, listWorkspaces, Workspace } from '../clickup/workspaces.js';
+import { getLongEntryPolicy, isLongEntryPolicy } from '../forgottenTimers.js';
+import { findOverlappingEntries, summarizeOverlaps } from '../overlaps.js';
+import { ENTRY_DURATION_POLICY_ID_SQL, ENTRY_MAX_DURATION_SQL, NOT_DELETED_SQL } from '../constants.js';
+import { cancelJob, enqueueJob, getCurrentJobId, isJobType, resumeJob, toJobView } from '../jobs/queue.js';
 import { AuthenticatedRequest, CreateUserRequest, UpdateUserRequest } from '../types/auth.js';
 
 export const adminRouter = Router();
@@ -204,55 +249,105 @@ adminRouter.post('/users/:id/reset-password', async (req: AuthenticatedRequest,
   res.json({ message: 'Hasło zostało zresetowane' });
 });
 
-// POST /admin/fix-durations - Napraw wpisy z duration=0
+// POST /admin/fix-durations - Napraw wpisy z duration=0 (zadanie w tle)
 adminRouter.post('/fix-durations', (req: AuthenticatedRequest, res: Response) => {
-  // Znajdź wpisy z duration=0 które mają start_time i end_time
-  const brokenEntries = db
+  const { job, created } = enqueueJob('fix_durations', {}, req.user?.userId);
+  res.status(202).json({
+    job,
+    message: created ? `Dodano zadanie #${job.id}` : `Zadanie #${job.id} już czeka lub trwa`,
+  });
+});
+
+// ── Jobs (zadania w tle: import, backfill, sync Notion, naprawy) ─────
+
+// GET /admin/jobs — historia zadań (opcjonalnie ?status=, ?type=)
+adminRouter.get('/jobs', (req: AuthenticatedRequest, res: Response) => {
+  const limit = Math.min(parseInt(req.query.limit as string) || 50, 200);
+  const conditions: string[] = [];
+  const params: (string | number)[] = [];
+
+  if (typeof req.query.status === 'string' && req.query.status) {
+    conditions.push('j.status = ?');
+    params.push(req.query.status);
+  }
+  if (typeof req.query.type === 'string' && req.query.type) {
+    conditions.push('j.type = ?');
+    params.push(req.query.type);
+  }
+
+  const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+  const rows = db
     .prepare(
-      `SELECT id, task_name, user_name, start_time, end_time, duration
-       FROM time_entries
-       WHERE (duration IS NULL OR duration = 0)
-         AND end_time IS NOT NULL
-         AND start_time IS NOT NULL`
+      `SELECT j.*, u.username as created_by_username
+       FROM jobs j
+       LEFT JOIN app_users u ON u.id = j.created_by
+       ${where}
+       ORDER BY j.id DESC
+       LIMIT ?`
     )
-    .all() as Array<{
-    id: string;
-    task_name: string;
-    user_name: string;
-    start_time: string;
-    end_time: string;
-    duration: number | null;
-  }>;
-
-  if (brokenEntries.length === 0) {
-    return res.json({ message: 'Brak wpisów do naprawy', fixed: 0 });
-  }
-
-  // Napraw każdy wpis
-  const updateStmt = db.prepare('UPDATE time_entries SET duration = ? WHERE id = ?');
-  let fixed = 0;
-
-  for (const entry of brokenEntries) {
-    const startMs = new Date(entry.start_time).getTime();
-    const endMs = new Date(entry.end_time).getTime();
-
-    if (Number.isFinite(startMs) && Number.isFinite(endMs) && endMs > startMs) {
-      const durationMs = endMs - startMs;
-      updateStmt.run(durationMs, entry.id);
-      fixed++;
-      console.log(
-        `🔧 Naprawiono: ${entry.user_name} - ${entry.task_name}: ${Math.round(durationMs / 1000 / 60)}min`
-      );
-    }
-  }
+    .all(...params, limit) as Array<JobRow & { created_by_username: string | null }>;
 
   res.json({
-    message: `Naprawiono ${fixed} z ${brokenEntries.length} wpisów`,
-    fixed,
-    total: brokenEntries.length,
+    current_job_id: getCurrentJobId(),
+    jobs: rows.map((row) => ({ ...toJobView(row), created_by_username: row.created_by_username })),
   });
 });
 
+// GET /admin/jobs/:id — status i postęp zadania
+adminRouter.get('/jobs/:id', (req: AuthenticatedRequest, res: Response) => {
+  const job = getJobById(parseInt(req.params.id as string, 10));
+  if (!job) {
+    return res.status(404).json({ error: 'Zadanie nie istnieje' });
+  }
+  res.json(toJobView(job));
+});
+
+// POST /admin/jobs — dodaj zadanie { type, params }
+adminRouter.post('/jobs', (req: AuthenticatedRequest, res: Response) => {
+  const { type, params } = req.body || {};
+  if (typeof type !== 'string' || !isJobType(type)) {
+    return res.status(400).json({ error: 'Nieznany typ zadania' });
+  }
+  // Import wymaga zakresu dat — zakładany przez /api/earnings/import-time-entries
+  if (type === 'import_time_entries') {
+    return res.status(400).json({ error: 'Import uruchom przez /api/earnings/import-time-entries' });
+  }
+  if (type === 'reconcile_time_entries' || type === 'reconcile_reimport') {
+    return res.status(400).json({ error: 'Uzgodnienie uruchom przez /admin/reconcile' });
+  }
+
+  const { job, created } = enqueueJob(type, params && typeof params === 'object' ? params : {}, req.user?.userId);
+  res.status(created ? 202 : 200).json({
+    job,
+    message: created ? `Dodano zadanie #${job.id}` : `Zadanie #${job.id} już czeka lub trwa`,
+  });
+});
+
+// POST /admin/jobs/:id/cancel — anuluj zadanie (trwające kończy się przy najbliższym kroku)
+adminRouter.post('/jobs/:id/cancel', (req: AuthenticatedRequest, res: Response) => {
+  const job = cancelJob(parseInt(req.params.id as string, 10));
+  if (!job) {
+    return res.status(404).json({ error: 'Zadanie nie istnieje' });
+  }
+  res.json({ job, message: job.status === 'running' ? 'Zadanie zostanie przerwane' : 'Zadanie anulowane' });
+});
+
+// POST /admin/jobs/:id/resume — wznów zadanie od ostatniego checkpointu
+adminRouter.post('/jobs/:id/resume', (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const job = resumeJob(parseInt(req.params.id as string, 10));
+    if (!job) {
+      return res.status(404).json({ error: 'Zadanie nie istnieje' });
+    }
+    res.json({ job, message: `Wznowiono zadanie #${job.id}` });
+  } catch (error) {
+    res.status(409).json({
+      error: 'Nie można wznowić zadania',
+      details: error instanceof Error ? error.message : 'Nieznany błąd',
+    });
+  }
+});
+
 // ── Settings endpoints ───────────────────────────────────────────────
 
 /** Klucze które można edytować z poziomu UI */
@@ -260,6 +355,27 @@ const ALLOWED_SETTINGS: Record<string, { description: string; is_secret: boolean
   CLICKUP_API_TOKEN:   { description: 'Token API ClickUp',            is_secret: true,  is_restart_required: false },
   CLICKUP_TEAM_ID:     { description: 'ID zespołu ClickUp',           is_secret: false, is_restart_required: false },
   CLICKUP_WEBHOOK_SECRET: { description: 'Webhook secret ClickUp',    is_secret: true,  is_restart_required: false },
+  CLICKUP_WEBHOOK_MAX_AGE_SEC: { description: 'Okno akceptacji webhooka od daty zdarzenia (s, domyślnie 72h)', is_secret: false, is_restart_required: false },
+  CLICKUP_RATE_LIMIT_PER_MIN: { description: 'Limit żądań ClickUp API / min (na token)', is_secret: false, is_restart_required: false },
+  CLICKUP_REQUEST_TIMEOUT_MS: { description: 'Timeout żądania ClickUp (ms)', is_secret: false, is_restart_required: false },
+  POLL_INTERVAL_SEC:   { description: 'Polling timerów w godz. pracy (s)', is_secret: false, is_restart_required: false },
+  POLL_IDLE_INTERVAL_SEC: { description: 'Polling timerów poza godz. pracy (s)', is_secret: false, is_restart_required: false },
+  POLL_WORK_HOURS:     { description: 'Godziny pracy dla pollingu (np. 7-19)', is_secret: false, is_restart_required: false },
+  POLL_TIMEZONE:       { description: 'Strefa czasowa godzin pracy',  is_secret: false, is_restart_required: false },
+  POLL_CONCURRENCY:    { description: 'Równoległe zapytania pollingu', is_secret: false, is_restart_required: false },
+  POLL_MEMBERS_CACHE_MIN: { description: 'Cache członków zespołu (min)', is_secret: false, is_restart_required: false },
+  POLL_WEBHOOK_TRUST_MIN: { description: 'Ufaj timerom z webhooka (min)', is_secret: false, is_restart_required: false },
+  RESYNC_ENABLED:      { description: 'Nocna re-synchronizacja (true/false)', is_secret: false, is_restart_required: false },
+  RESYNC_HOUR:         { description: 'Godzina nocnej re-synchronizacji', is_secret: false, is_restart_required: false },
+  RESYNC_DAYS:         { description: 'Re-synchronizacja: liczba dni wstecz', is_secret: false, is_restart_required: false },
+  RESYNC_TIMEZONE:     { description: 'Strefa czasowa re-synchronizacji', is_secret: false, is_restart_required: false },
+  CLICKUP_PROJECT_FIELD: { description: 'Pole własne ClickUp z projektem (nazwa lub ID) — nadpisuje listę', is_secret: false, is_restart_required: false },
+  ESTIMATE_OVERRUN_WARNING_PCT: { description: 'Estymaty: próg ostrzeżenia (% ponad)', is_secret: false, is_restart_required: false },
+  ESTIMATE_OVERRUN_CRITICAL_PCT: { description: 'Estymaty: próg krytyczny (% ponad)', is_secret: false, is_restart_required: false },
+  LONG_ENTRY_POLICY:   { description: 'Wpisy ponad limit: cap / drop / flag (domyślna dla workspace\'ów)', is_secret: false, is_restart_required: false },
+  FORGOTTEN_TIMER_HOURS: { description: 'Alert: timer działa dłużej niż (h)', is_secret: false, is_restart_required: false },
+  FORGOTTEN_TIMER_AFTER_HOUR: { description: 'Alert: timer działa po godzinie (0-23)', is_secret: false, is_restart_required: false },
+  WORKDAY_HOURS:       { description: 'Oś dnia: godziny pracy do liczenia przerw (np. 9-17)', is_secret: false, is_restart_required: false },
   NOTION_API_KEY:      { description: 'Token API Notion',             is_secret: true,  is_restart_required: false },
   NOTION_VERSION:      { description: 'Wersja API Notion',            is_secret: false, is_restart_required: false },
   NOTION_WORKERS_DS:   { description: 'Data source ID workers',       is_secret: false, is_restart_required: false },
@@ -375,16 +491,14 @@ adminRouter.post('/settings/test-clickup', async (_req: AuthenticatedRequest, re
   }
 
   try {
-    const response = await fetch('https://api.clickup.com/api/v2/team', {
-      headers: { Authorization: token },
-    });
+    // Test ma odpowiedzieć szybko — bez długiego czekania na ponowienia
+    const response = await clickUpRequest('/team', { token, maxRetries: 1 });
 
     if (!response.ok) {
-      const text = await response.text();
-      return res.json({ success: false, message: `HTTP ${response.status}: ${text.slice(0, 200)}` });
+      return res.json({ success: false, message: `HTTP ${response.status}: ${response.text.slice(0, 200)}` });
     }
 
-    const data = await response.json();
+    const data = response.data;
     const teamCount = Array.isArray(data?.teams) ? data.teams.length : 0;
     res.json({ success: true, message: `Połączono — znaleziono ${teamCount} zespół(ów)` });
   } catch (err) {
@@ -392,6 +506,17 @@ adminRouter.post('/settings/test-clickup', async (_req: AuthenticatedRequest, re
   }
 });
 
+// GET /admin/clickup/metrics — licznik wywołań ClickUp API per endpoint + stan limitu per token i pollera
+adminRouter.get('/clickup/metrics', (_req: AuthenticatedRequest, res: Response) => {
+  res.json({ ...getClickUpMetrics(), polling: getPollingStatus() });
+});
+
+// DELETE /admin/clickup/metrics — wyzeruj liczniki
+adminRouter.delete('/clickup/metrics', (_req: AuthenticatedRequest, res: Response) => {
+  resetClickUpMetrics();
+  res.json({ message: 'Metryki wyzerowane' });
+});
+
 // POST /admin/settings/test-notion — test połączenia z Notion API
 adminRouter.post('/settings/test-notion', async (_req: AuthenticatedRequest, res: Response) => {
   const token = getConfig('NOTION_API_KEY');
@@ -399,10 +524,10 @@ adminRouter.post('/settings/test-notion', async (_req: AuthenticatedRequest, res
     return res.json({ success: false, message: 'Brak NOTION_API_KEY' });
   }
 
-  const notionVersion = getConfig('NOTION_VERSION', '2022-06-28')!;
+  const notionVersion = getConfig('NOTION_VERSION', DEFAULT_NOTION_VERSION)!;
 
   try {
-    const response = await fetch('https://api.notion.com/v1/users', {
+    const response = await fetch(`${getNotionApiBase()}/users`, {
       headers: {
         Authorization: `Bearer ${token}`,
         'Notion-Version': notionVersion,
@@ -456,3 +581,1054 @@ adminRouter.patch('/projects/:id/internal', (req: AuthenticatedRequest, res: Res
 
   res.json({ id, is_internal, message: is_internal ? 'Oznaczono jako wewnętrzny' : 'Oznaczono jako kliencki' });
 });
+
+// ── Project pricing (wersje stawki i budżetu miesięcznego) ───────────
+
+// GET /admin/project-pricing?clickup_id= — wersje cennika (wszystkie albo jednego projektu)
+adminRouter.get('/project-pricing', (req: AuthenticatedRequest, res: Response) => {
+  const clickupId = typeof req.query.clickup_id === 'string' ? req.query.clickup_id : undefined;
+  const names = new Map(
+    (
+      db
+        .prepare(`SELECT clickup_id, MAX(name) as name FROM notion_projects WHERE clickup_id IS NOT NULL GROUP BY clickup_id`)
+        .all() as Array<{ clickup_id: string; name: string }>
+    ).map((row) => [row.clickup_id, row.name])
+  );
+  res.json({
+    versions: getProjectPricing(clickupId || undefined).map((version) => ({
+      ...version,
+      project_name: names.get(version.clickup_id) ?? null,
+    })),
+  });
+});
+
+// PUT /admin/project-pricing { clickup_id, valid_from: 'YYYY-MM', hourly_rate, monthly_budget }
+// — dodaj albo popraw wersję od danego miesiąca (także wstecz)
+adminRouter.put('/project-pricing', (req: AuthenticatedRequest, res: Response) => {
+  const { clickup_id, valid_from, hourly_rate, monthly_budget } = req.body as {
+    clickup_id?: string;
+    valid_from?: string;
+    hourly_rate?: number;
+    monthly_budget?: number;
+  };
+
+  if (!clickup_id || !db.prepare('SELECT 1 FROM notion_projects WHERE clickup_id = ?').get(clickup_id)) {
+    return res.status(400).json({ error: 'Nieznany projekt (clickup_id)' });
+  }
+  if (typeof valid_from !== 'string' || !/^\d{4}-(0[1-9]|1[0-2])$/.test(valid_from)) {
+    return res.status(400).json({ error: 'valid_from: miesiąc w formacie YYYY-MM' });
+  }
+  const hourlyRate = Number(hourly_rate ?? 0);
+  const monthlyBudget = Number(monthly_budget ?? 0);
+  if (!Number.isFinite(hourlyRate) || hourlyRate < 0 || !Number.isFinite(monthlyBudget) || monthlyBudget < 0) {
+    return res.status(400).json({ error: 'hourly_rate i monthly_budget: liczby nieujemne' });
+  }
+
+  const version = upsertProjectPricing({
+    clickupId: clickup_id,
+    validFrom: valid_from,
+    hourlyRate,
+    monthlyBudget,
+    source: 'admin',
+    updatedBy: req.user!.userId,
+  });
+
+  console.log(`💰 Cennik projektu ${clickup_id} od ${version.valid_from}: ${hourlyRate} PLN/h, budżet ${monthlyBudget} PLN/mies.`);
+  res.json({ version, message: 'Cennik zapisany' });
+});
+
+// DELETE /admin/project-pricing/:id — usuń wersję (poprzednia obowiązuje dalej; pierwszej nie można)
+adminRouter.delete('/project-pricing/:id', (req: AuthenticatedRequest, res: Response) => {
+  const id = parseInt(req.params.id as string);
+  if (!getProjectPricingVersion(id)) {
+    return res.status(404).json({ error: 'Wersja cennika nie istnieje' });
+  }
+  if (!deleteProjectPricing(id)) {
+    return res.status(400).json({ error: 'Pierwszej wersji cennika nie można usunąć — zmień jej stawki' });
+  }
+  res.json({ success: true, message: 'Wersja usunięta' });
+});
+
+// ── Task history (przeniesienia / zmiany nazw z webhooków) ──────────
+
+// GET /admin/tasks/history — ostatnie zmiany zadań (opcjonalnie ?task_id=, ?field=)
+adminRouter.get('/tasks/history', (req: AuthenticatedRequest, res: Response) => {
+  const limit = Math.min(parseInt(req.query.limit as string) || 100, 500);
+  const conditions: string[] = [];
+  const params: (string | number)[] = [];
+
+  if (typeof req.query.task_id === 'string' && req.query.task_id) {
+    conditions.push('h.task_id = ?');
+    params.push(req.query.task_id);
+  }
+  if (typeof req.query.field === 'string' && req.query.field) {
+    conditions.push('h.field = ?');
+    params.push(req.query.field);
+  }
+
+  const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+  const history = db
+    .prepare(
+      `SELECT h.*, t.name as task_name, t.deleted_at as task_deleted_at
+       FROM task_history h
+       LEFT JOIN tasks t ON t.id = h.task_id
+       ${where}
+       ORDER BY h.created_at DESC, h.id DESC
+       LIMIT ?`
+    )
+    .all(...params, limit);
+
+  res.json(history);
+});
+
+// ── Re-synchronizacja time entries (raporty zmian) ───────────────────
+
+// GET /admin/sync/runs — ostatnie przebiegi re-synchronizacji
+adminRouter.get('/sync/runs', (req: AuthenticatedRequest, res: Response) => {
+  const limit = Math.min(parseInt(req.query.limit as string) || 30, 200);
+  const runs = db.prepare('SELECT * FROM sync_runs ORDER BY id DESC LIMIT ?').all(limit);
+  res.json({ running_id: getRunningSyncId(), runs });
+});
+
+// GET /admin/sync/runs/:id — raport przebiegu ze zmienionymi wpisami
+adminRouter.get('/sync/runs/:id', (req: AuthenticatedRequest, res: Response) => {
+  const id = parseInt(req.params.id as string, 10);
+  const run = Number.isFinite(id) ? getSyncRunById(id) : undefined;
+  if (!run) {
+    return res.status(404).json({ error: 'Przebieg nie istnieje' });
+  }
+
+  const changes = db
+    .prepare(
+      `SELECT c.*, te.task_name, te.user_name, te.start_time
+       FROM sync_changes c
+       LEFT JOIN time_entries te ON te.id = c.entry_id
+       WHERE c.run_id = ?
+       ORDER BY c.id`
+    )
+    .all(id);
+
+  res.json({ run, changes });
+});
+
+// POST /admin/sync/run — ręczne uruchomienie (opcjonalnie { days })
+adminRouter.post('/sync/run', (req: AuthenticatedRequest, res: Response) => {
+  const days = req.body?.days !== undefined ? parseInt(req.body.days, 10) : undefined;
+  if (days !== undefined && (!Number.isFinite(days) || days < 1 || days > 365)) {
+    return res.status(400).json({ error: 'Liczba dni musi być z zakresu 1-365' });
+  }
+
+  if (getRunningSyncId() !== null) {
+    return res.status(409).json({ error: 'Re-synchronizacja już trwa', run_id: getRunningSyncId() });
+  }
+
+  try {
+    const runId = startTimeEntriesResync({ trigger: 'manual', days });
+    res.status(202).json({ run_id: runId, message: `Uruchomiono re-synchronizację #${runId}` });
+  } catch (error) {
+    res.status(500).json({
+      error: 'Błąd uruchamiania re-synchronizacji',
+      details: error instanceof Error ? error.message : 'Nieznany błąd',
+    });
+  }
+});
+
+// ── Uzgodnienie z ClickUp (raport rozbieżności per użytkownik/dzień) ─
+
+const MAX_RECONCILE_DAYS = 366;
+
+function parseIdList(value: string): string[] {
+  try {
+    const parsed = JSON.parse(value);
+    return Array.isArray(parsed) ? parsed.map(String) : [];
+  } catch {
+    return [];
+  }
+}
+
+// GET /admin/reconcile — ostatnie zadania uzgodnienia
+adminRouter.get('/reconcile', (req: AuthenticatedRequest, res: Response) => {
+  const limit = Math.min(parseInt(req.query.limit as string) || 20, 100);
+  const rows = db
+    .prepare(`SELECT * FROM jobs WHERE type = 'reconcile_time_entries' ORDER BY id DESC LIMIT ?`)
+    .all(limit) as JobRow[];
+  res.json(rows.map(toJobView));
+});
+
+// GET /admin/reconcile/:jobId — raport: dni z rozbieżnościami i ID wpisów
+adminRouter.get('/reconcile/:jobId', (req: AuthenticatedRequest, res: Response) => {
+  const jobId = parseInt(req.params.jobId as string, 10);
+  const job = Number.isFinite(jobId) ? getJobById(jobId) : undefined;
+  if (!job || job.type !== 'reconcile_time_entries') {
+    return res.status(404).json({ error: 'Raport nie istnieje' });
+  }
+
+  const days = getReconcileDays(jobId).map((day) => ({
+    ...day,
+    missing_ids: parseIdList(day.missing_ids),
+    extra_ids: parseIdList(day.extra_ids),
+    changed_ids: parseIdList(day.changed_ids),
+  }));
+  res.json({ job: toJobView(job), days });
+});
+
+// POST /admin/reconcile — uruchom uzgodnienie { start, end, team_id? } (daty YYYY-MM-DD, całe dni UTC)
+adminRouter.post('/reconcile', (req: AuthenticatedRequest, res: Response) => {
+  const { start, end, team_id } = req.body || {};
+  const startDate = new Date(`${start}T00:00:00.000Z`);
+  const endDate = new Date(`${end}T23:59:59.999Z`);
+  if (typeof start !== 'string' || typeof end !== 'string' || isNaN(startDate.getTime()) || isNaN(endDate.getTime())) {
+    return res.status(400).json({ error: 'Wymagane daty start i end (YYYY-MM-DD)' });
+  }
+  if (startDate > endDate) {
+    return res.status(400).json({ error: 'Data start nie może być po end' });
+  }
+  if (endDate.getTime() - startDate.getTime() > MAX_RECONCILE_DAYS * 24 * 60 * 60 * 1000) {
+    return res.status(400).json({ error: `Zakres może mieć najwyżej ${MAX_RECONCILE_DAYS} dni` });
+  }
+  if (team_id && !getWorkspace(team_id)) {
+    return res.status(400).json({ error: 'Nieznany workspace' });
+  }
+
+  const { job, created } = enqueueJob(
+    'reconcile_time_entries',
+    { start: startDate.toISOString(), end: endDate.toISOString(), team_id: team_id || undefined },
+    req.user?.userId
+  );
+  res.status(202).json({
+    job,
+    message: created ? `Dodano zadanie #${job.id}` : `Uzgodnienie #${job.id} już czeka lub trwa`,
+  });
+});
+
+// POST /admin/reconcile/:jobId/reimport — ponowny import rozbieżnych dni { day_ids? } (brak = wszystkie nieimportowane)
+adminRouter.post('/reconcile/:jobId/reimport', (req: AuthenticatedRequest, res: Response) => {
+  const jobId = parseInt(req.params.jobId as string, 10);
+  const job = Number.isFinite(jobId) ? getJobById(jobId) : undefined;
+  if (!job || job.type !== 'reconcile_time_entries') {
+    return res.status(404).json({ error: 'Raport nie istnieje' });
+  }
+
+  const rawIds = req.body?.day_ids;
+  let dayIds: number[] | undefined;
+  if (rawIds !== undefined) {
+    if (!Array.isArray(rawIds) || rawIds.length === 0 || !rawIds.every((id) => Number.isInteger(id))) {
+      return res.status(400).json({ error: 'day_ids musi być niepustą listą ID dni' });
+    }
+    dayIds = rawIds;
+  }
+
+  const { job: reimportJob, created } = enqueueJob(
+    'reconcile_reimport',
+    { reconcile_job_id: jobId, day_ids: dayIds },
+    req.user?.userId
+  );
+  res.status(202).json({
+    job: reimportJob,
+    message: created ? `Dodano zadanie #${reimportJob.id}` : `Ponowny import #${reimportJob.id} już czeka lub trwa`,
+  });
+});
+
+// ── Workspaces (kilka workspace'ów ClickUp w jednej instancji) ───────
+
+function toWorkspaceView(workspace: Workspace) {
+  const row = getWorkspaceRow(workspace.team_id);
+  return {
+    team_id: workspace.team_id,
+    name: workspace.name,
+    is_default: workspace.is_default,
+    is_active: workspace.is_active,
+    // own_* = token/sekret zapisany dla workspace'u; bez niego używane są ustawienia globalne
+    has_own_token: Boolean(row?.api_token),
+    has_own_webhook_secret: Boolean(row?.webhook_secret),
+    // own = ustawiona dla workspace'u (null = LONG_ENTRY_POLICY), effective = stosowana
+    long_entry_policy: row?.long_entry_policy ?? null,
+    effective_long_entry_policy: getLongEntryPolicy(workspace.team_id),
+    maskedToken: workspace.api_token ? maskValue(workspace.api_token) : null,
+    maskedWebhookSecret: workspace.webhook_secret ? maskValue(workspace.webhook_secret) : null,
+    stats: db
+      .prepare(
+        `SELECT
+          (SELECT COUNT(*) FROM time_entries WHERE team_id = ? AND deleted_at IS NULL) as time_entries,
+          (SELECT COUNT(*) FROM users WHERE team_id = ?) as users,
+          (SELECT MAX(start_time) FROM time_entries WHERE team_id = ?) as last_entry_at`
+      )
+      .get(workspace.team_id, workspace.team_id, workspace.team_id),
+  };
+}
+
+// GET /admin/workspaces — workspace domyślny (CLICKUP_TEAM_ID) + dodane w panelu
+adminRouter.get('/workspaces', (_req: AuthenticatedRequest, res: Response) => {
+  res.json({ workspaces: listWorkspaces().map(toWorkspaceView) });
+});
+
+// PUT /admin/workspaces/:teamId — dodaj lub zaktualizuj workspace.
+// api_token / webhook_secret: pominięte = bez zmian, pusty string = użyj ustawień globalnych.
+adminRouter.put('/workspaces/:teamId', (req: AuthenticatedRequest, res: Response) => {
+  const teamId = (req.params.teamId as string).trim();
+  const { name, api_token, webhook_secret, is_active, long_entry_policy } = req.body as {
+    name?: string;
+    api_token?: string;
+    webhook_secret?: string;
+    is_active?: boolean;
+    long_entry_policy?: string;
+  };
+
+  if (!/^\d+$/.test(teamId)) {
+    return res.status(400).json({ error: 'team_id musi być numerycznym ID workspace\'u ClickUp' });
+  }
+  if (typeof name !== 'string' || name.trim().length === 0) {
+    return res.status(400).json({ error: 'Wymagana nazwa workspace\'u' });
+  }
+  if (api_token !== undefined && typeof api_token !== 'string') {
+    return res.status(400).json({ error: 'api_token musi być tekstem' });
+  }
+  if (webhook_secret !== undefined && typeof webhook_secret !== 'string') {
+    return res.status(400).json({ error: 'webhook_secret musi być tekstem' });
+  }
+  if (long_entry_policy !== undefined && long_entry_policy !== '' && !isLongEntryPolicy(long_entry_policy)) {
+    return res.status(400).json({ error: 'long_entry_policy: cap, drop, flag albo pusty (ustawienie globalne)' });
+  }
+  if (isDefaultTeamId(teamId) && is_active === false) {
+    return res.status(400).json({ error: 'Nie można wyłączyć workspace\'u domyślnego (CLICKUP_TEAM_ID)' });
+  }
+
+  const existed = Boolean(getWorkspaceRow(teamId));
+  upsertWorkspace({
+    teamId,
+    name: name.trim(),
+    apiToken: api_token?.trim(),
+    webhookSecret: webhook_secret?.trim(),
+    isActive: is_active,
+    longEntryPolicy: long_entry_policy,
+  });
+
+  console.log(`🏢 ${existed ? 'Zaktualizowano' : 'Dodano'} workspace ClickUp ${teamId} (${name.trim()})`);
+
+  res.status(existed ? 200 : 201).json({
+    workspace: toWorkspaceView(getWorkspace(teamId)!),
+    message: existed ? 'Workspace zaktualizowany' : 'Workspace dodany — zaimportuj historię, żeby uzupełnić dane',
+  });
+});
+
+// DELETE /admin/workspaces/:teamId — usuń workspace (dane w time_entries zostają)
+adminRouter.delete('/workspaces/:teamId', (req: AuthenticatedRequest, res: Response) => {
+  const teamId = req.params.teamId as string;
+
+  if (isDefaultTeamId(teamId)) {
+    return res.status(400).json({ error: 'Workspace domyślny ustawiasz przez CLICKUP_TEAM_ID' });
+  }
+  if (!deleteWorkspace(teamId)) {
+    return res.status(404).json({ error: 'Workspace nie znaleziony' });
+  }
+
+  console.log(`🏢 Usunięto workspace ClickUp ${teamId}`);
+  res.json({ team_id: teamId, message: 'Workspace usunięty' });
+});
+
+// ── Zapomniane timery (alerty i kolejka wpisów ponad limit) ─────────
+
+const LONG_ENTRY_STATUSES = ['pending', 'capped', 'dropped', 'adjusted', 'excluded'];
+
+// GET /admin/long-entries?status=pending — wpisy ponad limit (domyślnie do przejrzenia)
+adminRouter.get('/long-entries', (req: AuthenticatedRequest, res: Response) => {
+  const status = (req.query.status as string) || 'pending';
+  if (status !== 'all' && !LONG_ENTRY_STATUSES.includes(status)) {
+    return res.status(400).json({ error: `status: all, ${LONG_ENTRY_STATUSES.join(', ')}` });
+  }
+  const limit = Math.min(parseInt(req.query.limit as string) || 100, 500);
+
+  const entries = db
+    .prepare(
+      `SELECT r.*, te.duration as current_duration, te.deleted_at IS NOT NULL as entry_deleted
+       FROM long_entry_reviews r
+       LEFT JOIN time_entries te ON te.id = r.entry_id
+       ${status === 'all' ? '' : 'WHERE r.status = ?'}
+       ORDER BY r.start_time DESC
+       LIMIT ?`
+    )
+    .all(...(status === 'all' ? [limit] : [status, limit])) as Array<
+    LongEntryReviewRow & { current_duration: number | null; entry_deleted: number }
+  >;
+  const counts = db
+    .prepare('SELECT status, COUNT(*) as count FROM long_entry_reviews GROUP BY status')
+    .all() as Array<{ status: string; count: number }>;
+
+  res.json({
+    counts: Object.fromEntries(counts.map((row) => [row.status, row.count])),
+    entries,
+  });
+});
+
+// POST /admin/long-entries/:entryId/resolve { action: 'cap' | 'set' | 'exclude', hours? }
+// Zmienia tylko dane w bazie (ClickUp bez zmian); re-synchronizacja zachowa ustalony czas.
+adminRouter.post('/long-entries/:entryId/resolve', (req: AuthenticatedRequest, res: Response) => {
+  const entryId = req.params.entryId as string;
+  const review = getLongEntryReview(entryId);
+  if (!review) {
+    return res.status(404).json({ error: 'Wpis nie jest w kolejce' });
+  }
+
+  const { action, hours } = req.body || {};
+  let duration: number | null;
+  if (action === 'cap') {
+    duration = review.max_duration;
+  } else if (action === 'set') {
+    const ms = Math.round(Number(hours) * 3600000);
+    if (!Number.isFinite(ms) || ms <= 0 || ms > review.max_duration) {
+      return res.status(400).json({ error: `hours: od 0 do ${review.max_duration / 3600000}` });
+    }
+    duration = ms;
+  } else if (action === 'exclude') {
+    duration = null;
+  } else {
+    return res.status(400).json({ error: 'action: cap, set albo exclude' });
+  }
+
+  db.transaction(() => {
+    // Przy exclude wpis zostaje z pełnym czasem — filtr czasu trwania pomija go w statystykach
+    db.prepare(`
+      UPDATE time_entries
+      SET duration = ?, end_time = strftime('%Y-%m-%dT%H:%M:%fZ', start_time, '+' || (? / 1000.0) || ' seconds')
+      WHERE id = ? AND start_time IS NOT NULL
+    `).run(duration ?? review.raw_duration, duration ?? review.raw_duration, entryId);
+    resolveLongEntryReview(entryId, {
+      status: action === 'cap' ? 'capped' : action === 'set' ? 'adjusted' : 'excluded',
+      duration,
+      resolvedBy: req.user!.userId,
+    });
+  })();
+
+  console.log(`⏱️ Wpis ponad limit ${entryId}: ${action}${duration ? ` (${Math.round(duration / 60000)} min)` : ''}`);
+  res.json({ entry: getLongEntryReview(entryId) });
+});
+
+// GET /admin/timer-alerts?days=7 — ostatnie alerty o zapomnianych timerach
+adminRouter.get('/timer-alerts', (req: AuthenticatedRequest, res: Response) => {
+  const days = Math.min(Math.max(parseInt(req.query.days as string) || 7, 1), 90);
+  const alerts = db
+    .prepare(
+      `SELECT a.*, te.end_time, te.duration
+       FROM timer_alerts a
+       LEFT JOIN time_entries te ON te.id = a.entry_id
+       WHERE a.created_at >= datetime('now', ?)
+       ORDER BY a.created_at DESC
+       LIMIT 200`
+    )
+    .all(`-${days} days`) as Array<TimerAlertRow & { end_time: string | null; duration: number | null }>;
+  res.json({ alerts });
+});
+
+// ── Limity długości wpisów (duration_policies) ───────────────────────
+
+const DURATION_POLICY_SCOPES: DurationPolicyScope[] = ['default', 'user', 'project', 'entry'];
+const MAX_POLICY_HOURS = 7 * 24;
+
+// Nazwa celu polityki do wyświetlenia (pracownik, projekt, wpis)
+function getPolicyTargetName(policy: DurationPolicyRow): string | null {
+  const lookup: Record<DurationPolicyScope, string | null> = {
+    default: null,
+    user: 'SELECT username as name FROM users WHERE id = ?',
+    project: 'SELECT MAX(name) as name FROM notion_projects WHERE clickup_id = ?',
+    entry: `SELECT user_name || ': ' || COALESCE(task_name, task_id) as name FROM time_entries WHERE id = ?`,
+  };
+  const sql = lookup[policy.scope];
+  if (!sql) return null;
+  const row = db.prepare(sql).get(policy.target_id) as { name: string | null } | undefined;
+  return row?.name ?? null;
+}
+
+// Wpisy poza statystykami (czas ponad limit) wraz z polityką, która o tym decyduje
+const EXCLUDED_ENTRIES_SQL = `
+  SELECT * FROM (
+    SELECT te.id, te.user_id, te.user_name, te.task_id, te.task_name, te.start_time, te.duration,
+           ${ENTRY_MAX_DURATION_SQL} as max_duration,
+           ${ENTRY_DURATION_POLICY_ID_SQL} as policy_id
+    FROM time_entries te
+    WHERE te.end_time IS NOT NULL AND te.duration > 0
+      ${NOT_DELETED_SQL}
+  )
+  WHERE duration > max_duration`;
+
+// GET /admin/duration-policies — polityki z liczbą wpisów, które obecnie wykluczają
+adminRouter.get('/duration-policies', (_req: AuthenticatedRequest, res: Response) => {
+  const excluded = db
+    .prepare(
+      `SELECT policy_id, COUNT(*) as excluded_count, SUM(duration) as excluded_duration
+       FROM (${EXCLUDED_ENTRIES_SQL})
+       GROUP BY policy_id`
+    )
+    .all() as Array<{ policy_id: number; excluded_count: number; excluded_duration: number }>;
+  const byPolicy = new Map(excluded.map((row) => [row.policy_id, row]));
+
+  res.json({
+    policies: getDurationPolicies().map((policy) => ({
+      ...policy,
+      target_name: getPolicyTargetName(policy),
+      excluded_count: byPolicy.get(policy.id)?.excluded_count ?? 0,
+      excluded_duration: byPolicy.get(policy.id)?.excluded_duration ?? 0,
+    })),
+  });
+});
+
+// GET /admin/duration-policies/:id/excluded — wpisy wykluczone przez daną politykę
+adminRouter.get('/duration-policies/:id/excluded', (req: AuthenticatedRequest, res: Response) => {
+  const id = parseInt(req.params.id as string);
+  if (!getDurationPolicy(id)) {
+    return res.status(404).json({ error: 'Polityka nie istnieje' });
+  }
+  const limit = Math.min(parseInt(req.query.limit as string) || 100, 500);
+
+  const entries = db
+    .prepare(
+      `SELECT e.*, r.status as review_status
+       FROM (${EXCLUDED_ENTRIES_SQL}) e
+       LEFT JOIN long_entry_reviews r ON r.entry_id = e.id
+       WHERE e.policy_id = ?
+       ORDER BY e.start_time DESC
+       LIMIT ?`
+    )
+    .all(id, limit);
+  res.json({ entries });
+});
+
+// PUT /admin/duration-policies { scope, target_id?, hours, note? } — dodaj albo zmień limit
+adminRouter.put('/duration-policies', (req: AuthenticatedRequest, res: Response) => {
+  const { scope, target_id, hours, note } = req.body as {
+    scope?: string;
+    target_id?: string;
+    hours?: number;
+    note?: string;
+  };
+
+  if (!DURATION_POLICY_SCOPES.includes(scope as DurationPolicyScope)) {
+    return res.status(400).json({ error: `scope: ${DURATION_POLICY_SCOPES.join(', ')}` });
+  }
+  const maxDuration = Math.round(Number(hours) * 3600000);
+  if (!Number.isFinite(maxDuration) || maxDuration <= 0 || maxDuration > MAX_POLICY_HOURS * 3600000) {
+    return res.status(400).json({ error: `hours: od 0 do ${MAX_POLICY_HOURS}` });
+  }
+
+  const targetId = scope === 'default' ? '' : typeof target_id === 'string' ? target_id.trim() : '';
+  if (scope !== 'default') {
+    const exists = {
+      user: 'SELECT 1 FROM users WHERE id = ?',
+      project: 'SELECT 1 FROM notion_projects WHERE clickup_id = ?',
+      entry: 'SELECT 1 FROM time_entries WHERE id = ?',
+    }[scope as Exclude<DurationPolicyScope, 'default'>];
+    if (!targetId || !db.prepare(exists).get(targetId)) {
+      return res.status(400).json({ error: 'Nieznany pracownik, projekt albo wpis (target_id)' });
+    }
+  }
+
+  const policy = upsertDurationPolicy({
+    scope: scope as DurationPolicyScope,
+    targetId,
+    maxDuration,
+    note: typeof note === 'string' ? note.trim() || null : null,
+    updatedBy: req.user!.userId,
+  });
+
+  console.log(`⏱️ Limit wpisów ${policy.scope}${targetId ? ` ${targetId}` : ''}: ${maxDuration / 3600000}h`);
+  res.json({ policy, message: 'Limit zapisany' });
+});
+
+// DELETE /admin/duration-policies/:id — usuń nadpisanie (domyślnej nie można)
+adminRouter.delete('/duration-policies/:id', (req: AuthenticatedRequest, res: Response) => {
+  const id = parseInt(req.params.id as string);
+  const policy = getDurationPolicy(id);
+  if (!policy) {
+    return res.status(404).json({ error: 'Polityka nie istnieje' });
+  }
+  if (!deleteDurationPolicy(id)) {
+    return res.status(400).json({ error: 'Domyślnego limitu nie można usunąć' });
+  }
+  res.json({ success: true, message: 'Nadpisanie usunięte' });
+});
+
+// ── Nakładające się wpisy (podwójnie liczony czas) ────────────────────
+
+const MAX_OVERLAP_REPORT_DAYS = 366;
+const DEFAULT_OVERLAP_REPORT_DAYS = 30;
+const MAX_OVERLAP_PAIRS = 500;
+
+// GET /admin/overlaps?start=YYYY-MM-DD&end=YYYY-MM-DD&user_id= — podsumowanie per pracownik + pary wpisów
+adminRouter.get('/overlaps', (req: AuthenticatedRequest, res: Response) => {
+  const startParam = req.query.start as string | undefined;
+  const endParam = req.query.end as string | undefined;
+  const endDate = endParam ? new Date(`${endParam}T23:59:59.999Z`) : new Date();
+  const startDate = startParam
+    ? new Date(`${startParam}T00:00:00.000Z`)
+    : new Date(endDate.getTime() - DEFAULT_OVERLAP_REPORT_DAYS * 24 * 60 * 60 * 1000);
+  if (isNaN(startDate.getTime()) || isNaN(endDate.getTime())) {
+    return res.status(400).json({ error: 'Nieprawidłowy format daty (YYYY-MM-DD)' });
+  }
+  if (startDate > endDate) {
+    return res.status(400).json({ error: 'Data start nie może być po end' });
+  }
+  if (endDate.getTime() - startDate.getTime() > MAX_OVERLAP_REPORT_DAYS * 24 * 60 * 60 * 1000) {
+    return res.status(400).json({ error: `Zakres może mieć najwyżej ${MAX_OVERLAP_REPORT_DAYS} dni` });
+  }
+
+  try {
+    const pairs = findOverlappingEntries({
+      start: startDate.toISOString(),
+      end: endDate.toISOString(),
+      userId: (req.query.user_id as string) || undefined,
+    });
+    res.json({
+      start: startDate.toISOString(),
+      end: endDate.toISOString(),
+      users: summarizeOverlaps(pairs),
+      pairs: pairs.slice(0, MAX_OVERLAP_PAIRS),
+      truncated: pairs.length > MAX_OVERLAP_PAIRS,
+    });
+  } catch (error) {
+    console.error('❌ Błąd wykrywania nakładających się wpisów:', error);
+    res.status(500).json({
+      error: 'Błąd wykrywania nakładających się wpisów',
+      details: error instanceof Error ? error.message : 'Nieznany błąd',
+    });
+  }
+});
+
+// POST /admin/overlaps/exclude { entry_id, overlaps_with? } — wyklucz wpis z zarobków
+adminRouter.post('/overlaps/exclude', (req: AuthenticatedRequest, res: Response) => {
+  const { entry_id, overlaps_with } = req.body || {};
+  if (typeof entry_id !== 'string' || !entry_id) {
+    return res.status(400).json({ error: 'Wymagany entry_id' });
+  }
+  const entry = db.prepare('SELECT id, user_id FROM time_entries WHERE id = ?').get(entry_id) as
+    | { id: string; user_id: string | null }
+    | undefined;
+  if (!entry) {
+    return res.status(404).json({ error: 'Wpis nie istnieje' });
+  }
+
+  excludeOverlappingEntry({
+    entryId: entry.id,
+    userId: entry.user_id,
+    overlapsWith: typeof overlaps_with === 'string' ? overlaps_with : null,
+    excludedBy: req.user!.userId,
+  });
+  console.log(`✂️ Wpis ${entry.id} wykluczony z zarobków (nakłada się na ${overlaps_with || '—'})`);
+  res.json({ success: true, message: 'Wpis wykluczony z zarobków' });
+});
+
+// DELETE /admin/overlaps/exclude/:entryId — przywróć wpis do zarobków
+adminRouter.delete('/overlaps/exclude/:entryId', (req: AuthenticatedRequest, res: Response) => {
+  if (!restoreOverlappingEntry(req.params.entryId as string)) {
+    return res.status(404).json({ error: 'Wpis nie był wykluczony' });
+  }
+  res.json({ success: true, message: 'Wpis przywrócony do zarobków' });
+});
+
+// ── Webhook security (sekrety per webhook_id + licznik odrzuceń) ─────
+
+// ── Webhook registrations (webhooki zarejestrowane w ClickUp) ────────
+
+// GET /admin/webhooks — webhooki zespołu w ClickUp + ich health.
+// Sekrety zwrócone przez ClickUp są od razu zapisywane do weryfikacji podpisów.
+adminRouter.get('/webhooks', async (req: AuthenticatedRequest, res: Response) => {
+  const workspace = getWorkspace(req.query.team_id as string | undefined);
+  if (!workspace) {
+    return res.status(400).json({ error: 'Nieznany workspace' });
+  }
+  const teamId = workspace.team_id;
+
+  try {
+    const webhooks = await fetchClickUpWebhooks(teamId, workspace.api_token);
+
+    const result = webhooks.map((webhook) => {
+      if (webhook.secret && getWebhookSecret(webhook.id) !== webhook.secret) {
+        setWebhookSecret(webhook.id, webhook.secret, `ClickUp: ${webhook.endpoint}`, teamId);
+      }
+      const { secret, ...rest } = webhook;
+      return { ...rest, has_secret: Boolean(secret || getWebhookSecret(webhook.id)) };
+    });
+
+    res.json({ team_id: teamId, default_events: HANDLED_WEBHOOK_EVENTS, webhooks: result });
+  } catch (error) {
+    console.error('❌ Błąd pobierania webhooków ClickUp:', error);
+    res.status(500).json({
+      error: 'Błąd pobierania webhooków z ClickUp',
+      details: error instanceof Error ? error.message : 'Nieznany błąd',
+    });
+  }
+});
+
+// POST /admin/webhooks — utwórz webhook w ClickUp i zapisz jego sekret
+adminRouter.post('/webhooks', async (req: AuthenticatedRequest, res: Response) => {
+  const { endpoint, events, team_id } = req.body as { endpoint?: string; events?: string[]; team_id?: string };
+
+  if (typeof endpoint !== 'string' || !/^https?:\/\//.test(endpoint.trim())) {
+    return res.status(400).json({ error: 'Wymagany endpoint (URL http/https)' });
+  }
+
+  if (events !== undefined && (!Array.isArray(events) || events.length === 0 || events.some((e) => typeof e !== 'string'))) {
+    return res.status(400).json({ error: 'events musi być niepustą tablicą nazw eventów' });
+  }
+
+  const workspace = getWorkspace(team_id);
+  if (!workspace) {
+    return res.status(400).json({ error: 'Nieznany workspace' });
+  }
+  const teamId = workspace.team_id;
+
+  try {
+    const webhook = await createClickUpWebhook(
+      teamId,
+      {
+        endpoint: endpoint.trim(),
+        events: events || HANDLED_WEBHOOK_EVENTS,
+      },
+      workspace.api_token
+    );
+
+    if (webhook.secret) {
+      setWebhookSecret(webhook.id, webhook.secret, `ClickUp: ${webhook.endpoint}`, teamId);
+    }
+
+    console.log(`🔗 Utworzono webhook ClickUp ${webhook.id} → ${webhook.endpoint}`);
+
+    const { secret, ...rest } = webhook;
+    res.status(201).json({
+      ...rest,
+      has_secret: Boolean(secret),
+      message: secret ? 'Webhook utworzony, sekret zapisany' : 'Webhook utworzony — ClickUp nie zwrócił sekretu',
+    });
+  } catch (error) {
+    console.error('❌ Błąd tworzenia webhooka ClickUp:', error);
+    res.status(500).json({
+      error: 'Błąd tworzenia webhooka w ClickUp',
+      details: error instanceof Error ? error.message : 'Nieznany błąd',
+    });
+  }
+});
+
+// POST /admin/webhooks/:webhookId/enable — ponownie aktywuj webhook (np. po suspended)
+adminRouter.post('/webhooks/:webhookId/enable', async (req: AuthenticatedRequest, res: Response) => {
+  const webhookId = req.params.webhookId as string;
+  const workspace = getWorkspace(req.query.team_id as string | undefined);
+  if (!workspace) {
+    return res.status(400).json({ error: 'Nieznany workspace' });
+  }
+
+  try {
+    const existing = (await fetchClickUpWebhooks(workspace.team_id, workspace.api_token)).find(
+      (webhook) => webhook.id === webhookId
+    );
+    if (!existing) {
+      return res.status(404).json({ error: 'Webhook nie znaleziony w ClickUp' });
+    }
+
+    const webhook = await updateClickUpWebhook(
+      webhookId,
+      {
+        endpoint: existing.endpoint,
+        events: existing.events,
+        status: 'active',
+      },
+      workspace.api_token
+    );
+
+    console.log(`🔗 Reaktywowano webhook ClickUp ${webhookId}`);
+
+    const { secret: _secret, ...rest } = webhook;
+    res.json({ ...rest, message: 'Webhook aktywowany' });
+  } catch (error) {
+    console.error('❌ Błąd aktywacji webhooka ClickUp:', error);
+    res.status(500).json({
+      error: 'Błąd aktywacji webhooka w ClickUp',
+      details: error instanceof Error ? error.message : 'Nieznany błąd',
+    });
+  }
+});
+
+// DELETE /admin/webhooks/:webhookId — usuń webhook w ClickUp (razem z zapisanym sekretem)
+adminRouter.delete('/webhooks/:webhookId', async (req: AuthenticatedRequest, res: Response) => {
+  const webhookId = req.params.webhookId as string;
+  const workspace = getWorkspace(req.query.team_id as string | undefined);
+  if (!workspace) {
+    return res.status(400).json({ error: 'Nieznany workspace' });
+  }
+
+  try {
+    await deleteClickUpWebhook(webhookId, workspace.api_token);
+    deleteWebhookSecret(webhookId);
+
+    console.log(`🔗 Usunięto webhook ClickUp ${webhookId}`);
+
+    res.json({ webhook_id: webhookId, message: 'Webhook usunięty' });
+  } catch (error) {
+    console.error('❌ Błąd usuwania webhooka ClickUp:', error);
+    res.status(500).json({
+      error: 'Błąd usuwania webhooka w ClickUp',
+      details: error instanceof Error ? error.message : 'Nieznany błąd',
+    });
+  }
+});
+
+// GET /admin/webhooks/secrets — sekrety webhooków (zamaskowane)
+adminRouter.get('/webhooks/secrets', (_req: AuthenticatedRequest, res: Response) => {
+  const secrets = getAllWebhookSecrets().map((row) => ({
+    webhook_id: row.webhook_id,
+    maskedSecret: maskValue(row.secret),
+    description: row.description,
+    team_id: row.team_id,
+    created_at: row.created_at,
+    updated_at: row.updated_at,
+  }));
+
+  res.json({
+    secrets,
+    has_global_secret: Boolean(getConfig('CLICKUP_WEBHOOK_SECRET')),
+  });
+});
+
+// PUT /admin/webhooks/secrets/:webhookId — zapisz sekret dla webhooka
+adminRouter.put('/webhooks/secrets/:webhookId', (req: AuthenticatedRequest, res: Response) => {
+  const webhookId = (req.params.webhookId as string).trim();
+  const { secret, description } = req.body as { secret?: string; description?: string };
+
+  if (!webhookId) {
+    return res.status(400).json({ error: 'Wymagane webhook_id' });
+  }
+
+  if (typeof secret !== 'string' || secret.trim().length === 0) {
+    return res.status(400).json({ error: 'Sekret nie może być pusty' });
+  }
+
+  setWebhookSecret(webhookId, secret.trim(), description?.trim() || null);
+
+  res.json({ webhook_id: webhookId, message: 'Sekret zapisany' });
+});
+
+// DELETE /admin/webhooks/secrets/:webhookId — usuń sekret (fallback na CLICKUP_WEBHOOK_SECRET)
+adminRouter.delete('/webhooks/secrets/:webhookId', (req: AuthenticatedRequest, res: Response) => {
+  const webhookId = req.params.webhookId as string;
+
+  if (!deleteWebhookSecret(webhookId)) {
+    return res.status(404).json({ error: 'Sekret nie znaleziony' });
+  }
+
+  res.json({ webhook_id: webhookId, message: 'Sekret usunięty' });
+});
+
+// GET /admin/webhooks/rejections — licznik odrzuconych webhooków (z okna retencji)
+adminRouter.get('/webhooks/rejections', (_req: AuthenticatedRequest, res: Response) => {
+  const totals = db
+    .prepare(
+      `SELECT
+        COUNT(*) as total,
+        SUM(CASE WHEN created_at >= datetime('now', '-1 day') THEN 1 ELSE 0 END) as last_24h,
+        MAX(created_at) as last_rejected_at
+       FROM webhook_rejections`
+    )
+    .get() as { total: number; last_24h: number | null; last_rejected_at: string | null };
+
+  const byReason = db
+    .prepare(
+      `SELECT reason, COUNT(*) as count
+       FROM webhook_rejections
+       GROUP BY reason
+       ORDER BY count DESC`
+    )
+    .all();
+
+  const recent = db
+    .prepare(
+      `SELECT id, webhook_id, event, reason, remote_ip, created_at
+       FROM webhook_rejections
+       ORDER BY id DESC
+       LIMIT 20`
+    )
+    .all();
+
+  res.json({
+    total: totals.total,
+    last_24h: totals.last_24h ?? 0,
+    last_rejected_at: totals.last_rejected_at,
+    retention_days: WEBHOOK_REJECTIONS_RETENTION_DAYS,
+    by_reason: byReason,
+    recent,
+  });
+});
+
+// ── Webhook events (dziennik + replay) ───────────────────────────────
+
+const WEBHOOK_EVENT_STATUSES = ['pending', 'processed', 'ignored', 'failed'];
+const MAX_REPLAY_BATCH = 500;
+
+// Buduje WHERE dla filtrów dziennika: status, event, task_id, zakres received_at
+function buildWebhookEventFilter(query: Record<string, unknown>): { where: string; params: (string | number)[] } {
+  const clauses: string[] = [];
+  const params: (string | number)[] = [];
+
+  const status = query.status as string | undefined;
+  if (status) {
+    if (!WEBHOOK_EVENT_STATUSES.includes(status)) {
+      throw new Error(`Nieprawidłowy status: ${status}`);
+    }
+    clauses.push('status = ?');
+    params.push(status);
+  }
+
+  const event = query.event as string | undefined;
+  if (event) {
+    clauses.push('event = ?');
+    params.push(event);
+  }
+
+  const taskId = query.task_id as string | undefined;
+  if (taskId) {
+    clauses.push('task_id = ?');
+    params.push(taskId);
+  }
+
+  const startParam = query.start as string | undefined;
+  const endParam = query.end as string | undefined;
+  if (startParam || endParam) {
+    if (!startParam || !endParam) {
+      throw new Error('Parametry start i end muszą być podane razem');
+    }
+    const startDate = new Date(startParam);
+    const endDate = new Date(endParam);
+    if (isNaN(startDate.getTime()) || isNaN(endDate.getTime())) {
+      throw new Error('Nieprawidłowy format daty');
+    }
+    // received_at jest w formacie SQLite (UTC, 'YYYY-MM-DD HH:MM:SS')
+    clauses.push('received_at >= datetime(?) AND received_at <= datetime(?)');
+    params.push(startDate.toISOString(), endDate.toISOString());
+  }
+
+  return {
+    where: clauses.length > 0 ? `WHERE ${clauses.join(' AND ')}` : '',
+    params,
+  };
+}
+
+// GET /admin/webhooks/events — lista eventów z filtrami (bez raw_body)
+adminRouter.get('/webhooks/events', (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const limit = Math.min(parseInt(req.query.limit as string) || 50, 500);
+    const offset = parseInt(req.query.offset as string) || 0;
+    const { where, params } = buildWebhookEventFilter(req.query);
+
+    const events = db
+      .prepare(
+        `SELECT id, webhook_id, event, task_id, status, error, attempts, received_at, processed_at,
+                LENGTH(raw_body) as body_size
+         FROM webhook_events
+         ${where}
+         ORDER BY id DESC
+         LIMIT ? OFFSET ?`
+      )
+      .all(...params, limit, offset);
+
+    const total = db
+      .prepare(`SELECT COUNT(*) as count FROM webhook_events ${where}`)
+      .get(...params) as { count: number };
+
+    const byStatus = db
+      .prepare(`SELECT status, COUNT(*) as count FROM webhook_events GROUP BY status`)
+      .all() as Array<{ status: string; count: number }>;
+
+    const eventTypes = db
+      .prepare(`SELECT DISTINCT event FROM webhook_events WHERE event IS NOT NULL ORDER BY event`)
+      .all() as Array<{ event: string }>;
+
+    res.json({
+      total: total.count,
+      limit,
+      offset,
+      by_status: Object.fromEntries(byStatus.map((row) => [row.status, row.count])),
+      event_types: eventTypes.map((row) => row.event),
+      events,
+    });
+  } catch (error) {
+    res.status(400).json({ error: (error as Error).message });
+  }
+});
+
+// GET /admin/webhooks/events/:id — pełny event z raw_body
+adminRouter.get('/webhooks/events/:id', (req: AuthenticatedRequest, res: Response) => {
+  const id = parseInt(req.params.id as string);
+
+  if (isNaN(id)) {
+    return res.status(400).json({ error: 'Nieprawidłowe ID' });
+  }
+
+  const event = getWebhookEventById(id);
+  if (!event) {
+    return res.status(404).json({ error: 'Event nie znaleziony' });
+  }
+
+  res.json(event);
+});
+
+// POST /admin/webhooks/events/:id/replay — ponowne przetworzenie jednego eventu
+adminRouter.post('/webhooks/events/:id/replay', async (req: AuthenticatedRequest, res: Response) => {
+  const id = parseInt(req.params.id as string);
+
+  if (isNaN(id)) {
+    return res.status(400).json({ error: 'Nieprawidłowe ID' });
+  }
+
+  const result = await replayWebhookEvent(id, req.app.locals.io);
+  if (!result) {
+    return res.status(404).json({ error: 'Event nie znaleziony' });
+  }
+
+  res.json(result);
+});
+
+// POST /admin/webhooks/events/replay — replay wielu eventów
+// Body: { ids: number[] } albo filtry jak w GET (np. { status: 'failed' }).
+// Eventy są przetwarzane po kolei, od najstarszego, żeby zachować kolejność start → stop.
+adminRouter.post('/webhooks/events/replay', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const body = (req.body || {}) as Record<string, unknown>;
+    let ids: number[];
+
+    if (Array.isArray(body.ids)) {
+      ids = body.ids
+        .map((value) => parseInt(String(value), 10))
+        .filter((value) => Number.isFinite(value))
+        .sort((a, b) => a - b);
+    } else {
+      const { where, params } = buildWebhookEventFilter(body);
+      if (!where) {
+        return res.status(400).json({ error: 'Wymagane ids lub co najmniej jeden filtr' });
+      }
+      ids = (
+        db
+          .prepare(`SELECT id FROM webhook_events ${where} ORDER BY id ASC LIMIT ?`)
+          .all(...params, MAX_REPLAY_BATCH) as Array<{ id: number }>
+      ).map((row) => row.id);
+    }
+
+    if (ids.length > MAX_REPLAY_BATCH) {
+      return res.status(400).json({ error: `Maksymalnie ${MAX_REPLAY_BATCH} eventów na raz` });
+    }
+
+    const results: Array<{ id: number; status: string; error?: string }> = [];
+    for (const id of ids) {
+      const result = await replayWebhookEvent(id, req.app.locals.io);
+      if (result) {
+        results.push(result);
+      }
+    }
+
+    res.json({
+      requested: ids.length,
+      replayed: results.length,
+      processed: results.filter((r) => r.status === 'processed').length,
+      ignored: results.filter((r) => r.status === 'ignored').length,
+      failed: results.filter((r) => r.status === 'failed').length,
+      results,
+    });
+  } catch (error) {
+    res.status(400).json({ error: (error as Error).message });
+  }
+});
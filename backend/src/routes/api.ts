@@ -1,34 +1,30 @@
 import { Router, Request, Response } from 'express';
-import { db } from '../database.js';
+import { db, getAllTags, getHierarchyRows, getTagsForEntries } from '../database.js';
 import { requireAuth } from '../auth/middleware.js';
 import { getScope, requireWorkerLink } from '../auth/scope.js';
-import { MAX_ENTRY_DURATION_MS } from '../constants.js';
+import {
+  WITHIN_DURATION_LIMIT_SQL,
+  HIERARCHY_JOIN_SQL,
+  HIERARCHY_NAMES_SQL,
+  buildHierarchyFilterSQL,
+  buildTagFilterSQL,
+  parseTagsParam,
+  parseRollupParam,
+  TASK_ROOTS_CTE,
+  TASK_ROOT_ID_SQL,
+} from '../constants.js';
+import { listActiveWorkspaces, parseTeamIdFilter } from '../clickup/workspaces.js';
+import { buildDayTimeline, getLocalDate, getTimelineTimeZone, getWorkWindow, parseWorkWindow } from '../dayTimeline.js';
 
 export const apiRouter = Router();
 
-function backfillMissingListNames() {
-  // Uzupełnij brakujące list_name na podstawie tabeli tasks.
-  db.prepare(`
-    UPDATE time_entries
-    SET list_name = (
-      SELECT t.list_name
-      FROM tasks t
-      WHERE t.id = time_entries.task_id
-    )
-    WHERE (list_name IS NULL OR list_name = '')
-      AND task_id IN (
-        SELECT id FROM tasks WHERE list_name IS NOT NULL AND list_name != ''
-      )
-  `).run();
-}
-
 // Wszystkie endpointy API wymagają autoryzacji
 apiRouter.use(requireAuth);
 
 // Pobierz aktywne sesje (kto teraz pracuje)
 apiRouter.get('/active', (req: Request, res: Response) => {
   const scope = getScope(req as any);
-  let whereClause = 'te.end_time IS NULL';
+  let whereClause = 'te.end_time IS NULL AND te.deleted_at IS NULL';
   const params: (string | number)[] = [];
 
   if (scope.isUser) {
@@ -47,10 +43,12 @@ apiRouter.get('/active', (req: Request, res: Response) => {
     .prepare(
       `SELECT
         te.*,
+        ${HIERARCHY_NAMES_SQL},
         u.color as user_color,
         u.profile_picture as user_avatar
        FROM time_entries te
        LEFT JOIN users u ON te.user_id = u.id
+       ${HIERARCHY_JOIN_SQL}
        WHERE ${whereClause}
        ORDER BY te.start_time DESC`
     )
@@ -61,7 +59,6 @@ apiRouter.get('/active', (req: Request, res: Response) => {
 
 // Pobierz historię (ostatnie wpisy)
 apiRouter.get('/history', (req: Request, res: Response) => {
-  backfillMissingListNames();
   const scope = getScope(req as any);
   const limit = Math.min(parseInt(req.query.limit as string) || 50, 200);
   const offset = parseInt(req.query.offset as string) || 0;
@@ -73,7 +70,7 @@ apiRouter.get('/history', (req: Request, res: Response) => {
   }
 
   const params: (string | number)[] = [];
-  let whereClause = `te.end_time IS NOT NULL AND te.duration > 0 AND te.duration <= ${MAX_ENTRY_DURATION_MS}`;
+  let whereClause = `te.end_time IS NOT NULL AND ${WITHIN_DURATION_LIMIT_SQL} AND te.deleted_at IS NULL`;
 
   if (startParam && endParam) {
     const startDate = new Date(startParam);
@@ -100,10 +97,12 @@ apiRouter.get('/history', (req: Request, res: Response) => {
     .prepare(
       `SELECT
         te.*,
+        ${HIERARCHY_NAMES_SQL},
         u.color as user_color,
         u.profile_picture as user_avatar
        FROM time_entries te
        LEFT JOIN users u ON te.user_id = u.id
+       ${HIERARCHY_JOIN_SQL}
        WHERE ${whereClause}
        ORDER BY te.end_time DESC
        LIMIT ? OFFSET ?`
@@ -141,31 +140,88 @@ apiRouter.get('/user/:userId/stats', (req: Request, res: Response) => {
         COUNT(*) as total_entries,
         SUM(duration) as total_duration,
         COUNT(DISTINCT task_id) as unique_tasks
-       FROM time_entries
+       FROM time_entries te
        WHERE user_id = ?
          AND start_time >= datetime('now', '-' || ? || ' days')
-         AND duration > 0 AND duration <= ${MAX_ENTRY_DURATION_MS}`
+         AND ${WITHIN_DURATION_LIMIT_SQL}
+         AND deleted_at IS NULL`
     )
     .get(userId, days);
 
-  const byTask = db
-    .prepare(
-      `SELECT
-        task_id,
-        task_name,
-        SUM(duration) as total_duration,
-        COUNT(*) as entries_count
-       FROM time_entries
-       WHERE user_id = ?
-         AND start_time >= datetime('now', '-' || ? || ' days')
-         AND duration > 0 AND duration <= ${MAX_ENTRY_DURATION_MS}
-       GROUP BY task_id
-       ORDER BY total_duration DESC
-       LIMIT 10`
-    )
-    .all(userId, days);
+  // ?rollup=1 — czas subtasków pod zadaniem najwyższego poziomu (subtasks_count = ile tasków zwinięto)
+  const rollup = parseRollupParam(req.query.rollup);
+  const byTask = rollup
+    ? db
+        .prepare(
+          `WITH RECURSIVE ${TASK_ROOTS_CTE}
+           SELECT
+             ${TASK_ROOT_ID_SQL} as task_id,
+             COALESCE(rt.name, MAX(te.task_name)) as task_name,
+             SUM(te.duration) as total_duration,
+             COUNT(*) as entries_count,
+             COUNT(DISTINCT CASE WHEN te.task_id != ${TASK_ROOT_ID_SQL} THEN te.task_id END) as subtasks_count
+           FROM time_entries te
+           LEFT JOIN task_roots tr ON tr.task_id = te.task_id
+           LEFT JOIN tasks rt ON rt.id = tr.root_id
+           WHERE te.user_id = ?
+             AND te.start_time >= datetime('now', '-' || ? || ' days')
+             AND ${WITHIN_DURATION_LIMIT_SQL}
+             AND te.deleted_at IS NULL
+           GROUP BY ${TASK_ROOT_ID_SQL}
+           ORDER BY total_duration DESC
+           LIMIT 10`
+        )
+        .all(userId, days)
+    : db
+        .prepare(
+          `SELECT
+            task_id,
+            task_name,
+            SUM(duration) as total_duration,
+            COUNT(*) as entries_count
+           FROM time_entries te
+           WHERE user_id = ?
+             AND start_time >= datetime('now', '-' || ? || ' days')
+             AND ${WITHIN_DURATION_LIMIT_SQL}
+             AND deleted_at IS NULL
+           GROUP BY task_id
+           ORDER BY total_duration DESC
+           LIMIT 10`
+        )
+        .all(userId, days);
+
+  res.json({ stats, byTask, rollup });
+});
 
-  res.json({ stats, byTask });
+// Oś dnia pracownika: pierwszy start, ostatni stop, przerwy w godzinach pracy
+// ?date=YYYY-MM-DD (domyślnie dziś w POLL_TIMEZONE), ?window=9-17 (domyślnie WORKDAY_HOURS)
+apiRouter.get('/users/:id/day-timeline', (req: Request, res: Response) => {
+  const scope = getScope(req as any);
+  const userIdParam = req.params.id as string;
+  const userId = scope.isUser ? requireWorkerLink(scope.appUser) : userIdParam;
+  if (scope.isUser && !userId) {
+    return res.status(403).json({ error: 'Brak powiązania z pracownikiem (ClickUp)' });
+  }
+  if (scope.isUser && userIdParam !== userId) {
+    return res.status(403).json({ error: 'Brak uprawnień do tych danych' });
+  }
+
+  const timeZone = getTimelineTimeZone();
+  const date = (req.query.date as string) || getLocalDate(new Date(), timeZone);
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(date) || isNaN(Date.parse(date))) {
+    return res.status(400).json({ error: 'Nieprawidłowa data (YYYY-MM-DD)' });
+  }
+  const window = req.query.window ? parseWorkWindow(req.query.window as string) : getWorkWindow();
+  if (!window) {
+    return res.status(400).json({ error: 'Nieprawidłowe godziny pracy (np. 9-17 lub 8:30-16:30)' });
+  }
+
+  try {
+    res.json(buildDayTimeline({ userId: userId!, date, window, timeZone }));
+  } catch (error: any) {
+    console.error('❌ Błąd budowania osi dnia:', error);
+    res.status(500).json({ error: 'Błąd budowania osi dnia', details: error.message });
+  }
 });
 
 // Pobierz wszystkich użytkowników
@@ -187,8 +243,8 @@ apiRouter.get('/users', (req: Request, res: Response) => {
     .prepare(
       `SELECT
         u.*,
-        (SELECT COUNT(*) FROM time_entries WHERE user_id = u.id AND end_time IS NULL) as is_active,
-        (SELECT task_name FROM time_entries WHERE user_id = u.id AND end_time IS NULL LIMIT 1) as current_task
+        (SELECT COUNT(*) FROM time_entries WHERE user_id = u.id AND end_time IS NULL AND deleted_at IS NULL) as is_active,
+        (SELECT task_name FROM time_entries WHERE user_id = u.id AND end_time IS NULL AND deleted_at IS NULL LIMIT 1) as current_task
        FROM users u
        ${whereClause}
        ORDER BY u.username`
@@ -215,9 +271,10 @@ apiRouter.get('/stats/today', (req: Request, res: Response) => {
         COUNT(DISTINCT user_id) as active_users,
         COUNT(*) as total_entries,
         SUM(CASE WHEN end_time IS NULL THEN 1 ELSE 0 END) as currently_active,
-        SUM(CASE WHEN duration > 0 AND duration <= ${MAX_ENTRY_DURATION_MS} THEN duration ELSE 0 END) as total_duration
-       FROM time_entries
+        SUM(CASE WHEN ${WITHIN_DURATION_LIMIT_SQL} THEN duration ELSE 0 END) as total_duration
+       FROM time_entries te
        WHERE date(start_time) = ?
+         AND deleted_at IS NULL
        ${userCondition}`
     )
     .get(today, ...userParams);
@@ -228,12 +285,13 @@ apiRouter.get('/stats/today', (req: Request, res: Response) => {
         user_id,
         user_name,
         COUNT(*) as entries_count,
-        SUM(CASE WHEN duration > 0 AND duration <= ${MAX_ENTRY_DURATION_MS} THEN duration ELSE 0 END) as total_duration,
+        SUM(CASE WHEN ${WITHIN_DURATION_LIMIT_SQL} THEN duration ELSE 0 END) as total_duration,
         (SELECT end_time IS NULL FROM time_entries t2
-         WHERE t2.user_id = time_entries.user_id
+         WHERE t2.user_id = te.user_id AND t2.deleted_at IS NULL
          ORDER BY start_time DESC LIMIT 1) as is_active
-       FROM time_entries
+       FROM time_entries te
        WHERE date(start_time) = ?
+         AND deleted_at IS NULL
        ${userCondition}
        GROUP BY user_id
        ORDER BY total_duration DESC`
@@ -276,6 +334,54 @@ function getDateRange(period: string): { start: string; end: string } {
 }
 
 // Statystyki wszystkich użytkowników z filtrem czasowym
+// Lista workspace'ów ClickUp do filtrów (bez tokenów)
+apiRouter.get('/workspaces', (_req: Request, res: Response) => {
+  res.json(
+    listActiveWorkspaces().map((workspace) => ({
+      team_id: workspace.team_id,
+      name: workspace.name,
+      is_default: workspace.is_default,
+    }))
+  );
+});
+
+// Drzewo space → folder → lista (do filtrów ?space_id= / ?folder_id= / ?list_id=).
+// Zarchiwizowane węzły tylko z ?include_archived=1 — historia nadal je pokazuje po nazwie.
+apiRouter.get('/hierarchy', (req: Request, res: Response) => {
+  const teamId = parseTeamIdFilter(req.query.team_id);
+  if (teamId === null) {
+    return res.status(400).json({ error: 'Nieznany workspace' });
+  }
+  const includeArchived = req.query.include_archived === '1' || req.query.include_archived === 'true';
+  const { spaces, folders, lists } = getHierarchyRows(teamId);
+  const visible = <T extends { archived: number }>(row: T) => includeArchived || row.archived === 0;
+  const toNode = (row: { id: string; name: string; archived: number }) => ({
+    id: row.id,
+    name: row.name,
+    archived: row.archived === 1,
+  });
+
+  res.json(
+    spaces.filter(visible).map((space) => ({
+      ...toNode(space),
+      team_id: space.team_id,
+      folders: folders
+        .filter((folder) => folder.space_id === space.id && visible(folder))
+        .map((folder) => ({
+          ...toNode(folder),
+          lists: lists.filter((list) => list.folder_id === folder.id && visible(list)).map(toNode),
+        })),
+      // Listy bez folderu
+      lists: lists.filter((list) => list.space_id === space.id && !list.folder_id && visible(list)).map(toNode),
+    }))
+  );
+});
+
+// Tagi wpisów czasu (do filtrów ?tags=) — najczęściej używane pierwsze
+apiRouter.get('/tags', (_req: Request, res: Response) => {
+  res.json(getAllTags());
+});
+
 apiRouter.get('/stats/team', (req: Request, res: Response) => {
   const scope = getScope(req as any);
   const period = req.query.period as string | undefined;
@@ -302,11 +408,27 @@ apiRouter.get('/stats/team', (req: Request, res: Response) => {
     end = range.end;
   }
 
+  // ?team_id= — tylko wpisy z jednego workspace'u ClickUp
+  const teamId = parseTeamIdFilter(req.query.team_id);
+  if (teamId === null) {
+    return res.status(400).json({ error: 'Nieznany workspace' });
+  }
+  // ?space_id= / ?folder_id= / ?list_id= — dowolny poziom hierarchii ClickUp
+  const hierarchyFilter = buildHierarchyFilterSQL(req.query);
+  const entryClause = `${teamId ? 'AND te.team_id = ?' : ''} ${hierarchyFilter.clause}`;
+  const entryParams = [...(teamId ? [teamId] : []), ...hierarchyFilter.params];
+  // ?rollup=1 — unique_tasks liczy zadania najwyższego poziomu (subtaski zwinięte pod rodzica)
+  const rollup = parseRollupParam(req.query.rollup);
+  const rootsCte = rollup ? `WITH RECURSIVE ${TASK_ROOTS_CTE}` : '';
+  const rootsJoin = rollup ? 'LEFT JOIN task_roots tr ON tr.task_id = te.task_id' : '';
+  const uniqueTasksSql = rollup ? `COUNT(DISTINCT ${TASK_ROOT_ID_SQL})` : 'COUNT(DISTINCT te.task_id)';
+
   if (scope.isUser) {
     const clickupUserId = requireWorkerLink(scope.appUser);
     const user = db
       .prepare(
-        `SELECT
+        `${rootsCte}
+         SELECT
           u.id,
           u.username,
           u.email,
@@ -314,16 +436,19 @@ apiRouter.get('/stats/team', (req: Request, res: Response) => {
           u.profile_picture,
           COALESCE(SUM(te.duration), 0) as total_duration,
           COUNT(te.id) as entries_count,
-          COUNT(DISTINCT te.task_id) as unique_tasks
+          ${uniqueTasksSql} as unique_tasks
          FROM users u
          LEFT JOIN time_entries te ON u.id = te.user_id
            AND te.start_time >= ? AND te.start_time <= ?
            AND te.end_time IS NOT NULL
-           AND te.duration > 0 AND te.duration <= ${MAX_ENTRY_DURATION_MS}
+           AND ${WITHIN_DURATION_LIMIT_SQL}
+           AND te.deleted_at IS NULL
+           ${entryClause}
+         ${rootsJoin}
          WHERE u.id = ?
          GROUP BY u.id`
       )
-      .all(start, end, clickupUserId);
+      .all(start, end, ...entryParams, clickupUserId);
 
     const totals = db
       .prepare(
@@ -331,13 +456,15 @@ apiRouter.get('/stats/team', (req: Request, res: Response) => {
           COALESCE(SUM(duration), 0) as total_duration,
           COUNT(*) as total_entries,
           COUNT(DISTINCT user_id) as active_users
-         FROM time_entries
+         FROM time_entries te
          WHERE start_time >= ? AND start_time <= ?
            AND end_time IS NOT NULL
-           AND duration > 0 AND duration <= ${MAX_ENTRY_DURATION_MS}
-           AND user_id = ?`
+           AND ${WITHIN_DURATION_LIMIT_SQL}
+           AND deleted_at IS NULL
+           AND user_id = ?
+           ${entryClause}`
       )
-      .get(start, end, clickupUserId);
+      .get(start, end, clickupUserId, ...entryParams);
 
     return res.json({
       period: startParam && endParam ? 'custom' : (period || 'today'),
@@ -345,12 +472,14 @@ apiRouter.get('/stats/team', (req: Request, res: Response) => {
       end,
       users: user,
       totals,
+      rollup,
     });
   }
 
   const users = db
     .prepare(
-      `SELECT
+      `${rootsCte}
+       SELECT
         u.id,
         u.username,
         u.email,
@@ -358,16 +487,20 @@ apiRouter.get('/stats/team', (req: Request, res: Response) => {
         u.profile_picture,
         COALESCE(SUM(te.duration), 0) as total_duration,
         COUNT(te.id) as entries_count,
-        COUNT(DISTINCT te.task_id) as unique_tasks
+        ${uniqueTasksSql} as unique_tasks
        FROM users u
        LEFT JOIN time_entries te ON u.id = te.user_id
          AND te.start_time >= ? AND te.start_time <= ?
          AND te.end_time IS NOT NULL
-         AND te.duration > 0 AND te.duration <= ${MAX_ENTRY_DURATION_MS}
+         AND ${WITHIN_DURATION_LIMIT_SQL}
+         AND te.deleted_at IS NULL
+         ${entryClause}
+       ${rootsJoin}
+       ${teamId ? 'WHERE u.team_id = ? OR u.id IN (SELECT user_id FROM time_entries WHERE team_id = ?)' : ''}
        GROUP BY u.id
        ORDER BY total_duration DESC`
     )
-    .all(start, end);
+    .all(start, end, ...entryParams, ...(teamId ? [teamId, teamId] : []));
 
   const totals = db
     .prepare(
@@ -375,12 +508,14 @@ apiRouter.get('/stats/team', (req: Request, res: Response) => {
         COALESCE(SUM(duration), 0) as total_duration,
         COUNT(*) as total_entries,
         COUNT(DISTINCT user_id) as active_users
-       FROM time_entries
+       FROM time_entries te
        WHERE start_time >= ? AND start_time <= ?
          AND end_time IS NOT NULL
-         AND duration > 0 AND duration <= ${MAX_ENTRY_DURATION_MS}`
+         AND ${WITHIN_DURATION_LIMIT_SQL}
+         AND deleted_at IS NULL
+         ${entryClause}`
     )
-    .get(start, end);
+    .get(start, end, ...entryParams);
 
   res.json({
     period: startParam && endParam ? 'custom' : (period || 'today'),
@@ -388,12 +523,12 @@ apiRouter.get('/stats/team', (req: Request, res: Response) => {
     end,
     users,
     totals,
+    rollup,
   });
 });
 
 // Historia z filtrem po użytkowniku
 apiRouter.get('/history/filtered', (req: Request, res: Response) => {
-  backfillMissingListNames();
   const scope = getScope(req as any);
   const limit = Math.min(parseInt(req.query.limit as string) || 50, 200);
   const offset = parseInt(req.query.offset as string) || 0;
@@ -411,12 +546,15 @@ apiRouter.get('/history/filtered', (req: Request, res: Response) => {
   let query = `
     SELECT
       te.*,
+      ${HIERARCHY_NAMES_SQL},
       u.color as user_color,
       u.profile_picture as user_avatar
     FROM time_entries te
     LEFT JOIN users u ON te.user_id = u.id
+    ${HIERARCHY_JOIN_SQL}
     WHERE te.end_time IS NOT NULL
-      AND te.duration > 0 AND te.duration <= ${MAX_ENTRY_DURATION_MS}
+      AND ${WITHIN_DURATION_LIMIT_SQL}
+      AND te.deleted_at IS NULL
   `;
 
   const params: (string | number)[] = [];
@@ -436,12 +574,19 @@ apiRouter.get('/history/filtered', (req: Request, res: Response) => {
     params.push(startDate.toISOString(), endDate.toISOString());
   }
 
+  const tagFilter = buildTagFilterSQL(parseTagsParam(req.query.tags));
+  const hierarchyFilter = buildHierarchyFilterSQL(req.query);
+  query += ` ${tagFilter.clause} ${hierarchyFilter.clause}`;
+  params.push(...tagFilter.params, ...hierarchyFilter.params);
+
   query += ` ORDER BY te.end_time DESC LIMIT ? OFFSET ?`;
   params.push(limit, offset);
 
-  const entries = db.prepare(query).all(...params);
+  const rows = db.prepare(query).all(...params) as Array<{ id: string }>;
+  const tagsByEntry = getTagsForEntries(rows.map((row) => row.id));
+  const entries = rows.map((row) => ({ ...row, tags: tagsByEntry.get(row.id) || [] }));
 
-  let countQuery = `SELECT COUNT(*) as count FROM time_entries WHERE end_time IS NOT NULL AND duration > 0 AND duration <= ${MAX_ENTRY_DURATION_MS}`;
+  let countQuery = `SELECT COUNT(*) as count FROM time_entries te WHERE end_time IS NOT NULL AND ${WITHIN_DURATION_LIMIT_SQL} AND deleted_at IS NULL`;
   const countParams: string[] = [];
 
   if (userId) {
@@ -456,6 +601,9 @@ apiRouter.get('/history/filtered', (req: Request, res: Response) => {
     countParams.push(startDate.toISOString(), endDate.toISOString());
   }
 
+  countQuery += ` ${tagFilter.clause} ${hierarchyFilter.clause}`;
+  countParams.push(...tagFilter.params, ...hierarchyFilter.params);
+
   const total = db.prepare(countQuery).get(...countParams) as { count: number };
 
   res.json({
@@ -464,5 +612,6 @@ apiRouter.get('/history/filtered', (req: Request, res: Response) => {
     limit,
     offset,
     user_id: userId || null,
+    tags: tagFilter.params,
   });
 });
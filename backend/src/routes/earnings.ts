@@ -1,35 +1,53 @@
 import { Router, Response } from 'express';
 import { requireAuth, requireRole } from '../auth/middleware.js';
-import { db, upsertTask, upsertUser } from '../database.js';
+import { db } from '../database.js';
 import { AuthenticatedRequest } from '../types/auth.js';
-import { fetchClickUpTask, fetchClickUpTeamMembers, fetchClickUpTimeEntries, getClickUpTeamId } from '../clickup.js';
+import { enqueueJob } from '../jobs/queue.js';
+import { parseTeamIdFilter } from '../clickup/workspaces.js';
 import { getScope, requireWorkerLink } from '../auth/scope.js';
-import { MAX_ENTRY_DURATION_MS, DURATION_FILTER_SQL, MAX_IMPORT_ENTRIES_PER_USER } from '../constants.js';
+import {
+  DURATION_FILTER_SQL,
+  NOT_DELETED_SQL,
+  NOT_OVERLAP_EXCLUDED_SQL,
+  PROJECT_PRICING_IN_EFFECT_SQL,
+  TASK_PROJECT_ID_SQL,
+  WORKER_RATE_IN_EFFECT_SQL,
+  buildTagFilterSQL,
+  parseTagsParam,
+} from '../constants.js';
 
 export const earningsRouter = Router();
 
 // Wszystkie endpointy zarobków wymagają autoryzacji
 earningsRouter.use(requireAuth);
 
+// Wersje cennika projektu (project_pricing) z nazwą i flagą is_internal z Notion — join zawsze
+// z PROJECT_PRICING_IN_EFFECT_SQL, żeby wpis trafił na wersję z miesiąca swojego startu
 const DEDUPED_PROJECTS = `
   (SELECT
-     clickup_id,
-     MAX(hourly_rate) as hourly_rate,
-     MAX(monthly_budget) as monthly_budget,
-     MAX(is_internal) as is_internal,
-     MAX(name) as name
-   FROM notion_projects
-   WHERE clickup_id IS NOT NULL
-   GROUP BY clickup_id)`;
-
+     pp.clickup_id,
+     pp.hourly_rate,
+     pp.monthly_budget,
+     pp.valid_from,
+     pp.valid_to,
+     p.is_internal,
+     p.name
+   FROM project_pricing pp
+   JOIN (SELECT clickup_id, MAX(is_internal) as is_internal, MAX(name) as name
+         FROM notion_projects
+         WHERE clickup_id IS NOT NULL
+         GROUP BY clickup_id) p ON p.clickup_id = pp.clickup_id)`;
+
+// Wersje stawek pracownika (worker_rates) z nazwą z Notion — join zawsze z WORKER_RATE_IN_EFFECT_SQL,
+// żeby wpis trafił na dokładnie jedną wersję (stawkę z chwili startu wpisu)
 const DEDUPED_WORKERS = `
   (SELECT
-     clickup_user_id,
-     MAX(hourly_rate) as hourly_rate,
-     MAX(name) as name
-   FROM notion_workers
-   WHERE clickup_user_id IS NOT NULL
-   GROUP BY clickup_user_id)`;
+     wr.clickup_user_id,
+     wr.hourly_rate,
+     wr.valid_from,
+     wr.valid_to,
+     (SELECT MAX(w.name) FROM notion_workers w WHERE w.clickup_user_id = wr.clickup_user_id) as name
+   FROM worker_rates wr)`;
 
 function getDateRange(period: string): { start: string; end: string; period: string } {
   const now = new Date();
@@ -165,25 +183,38 @@ function resolveImportRange(req: AuthenticatedRequest): { start: Date; end: Date
 }
 
 // CTE: oblicza przychód dla projektów z budżetem miesięcznym (np. EFF/SEO 2500 PLN/mies.)
-// budget_revenue = monthly_budget × liczba unikalnych miesięcy z wpisami w zakresie dat
-// budget_total_hours = łączne godziny projektu - do proporcjonalnego rozdziału przychodu
-function buildProjectBudgetCTE(userClause: string = ''): string {
+// per projekt i miesiąc: budget_revenue = budżet z wersji cennika obowiązującej w tym miesiącu,
+// budget_total_hours = godziny projektu w tym miesiącu - do proporcjonalnego rozdziału przychodu
+function buildProjectBudgetCTE(filterClause: string = ''): string {
   return `project_budget AS (
     SELECT np.clickup_id,
-      np.monthly_budget * COUNT(DISTINCT strftime('%Y-%m', te.start_time)) as budget_revenue,
+      strftime('%Y-%m', te.start_time) as month,
+      MAX(np.monthly_budget) as budget_revenue,
       NULLIF(SUM(te.duration / 3600000.0), 0) as budget_total_hours
     FROM time_entries te
     JOIN tasks t ON t.id = te.task_id
-    JOIN ${DEDUPED_PROJECTS} np ON np.clickup_id = t.list_id AND np.monthly_budget > 0
-    JOIN ${DEDUPED_WORKERS} nw ON nw.clickup_user_id = te.user_id
+    JOIN ${DEDUPED_PROJECTS} np ON np.clickup_id = ${TASK_PROJECT_ID_SQL} ${PROJECT_PRICING_IN_EFFECT_SQL}
+      AND np.monthly_budget > 0
+    JOIN ${DEDUPED_WORKERS} nw ON nw.clickup_user_id = te.user_id ${WORKER_RATE_IN_EFFECT_SQL}
     WHERE te.end_time IS NOT NULL
       AND te.start_time >= ? AND te.start_time <= ?
-      ${userClause}
-    GROUP BY np.clickup_id
+      ${NOT_DELETED_SQL}
+      ${NOT_OVERLAP_EXCLUDED_SQL}
+      ${filterClause}
+    GROUP BY np.clickup_id, month
   )`;
 }
 
-// Wyrażenie SQL na przychód per wpis: budżetowy (proporcjonalnie) lub godzinowy.
+// Dołączenie budżetu z miesiąca wpisu (alias te, np)
+const PROJECT_BUDGET_JOIN = `LEFT JOIN project_budget pb ON pb.clickup_id = np.clickup_id
+             AND pb.month = strftime('%Y-%m', te.start_time)`;
+
+// Stawka pracownika w zakresie dat (GROUP BY pracownik): średnia ważona godzinami —
+// przy zmianie stawki w trakcie zakresu cost = hours_worked × worker_rate nadal się zgadza
+const WORKER_EFFECTIVE_RATE = `ROUND(SUM((te.duration / 3600000.0) * nw.hourly_rate) / NULLIF(SUM(te.duration / 3600000.0), 0), 2)`;
+
+// Wyrażenie SQL na przychód per wpis: budżetowy (proporcjonalnie) lub godzinowy — według wersji
+// cennika z miesiąca wpisu (projekt może przejść z rozliczenia godzinowego na budżet i odwrotnie).
 // Projekty wewnętrzne (is_internal=1) mają przychód 0 — generują tylko koszty.
 const ENTRY_REVENUE = `
   CASE
@@ -193,6 +224,42 @@ const ENTRY_REVENUE = `
     ELSE (te.duration / 3600000.0) * np.hourly_rate
   END`;
 
+// ?team_id= — zawężenie do jednego workspace'u ClickUp (brak = wszystkie)
+function resolveTeamFilter(req: AuthenticatedRequest): string | undefined {
+  const teamId = parseTeamIdFilter(req.query.team_id);
+  if (teamId === null) {
+    throw new Error('Nieznany workspace');
+  }
+  return teamId;
+}
+
+// Filtry wpisów: pracownik (nie-admin), workspace i ?tags=.
+// Tagi zawężają tylko zapytanie główne — CTE budżetowe liczy godziny całego projektu,
+// więc wpisy z tagiem dostają proporcjonalną (a nie całą) część budżetu miesięcznego.
+function buildEntryFilter(
+  userFilter: string | null,
+  teamId: string | undefined,
+  tags: string[] = []
+): { clause: string; params: string[]; budgetClause: string; budgetParams: string[] } {
+  const clauses: string[] = [];
+  const params: string[] = [];
+  if (userFilter) {
+    clauses.push('AND te.user_id = ?');
+    params.push(userFilter);
+  }
+  if (teamId) {
+    clauses.push('AND te.team_id = ?');
+    params.push(teamId);
+  }
+  const tagFilter = buildTagFilterSQL(tags);
+  return {
+    clause: [...clauses, tagFilter.clause].filter(Boolean).join(' '),
+    params: [...params, ...tagFilter.params],
+    budgetClause: clauses.join(' '),
+    budgetParams: params,
+  };
+}
+
 earningsRouter.get('/summary', (req: AuthenticatedRequest, res: Response) => {
   try {
     const scope = getScope(req);
@@ -203,11 +270,12 @@ earningsRouter.get('/summary', (req: AuthenticatedRequest, res: Response) => {
       return res.status(403).json({ error: 'Brak powiązania z pracownikiem (ClickUp)' });
     }
 
-    const userClause = userFilter ? 'AND te.user_id = ?' : '';
-    const cte = buildProjectBudgetCTE(userClause);
-    const baseParams = userFilter ? [start, end, userFilter] : [start, end];
+    const filter = buildEntryFilter(userFilter, resolveTeamFilter(req), parseTagsParam(req.query.tags));
+    const filterClause = filter.clause;
+    const cte = buildProjectBudgetCTE(filter.budgetClause);
+    const baseParams = [start, end, ...filter.params];
     // CTE params + main query params
-    const params = [...baseParams, ...baseParams];
+    const params = [start, end, ...filter.budgetParams, ...baseParams];
 
     const mappedTotals = isAdmin
       ? (db
@@ -221,12 +289,15 @@ earningsRouter.get('/summary', (req: AuthenticatedRequest, res: Response) => {
               ROUND(COALESCE(SUM(te.duration) / 3600000.0, 0), 2) as total_hours
              FROM time_entries te
              JOIN tasks t ON t.id = te.task_id
-             JOIN ${DEDUPED_PROJECTS} np ON np.clickup_id = t.list_id
-             JOIN ${DEDUPED_WORKERS} nw ON nw.clickup_user_id = te.user_id
-             LEFT JOIN project_budget pb ON pb.clickup_id = np.clickup_id
+             JOIN ${DEDUPED_PROJECTS} np ON np.clickup_id = ${TASK_PROJECT_ID_SQL} ${PROJECT_PRICING_IN_EFFECT_SQL}
+             JOIN ${DEDUPED_WORKERS} nw ON nw.clickup_user_id = te.user_id ${WORKER_RATE_IN_EFFECT_SQL}
+             ${PROJECT_BUDGET_JOIN}
              WHERE te.end_time IS NOT NULL
                AND te.start_time >= ? AND te.start_time <= ?
-               ${DURATION_FILTER_SQL}`
+               ${DURATION_FILTER_SQL}
+               ${NOT_OVERLAP_EXCLUDED_SQL}
+               ${NOT_DELETED_SQL}
+               ${filterClause}`
           )
           .get(...params) as {
           total_duration: number;
@@ -244,13 +315,15 @@ earningsRouter.get('/summary', (req: AuthenticatedRequest, res: Response) => {
               ROUND(COALESCE(SUM(te.duration) / 3600000.0, 0), 2) as total_hours
              FROM time_entries te
              JOIN tasks t ON t.id = te.task_id
-             JOIN ${DEDUPED_PROJECTS} np ON np.clickup_id = t.list_id
-             JOIN ${DEDUPED_WORKERS} nw ON nw.clickup_user_id = te.user_id
-             LEFT JOIN project_budget pb ON pb.clickup_id = np.clickup_id
+             JOIN ${DEDUPED_PROJECTS} np ON np.clickup_id = ${TASK_PROJECT_ID_SQL} ${PROJECT_PRICING_IN_EFFECT_SQL}
+             JOIN ${DEDUPED_WORKERS} nw ON nw.clickup_user_id = te.user_id ${WORKER_RATE_IN_EFFECT_SQL}
+             ${PROJECT_BUDGET_JOIN}
              WHERE te.end_time IS NOT NULL
                AND te.start_time >= ? AND te.start_time <= ?
                ${DURATION_FILTER_SQL}
-               ${userClause}`
+               ${NOT_OVERLAP_EXCLUDED_SQL}
+               ${NOT_DELETED_SQL}
+               ${filterClause}`
           )
           .get(...params) as {
           total_duration: number;
@@ -265,7 +338,9 @@ earningsRouter.get('/summary', (req: AuthenticatedRequest, res: Response) => {
          WHERE te.end_time IS NOT NULL
            AND te.start_time >= ? AND te.start_time <= ?
            ${DURATION_FILTER_SQL}
-           ${userClause}`
+           ${NOT_OVERLAP_EXCLUDED_SQL}
+           ${NOT_DELETED_SQL}
+           ${filterClause}`
       )
       .get(...baseParams) as { count: number };
 
@@ -274,12 +349,14 @@ earningsRouter.get('/summary', (req: AuthenticatedRequest, res: Response) => {
         `SELECT COUNT(DISTINCT te.id) as count
          FROM time_entries te
          JOIN tasks t ON t.id = te.task_id
-         JOIN ${DEDUPED_PROJECTS} np ON np.clickup_id = t.list_id
-         JOIN ${DEDUPED_WORKERS} nw ON nw.clickup_user_id = te.user_id
+         JOIN ${DEDUPED_PROJECTS} np ON np.clickup_id = ${TASK_PROJECT_ID_SQL} ${PROJECT_PRICING_IN_EFFECT_SQL}
+         JOIN ${DEDUPED_WORKERS} nw ON nw.clickup_user_id = te.user_id ${WORKER_RATE_IN_EFFECT_SQL}
          WHERE te.end_time IS NOT NULL
            AND te.start_time >= ? AND te.start_time <= ?
            ${DURATION_FILTER_SQL}
-           ${userClause}`
+           ${NOT_OVERLAP_EXCLUDED_SQL}
+           ${NOT_DELETED_SQL}
+           ${filterClause}`
       )
       .get(...baseParams) as { count: number };
 
@@ -306,10 +383,11 @@ earningsRouter.get('/by-user', (req: AuthenticatedRequest, res: Response) => {
     const isAdmin = scope.isAdmin;
     const userFilter = isAdmin ? null : requireWorkerLink(scope.appUser);
 
-    const userClause = userFilter ? 'AND te.user_id = ?' : '';
-    const cte = buildProjectBudgetCTE(userClause);
-    const baseParams = userFilter ? [start, end, userFilter] : [start, end];
-    const params = [...baseParams, ...baseParams];
+    const filter = buildEntryFilter(userFilter, resolveTeamFilter(req), parseTagsParam(req.query.tags));
+    const filterClause = filter.clause;
+    const cte = buildProjectBudgetCTE(filter.budgetClause);
+    const baseParams = [start, end, ...filter.params];
+    const params = [start, end, ...filter.budgetParams, ...baseParams];
 
     const rows = isAdmin
       ? db
@@ -318,7 +396,7 @@ earningsRouter.get('/by-user', (req: AuthenticatedRequest, res: Response) => {
              SELECT
               nw.clickup_user_id as user_id,
               nw.name as user_name,
-              nw.hourly_rate as worker_rate,
+              ${WORKER_EFFECTIVE_RATE} as worker_rate,
               ROUND(SUM(te.duration) / 3600000.0, 2) as hours_worked,
               ROUND(SUM(${ENTRY_REVENUE}), 2) as revenue,
               ROUND(SUM((te.duration / 3600000.0) * nw.hourly_rate), 2) as cost,
@@ -327,12 +405,15 @@ earningsRouter.get('/by-user', (req: AuthenticatedRequest, res: Response) => {
               COUNT(te.id) as entries_count
              FROM time_entries te
              JOIN tasks t ON t.id = te.task_id
-             JOIN ${DEDUPED_PROJECTS} np ON np.clickup_id = t.list_id
-             JOIN ${DEDUPED_WORKERS} nw ON nw.clickup_user_id = te.user_id
-             LEFT JOIN project_budget pb ON pb.clickup_id = np.clickup_id
+             JOIN ${DEDUPED_PROJECTS} np ON np.clickup_id = ${TASK_PROJECT_ID_SQL} ${PROJECT_PRICING_IN_EFFECT_SQL}
+             JOIN ${DEDUPED_WORKERS} nw ON nw.clickup_user_id = te.user_id ${WORKER_RATE_IN_EFFECT_SQL}
+             ${PROJECT_BUDGET_JOIN}
              WHERE te.end_time IS NOT NULL
                AND te.start_time >= ? AND te.start_time <= ?
                ${DURATION_FILTER_SQL}
+               ${NOT_OVERLAP_EXCLUDED_SQL}
+               ${NOT_DELETED_SQL}
+               ${filterClause}
              GROUP BY nw.clickup_user_id
              ORDER BY revenue DESC`
           )
@@ -343,19 +424,21 @@ earningsRouter.get('/by-user', (req: AuthenticatedRequest, res: Response) => {
              SELECT
               nw.clickup_user_id as user_id,
               nw.name as user_name,
-              nw.hourly_rate as worker_rate,
+              ${WORKER_EFFECTIVE_RATE} as worker_rate,
               ROUND(SUM(te.duration) / 3600000.0, 2) as hours_worked,
               ROUND(SUM(${ENTRY_REVENUE}) - SUM((te.duration / 3600000.0) * nw.hourly_rate), 2) as profit,
               COUNT(te.id) as entries_count
              FROM time_entries te
              JOIN tasks t ON t.id = te.task_id
-             JOIN ${DEDUPED_PROJECTS} np ON np.clickup_id = t.list_id
-             JOIN ${DEDUPED_WORKERS} nw ON nw.clickup_user_id = te.user_id
-             LEFT JOIN project_budget pb ON pb.clickup_id = np.clickup_id
+             JOIN ${DEDUPED_PROJECTS} np ON np.clickup_id = ${TASK_PROJECT_ID_SQL} ${PROJECT_PRICING_IN_EFFECT_SQL}
+             JOIN ${DEDUPED_WORKERS} nw ON nw.clickup_user_id = te.user_id ${WORKER_RATE_IN_EFFECT_SQL}
+             ${PROJECT_BUDGET_JOIN}
              WHERE te.end_time IS NOT NULL
                AND te.start_time >= ? AND te.start_time <= ?
                ${DURATION_FILTER_SQL}
-               AND te.user_id = ?
+               ${NOT_OVERLAP_EXCLUDED_SQL}
+               ${NOT_DELETED_SQL}
+               ${filterClause}
              GROUP BY nw.clickup_user_id
              ORDER BY profit DESC`
           )
@@ -374,37 +457,59 @@ earningsRouter.get('/by-project', (req: AuthenticatedRequest, res: Response) =>
     const isAdmin = scope.isAdmin;
     const userFilter = isAdmin ? null : requireWorkerLink(scope.appUser);
 
-    const userClause = userFilter ? 'AND te.user_id = ?' : '';
-    const cte = buildProjectBudgetCTE(userClause);
-    const baseParams = userFilter ? [start, end, userFilter] : [start, end];
-    const params = [...baseParams, ...baseParams];
+    const filter = buildEntryFilter(userFilter, resolveTeamFilter(req), parseTagsParam(req.query.tags));
+    const filterClause = filter.clause;
+    const cte = buildProjectBudgetCTE(filter.budgetClause);
+    const baseParams = [start, end, ...filter.params];
+    const params = [start, end, ...filter.budgetParams, ...baseParams];
 
+    // Stawka i budżet w odpowiedzi: wersja cennika z miesiąca ostatniego wpisu projektu w zakresie
+    // (alias te na wierszu projektu, żeby użyć tego samego PROJECT_PRICING_IN_EFFECT_SQL co przy wpisach)
     const rows = isAdmin
       ? db
           .prepare(
-            `WITH ${cte}
+            `WITH ${cte},
+             by_project AS (
+              SELECT
+               np.clickup_id as project_clickup_id,
+               np.name as project_name,
+               MAX(te.start_time) as start_time,
+               ROUND(SUM(te.duration) / 3600000.0, 2) as hours_worked,
+               ROUND(SUM(${ENTRY_REVENUE}), 2) as revenue,
+               ROUND(SUM((te.duration / 3600000.0) * nw.hourly_rate), 2) as cost,
+               ROUND(SUM(${ENTRY_REVENUE}) - SUM((te.duration / 3600000.0) * nw.hourly_rate), 2) as profit,
+               COUNT(DISTINCT nw.clickup_user_id) as workers_count,
+               COUNT(DISTINCT te.task_id) as tasks_count,
+               COUNT(te.id) as entries_count
+              FROM time_entries te
+              JOIN tasks t ON t.id = te.task_id
+              JOIN ${DEDUPED_PROJECTS} np ON np.clickup_id = ${TASK_PROJECT_ID_SQL} ${PROJECT_PRICING_IN_EFFECT_SQL}
+              JOIN ${DEDUPED_WORKERS} nw ON nw.clickup_user_id = te.user_id ${WORKER_RATE_IN_EFFECT_SQL}
+              ${PROJECT_BUDGET_JOIN}
+              WHERE te.end_time IS NOT NULL
+                AND te.start_time >= ? AND te.start_time <= ?
+                ${DURATION_FILTER_SQL}
+                ${NOT_OVERLAP_EXCLUDED_SQL}
+                ${NOT_DELETED_SQL}
+                ${filterClause}
+              GROUP BY np.clickup_id
+             )
              SELECT
-              np.clickup_id as project_clickup_id,
-              np.name as project_name,
+              te.project_clickup_id,
+              te.project_name,
               np.hourly_rate as project_rate,
               np.monthly_budget as monthly_budget,
-              ROUND(SUM(te.duration) / 3600000.0, 2) as hours_worked,
-              ROUND(SUM(${ENTRY_REVENUE}), 2) as revenue,
-              ROUND(SUM((te.duration / 3600000.0) * nw.hourly_rate), 2) as cost,
-              ROUND(SUM(${ENTRY_REVENUE}) - SUM((te.duration / 3600000.0) * nw.hourly_rate), 2) as profit,
-              COUNT(DISTINCT nw.clickup_user_id) as workers_count,
-              COUNT(DISTINCT te.task_id) as tasks_count,
-              COUNT(te.id) as entries_count
-             FROM time_entries te
-             JOIN tasks t ON t.id = te.task_id
-             JOIN ${DEDUPED_PROJECTS} np ON np.clickup_id = t.list_id
-             JOIN ${DEDUPED_WORKERS} nw ON nw.clickup_user_id = te.user_id
-             LEFT JOIN project_budget pb ON pb.clickup_id = np.clickup_id
-             WHERE te.end_time IS NOT NULL
-               AND te.start_time >= ? AND te.start_time <= ?
-               ${DURATION_FILTER_SQL}
-             GROUP BY np.clickup_id
-             ORDER BY revenue DESC`
+              np.valid_from as pricing_valid_from,
+              te.hours_worked,
+              te.revenue,
+              te.cost,
+              te.profit,
+              te.workers_count,
+              te.tasks_count,
+              te.entries_count
+             FROM by_project te
+             LEFT JOIN ${DEDUPED_PROJECTS} np ON np.clickup_id = te.project_clickup_id ${PROJECT_PRICING_IN_EFFECT_SQL}
+             ORDER BY te.revenue DESC`
           )
           .all(...params)
       : db
@@ -419,13 +524,15 @@ earningsRouter.get('/by-project', (req: AuthenticatedRequest, res: Response) =>
               COUNT(te.id) as entries_count
              FROM time_entries te
              JOIN tasks t ON t.id = te.task_id
-             JOIN ${DEDUPED_PROJECTS} np ON np.clickup_id = t.list_id
-             JOIN ${DEDUPED_WORKERS} nw ON nw.clickup_user_id = te.user_id
-             LEFT JOIN project_budget pb ON pb.clickup_id = np.clickup_id
+             JOIN ${DEDUPED_PROJECTS} np ON np.clickup_id = ${TASK_PROJECT_ID_SQL} ${PROJECT_PRICING_IN_EFFECT_SQL}
+             JOIN ${DEDUPED_WORKERS} nw ON nw.clickup_user_id = te.user_id ${WORKER_RATE_IN_EFFECT_SQL}
+             ${PROJECT_BUDGET_JOIN}
              WHERE te.end_time IS NOT NULL
                AND te.start_time >= ? AND te.start_time <= ?
                ${DURATION_FILTER_SQL}
-               AND te.user_id = ?
+               ${NOT_OVERLAP_EXCLUDED_SQL}
+               ${NOT_DELETED_SQL}
+               ${filterClause}
              GROUP BY np.clickup_id
              ORDER BY profit DESC`
           )
@@ -449,9 +556,11 @@ earningsRouter.get('/details', (req: AuthenticatedRequest, res: Response) => {
       return res.status(403).json({ error: 'Brak powiązania z pracownikiem (ClickUp)' });
     }
 
-    const userClause = userFilter ? 'AND te.user_id = ?' : '';
-    const cte = buildProjectBudgetCTE(userClause);
-    const baseParams = userFilter ? [start, end, userFilter] : [start, end];
+    const filter = buildEntryFilter(userFilter, resolveTeamFilter(req), parseTagsParam(req.query.tags));
+    const filterClause = filter.clause;
+    const cte = buildProjectBudgetCTE(filter.budgetClause);
+    const baseParams = [start, end, ...filter.params];
+    const params = [start, end, ...filter.budgetParams, ...baseParams];
 
     const rows = isAdmin
       ? db
@@ -472,22 +581,26 @@ earningsRouter.get('/details', (req: AuthenticatedRequest, res: Response) => {
               np.hourly_rate as project_rate,
               np.monthly_budget as monthly_budget,
               t.list_id as clickup_list_id,
+              CASE WHEN t.project_field IS NOT NULL THEN 'field' ELSE 'list' END as mapping_rule,
               ROUND(te.duration / 3600000.0, 2) as hours_worked,
               ROUND(${ENTRY_REVENUE}, 2) as revenue,
               ROUND((te.duration / 3600000.0) * nw.hourly_rate, 2) as cost,
               ROUND((${ENTRY_REVENUE}) - (te.duration / 3600000.0) * nw.hourly_rate, 2) as profit
              FROM time_entries te
              JOIN tasks t ON t.id = te.task_id
-             JOIN ${DEDUPED_PROJECTS} np ON np.clickup_id = t.list_id
-             JOIN ${DEDUPED_WORKERS} nw ON nw.clickup_user_id = te.user_id
-             LEFT JOIN project_budget pb ON pb.clickup_id = np.clickup_id
+             JOIN ${DEDUPED_PROJECTS} np ON np.clickup_id = ${TASK_PROJECT_ID_SQL} ${PROJECT_PRICING_IN_EFFECT_SQL}
+             JOIN ${DEDUPED_WORKERS} nw ON nw.clickup_user_id = te.user_id ${WORKER_RATE_IN_EFFECT_SQL}
+             ${PROJECT_BUDGET_JOIN}
              WHERE te.end_time IS NOT NULL
                AND te.start_time >= ? AND te.start_time <= ?
                ${DURATION_FILTER_SQL}
+               ${NOT_OVERLAP_EXCLUDED_SQL}
+               ${NOT_DELETED_SQL}
+               ${filterClause}
              ORDER BY te.end_time DESC
              LIMIT ? OFFSET ?`
           )
-          .all(...baseParams, ...baseParams, limit, offset)
+          .all(...params, limit, offset)
       : db
           .prepare(
             `WITH ${cte}
@@ -503,33 +616,38 @@ earningsRouter.get('/details', (req: AuthenticatedRequest, res: Response) => {
               np.clickup_id as project_clickup_id,
               np.name as project_name,
               t.list_id as clickup_list_id,
+              CASE WHEN t.project_field IS NOT NULL THEN 'field' ELSE 'list' END as mapping_rule,
               ROUND(te.duration / 3600000.0, 2) as hours_worked,
               ROUND((${ENTRY_REVENUE}) - (te.duration / 3600000.0) * nw.hourly_rate, 2) as profit
              FROM time_entries te
              JOIN tasks t ON t.id = te.task_id
-             JOIN ${DEDUPED_PROJECTS} np ON np.clickup_id = t.list_id
-             JOIN ${DEDUPED_WORKERS} nw ON nw.clickup_user_id = te.user_id
-             LEFT JOIN project_budget pb ON pb.clickup_id = np.clickup_id
+             JOIN ${DEDUPED_PROJECTS} np ON np.clickup_id = ${TASK_PROJECT_ID_SQL} ${PROJECT_PRICING_IN_EFFECT_SQL}
+             JOIN ${DEDUPED_WORKERS} nw ON nw.clickup_user_id = te.user_id ${WORKER_RATE_IN_EFFECT_SQL}
+             ${PROJECT_BUDGET_JOIN}
              WHERE te.end_time IS NOT NULL
                AND te.start_time >= ? AND te.start_time <= ?
                ${DURATION_FILTER_SQL}
-               AND te.user_id = ?
+               ${NOT_OVERLAP_EXCLUDED_SQL}
+               ${NOT_DELETED_SQL}
+               ${filterClause}
              ORDER BY te.end_time DESC
              LIMIT ? OFFSET ?`
           )
-          .all(...baseParams, ...baseParams, limit, offset);
+          .all(...params, limit, offset);
 
     const total = db
       .prepare(
         `SELECT COUNT(*) as count
          FROM time_entries te
          JOIN tasks t ON t.id = te.task_id
-         JOIN ${DEDUPED_PROJECTS} np ON np.clickup_id = t.list_id
-         JOIN ${DEDUPED_WORKERS} nw ON nw.clickup_user_id = te.user_id
+         JOIN ${DEDUPED_PROJECTS} np ON np.clickup_id = ${TASK_PROJECT_ID_SQL} ${PROJECT_PRICING_IN_EFFECT_SQL}
+         JOIN ${DEDUPED_WORKERS} nw ON nw.clickup_user_id = te.user_id ${WORKER_RATE_IN_EFFECT_SQL}
          WHERE te.end_time IS NOT NULL
            AND te.start_time >= ? AND te.start_time <= ?
            ${DURATION_FILTER_SQL}
-           ${userClause}`
+           ${NOT_OVERLAP_EXCLUDED_SQL}
+           ${NOT_DELETED_SQL}
+           ${filterClause}`
       )
       .get(...baseParams) as { count: number };
 
@@ -539,11 +657,80 @@ earningsRouter.get('/details', (req: AuthenticatedRequest, res: Response) => {
   }
 });
 
+// Rozbicie czasu na tagi (np. meeting vs bugfix) — opcjonalnie dla jednego projektu (?project_id = clickup_id projektu).
+// Wpis z kilkoma tagami liczy się w każdym z nich, więc suma udziałów może przekroczyć 100%.
+earningsRouter.get('/by-tag', (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const scope = getScope(req);
+    const { start, end, period } = resolveRange(req);
+    const isAdmin = scope.isAdmin;
+    const userFilter = isAdmin ? null : requireWorkerLink(scope.appUser);
+    if (!isAdmin && !userFilter) {
+      return res.status(403).json({ error: 'Brak powiązania z pracownikiem (ClickUp)' });
+    }
+
+    const filter = buildEntryFilter(userFilter, resolveTeamFilter(req), parseTagsParam(req.query.tags));
+    const projectId = (req.query.project_id as string | undefined) || null;
+    const projectClause = projectId ? `AND te.task_id IN (SELECT t.id FROM tasks t WHERE ${TASK_PROJECT_ID_SQL} = ?)` : '';
+    const params = [start, end, ...filter.params, ...(projectId ? [projectId] : [])];
+
+    const total = db
+      .prepare(
+        `SELECT COUNT(*) as entries, ROUND(COALESCE(SUM(te.duration), 0) / 3600000.0, 2) as hours
+         FROM time_entries te
+         WHERE te.end_time IS NOT NULL
+           AND te.start_time >= ? AND te.start_time <= ?
+           ${DURATION_FILTER_SQL}
+           ${NOT_OVERLAP_EXCLUDED_SQL}
+           ${NOT_DELETED_SQL}
+           ${filter.clause}
+           ${projectClause}`
+      )
+      .get(...params) as { entries: number; hours: number };
+
+    const rows = db
+      .prepare(
+        `SELECT
+          tt.tag as tag,
+          COUNT(te.id) as entries,
+          ROUND(SUM(te.duration) / 3600000.0, 2) as hours
+         FROM time_entries te
+         LEFT JOIN time_entry_tags tt ON tt.entry_id = te.id
+         WHERE te.end_time IS NOT NULL
+           AND te.start_time >= ? AND te.start_time <= ?
+           ${DURATION_FILTER_SQL}
+           ${NOT_OVERLAP_EXCLUDED_SQL}
+           ${NOT_DELETED_SQL}
+           ${filter.clause}
+           ${projectClause}
+         GROUP BY tt.tag
+         ORDER BY hours DESC`
+      )
+      .all(...params) as Array<{ tag: string | null; entries: number; hours: number }>;
+
+    res.json({
+      period,
+      start,
+      end,
+      project_id: projectId,
+      total,
+      // tag === null = wpisy bez tagów
+      tags: rows.map((row) => ({
+        ...row,
+        share: total.hours > 0 ? Math.round((row.hours / total.hours) * 1000) / 10 : 0,
+      })),
+    });
+  } catch (error) {
+    res.status(400).json({ error: (error as Error).message });
+  }
+});
+
 earningsRouter.get('/unmapped', requireRole('admin'), (req: AuthenticatedRequest, res: Response) => {
   try {
     const { start, end, period } = resolveRange(req);
     const limit = Math.min(parseInt(req.query.limit as string) || 200, 1000);
     const offset = parseInt(req.query.offset as string) || 0;
+    const filter = buildEntryFilter(null, resolveTeamFilter(req), parseTagsParam(req.query.tags));
 
     const rows = db
       .prepare(
@@ -559,8 +746,16 @@ earningsRouter.get('/unmapped', requireRole('admin'), (req: AuthenticatedRequest
           t.list_name,
           t.space_name,
           t.folder_name,
+          t.project_field,
+          -- Reguła mapowania projektu: pole własne ClickUp ma pierwszeństwo przed listą
+          CASE
+            WHEN t.id IS NULL THEN NULL
+            WHEN t.project_field IS NOT NULL THEN 'field'
+            ELSE 'list'
+          END as mapping_rule,
           CASE
             WHEN t.id IS NULL THEN 'missing_task'
+            WHEN t.project_field IS NOT NULL AND np.clickup_id IS NULL THEN 'field_project_not_found'
             WHEN t.list_id IS NULL THEN 'missing_list_id'
             WHEN np.clickup_id IS NULL THEN 'missing_project'
             WHEN nw.clickup_user_id IS NULL THEN 'missing_worker'
@@ -568,34 +763,40 @@ earningsRouter.get('/unmapped', requireRole('admin'), (req: AuthenticatedRequest
           END as reason
          FROM time_entries te
          LEFT JOIN tasks t ON t.id = te.task_id
-         LEFT JOIN ${DEDUPED_PROJECTS} np ON np.clickup_id = t.list_id
-         LEFT JOIN ${DEDUPED_WORKERS} nw ON nw.clickup_user_id = te.user_id
+         LEFT JOIN ${DEDUPED_PROJECTS} np ON np.clickup_id = ${TASK_PROJECT_ID_SQL} ${PROJECT_PRICING_IN_EFFECT_SQL}
+         LEFT JOIN ${DEDUPED_WORKERS} nw ON nw.clickup_user_id = te.user_id ${WORKER_RATE_IN_EFFECT_SQL}
          WHERE te.end_time IS NOT NULL
            AND te.start_time >= ? AND te.start_time <= ?
            ${DURATION_FILTER_SQL}
+           ${NOT_OVERLAP_EXCLUDED_SQL}
+           ${NOT_DELETED_SQL}
+           ${filter.clause}
            AND (
-             t.id IS NULL OR t.list_id IS NULL OR np.clickup_id IS NULL OR nw.clickup_user_id IS NULL
+             t.id IS NULL OR np.clickup_id IS NULL OR nw.clickup_user_id IS NULL
            )
          ORDER BY te.end_time DESC
          LIMIT ? OFFSET ?`
       )
-      .all(start, end, limit, offset);
+      .all(start, end, ...filter.params, limit, offset);
 
     const total = db
       .prepare(
         `SELECT COUNT(*) as count
          FROM time_entries te
          LEFT JOIN tasks t ON t.id = te.task_id
-         LEFT JOIN ${DEDUPED_PROJECTS} np ON np.clickup_id = t.list_id
-         LEFT JOIN ${DEDUPED_WORKERS} nw ON nw.clickup_user_id = te.user_id
+         LEFT JOIN ${DEDUPED_PROJECTS} np ON np.clickup_id = ${TASK_PROJECT_ID_SQL} ${PROJECT_PRICING_IN_EFFECT_SQL}
+         LEFT JOIN ${DEDUPED_WORKERS} nw ON nw.clickup_user_id = te.user_id ${WORKER_RATE_IN_EFFECT_SQL}
          WHERE te.end_time IS NOT NULL
            AND te.start_time >= ? AND te.start_time <= ?
            ${DURATION_FILTER_SQL}
+           ${NOT_OVERLAP_EXCLUDED_SQL}
+           ${NOT_DELETED_SQL}
+           ${filter.clause}
            AND (
-             t.id IS NULL OR t.list_id IS NULL OR np.clickup_id IS NULL OR nw.clickup_user_id IS NULL
+             t.id IS NULL OR np.clickup_id IS NULL OR nw.clickup_user_id IS NULL
            )`
       )
-      .get(start, end) as { count: number };
+      .get(start, end, ...filter.params) as { count: number };
 
     res.json({ period, start, end, limit, offset, total: total.count, entries: rows });
   } catch (error) {
@@ -603,363 +804,37 @@ earningsRouter.get('/unmapped', requireRole('admin'), (req: AuthenticatedRequest
   }
 });
 
-earningsRouter.post('/backfill-tasks', requireRole('admin'), async (req: AuthenticatedRequest, res: Response) => {
-  try {
-    const limit = Math.min(parseInt(req.query.limit as string) || 50, 500);
-
-    const taskRows = db
-      .prepare(
-        `SELECT DISTINCT te.task_id as task_id
-         FROM time_entries te
-         LEFT JOIN tasks t ON t.id = te.task_id
-         WHERE t.id IS NULL OR t.list_id IS NULL
-         LIMIT ?`
-      )
-      .all(limit) as Array<{ task_id: string }>;
-
-    if (taskRows.length === 0) {
-      return res.json({ requested: 0, updated: 0, failed: 0, failed_task_ids: [] });
-    }
-
-    const failedTaskIds: string[] = [];
-    let updated = 0;
-
-    for (const row of taskRows) {
-      const task = await fetchClickUpTask(row.task_id);
-      if (!task) {
-        failedTaskIds.push(row.task_id);
-        continue;
-      }
-
-      upsertTask({
-        id: task.id,
-        name: task.name,
-        status: task.status,
-        list: task.list,
-        folder: task.folder,
-        space: task.space,
-        url: task.url,
-      });
-      updated += 1;
-    }
-
-    res.json({
-      requested: taskRows.length,
-      updated,
-      failed: failedTaskIds.length,
-      failed_task_ids: failedTaskIds,
-    });
-  } catch (error) {
-    res.status(500).json({
-      error: 'Błąd uzupełniania zadań z ClickUp',
-      details: error instanceof Error ? error.message : 'Nieznany błąd',
-    });
-  }
+earningsRouter.post('/backfill-tasks', requireRole('admin'), (req: AuthenticatedRequest, res: Response) => {
+  const limit = Math.min(parseInt(req.query.limit as string) || 50, 500);
+  const { job, created } = enqueueJob('backfill_tasks', { limit }, req.user?.userId);
+  res.status(202).json({
+    job,
+    message: created ? `Dodano zadanie #${job.id}` : `Zadanie #${job.id} już czeka lub trwa`,
+  });
 });
 
-earningsRouter.post('/import-time-entries', requireRole('admin'), async (req: AuthenticatedRequest, res: Response) => {
+// Import działa jako zadanie w tle (jobs) — postęp, anulowanie i wznowienie w /admin/jobs
+earningsRouter.post('/import-time-entries', requireRole('admin'), (req: AuthenticatedRequest, res: Response) => {
   try {
     const { start, end, label } = resolveImportRange(req);
-    const teamId = getClickUpTeamId();
     const limit = Math.min(parseInt(req.query.limit as string) || 100, 200);
     const assigneeParam = (req.query.assignee as string | undefined) || (req.query.assignees as string | undefined);
-
-    const startMs = start.getTime();
-    const endMs = end.getTime();
-
-    console.log(`\n📦 [IMPORT] Start importu time entries`);
-    console.log(`   Zakres: ${start.toISOString().split('T')[0]} → ${end.toISOString().split('T')[0]} (${label})`);
-    console.log(`   Team ID: ${teamId}, limit: ${limit}/stronę`);
-
-    const taskCache = new Map<string, Awaited<ReturnType<typeof fetchClickUpTask>>>();
-    let assigneeIds: string[] = [];
-
-    if (assigneeParam) {
-      assigneeIds = assigneeParam.split(',').map((id) => id.trim()).filter(Boolean);
-      console.log(`   Assignees (ręcznie): ${assigneeIds.join(', ')}`);
-    } else {
-      console.log(`   Pobieram listę członków zespołu...`);
-      const members = await fetchClickUpTeamMembers(teamId);
-      assigneeIds = members.map((member) => String(member.id));
-      console.log(`   Znaleziono ${members.length} członków: ${members.map(m => m.username).join(', ')}`);
-
-      // Zapisz wszystkich członków do tabeli users, żeby lista była pełna
-      for (const member of members) {
-        upsertUser({
-          id: String(member.id),
-          username: member.username,
-          email: member.email,
-          color: member.color,
-          profilePicture: member.profilePicture || undefined,
-        });
-      }
-    }
-
-    if (assigneeIds.length === 0) {
-      throw new Error('Brak assignee do importu. Sprawdź uprawnienia tokena.');
-    }
-
-    const insertEntry = db.prepare(`
-      INSERT INTO time_entries (
-        id, task_id, task_name, user_id, user_name, user_email,
-        start_time, end_time, duration, billable, description, task_url, list_name, folder_name, space_name
-      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
-      ON CONFLICT(id) DO UPDATE SET
-        task_id = excluded.task_id,
-        task_name = excluded.task_name,
-        user_id = excluded.user_id,
-        user_name = excluded.user_name,
-        user_email = excluded.user_email,
-        start_time = excluded.start_time,
-        end_time = excluded.end_time,
-        duration = excluded.duration,
-        billable = excluded.billable,
-        description = excluded.description,
-        task_url = excluded.task_url,
-        list_name = excluded.list_name,
-        folder_name = excluded.folder_name,
-        space_name = excluded.space_name
-    `);
-
-    const upsertEntries = db.transaction((items: Array<{
-      id: string;
-      task_id: string;
-      task_name: string;
-      user_id: string;
-      user_name: string;
-      user_email: string | null;
-      start_time: string | null;
-      end_time: string | null;
-      duration: number;
-      billable: number;
-      description: string | null;
-      task_url: string | null;
-      list_name: string | null;
-      folder_name: string | null;
-      space_name: string | null;
-    }>) => {
-      for (const item of items) {
-        insertEntry.run(
-          item.id,
-          item.task_id,
-          item.task_name,
-          item.user_id,
-          item.user_name,
-          item.user_email,
-          item.start_time,
-          item.end_time,
-          item.duration,
-          item.billable,
-          item.description,
-          item.task_url,
-          item.list_name,
-          item.folder_name,
-          item.space_name
-        );
-      }
+    const assignees = assigneeParam ? assigneeParam.split(',').map((id) => id.trim()).filter(Boolean) : undefined;
+    const teamId = resolveTeamFilter(req);
+
+    const { job, created } = enqueueJob(
+      'import_time_entries',
+      { start: start.toISOString(), end: end.toISOString(), label, limit, assignees, team_id: teamId },
+      req.user?.userId
+    );
+    res.status(202).json({
+      job,
+      message: created ? `Dodano zadanie #${job.id}` : `Import #${job.id} już czeka lub trwa`,
     });
-
-    // Streaming response — wysyłaj postęp jako NDJSON, żeby proxy nie zabił połączenia
-    res.setHeader('Content-Type', 'application/x-ndjson');
-    res.setHeader('Cache-Control', 'no-cache');
-    res.setHeader('X-Accel-Buffering', 'no'); // wyłącz buforowanie w nginx/caddy
-    res.flushHeaders();
-
-    const sendProgress = (data: Record<string, unknown>) => {
-      res.write(JSON.stringify(data) + '\n');
-    };
-
-    let totalFetched = 0;
-    let totalSaved = 0;
-    let skipped = 0;
-    let totalPages = 0;
-
-    let assigneeIndex = 0;
-    for (const assigneeId of assigneeIds) {
-      assigneeIndex++;
-      let page = 0;
-      let assigneeFetched = 0;
-      const seenIds = new Set<string>();
-      console.log(`\n   👤 [${assigneeIndex}/${assigneeIds.length}] Pobieram wpisy dla użytkownika ${assigneeId}...`);
-      sendProgress({ type: 'progress', user: assigneeIndex, totalUsers: assigneeIds.length, assigneeId });
-
-      while (true) {
-        const entries = await fetchClickUpTimeEntries({
-          teamId,
-          startMs,
-          endMs,
-          page,
-          limit,
-          assignee: assigneeId,
-          includeLocationNames: true,
-        });
-
-        if (entries.length === 0) {
-          if (page === 0) console.log(`      Brak wpisów`);
-          break;
-        }
-
-        // Wykrywanie duplikatów — ClickUp API potrafi zwracać te same wpisy w kółko
-        let duplicates = 0;
-        for (const entry of entries) {
-          const eid = entry.id ? String(entry.id) : null;
-          if (eid && seenIds.has(eid)) {
-            duplicates++;
-          } else if (eid) {
-            seenIds.add(eid);
-          }
-        }
-        if (duplicates > entries.length / 2) {
-          console.log(`      ⚠️ Strona ${page + 1}: ${duplicates}/${entries.length} duplikatów — przerywam paginację`);
-          break;
-        }
-
-        totalFetched += entries.length;
-        assigneeFetched += entries.length;
-        totalPages += 1;
-        console.log(`      Strona ${page + 1}: ${entries.length} wpisów (łącznie: ${assigneeFetched})`);
-
-        // Safety limit per user — zabezpieczenie przed nieskończoną paginacją API
-        if (assigneeFetched >= MAX_IMPORT_ENTRIES_PER_USER) {
-          console.log(`      ⚠️ Osiągnięto limit ${MAX_IMPORT_ENTRIES_PER_USER} wpisów dla użytkownika ${assigneeId} — przerywam`);
-          break;
-        }
-
-        const normalized: Array<{
-          id: string;
-          task_id: string;
-          task_name: string;
-          user_id: string;
-          user_name: string;
-          user_email: string | null;
-          start_time: string | null;
-          end_time: string | null;
-          duration: number;
-          billable: number;
-          description: string | null;
-          task_url: string | null;
-          list_name: string | null;
-          folder_name: string | null;
-          space_name: string | null;
-        }> = [];
-
-        for (const entry of entries) {
-          const entryId = entry.id ? String(entry.id) : null;
-          const taskId = entry.task?.id || entry.task_id;
-          const user = entry.user;
-          const userId = user?.id ?? entry.user_id;
-
-          if (!entryId || !taskId || !userId) {
-            skipped += 1;
-            continue;
-          }
-
-          const startValue = Number(entry.start ?? (entry as any).start_time);
-          const endValue = Number(entry.end ?? (entry as any).end_time);
-          const durationValue = Number(entry.duration ?? 0);
-
-          // Pomijaj wpisy z absurdalnie długim czasem (np. zostawiony timer na kilka dni)
-          if (durationValue > MAX_ENTRY_DURATION_MS) {
-            const hrs = Math.round(durationValue / 3600000);
-            console.log(`      ⚠️ Pomijam wpis ${entryId}: ${hrs}h (max ${MAX_ENTRY_DURATION_MS / 3600000}h)`);
-            skipped += 1;
-            continue;
-          }
-
-          const startIso = Number.isFinite(startValue) ? new Date(startValue).toISOString() : null;
-          const endIso = Number.isFinite(endValue) ? new Date(endValue).toISOString() : null;
-
-          const taskIdStr = String(taskId);
-          let taskDetails = taskCache.get(taskIdStr);
-          if (!taskDetails) {
-            taskDetails = await fetchClickUpTask(taskIdStr);
-            taskCache.set(taskIdStr, taskDetails);
-            if (taskDetails) {
-              upsertTask({
-                id: taskDetails.id,
-                name: taskDetails.name,
-                status: taskDetails.status,
-                list: taskDetails.list,
-                folder: taskDetails.folder,
-                space: taskDetails.space,
-                url: taskDetails.url,
-              });
-            }
-          }
-
-          if (user?.id) {
-            upsertUser({
-              id: String(user.id),
-              username: user.username,
-              email: user.email,
-              color: user.color,
-              profilePicture: user.profilePicture || undefined,
-            });
-          }
-
-          normalized.push({
-            id: entryId,
-            task_id: taskIdStr,
-            task_name: taskDetails?.name || entry.task?.name || `Zadanie ${taskIdStr}`,
-            user_id: String(userId),
-            user_name: user?.username || String(userId),
-            user_email: user?.email || null,
-            start_time: startIso,
-            end_time: endIso,
-            duration: Number.isFinite(durationValue) ? durationValue : 0,
-            billable: entry.billable ? 1 : 0,
-            description: entry.description || null,
-            task_url: taskDetails?.url || entry.task?.url || `https://app.clickup.com/t/${taskIdStr}`,
-            list_name: taskDetails?.list?.name || null,
-            folder_name: taskDetails?.folder?.name || null,
-            space_name: taskDetails?.space?.name || null,
-          });
-        }
-
-        upsertEntries(normalized);
-        totalSaved += normalized.length;
-
-        // Wysyłaj postęp co 10 stron
-        if (totalPages % 10 === 0) {
-          sendProgress({ type: 'progress', user: assigneeIndex, totalUsers: assigneeIds.length, fetched: totalFetched, saved: totalSaved });
-        }
-
-        if (entries.length < limit) {
-          break;
-        }
-        page += 1;
-      }
-    }
-
-    console.log(`\n✅ [IMPORT] Zakończono!`);
-    console.log(`   Pobrano: ${totalFetched} wpisów, Zapisano: ${totalSaved}, Pominięto: ${skipped}`);
-    console.log(`   Stron API: ${totalPages}, Członków: ${assigneeIds.length}, Tasków w cache: ${taskCache.size}\n`);
-
-    const result = {
-      type: 'done' as const,
-      range: label,
-      start: start.toISOString(),
-      end: end.toISOString(),
-      fetched: totalFetched,
-      saved: totalSaved,
-      skipped,
-      pages: totalPages,
-      assignees: assigneeIds.length,
-    };
-    sendProgress(result);
-    res.end();
   } catch (error) {
-    console.error(`\n❌ [IMPORT] Błąd:`, error instanceof Error ? error.message : error);
-    try {
-      const errPayload = {
-        type: 'error' as const,
-        error: 'Błąd importu historii time trackingu',
-        details: error instanceof Error ? error.message : 'Nieznany błąd',
-      };
-      res.write(JSON.stringify(errPayload) + '\n');
-      res.end();
-    } catch {
-      // response already ended
-    }
+    res.status(400).json({
+      error: 'Błąd importu historii time trackingu',
+      details: error instanceof Error ? error.message : 'Nieznany błąd',
+    });
   }
 });
@@ -0,0 +1,278 @@
+import { Router, Response } from 'express';
+import { requireAuth } from '../auth/middleware.js';
+import { db, getAppUserClickUpToken, getEntryMaxDuration, getTagsForEntries } from '../database.js';
+import { AuthenticatedRequest } from '../types/auth.js';
+import { getScope } from '../auth/scope.js';
+import {
+  createClickUpTimeEntry,
+  updateClickUpTimeEntry,
+  deleteClickUpTimeEntry,
+} from '../clickup.js';
+import { getDefaultTeamId, getWorkspaceToken } from '../clickup/workspaces.js';
+import { normalizeClickUpTimeEntry, upsertImportedTimeEntries } from '../clickup/sync.js';
+
+// Ręczne wpisy czasu (formularz "Dodaj czas" / edycja na stronie głównej) z zapisem do ClickUp.
+// Po udanym wywołaniu ClickUp wiersz w time_entries jest zapisywany od razu z local_edit_at;
+// echo webhooka (albo re-synchronizacja) nadpisuje go danymi z ClickUp i czyści znacznik.
+export const entriesRouter = Router();
+
+entriesRouter.use(requireAuth);
+
+type ScopeInfo = ReturnType<typeof getScope>;
+
+type EntryRow = {
+  id: string;
+  task_id: string;
+  user_id: string;
+  user_name: string;
+  user_email: string | null;
+  billable: number;
+  description: string | null;
+  team_id: string | null;
+  deleted_at: string | null;
+};
+
+type EntryBody = { startMs: number; durationMs: number; description: string | null; billable?: boolean };
+
+/**
+ * Token do zapisu wpisu danego członka ClickUp: własne wpisy — osobisty token (jak timer),
+ * cudze (admin / PM) — token workspace'u, który musi należeć do admina workspace'u w ClickUp.
+ */
+function resolveWriteToken(scope: ScopeInfo, entryUserId: string, teamId: string): { token: string } | { status: number; error: string } {
+  const isOwn = scope.clickupUserId && String(scope.clickupUserId) === entryUserId;
+  if (isOwn) {
+    const personal = getAppUserClickUpToken(scope.appUser.id);
+    if (personal && personal.clickup_user_id === entryUserId) {
+      return { token: personal.api_token };
+    }
+  }
+
+  if (scope.isAdmin || scope.isPm) {
+    const token = getWorkspaceToken(teamId);
+    return token ? { token } : { status: 500, error: 'Brak tokenu ClickUp dla workspace\'u' };
+  }
+
+  if (isOwn) {
+    return { status: 409, error: 'Zapisz osobisty token ClickUp w karcie "Mój timer ClickUp"' };
+  }
+  return { status: 403, error: 'Brak uprawnień do wpisów innych pracowników' };
+}
+
+// start (ISO), end (ISO), description, billable? — czas trwania liczony z zakresu
+function parseEntryBody(body: any): EntryBody | string {
+  const startMs = new Date(body?.start).getTime();
+  const endMs = new Date(body?.end).getTime();
+  if (!Number.isFinite(startMs) || !Number.isFinite(endMs)) {
+    return 'Wymagane start i end (ISO)';
+  }
+  const durationMs = endMs - startMs;
+  if (durationMs <= 0) {
+    return 'Koniec musi być po początku';
+  }
+  if (endMs > Date.now() + 60_000) {
+    return 'Wpis nie może kończyć się w przyszłości';
+  }
+  return {
+    startMs,
+    durationMs,
+    description: typeof body?.description === 'string' ? body.description.trim() || null : null,
+    billable: typeof body?.billable === 'boolean' ? body.billable : undefined,
+  };
+}
+
+// Wpis ponad limit (duration_policies) nie liczyłby się w statystykach — odrzucamy od razu
+function checkMaxDuration(input: EntryBody, entry: { id?: string; userId: string; taskId: string }): string | null {
+  const maxDuration = getEntryMaxDuration(entry);
+  return input.durationMs > maxDuration
+    ? `Wpis dłuższy niż ${maxDuration / 3600000}h — podziel go na kilka`
+    : null;
+}
+
+function getEntry(id: string): EntryRow | undefined {
+  return db
+    .prepare(
+      `SELECT id, task_id, user_id, user_name, user_email, billable, description, team_id, deleted_at
+       FROM time_entries WHERE id = ?`
+    )
+    .get(id) as EntryRow | undefined;
+}
+
+// Optymistyczny zapis: ten sam normalizer co import, potem znacznik "czeka na echo z ClickUp"
+async function storeLocalEntry(params: {
+  id: string;
+  teamId: string;
+  taskId: string;
+  user: { id: string; username: string; email: string | null };
+  input: EntryBody;
+  tags: string[];
+}) {
+  const item = await normalizeClickUpTimeEntry(
+    {
+      id: params.id,
+      task: { id: params.taskId },
+      user: { id: Number(params.user.id), username: params.user.username, email: params.user.email ?? undefined },
+      start: params.input.startMs,
+      end: params.input.startMs + params.input.durationMs,
+      duration: params.input.durationMs,
+      billable: params.input.billable,
+      description: params.input.description ?? undefined,
+      tags: params.tags.map((name) => ({ name })),
+    },
+    new Map(),
+    { team_id: params.teamId, api_token: getWorkspaceToken(params.teamId) }
+  );
+  if (!item) return;
+  upsertImportedTimeEntries([item]);
+  db.prepare('UPDATE time_entries SET local_edit_at = CURRENT_TIMESTAMP WHERE id = ?').run(params.id);
+}
+
+function clickUpError(res: Response, message: string, error: unknown) {
+  console.error(`❌ ${message}:`, error);
+  res.status(502).json({
+    error: message,
+    details: error instanceof Error ? error.message : 'Nieznany błąd',
+  });
+}
+
+// POST /api/entries { task_id, start, end, description?, billable?, user_id? } — user_id (inny niż własny) tylko admin / PM
+entriesRouter.post('/', async (req: AuthenticatedRequest, res: Response) => {
+  let scope: ScopeInfo;
+  try {
+    scope = getScope(req);
+  } catch (error) {
+    return res.status(400).json({ error: (error as Error).message });
+  }
+
+  const taskId = typeof req.body?.task_id === 'string' ? req.body.task_id.trim() : '';
+  if (!taskId) {
+    return res.status(400).json({ error: 'Wymagany task_id' });
+  }
+  const input = parseEntryBody(req.body);
+  if (typeof input === 'string') {
+    return res.status(400).json({ error: input });
+  }
+
+  const userId = req.body?.user_id ? String(req.body.user_id) : scope.clickupUserId ? String(scope.clickupUserId) : null;
+  if (!userId) {
+    return res.status(403).json({ error: 'Brak powiązania z pracownikiem (ClickUp)' });
+  }
+  const user = db.prepare('SELECT id, username, email, team_id FROM users WHERE id = ?').get(userId) as
+    | { id: string; username: string; email: string | null; team_id: string | null }
+    | undefined;
+  if (!user) {
+    return res.status(404).json({ error: 'Nieznany użytkownik ClickUp' });
+  }
+
+  const tooLong = checkMaxDuration(input, { userId, taskId });
+  if (tooLong) {
+    return res.status(400).json({ error: tooLong });
+  }
+
+  const task = db.prepare('SELECT team_id FROM tasks WHERE id = ?').get(taskId) as { team_id: string | null } | undefined;
+  const teamId = task?.team_id || user.team_id || getDefaultTeamId();
+  const auth = resolveWriteToken(scope, userId, teamId);
+  if ('error' in auth) {
+    return res.status(auth.status).json({ error: auth.error });
+  }
+
+  const isOwn = String(scope.clickupUserId) === userId;
+  try {
+    const created = await createClickUpTimeEntry(
+      teamId,
+      { taskId, ...input, assignee: isOwn ? undefined : userId },
+      auth.token
+    );
+    if (!created.id) {
+      throw new Error('ClickUp nie zwrócił ID wpisu');
+    }
+
+    const id = String(created.id);
+    await storeLocalEntry({ id, teamId, taskId, user, input, tags: [] });
+    console.log(`📝 [ENTRIES] ${scope.appUser.username}: nowy wpis ${id} (${user.username}, ${taskId})`);
+    res.status(201).json({ id, pending_sync: true });
+  } catch (error) {
+    clickUpError(res, 'Błąd tworzenia wpisu w ClickUp', error);
+  }
+});
+
+// PUT /api/entries/:id { start, end, description?, billable? }
+entriesRouter.put('/:id', async (req: AuthenticatedRequest, res: Response) => {
+  let scope: ScopeInfo;
+  try {
+    scope = getScope(req);
+  } catch (error) {
+    return res.status(400).json({ error: (error as Error).message });
+  }
+
+  const entry = getEntry(req.params.id as string);
+  if (!entry || entry.deleted_at) {
+    return res.status(404).json({ error: 'Wpis nie istnieje' });
+  }
+  const parsed = parseEntryBody(req.body);
+  if (typeof parsed === 'string') {
+    return res.status(400).json({ error: parsed });
+  }
+  const tooLong = checkMaxDuration(parsed, { id: entry.id, userId: entry.user_id, taskId: entry.task_id });
+  if (tooLong) {
+    return res.status(400).json({ error: tooLong });
+  }
+  // Pola pominięte w żądaniu zostają bez zmian
+  const input: EntryBody = {
+    ...parsed,
+    description: req.body?.description === undefined ? entry.description : parsed.description,
+    billable: parsed.billable ?? entry.billable === 1,
+  };
+
+  const teamId = entry.team_id || getDefaultTeamId();
+  const auth = resolveWriteToken(scope, entry.user_id, teamId);
+  if ('error' in auth) {
+    return res.status(auth.status).json({ error: auth.error });
+  }
+
+  try {
+    await updateClickUpTimeEntry(teamId, entry.id, { taskId: entry.task_id, ...input }, auth.token);
+    await storeLocalEntry({
+      id: entry.id,
+      teamId,
+      taskId: entry.task_id,
+      user: { id: entry.user_id, username: entry.user_name, email: entry.user_email },
+      input,
+      tags: getTagsForEntries([entry.id]).get(entry.id) ?? [],
+    });
+    console.log(`📝 [ENTRIES] ${scope.appUser.username}: edycja wpisu ${entry.id} (${entry.user_name})`);
+    res.json({ id: entry.id, pending_sync: true });
+  } catch (error) {
+    clickUpError(res, 'Błąd zapisu wpisu w ClickUp', error);
+  }
+});
+
+entriesRouter.delete('/:id', async (req: AuthenticatedRequest, res: Response) => {
+  let scope: ScopeInfo;
+  try {
+    scope = getScope(req);
+  } catch (error) {
+    return res.status(400).json({ error: (error as Error).message });
+  }
+
+  const entry = getEntry(req.params.id as string);
+  if (!entry || entry.deleted_at) {
+    return res.status(404).json({ error: 'Wpis nie istnieje' });
+  }
+
+  const teamId = entry.team_id || getDefaultTeamId();
+  const auth = resolveWriteToken(scope, entry.user_id, teamId);
+  if ('error' in auth) {
+    return res.status(auth.status).json({ error: auth.error });
+  }
+
+  try {
+    await deleteClickUpTimeEntry(teamId, entry.id, auth.token);
+    db.prepare(`
+      UPDATE time_entries SET deleted_at = datetime('now'), local_edit_at = CURRENT_TIMESTAMP WHERE id = ?
+    `).run(entry.id);
+    console.log(`🗑️ [ENTRIES] ${scope.appUser.username}: usunięto wpis ${entry.id} (${entry.user_name})`);
+    res.json({ id: entry.id, pending_sync: true });
+  } catch (error) {
+    clickUpError(res, 'Błąd usuwania wpisu w ClickUp', error);
+  }
+});
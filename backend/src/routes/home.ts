@@ -1,22 +1,146 @@
 import { Router, Response } from 'express';
 import { requireAuth } from '../auth/middleware.js';
-import { db } from '../database.js';
+import { db, getTasksWithAncestors } from '../database.js';
 import { AuthenticatedRequest } from '../types/auth.js';
 import { getScope, requireWorkerLink } from '../auth/scope.js';
-import { DURATION_FILTER_SQL } from '../constants.js';
+import {
+  DURATION_FILTER_SQL,
+  NOT_DELETED_SQL,
+  NOT_OVERLAP_EXCLUDED_SQL,
+  WORKER_RATE_IN_EFFECT_SQL,
+  buildTagFilterSQL,
+  parseTagsParam,
+  parseRollupParam,
+} from '../constants.js';
 
 export const homeRouter = Router();
 
 homeRouter.use(requireAuth);
 
+// Wersje stawek pracownika (worker_rates) z nazwą z Notion — join zawsze z WORKER_RATE_IN_EFFECT_SQL,
+// żeby wpis trafił na dokładnie jedną wersję (stawkę z chwili startu wpisu)
 const DEDUPED_WORKERS = `
   (SELECT
-     clickup_user_id,
-     MAX(hourly_rate) as hourly_rate,
-     MAX(name) as name
-   FROM notion_workers
-   WHERE clickup_user_id IS NOT NULL
-   GROUP BY clickup_user_id)`;
+     wr.clickup_user_id,
+     wr.hourly_rate,
+     wr.valid_from,
+     wr.valid_to,
+     (SELECT MAX(w.name) FROM notion_workers w WHERE w.clickup_user_id = wr.clickup_user_id) as name
+   FROM worker_rates wr)`;
+
+type TaskUser = { user_id: string; user_name: string; user_color: string | null; user_avatar: string | null };
+
+type SummaryTask = {
+  task_id: string;
+  task_name: string;
+  task_url: string | null;
+  list_name: string | null;
+  total_duration: number;
+  hours_worked: number;
+  entries_count: number;
+  first_start_time: string | null;
+  users: TaskUser[];
+};
+
+// Węzeł drzewa: total_* / entries_count / users obejmują subtaski, own_* tylko wpisy samego zadania
+type SummaryTaskNode = SummaryTask & {
+  parent_id: string | null;
+  own_duration: number;
+  own_hours: number;
+  own_entries_count: number;
+  children: SummaryTaskNode[];
+};
+
+// Zwija subtaski pod zadanie najwyższego poziomu. Przodkowie bez wpisów w okresie też są węzłami
+// (z zerowym czasem własnym), żeby drzewo odpowiadało strukturze w ClickUp.
+function buildTaskTree(tasks: SummaryTask[]): SummaryTaskNode[] {
+  const known = getTasksWithAncestors(tasks.map((t) => t.task_id));
+  const nodes = new Map<string, SummaryTaskNode>();
+
+  const makeNode = (task: SummaryTask, parentId: string | null): SummaryTaskNode => ({
+    ...task,
+    parent_id: parentId,
+    own_duration: task.total_duration,
+    own_hours: task.hours_worked,
+    own_entries_count: task.entries_count,
+    children: [],
+  });
+
+  for (const task of tasks) {
+    nodes.set(task.task_id, makeNode(task, known.get(task.task_id)?.parent_id ?? null));
+  }
+
+  // Dołóż przodków, których nie ma w wynikach (brak wpisów w okresie)
+  for (const task of tasks) {
+    let parentId = nodes.get(task.task_id)!.parent_id;
+    while (parentId && !nodes.has(parentId) && known.has(parentId)) {
+      const parent = known.get(parentId)!;
+      nodes.set(
+        parentId,
+        makeNode(
+          {
+            task_id: parent.id,
+            task_name: parent.name || `Zadanie ${parent.id}`,
+            task_url: parent.url || `https://app.clickup.com/t/${parent.id}`,
+            list_name: parent.list_name,
+            total_duration: 0,
+            hours_worked: 0,
+            entries_count: 0,
+            first_start_time: null,
+            users: [],
+          },
+          parent.parent_id
+        )
+      );
+      parentId = parent.parent_id;
+    }
+  }
+
+  const roots: SummaryTaskNode[] = [];
+  for (const node of nodes.values()) {
+    const parent = node.parent_id ? nodes.get(node.parent_id) : undefined;
+    if (parent && !isAncestor(node, parent, nodes)) {
+      parent.children.push(node);
+    } else {
+      roots.push(node);
+    }
+  }
+
+  const rollup = (node: SummaryTaskNode): SummaryTaskNode => {
+    for (const child of node.children) {
+      rollup(child);
+      node.total_duration += child.total_duration;
+      node.entries_count += child.entries_count;
+      if (child.first_start_time && (!node.first_start_time || child.first_start_time < node.first_start_time)) {
+        node.first_start_time = child.first_start_time;
+      }
+      for (const user of child.users) {
+        if (!node.users.some((u) => u.user_id === user.user_id)) {
+          node.users = [...node.users, user];
+        }
+      }
+    }
+    node.hours_worked = Math.round((node.total_duration / 3600000) * 100) / 100;
+    node.children.sort((a, b) => b.total_duration - a.total_duration);
+    return node;
+  };
+
+  // Pusty korzeń bez wpisów zostaje tylko przy cyklu parent_id — pomijamy
+  return roots
+    .map(rollup)
+    .filter((node) => node.entries_count > 0)
+    .sort((a, b) => b.total_duration - a.total_duration);
+}
+
+// Ochrona przed cyklem parent_id (węzeł nie może trafić pod własnego potomka)
+function isAncestor(node: SummaryTaskNode, candidate: SummaryTaskNode, nodes: Map<string, SummaryTaskNode>): boolean {
+  let current: SummaryTaskNode | undefined = candidate;
+  for (let depth = 0; current && depth <= nodes.size; depth += 1) {
+    if (current.task_id === node.task_id) return true;
+    current = current.parent_id ? nodes.get(current.parent_id) : undefined;
+  }
+  return false;
+}
 
 function getDateRange(period: string): { start: string; end: string; period: string } {
   const now = new Date();
@@ -102,8 +226,10 @@ homeRouter.get('/summary', (req: AuthenticatedRequest, res: Response) => {
       return res.status(403).json({ error: 'Brak powiązania z pracownikiem (ClickUp)' });
     }
 
-    const userClause = userFilter ? 'AND te.user_id = ?' : '';
-    const baseParams: (string | number)[] = userFilter ? [start, end, userFilter] : [start, end];
+    const tagFilter = buildTagFilterSQL(parseTagsParam(req.query.tags));
+    const rollup = parseRollupParam(req.query.rollup);
+    const userClause = `${userFilter ? 'AND te.user_id = ?' : ''} ${tagFilter.clause}`;
+    const baseParams: (string | number)[] = [start, end, ...(userFilter ? [userFilter] : []), ...tagFilter.params];
 
     // Totals
     const totalsRow = db
@@ -117,6 +243,8 @@ homeRouter.get('/summary', (req: AuthenticatedRequest, res: Response) => {
          WHERE te.end_time IS NOT NULL
            AND te.start_time >= ? AND te.start_time < ?
            ${DURATION_FILTER_SQL}
+           ${NOT_OVERLAP_EXCLUDED_SQL}
+           ${NOT_DELETED_SQL}
            ${userClause}`
       )
       .get(...baseParams) as {
@@ -126,35 +254,34 @@ homeRouter.get('/summary', (req: AuthenticatedRequest, res: Response) => {
       entries_count: number;
     };
 
-    // Earnings: for admin = sum of hours * worker_rate (cost), for user = hours * own_rate
-    let totalEarnings = 0;
-    let hourlyRate: number | null = null;
+    // Earnings: for admin = sum of hours * worker_rate (cost), for user = own hours * own rate.
+    // Stawka z chwili startu wpisu — podwyżka nie zmienia zarobków z poprzednich miesięcy.
+    // Godziny, liczniki i koszt pomijają zdublowane wpisy (overlap_exclusions) — jak w /api/earnings.
+    const earningsRow = db
+      .prepare(
+        `SELECT
+          ROUND(COALESCE(SUM((te.duration / 3600000.0) * nw.hourly_rate), 0), 2) as total_cost
+         FROM time_entries te
+         JOIN ${DEDUPED_WORKERS} nw ON nw.clickup_user_id = te.user_id ${WORKER_RATE_IN_EFFECT_SQL}
+         WHERE te.end_time IS NOT NULL
+           AND te.start_time >= ? AND te.start_time < ?
+           ${DURATION_FILTER_SQL}
+           ${NOT_OVERLAP_EXCLUDED_SQL}
+           ${NOT_DELETED_SQL}
+           ${userClause}`
+      )
+      .get(...baseParams) as { total_cost: number } | undefined;
+    const totalEarnings = earningsRow?.total_cost ?? 0;
 
-    if (isAdmin) {
-      // Admin: total cost = sum(hours * worker_rate) for all workers
-      const earningsRow = db
-        .prepare(
-          `SELECT
-            ROUND(COALESCE(SUM((te.duration / 3600000.0) * nw.hourly_rate), 0), 2) as total_cost
-           FROM time_entries te
-           JOIN ${DEDUPED_WORKERS} nw ON nw.clickup_user_id = te.user_id
-           WHERE te.end_time IS NOT NULL
-             AND te.start_time >= ? AND te.start_time < ?
-             ${DURATION_FILTER_SQL}`
-        )
-        .get(start, end) as { total_cost: number } | undefined;
-      totalEarnings = earningsRow?.total_cost ?? 0;
-    } else if (userFilter) {
-      // User: own rate * hours
+    // User: bieżąca stawka (do wyświetlenia)
+    let hourlyRate: number | null = null;
+    if (userFilter) {
       const workerRow = db
         .prepare(
-          `SELECT hourly_rate FROM ${DEDUPED_WORKERS} WHERE clickup_user_id = ?`
+          `SELECT hourly_rate FROM ${DEDUPED_WORKERS} WHERE clickup_user_id = ? AND valid_to IS NULL`
         )
         .get(userFilter) as { hourly_rate: number } | undefined;
       hourlyRate = workerRow?.hourly_rate ?? null;
-      if (hourlyRate) {
-        totalEarnings = Math.round(totalsRow.total_hours * hourlyRate * 100) / 100;
-      }
     }
 
     // Tasks grouped
@@ -164,15 +291,18 @@ homeRouter.get('/summary', (req: AuthenticatedRequest, res: Response) => {
           te.task_id,
           te.task_name,
           MAX(te.task_url) as task_url,
-          MAX(te.list_name) as list_name,
+          MAX(COALESCE(hl.name, te.list_name)) as list_name,
           COALESCE(SUM(te.duration), 0) as total_duration,
           ROUND(COALESCE(SUM(te.duration) / 3600000.0, 0), 2) as hours_worked,
           COUNT(te.id) as entries_count,
           MIN(te.start_time) as first_start_time
          FROM time_entries te
+         LEFT JOIN lists hl ON hl.id = te.list_id
          WHERE te.end_time IS NOT NULL
            AND te.start_time >= ? AND te.start_time < ?
            ${DURATION_FILTER_SQL}
+           ${NOT_OVERLAP_EXCLUDED_SQL}
+           ${NOT_DELETED_SQL}
            ${userClause}
          GROUP BY te.task_id
          ORDER BY total_duration DESC`
@@ -202,6 +332,8 @@ homeRouter.get('/summary', (req: AuthenticatedRequest, res: Response) => {
          WHERE te.end_time IS NOT NULL
            AND te.start_time >= ? AND te.start_time < ?
            ${DURATION_FILTER_SQL}
+           ${NOT_OVERLAP_EXCLUDED_SQL}
+           ${NOT_DELETED_SQL}
            ${userClause}
          GROUP BY te.task_id, te.user_id
          ORDER BY te.task_id, MIN(te.start_time) ASC`
@@ -215,7 +347,7 @@ homeRouter.get('/summary', (req: AuthenticatedRequest, res: Response) => {
     }>;
 
     // Group users by task_id
-    const usersByTask = new Map<string, Array<{ user_id: string; user_name: string; user_color: string | null; user_avatar: string | null }>>();
+    const usersByTask = new Map<string, TaskUser[]>();
     for (const row of taskUsers) {
       const list = usersByTask.get(row.task_id) || [];
       list.push({ user_id: row.user_id, user_name: row.user_name, user_color: row.user_color, user_avatar: row.user_avatar });
@@ -223,7 +355,7 @@ homeRouter.get('/summary', (req: AuthenticatedRequest, res: Response) => {
     }
 
     // Ensure task_url fallback + attach users
-    const tasksWithUrls = tasks.map((t) => ({
+    const tasksWithUrls: SummaryTask[] = tasks.map((t) => ({
       ...t,
       task_url: t.task_url || (t.task_id ? `https://app.clickup.com/t/${t.task_id}` : null),
       users: usersByTask.get(t.task_id) || [],
@@ -233,6 +365,8 @@ homeRouter.get('/summary', (req: AuthenticatedRequest, res: Response) => {
       period,
       start,
       end,
+      tags: tagFilter.params,
+      rollup,
       totals: {
         total_hours: totalsRow.total_hours,
         total_duration: totalsRow.total_duration,
@@ -241,7 +375,8 @@ homeRouter.get('/summary', (req: AuthenticatedRequest, res: Response) => {
         tasks_count: totalsRow.tasks_count,
         entries_count: totalsRow.entries_count,
       },
-      tasks: tasksWithUrls,
+      // ?rollup=1 — drzewo: zadania najwyższego poziomu z subtaskami w children
+      tasks: rollup ? buildTaskTree(tasksWithUrls) : tasksWithUrls,
     });
   } catch (error) {
     res.status(400).json({ error: (error as Error).message });
@@ -280,13 +415,16 @@ homeRouter.get('/task-entries', (req: AuthenticatedRequest, res: Response) => {
           te.user_id,
           te.user_name,
           u.color as user_color,
-          u.profile_picture as user_avatar
+          u.profile_picture as user_avatar,
+          CASE WHEN te.local_edit_at IS NOT NULL THEN 1 ELSE 0 END as pending_sync
          FROM time_entries te
          LEFT JOIN users u ON te.user_id = u.id
          WHERE te.task_id = ?
            AND te.end_time IS NOT NULL
            AND te.start_time >= ? AND te.start_time < ?
            ${DURATION_FILTER_SQL}
+           ${NOT_OVERLAP_EXCLUDED_SQL}
+           ${NOT_DELETED_SQL}
            ${userClause}
          ORDER BY te.start_time ASC`
       )
@@ -300,6 +438,7 @@ homeRouter.get('/task-entries', (req: AuthenticatedRequest, res: Response) => {
       user_name: string;
       user_color: string | null;
       user_avatar: string | null;
+      pending_sync: number;
     }>;
 
     res.json({ task_id: taskId, entries });
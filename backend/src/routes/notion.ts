@@ -1,7 +1,7 @@
 import { Router, Response } from 'express';
 import { requireAuth, requireRole } from '../auth/middleware.js';
-import { db } from '../database.js';
-import { syncWorkers, syncProjects } from '../notion/sync.js';
+import { db, getWorkerRates } from '../database.js';
+import { enqueueJob } from '../jobs/queue.js';
 import { AuthenticatedRequest } from '../types/auth.js';
 
 export const notionRouter = Router();
@@ -9,30 +9,21 @@ export const notionRouter = Router();
 // Wszystkie endpointy Notion są tylko dla admina
 notionRouter.use(requireAuth, requireRole('admin'));
 
-notionRouter.post('/sync/workers', async (req: AuthenticatedRequest, res: Response) => {
-  try {
-    const result = await syncWorkers();
-    res.json(result);
-  } catch (error) {
-    console.error('Notion sync workers error:', error);
-    res.status(500).json({
-      error: 'Błąd synchronizacji pracowników',
-      details: error instanceof Error ? error.message : 'Nieznany błąd',
-    });
-  }
+// Synchronizacje działają jako zadania w tle (jobs) — status w /admin/jobs/:id
+notionRouter.post('/sync/workers', (req: AuthenticatedRequest, res: Response) => {
+  const { job, created } = enqueueJob('notion_sync_workers', {}, req.user?.userId);
+  res.status(202).json({
+    job,
+    message: created ? `Dodano zadanie #${job.id}` : `Zadanie #${job.id} już czeka lub trwa`,
+  });
 });
 
-notionRouter.post('/sync/projects', async (req: AuthenticatedRequest, res: Response) => {
-  try {
-    const result = await syncProjects();
-    res.json(result);
-  } catch (error) {
-    console.error('Notion sync projects error:', error);
-    res.status(500).json({
-      error: 'Błąd synchronizacji projektów',
-      details: error instanceof Error ? error.message : 'Nieznany błąd',
-    });
-  }
+notionRouter.post('/sync/projects', (req: AuthenticatedRequest, res: Response) => {
+  const { job, created } = enqueueJob('notion_sync_projects', {}, req.user?.userId);
+  res.status(202).json({
+    job,
+    message: created ? `Dodano zadanie #${job.id}` : `Zadanie #${job.id} już czeka lub trwa`,
+  });
 });
 
 notionRouter.get('/workers', (req: AuthenticatedRequest, res: Response) => {
@@ -40,6 +31,12 @@ notionRouter.get('/workers', (req: AuthenticatedRequest, res: Response) => {
   res.json(workers);
 });
 
+// Historia stawek (?clickup_user_id= — jeden pracownik); valid_to null = stawka bieżąca
+notionRouter.get('/worker-rates', (req: AuthenticatedRequest, res: Response) => {
+  const clickupUserId = req.query.clickup_user_id as string | undefined;
+  res.json(getWorkerRates(clickupUserId || undefined));
+});
+
 notionRouter.get('/projects', (req: AuthenticatedRequest, res: Response) => {
   const projects = db.prepare(`SELECT * FROM notion_projects ORDER BY name`).all();
   res.json(projects);
@@ -0,0 +1,260 @@
+import { Router, Response } from 'express';
+import { requireAuth } from '../auth/middleware.js';
+import { db } from '../database.js';
+import { getConfig } from '../config.js';
+import { AuthenticatedRequest } from '../types/auth.js';
+import { getScope, requireWorkerLink } from '../auth/scope.js';
+import { parseTeamIdFilter } from '../clickup/workspaces.js';
+import { DURATION_FILTER_SQL, NOT_DELETED_SQL, buildHierarchyFilterSQL } from '../constants.js';
+
+export const tasksRouter = Router();
+
+tasksRouter.use(requireAuth);
+
+// Progi przekroczenia estymaty w % ponad estymatę (nadpisywalne w panelu admina)
+const DEFAULT_OVERRUN_WARNING_PCT = 10;
+const DEFAULT_OVERRUN_CRITICAL_PCT = 50;
+const DEFAULT_ESTIMATES_DAYS = 90;
+
+type EstimateStatus = 'no_estimate' | 'ok' | 'warning' | 'critical';
+type EstimatesGroup = 'task' | 'list' | 'assignee';
+
+type TaskEstimateRow = {
+  task_id: string;
+  task_name: string | null;
+  task_url: string | null;
+  status: string | null;
+  list_id: string | null;
+  list_name: string | null;
+  time_estimate: number | null;
+  due_date: string | null;
+  assignees: string | null;
+  parent_id: string | null;
+  tracked_ms: number;
+  entries_count: number;
+};
+
+function getNumberConfig(key: string, fallback: number): number {
+  const value = parseInt(getConfig(key, String(fallback))!, 10);
+  return Number.isFinite(value) && value >= 0 ? value : fallback;
+}
+
+function parseAssignees(value: string | null): Array<{ id: string; username: string }> {
+  if (!value) return [];
+  try {
+    const parsed = JSON.parse(value);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+// Przekroczenie w % ponad estymatę (ujemne = w budżecie); null bez estymaty
+function overrunPct(trackedMs: number, estimateMs: number | null): number | null {
+  if (!estimateMs) return null;
+  return Math.round(((trackedMs - estimateMs) / estimateMs) * 1000) / 10;
+}
+
+function estimateStatus(overrun: number | null, thresholds: { warning: number; critical: number }): EstimateStatus {
+  if (overrun === null) return 'no_estimate';
+  if (overrun > thresholds.critical) return 'critical';
+  if (overrun > thresholds.warning) return 'warning';
+  return 'ok';
+}
+
+// Grupa (lista / osoba): estymata i czas tylko z tasków z estymatą, żeby procent był porównywalny
+type GroupAccumulator = {
+  key: string;
+  name: string;
+  estimate_ms: number;
+  tracked_estimated_ms: number;
+  tracked_ms: number;
+  tasks_count: number;
+  estimated_tasks: number;
+  warning_tasks: number;
+  critical_tasks: number;
+};
+
+function addToGroup(
+  groups: Map<string, GroupAccumulator>,
+  key: string,
+  name: string,
+  task: { time_estimate: number | null; tracked_ms: number; estimate_status: EstimateStatus }
+) {
+  const group = groups.get(key) || {
+    key,
+    name,
+    estimate_ms: 0,
+    tracked_estimated_ms: 0,
+    tracked_ms: 0,
+    tasks_count: 0,
+    estimated_tasks: 0,
+    warning_tasks: 0,
+    critical_tasks: 0,
+  };
+  group.tasks_count += 1;
+  group.tracked_ms += task.tracked_ms;
+  if (task.time_estimate) {
+    group.estimated_tasks += 1;
+    group.estimate_ms += task.time_estimate;
+    group.tracked_estimated_ms += task.tracked_ms;
+  }
+  if (task.estimate_status === 'warning') group.warning_tasks += 1;
+  if (task.estimate_status === 'critical') group.critical_tasks += 1;
+  groups.set(key, group);
+}
+
+// GET /api/tasks/estimates — estymaty zadań vs czas zalogowany w time_entries.
+// ?group=task|list|assignee, ?days= (zadania z aktywnością w ostatnich N dniach, 0 = wszystkie),
+// ?only=over (tylko powyżej progu ostrzeżenia), ?team_id=, ?space_id= / ?folder_id= / ?list_id=.
+// Czas zalogowany to całość na zadaniu (estymata dotyczy całego zadania, nie okresu).
+tasksRouter.get('/estimates', (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const scope = getScope(req);
+    const group = ((req.query.group as string) || 'task') as EstimatesGroup;
+    if (!['task', 'list', 'assignee'].includes(group)) {
+      return res.status(400).json({ error: 'Nieprawidłowy group (task, list, assignee)' });
+    }
+    const teamId = parseTeamIdFilter(req.query.team_id);
+    if (teamId === null) {
+      return res.status(400).json({ error: 'Nieznany workspace' });
+    }
+    const daysParam = req.query.days !== undefined ? parseInt(req.query.days as string, 10) : DEFAULT_ESTIMATES_DAYS;
+    if (!Number.isFinite(daysParam) || daysParam < 0) {
+      return res.status(400).json({ error: 'Nieprawidłowy days' });
+    }
+
+    // Pracownik widzi zadania, na których logował czas (łącznie z czasem innych osób)
+    const userFilter = scope.isAdmin || scope.isPm ? null : requireWorkerLink(scope.appUser);
+    if (!scope.isAdmin && !scope.isPm && !userFilter) {
+      return res.status(403).json({ error: 'Brak powiązania z pracownikiem (ClickUp)' });
+    }
+
+    const thresholds = {
+      warning: getNumberConfig('ESTIMATE_OVERRUN_WARNING_PCT', DEFAULT_OVERRUN_WARNING_PCT),
+      critical: getNumberConfig('ESTIMATE_OVERRUN_CRITICAL_PCT', DEFAULT_OVERRUN_CRITICAL_PCT),
+    };
+
+    const hierarchyFilter = buildHierarchyFilterSQL(req.query);
+    const activeClauses = [hierarchyFilter.clause];
+    const activeParams: string[] = [...hierarchyFilter.params];
+    if (daysParam > 0) {
+      activeClauses.push('AND te.start_time >= ?');
+      activeParams.push(new Date(Date.now() - daysParam * 24 * 60 * 60 * 1000).toISOString());
+    }
+    if (teamId) {
+      activeClauses.push('AND te.team_id = ?');
+      activeParams.push(teamId);
+    }
+    if (userFilter) {
+      activeClauses.push('AND te.user_id = ?');
+      activeParams.push(userFilter);
+    }
+
+    const rows = db
+      .prepare(
+        `WITH active AS (
+           SELECT DISTINCT te.task_id
+           FROM time_entries te
+           WHERE te.end_time IS NOT NULL
+             ${DURATION_FILTER_SQL}
+             ${NOT_DELETED_SQL}
+             ${activeClauses.join(' ')}
+         ),
+         tracked AS (
+           SELECT te.task_id, SUM(te.duration) as tracked_ms, COUNT(te.id) as entries_count
+           FROM time_entries te
+           WHERE te.task_id IN (SELECT task_id FROM active)
+             AND te.end_time IS NOT NULL
+             ${DURATION_FILTER_SQL}
+             ${NOT_DELETED_SQL}
+           GROUP BY te.task_id
+         )
+         SELECT
+           tr.task_id,
+           t.name as task_name,
+           t.url as task_url,
+           t.status,
+           t.list_id,
+           COALESCE(l.name, t.list_name) as list_name,
+           t.time_estimate,
+           t.due_date,
+           t.assignees,
+           t.parent_id,
+           tr.tracked_ms,
+           tr.entries_count
+         FROM tracked tr
+         JOIN tasks t ON t.id = tr.task_id
+         LEFT JOIN lists l ON l.id = t.list_id
+         WHERE t.deleted_at IS NULL`
+      )
+      .all(...activeParams) as TaskEstimateRow[];
+
+    const tasks = rows
+      .map((row) => {
+        const overrun = overrunPct(row.tracked_ms, row.time_estimate);
+        return {
+          task_id: row.task_id,
+          task_name: row.task_name,
+          task_url: row.task_url || `https://app.clickup.com/t/${row.task_id}`,
+          status: row.status,
+          list_id: row.list_id,
+          list_name: row.list_name,
+          parent_id: row.parent_id,
+          due_date: row.due_date,
+          assignees: parseAssignees(row.assignees),
+          time_estimate: row.time_estimate,
+          tracked_ms: row.tracked_ms,
+          entries_count: row.entries_count,
+          overrun_ms: row.time_estimate ? row.tracked_ms - row.time_estimate : null,
+          overrun_pct: overrun,
+          estimate_status: estimateStatus(overrun, thresholds),
+        };
+      })
+      .sort((a, b) => (b.overrun_pct ?? -Infinity) - (a.overrun_pct ?? -Infinity) || b.tracked_ms - a.tracked_ms);
+
+    const onlyOver = req.query.only === 'over';
+    const totals = {
+      tasks: tasks.length,
+      estimated_tasks: tasks.filter((t) => t.time_estimate).length,
+      warning_tasks: tasks.filter((t) => t.estimate_status === 'warning').length,
+      critical_tasks: tasks.filter((t) => t.estimate_status === 'critical').length,
+    };
+
+    if (group === 'task') {
+      return res.json({
+        group,
+        days: daysParam,
+        thresholds,
+        totals,
+        rows: onlyOver ? tasks.filter((t) => t.estimate_status === 'warning' || t.estimate_status === 'critical') : tasks,
+      });
+    }
+
+    // Zadanie przypisane kilku osobom liczy się u każdej z nich (pełna estymata i czas)
+    const groups = new Map<string, GroupAccumulator>();
+    for (const task of tasks) {
+      if (group === 'list') {
+        addToGroup(groups, task.list_id || '', task.list_name || 'Bez listy', task);
+      } else if (task.assignees.length === 0) {
+        addToGroup(groups, '', 'Nieprzypisane', task);
+      } else {
+        for (const assignee of task.assignees) {
+          addToGroup(groups, assignee.id, assignee.username, task);
+        }
+      }
+    }
+
+    const groupRows = [...groups.values()]
+      .map((g) => {
+        const overrun = overrunPct(g.tracked_estimated_ms, g.estimate_ms || null);
+        return { ...g, overrun_pct: overrun, estimate_status: estimateStatus(overrun, thresholds) };
+      })
+      .filter((g) => !onlyOver || g.warning_tasks > 0 || g.critical_tasks > 0)
+      .sort((a, b) => (b.overrun_pct ?? -Infinity) - (a.overrun_pct ?? -Infinity) || b.tracked_ms - a.tracked_ms);
+
+    res.json({ group, days: daysParam, thresholds, totals, rows: groupRows });
+  } catch (error) {
+    res.status(400).json({ error: (error as Error).message });
+  }
+});
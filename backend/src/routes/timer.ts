@@ -0,0 +1,304 @@
+import { Router, Response } from 'express';
+import { requireAuth } from '../auth/middleware.js';
+import {
+  db,
+  getAppUserClickUpToken,
+  setAppUserClickUpToken,
+  deleteAppUserClickUpToken,
+  AppUserClickUpTokenRow,
+} from '../database.js';
+import { AuthenticatedRequest, AppUser } from '../types/auth.js';
+import { getScope } from '../auth/scope.js';
+import {
+  ClickUpTimeEntry,
+  fetchClickUpAuthorizedUser,
+  fetchClickUpCurrentTimer,
+  startClickUpTimer,
+  stopClickUpTimer,
+} from '../clickup.js';
+import { getDefaultTeamId, getWorkspace } from '../clickup/workspaces.js';
+import { NOT_DELETED_SQL } from '../constants.js';
+
+// Start / stop / przełączanie timera ClickUp z dashboardu.
+// Każde wywołanie idzie osobistym tokenem użytkownika; lokalny stan (time_entries, aktywne sesje)
+// aktualizuje webhook albo poller — tak samo jak przy timerze uruchomionym w ClickUp.
+export const timerRouter = Router();
+
+timerRouter.use(requireAuth);
+
+const RECENT_TASKS_LIMIT = 15;
+
+type TimerLink = { appUser: AppUser; token: AppUserClickUpTokenRow };
+
+// Timer wymaga powiązania z ClickUp i osobistego tokenu tego samego użytkownika ClickUp
+function resolveTimerLink(req: AuthenticatedRequest, res: Response): TimerLink | null {
+  const { appUser } = getScope(req);
+  if (!appUser.clickup_user_id) {
+    res.status(403).json({ error: 'Brak powiązania z pracownikiem (ClickUp)' });
+    return null;
+  }
+
+  const token = getAppUserClickUpToken(appUser.id);
+  if (!token) {
+    res.status(409).json({ error: 'Brak osobistego tokenu ClickUp', code: 'token_missing' });
+    return null;
+  }
+  if (token.clickup_user_id !== String(appUser.clickup_user_id)) {
+    // Powiązanie zmienione przez admina po zapisaniu tokenu — token należy do kogoś innego
+    res.status(409).json({ error: 'Token ClickUp należy do innego użytkownika — zapisz go ponownie', code: 'token_mismatch' });
+    return null;
+  }
+
+  return { appUser, token };
+}
+
+// Workspace timera: jawny team_id → workspace zadania → workspace użytkownika → domyślny
+function resolveTeamId(clickupUserId: string, explicitTeamId?: unknown, taskId?: string): string {
+  if (typeof explicitTeamId === 'string' && explicitTeamId && getWorkspace(explicitTeamId)) {
+    return explicitTeamId;
+  }
+  if (taskId) {
+    const task = db.prepare('SELECT team_id FROM tasks WHERE id = ?').get(taskId) as
+      | { team_id: string | null }
+      | undefined;
+    if (task?.team_id) return task.team_id;
+  }
+  const user = db.prepare('SELECT team_id FROM users WHERE id = ?').get(clickupUserId) as
+    | { team_id: string | null }
+    | undefined;
+  return user?.team_id || getDefaultTeamId();
+}
+
+function toTimerView(entry: ClickUpTimeEntry | null, teamId: string) {
+  if (!entry?.id) return null;
+  const taskId = entry.task?.id || entry.task_id || null;
+  const start = Number(entry.start);
+  return {
+    id: String(entry.id),
+    team_id: teamId,
+    task_id: taskId,
+    task_name: entry.task?.name || null,
+    task_url: entry.task?.url || (taskId ? `https://app.clickup.com/t/${taskId}` : null),
+    start_time: Number.isFinite(start) ? new Date(start).toISOString() : null,
+  };
+}
+
+function clickUpError(res: Response, message: string, error: unknown) {
+  console.error(`❌ ${message}:`, error);
+  res.status(502).json({
+    error: message,
+    details: error instanceof Error ? error.message : 'Nieznany błąd',
+  });
+}
+
+// Stan tokenu (bez samego tokenu)
+timerRouter.get('/token', (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { appUser } = getScope(req);
+    const token = getAppUserClickUpToken(appUser.id);
+    res.json({
+      linked: Boolean(appUser.clickup_user_id),
+      configured: Boolean(token),
+      matches: token ? token.clickup_user_id === String(appUser.clickup_user_id) : false,
+      clickup_username: token?.clickup_username ?? null,
+      updated_at: token?.updated_at ?? null,
+    });
+  } catch (error) {
+    res.status(400).json({ error: (error as Error).message });
+  }
+});
+
+// Zapis osobistego tokenu — weryfikowany przez /user, musi należeć do powiązanego użytkownika ClickUp
+timerRouter.put('/token', async (req: AuthenticatedRequest, res: Response) => {
+  let appUser: AppUser;
+  try {
+    appUser = getScope(req).appUser;
+  } catch (error) {
+    return res.status(400).json({ error: (error as Error).message });
+  }
+
+  if (!appUser.clickup_user_id) {
+    return res.status(403).json({ error: 'Brak powiązania z pracownikiem (ClickUp)' });
+  }
+
+  const apiToken = typeof req.body?.api_token === 'string' ? req.body.api_token.trim() : '';
+  if (!apiToken) {
+    return res.status(400).json({ error: 'Wymagany api_token' });
+  }
+
+  let owner;
+  try {
+    owner = await fetchClickUpAuthorizedUser(apiToken);
+  } catch (error) {
+    return res.status(400).json({
+      error: 'ClickUp odrzucił token',
+      details: error instanceof Error ? error.message : 'Nieznany błąd',
+    });
+  }
+
+  if (owner.id !== String(appUser.clickup_user_id)) {
+    return res.status(400).json({
+      error: `Token należy do użytkownika ClickUp ${owner.username} (${owner.id}), a konto jest powiązane z ${appUser.clickup_user_id}`,
+    });
+  }
+
+  setAppUserClickUpToken(appUser.id, {
+    apiToken,
+    clickupUserId: owner.id,
+    clickupUsername: owner.username,
+  });
+  res.json({ success: true, clickup_username: owner.username });
+});
+
+timerRouter.delete('/token', (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { appUser } = getScope(req);
+    res.json({ success: deleteAppUserClickUpToken(appUser.id) });
+  } catch (error) {
+    res.status(400).json({ error: (error as Error).message });
+  }
+});
+
+timerRouter.get('/current', async (req: AuthenticatedRequest, res: Response) => {
+  const link = resolveTimerLink(req, res);
+  if (!link) return;
+
+  const teamId = resolveTeamId(link.token.clickup_user_id, req.query.team_id);
+  try {
+    const entry = await fetchClickUpCurrentTimer(teamId, link.token.api_token);
+    res.json({ timer: toTimerView(entry, teamId) });
+  } catch (error) {
+    clickUpError(res, 'Błąd pobierania timera z ClickUp', error);
+  }
+});
+
+timerRouter.post('/start', async (req: AuthenticatedRequest, res: Response) => {
+  const link = resolveTimerLink(req, res);
+  if (!link) return;
+
+  const taskId = typeof req.body?.task_id === 'string' ? req.body.task_id.trim() : '';
+  if (!taskId) {
+    return res.status(400).json({ error: 'Wymagany task_id' });
+  }
+
+  const teamId = resolveTeamId(link.token.clickup_user_id, req.body?.team_id, taskId);
+  try {
+    // ClickUp sam zatrzymuje poprzedni timer przy starcie — tu odmawiamy, żeby nie przełączyć po cichu
+    const current = await fetchClickUpCurrentTimer(teamId, link.token.api_token);
+    if (current?.id) {
+      return res.status(409).json({
+        error: 'Timer już działa — zatrzymaj go albo przełącz zadanie',
+        timer: toTimerView(current, teamId),
+      });
+    }
+
+    const started = await startClickUpTimer(teamId, taskId, link.token.api_token);
+    console.log(`⏱️ [TIMER] ${link.appUser.username}: start ${taskId} (team ${teamId})`);
+    res.json({ timer: toTimerView(started, teamId) });
+  } catch (error) {
+    clickUpError(res, 'Błąd uruchamiania timera w ClickUp', error);
+  }
+});
+
+timerRouter.post('/stop', async (req: AuthenticatedRequest, res: Response) => {
+  const link = resolveTimerLink(req, res);
+  if (!link) return;
+
+  const teamId = resolveTeamId(link.token.clickup_user_id, req.body?.team_id);
+  try {
+    const current = await fetchClickUpCurrentTimer(teamId, link.token.api_token);
+    if (!current?.id) {
+      return res.status(409).json({ error: 'Żaden timer nie działa' });
+    }
+
+    const stopped = await stopClickUpTimer(teamId, link.token.api_token);
+    console.log(`⏱️ [TIMER] ${link.appUser.username}: stop ${current.id} (team ${teamId})`);
+    res.json({ stopped: toTimerView(stopped ?? current, teamId) });
+  } catch (error) {
+    clickUpError(res, 'Błąd zatrzymywania timera w ClickUp', error);
+  }
+});
+
+// Przełączenie zadania: stop bieżącego (jeśli jest) i start nowego
+timerRouter.post('/switch', async (req: AuthenticatedRequest, res: Response) => {
+  const link = resolveTimerLink(req, res);
+  if (!link) return;
+
+  const taskId = typeof req.body?.task_id === 'string' ? req.body.task_id.trim() : '';
+  if (!taskId) {
+    return res.status(400).json({ error: 'Wymagany task_id' });
+  }
+
+  const teamId = resolveTeamId(link.token.clickup_user_id, req.body?.team_id, taskId);
+  try {
+    const current = await fetchClickUpCurrentTimer(teamId, link.token.api_token);
+    const currentTaskId = current?.task?.id || current?.task_id;
+    if (current?.id && currentTaskId === taskId) {
+      return res.json({ stopped: null, timer: toTimerView(current, teamId) });
+    }
+
+    const stopped = current?.id ? await stopClickUpTimer(teamId, link.token.api_token) : null;
+    const started = await startClickUpTimer(teamId, taskId, link.token.api_token);
+    console.log(`⏱️ [TIMER] ${link.appUser.username}: przełączenie ${currentTaskId || '—'} → ${taskId} (team ${teamId})`);
+    res.json({
+      stopped: current?.id ? toTimerView(stopped ?? current, teamId) : null,
+      timer: toTimerView(started, teamId),
+    });
+  } catch (error) {
+    clickUpError(res, 'Błąd przełączania timera w ClickUp', error);
+  }
+});
+
+// Zadania do wyboru: ostatnio trackowane przez użytkownika, albo wyszukiwanie po nazwie (q)
+timerRouter.get('/recent-tasks', (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { clickupUserId } = getScope(req);
+    if (!clickupUserId) {
+      return res.status(403).json({ error: 'Brak powiązania z pracownikiem (ClickUp)' });
+    }
+
+    const q = typeof req.query.q === 'string' ? req.query.q.trim() : '';
+    if (q) {
+      const tasks = db
+        .prepare(
+          `SELECT
+            t.id as task_id,
+            t.name as task_name,
+            t.url as task_url,
+            t.list_name,
+            (SELECT MAX(te.start_time) FROM time_entries te
+             WHERE te.task_id = t.id AND te.user_id = ? ${NOT_DELETED_SQL}) as last_tracked_at
+           FROM tasks t
+           WHERE t.deleted_at IS NULL
+             AND (t.name LIKE ? OR t.id = ?)
+           ORDER BY last_tracked_at IS NULL, last_tracked_at DESC, t.updated_at DESC
+           LIMIT ?`
+        )
+        .all(clickupUserId, `%${q}%`, q, RECENT_TASKS_LIMIT);
+      return res.json({ tasks });
+    }
+
+    const tasks = db
+      .prepare(
+        `SELECT
+          te.task_id,
+          COALESCE(t.name, MAX(te.task_name)) as task_name,
+          COALESCE(t.url, MAX(te.task_url)) as task_url,
+          t.list_name,
+          MAX(te.start_time) as last_tracked_at
+         FROM time_entries te
+         LEFT JOIN tasks t ON te.task_id = t.id
+         WHERE te.user_id = ?
+           AND te.task_id IS NOT NULL
+           ${NOT_DELETED_SQL}
+           AND (t.id IS NULL OR t.deleted_at IS NULL)
+         GROUP BY te.task_id
+         ORDER BY last_tracked_at DESC
+         LIMIT ?`
+      )
+      .all(clickupUserId, RECENT_TASKS_LIMIT);
+    res.json({ tasks });
+  } catch (error) {
+    res.status(400).json({ error: (error as Error).message });
+  }
+});
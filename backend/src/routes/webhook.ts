@@ -1,8 +1,25 @@
-import { Router, Request, Response } from 'express';
-import { db, upsertUser, upsertTask } from '../database.js';
+import { Router, Response } from 'express';
+import { Server } from 'socket.io';
+import {
+  db,
+  upsertUser,
+  upsertTask,
+  getTaskById,
+  recordTaskHistory,
+  markTaskDeleted,
+  TaskHistoryField,
+  insertWebhookEvent,
+  markWebhookEvent,
+  getWebhookEventById,
+  setTimeEntryTags,
+  WebhookEventStatus,
+} from '../database.js';
 import { fetchClickUpTask } from '../clickup.js';
+import { getWorkspaceToken, resolveWebhookTeamId } from '../clickup/workspaces.js';
 import { emitScopedEvent } from '../socket.js';
-import { MAX_ENTRY_DURATION_MS } from '../constants.js';
+import { applyLongEntryPolicy } from '../forgottenTimers.js';
+import { verifyClickUpWebhook, forgetWebhookSignature, RawBodyRequest } from '../auth/webhook.js';
+import { noteWebhookTimerStarted, noteWebhookTimerStopped } from '../polling.js';
 
 export const webhookRouter = Router();
 
@@ -38,6 +55,7 @@ interface HistoryItem {
     time: string;
     source?: string;
     date_added?: string;
+    tags?: Array<{ name?: string } | string>;
   } | null;
 }
 
@@ -53,9 +71,9 @@ interface ClickUpWebhookPayload {
   };
 }
 
-// Pobierz szczegóły zadania z ClickUp i zapisz w bazie
-async function fetchAndStoreTask(taskId: string) {
-  const task = await fetchClickUpTask(taskId);
+// Pobierz szczegóły zadania z ClickUp (tokenem workspace'u webhooka) i zapisz w bazie
+async function fetchAndStoreTask(taskId: string, teamId: string) {
+  const task = await fetchClickUpTask(taskId, getWorkspaceToken(teamId));
 
   const taskData = {
     id: taskId,
@@ -65,33 +83,345 @@ async function fetchAndStoreTask(taskId: string) {
     folder: task?.folder,
     space: task?.space,
     url: task?.url || `https://app.clickup.com/t/${taskId}`,
+    time_estimate: task?.time_estimate,
+    due_date: task?.due_date,
+    assignees: task?.assignees,
+    parent: task?.parent,
+    project_field: task?.project_field,
+    teamId,
   };
 
   upsertTask(taskData);
   return taskData;
 }
 
-// Główny endpoint webhook
-webhookRouter.post('/clickup', async (req: Request, res: Response) => {
+// Klucz dostawy do deduplikacji dziennika: webhook_id + event + ID history_items (ClickUp wysyła
+// te same ID przy ponowieniu). Payload bez history_items nie jest deduplikowany.
+function getDeliveryKey(payload: ClickUpWebhookPayload): string | null {
+  const itemIds = (payload.history_items || [])
+    .map((item) => item?.id)
+    .filter((id) => id !== undefined && id !== null && id !== '')
+    .map(String)
+    .sort();
+  if (!payload.webhook_id || itemIds.length === 0) {
+    return null;
+  }
+  return `${payload.webhook_id}:${payload.event}:${itemIds.join(',')}`;
+}
+
+// Główny endpoint webhook (tylko podpisane przez ClickUp — patrz auth/webhook.ts)
+// Każdy przyjęty payload trafia najpierw do dziennika webhook_events, żeby można go było
+// odtworzyć z panelu admina, jeśli przetwarzanie się nie powiedzie.
+webhookRouter.post('/clickup', verifyClickUpWebhook, async (req: RawBodyRequest, res: Response) => {
   const io = req.app.locals.io;
   const payload: ClickUpWebhookPayload = req.body;
 
   console.log(`📥 Webhook event: ${payload.event}`);
 
   try {
-    if (payload.event === 'taskTimeTrackedUpdated') {
-      await handleTimeTrackedUpdated(payload, io);
-    } else {
-      console.log(`ℹ️ Nieobsługiwany event: ${payload.event}`);
+    const journal = insertWebhookEvent({
+      webhookId: payload.webhook_id,
+      event: payload.event,
+      taskId: payload.task_id,
+      rawBody: req.rawBody?.toString('utf8') ?? JSON.stringify(payload),
+      deliveryKey: getDeliveryKey(payload),
+    });
+    const eventId = journal.id;
+
+    // Ponowiona dostawa: przetwarzamy ją tylko, jeśli poprzednia próba się nie powiodła
+    if (journal.duplicate && journal.status !== 'failed') {
+      console.log(`↩️ Webhook #${eventId} już w dzienniku (${journal.status}) — pomijam ponowioną dostawę`);
+      return res.status(200).json({ received: true, event_id: eventId, duplicate: true });
+    }
+
+    const result = await processJournaledEvent(eventId, payload, io);
+    if (result.status === 'failed') {
+      console.error(`❌ Błąd przetwarzania webhooka #${eventId}:`, result.error);
+      // Pozwól ClickUp dostarczyć ten sam payload ponownie
+      forgetWebhookSignature(req.header('X-Signature'));
+      return res.status(500).json({ error: 'Internal server error', event_id: eventId });
     }
 
-    res.status(200).json({ received: true });
+    res.status(200).json({ received: true, event_id: eventId });
   } catch (error) {
     console.error('❌ Błąd przetwarzania webhooka:', error);
+    forgetWebhookSignature(req.header('X-Signature'));
     res.status(500).json({ error: 'Internal server error' });
   }
 });
 
+// Eventy obsługiwane przez dispatchWebhookPayload — domyślna lista przy rejestracji webhooka w ClickUp
+export const HANDLED_WEBHOOK_EVENTS = [
+  'taskTimeTrackedUpdated',
+  'taskMoved',
+  'taskUpdated',
+  'taskDeleted',
+  'taskCreated',
+  'taskTimeEstimateUpdated',
+  'taskAssigneeUpdated',
+  'taskDueDateUpdated',
+];
+
+// Eventy, po których pobieramy task z ClickUp na nowo (lista, nazwa, status, estymata, termin, przypisani)
+const TASK_CHANGED_EVENTS = new Set([
+  'taskMoved',
+  'taskUpdated',
+  'taskTimeEstimateUpdated',
+  'taskAssigneeUpdated',
+  'taskDueDateUpdated',
+]);
+
+// Rozdziela payload na handler — wspólne dla żywych webhooków i replay z dziennika
+async function dispatchWebhookPayload(payload: ClickUpWebhookPayload, io: Server): Promise<'processed' | 'ignored'> {
+  if (payload.event === 'taskTimeTrackedUpdated') {
+    await handleTimeTrackedUpdated(payload, io);
+    return 'processed';
+  }
+
+  if (TASK_CHANGED_EVENTS.has(payload.event)) {
+    return handleTaskChanged(payload, io);
+  }
+
+  if (payload.event === 'taskDeleted') {
+    return handleTaskDeleted(payload, io);
+  }
+
+  if (payload.event === 'taskCreated') {
+    return handleTaskCreated(payload, io);
+  }
+
+  console.log(`ℹ️ Nieobsługiwany event: ${payload.event}`);
+  return 'ignored';
+}
+
+async function processJournaledEvent(
+  eventId: number,
+  payload: ClickUpWebhookPayload,
+  io: Server
+): Promise<{ status: WebhookEventStatus; error?: string }> {
+  try {
+    const status = await dispatchWebhookPayload(payload, io);
+    markWebhookEvent(eventId, status);
+    return { status };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    markWebhookEvent(eventId, 'failed', message);
+    return { status: 'failed', error: message };
+  }
+}
+
+/**
+ * Ponownie przetwarza zapisany w dzienniku webhook (po poprawce błędu w handlerze).
+ * Zwraca null, jeśli event nie istnieje.
+ */
+export async function replayWebhookEvent(
+  eventId: number,
+  io: Server
+): Promise<{ id: number; status: WebhookEventStatus; error?: string } | null> {
+  const row = getWebhookEventById(eventId);
+  if (!row) {
+    return null;
+  }
+
+  let payload: ClickUpWebhookPayload;
+  try {
+    payload = JSON.parse(row.raw_body);
+  } catch {
+    markWebhookEvent(eventId, 'failed', 'Nieprawidłowy JSON w raw_body');
+    return { id: eventId, status: 'failed', error: 'Nieprawidłowy JSON w raw_body' };
+  }
+
+  console.log(`🔁 Replay webhooka #${eventId}: ${row.event} (próba ${row.attempts + 1})`);
+  const result = await processJournaledEvent(eventId, payload, io);
+  return { id: eventId, ...result };
+}
+
+// Pola history_items w taskUpdated, które wpływają na dane zadania w bazie.
+// Inne zmiany (opis, tagi, priorytet...) nie wymagają pobierania zadania z ClickUp.
+const TRACKED_TASK_FIELDS = new Set([
+  'name',
+  'status',
+  'section_moved',
+  'time_estimate',
+  'due_date',
+  'assignee_add',
+  'assignee_rem',
+  'parent',
+  'custom_field',
+]);
+
+// Przeniesienie / zmiana nazwy / statusu zadania.
+// tasks.list_id decyduje o projekcie w zarobkach, więc aktualizacja działa od razu
+// również dla historycznych wpisów — bez ręcznego backfillu.
+async function handleTaskChanged(payload: ClickUpWebhookPayload, io: Server): Promise<'processed' | 'ignored'> {
+  const previous = getTaskById(payload.task_id);
+  if (!previous) {
+    // Zadanie bez trackingu — zostanie pobrane przy pierwszym wpisie czasu
+    console.log(`ℹ️ ${payload.event}: zadanie ${payload.task_id} nieznane — pomijam`);
+    return 'ignored';
+  }
+
+  const historyItems = payload.history_items || [];
+  if (
+    payload.event === 'taskUpdated' &&
+    historyItems.length > 0 &&
+    !historyItems.some((item) => TRACKED_TASK_FIELDS.has(item.field))
+  ) {
+    return 'ignored';
+  }
+
+  const teamId = resolveWebhookTeamId(payload);
+  const task = await fetchClickUpTask(payload.task_id, getWorkspaceToken(teamId));
+  if (!task) {
+    // Rzucamy, żeby event trafił do dziennika jako failed i dało się go odtworzyć
+    throw new Error(`Nie udało się pobrać zadania ${payload.task_id} z ClickUp`);
+  }
+
+  const changes: Array<{
+    field: TaskHistoryField;
+    oldValue: string | null;
+    newValue: string | null;
+    oldLabel?: string | null;
+    newLabel?: string | null;
+  }> = [];
+
+  if (task.list?.id && task.list.id !== previous.list_id) {
+    changes.push({
+      field: 'list',
+      oldValue: previous.list_id,
+      newValue: task.list.id,
+      oldLabel: previous.list_name,
+      newLabel: task.list.name,
+    });
+  }
+  if (task.name && task.name !== previous.name) {
+    changes.push({ field: 'name', oldValue: previous.name, newValue: task.name });
+  }
+  if (task.status && task.status !== previous.status) {
+    changes.push({ field: 'status', oldValue: previous.status, newValue: task.status });
+  }
+
+  const listName = task.list?.name || null;
+  const folderName = task.folder?.name || null;
+  const spaceName = task.space?.name || null;
+
+  const applyChanges = db.transaction(() => {
+    upsertTask({ ...task, id: payload.task_id, teamId });
+
+    for (const change of changes) {
+      recordTaskHistory({ taskId: payload.task_id, event: payload.event, ...change });
+    }
+
+    // Zdenormalizowane nazwy i ID hierarchii w time_entries (historia w LiveTab, filtry ?list_id= itd.)
+    db.prepare(`
+      UPDATE time_entries
+      SET task_name = ?, list_name = ?, folder_name = ?, space_name = ?,
+        list_id = COALESCE(?, list_id), folder_id = COALESCE(?, folder_id), space_id = COALESCE(?, space_id)
+      WHERE task_id = ?
+    `).run(
+      task.name,
+      listName,
+      folderName,
+      spaceName,
+      task.list?.id ?? null,
+      task.folder?.id ?? null,
+      task.space?.id ?? null,
+      payload.task_id
+    );
+  });
+  applyChanges();
+
+  for (const change of changes) {
+    if (change.field === 'list') {
+      console.log(`📦 Zadanie ${task.name} przeniesione: ${change.oldLabel || change.oldValue || '—'} → ${change.newLabel}`);
+    } else {
+      console.log(`✏️ Zadanie ${payload.task_id}: ${change.field} ${change.oldValue || '—'} → ${change.newValue}`);
+    }
+  }
+
+  emitScopedEvent(io, 'task_updated', {
+    task_id: payload.task_id,
+    task_name: task.name,
+    list_name: listName,
+    folder_name: folderName,
+    space_name: spaceName,
+  });
+
+  return 'processed';
+}
+
+// Usunięcie zadania — soft-delete w tasks. Wpisy czasu zostają (praca została wykonana),
+// ich usunięcie ClickUp sygnalizuje osobno przez taskTimeTrackedUpdated.
+function handleTaskDeleted(payload: ClickUpWebhookPayload, io: Server): 'processed' | 'ignored' {
+  const previous = getTaskById(payload.task_id);
+  if (!previous) {
+    console.log(`ℹ️ taskDeleted: zadanie ${payload.task_id} nieznane — pomijam`);
+    return 'ignored';
+  }
+
+  if (!previous.deleted_at) {
+    const applyDelete = db.transaction(() => {
+      markTaskDeleted(payload.task_id);
+      recordTaskHistory({
+        taskId: payload.task_id,
+        event: payload.event,
+        field: 'deleted',
+        oldValue: previous.list_id,
+        oldLabel: previous.name,
+      });
+    });
+    applyDelete();
+    console.log(`🗑️ Zadanie usunięte w ClickUp: ${previous.name || payload.task_id}`);
+  }
+
+  emitScopedEvent(io, 'task_deleted', { task_id: payload.task_id });
+  return 'processed';
+}
+
+// Zadanie przywrócone w ClickUp (np. z kosza) przychodzi jako taskCreated — jedyne miejsce,
+// które zdejmuje soft-delete. Nowe zadania pobieramy dopiero przy pierwszym wpisie czasu.
+async function handleTaskCreated(payload: ClickUpWebhookPayload, io: Server): Promise<'processed' | 'ignored'> {
+  const previous = getTaskById(payload.task_id);
+  if (!previous?.deleted_at) {
+    return 'ignored';
+  }
+
+  const teamId = resolveWebhookTeamId(payload);
+  const task = await fetchClickUpTask(payload.task_id, getWorkspaceToken(teamId));
+  if (!task) {
+    throw new Error(`Nie udało się pobrać zadania ${payload.task_id} z ClickUp`);
+  }
+
+  const applyRestore = db.transaction(() => {
+    upsertTask({ ...task, id: payload.task_id, teamId, undelete: true });
+    recordTaskHistory({
+      taskId: payload.task_id,
+      event: payload.event,
+      field: 'deleted',
+      newValue: task.list?.id ?? previous.list_id,
+      newLabel: task.name,
+    });
+  });
+  applyRestore();
+  console.log(`♻️ Zadanie przywrócone w ClickUp: ${task.name || payload.task_id}`);
+
+  emitScopedEvent(io, 'task_updated', {
+    task_id: payload.task_id,
+    task_name: task.name,
+    list_name: task.list?.name || null,
+    folder_name: task.folder?.name || null,
+    space_name: task.space?.name || null,
+  });
+  return 'processed';
+}
+
+// Tagi z payloadu (obiekty {name} lub same nazwy). Brak pola = payload nie niesie tagów — nie ruszamy zapisanych.
+function applyWebhookTags(entry: NonNullable<HistoryItem['after']>) {
+  if (!Array.isArray(entry.tags)) return;
+  const names = entry.tags.map((tag) => (typeof tag === 'string' ? tag : tag?.name || ''));
+  setTimeEntryTags(entry.id, names);
+}
+
 async function handleTimeTrackedUpdated(payload: ClickUpWebhookPayload, io: any) {
   const historyItem = payload.history_items?.[0];
   if (!historyItem) {
@@ -102,6 +432,7 @@ async function handleTimeTrackedUpdated(payload: ClickUpWebhookPayload, io: any)
   const user = historyItem.user;
   const timeEntry = historyItem.after;
   const prevEntry = historyItem.before;
+  const teamId = resolveWebhookTeamId(payload);
 
   // Zapisz użytkownika
   upsertUser({
@@ -110,22 +441,69 @@ async function handleTimeTrackedUpdated(payload: ClickUpWebhookPayload, io: any)
     email: user.email,
     color: user.color,
     profilePicture: user.profilePicture || undefined,
+    teamId,
   });
 
+  // Usunięty time entry (after === null) — soft-delete, wpis znika z historii i zarobków
+  if (!timeEntry && prevEntry) {
+    const existing = db
+      .prepare('SELECT id, task_name, user_id, deleted_at FROM time_entries WHERE id = ?')
+      .get(prevEntry.id) as { id: string; task_name: string | null; user_id: string; deleted_at: string | null } | undefined;
+
+    if (!existing) {
+      console.log(`ℹ️ Usunięty wpis ${prevEntry.id} nie istnieje w bazie — pomijam`);
+      return;
+    }
+
+    if (!existing.deleted_at) {
+      db.prepare(`UPDATE time_entries SET deleted_at = datetime('now') WHERE id = ?`).run(prevEntry.id);
+    }
+    // Echo usunięcia z aplikacji — potwierdzone przez ClickUp
+    db.prepare('UPDATE time_entries SET local_edit_at = NULL WHERE id = ?').run(prevEntry.id);
+    noteWebhookTimerStopped(prevEntry.id, existing.user_id || String(user.id), teamId);
+
+    console.log(`🗑️ ${user.username} usunął wpis: ${existing.task_name || payload.task_id}`);
+
+    emitScopedEvent(io, 'time_entry_deleted', {
+      id: prevEntry.id,
+      task_id: payload.task_id,
+      user_id: existing.user_id || String(user.id),
+    });
+    return;
+  }
+
   // Pobierz szczegóły zadania
-  const task = await fetchAndStoreTask(payload.task_id);
+  const task = await fetchAndStoreTask(payload.task_id, teamId);
   const taskName = task.name;
   const taskUrl = task.url || `https://app.clickup.com/t/${payload.task_id}`;
   const listName = task.list?.name || null;
   const folderName = task.folder?.name || null;
   const spaceName = task.space?.name || null;
+  const listId = task.list?.id || null;
+  const folderId = task.folder?.id || null;
+  const spaceId = task.space?.id || null;
 
   // Nowy time entry (start trackingu)
   if (timeEntry && !prevEntry) {
     const startTime = new Date(parseInt(timeEntry.start)).toISOString();
     const hasEnd = timeEntry.end && timeEntry.end !== timeEntry.start;
     const endTime = hasEnd ? new Date(parseInt(timeEntry.end)).toISOString() : null;
-    const duration = parseInt(timeEntry.time) || 0;
+    let duration = parseInt(timeEntry.time) || 0;
+
+    // Ręcznie dodany wpis (od razu z końcem) dłuższy niż limit — polityka workspace'u
+    if (hasEnd) {
+      duration = applyLongEntryPolicy({
+        id: timeEntry.id,
+        teamId,
+        userId: String(user.id),
+        userName: user.username,
+        taskId: payload.task_id,
+        taskName,
+        startTime,
+        duration,
+        source: 'webhook',
+      }).duration;
+    }
 
     console.log(`▶️ ${user.username} ${hasEnd ? 'zalogował' : 'zaczął'}: ${taskName}`);
 
@@ -133,8 +511,9 @@ async function handleTimeTrackedUpdated(payload: ClickUpWebhookPayload, io: any)
     const stmt = db.prepare(`
       INSERT INTO time_entries (
         id, task_id, task_name, user_id, user_name, user_email,
-        start_time, end_time, duration, task_url, list_name, folder_name, space_name
-      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        start_time, end_time, duration, task_url, list_name, folder_name, space_name,
+        list_id, folder_id, space_id, team_id
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
       ON CONFLICT(id) DO UPDATE SET
         start_time = excluded.start_time,
         end_time = excluded.end_time,
@@ -143,7 +522,11 @@ async function handleTimeTrackedUpdated(payload: ClickUpWebhookPayload, io: any)
         task_url = excluded.task_url,
         list_name = excluded.list_name,
         folder_name = excluded.folder_name,
-        space_name = excluded.space_name
+        space_name = excluded.space_name,
+        list_id = COALESCE(excluded.list_id, list_id),
+        folder_id = COALESCE(excluded.folder_id, folder_id),
+        space_id = COALESCE(excluded.space_id, space_id),
+        local_edit_at = NULL
     `);
 
     stmt.run(
@@ -159,8 +542,13 @@ async function handleTimeTrackedUpdated(payload: ClickUpWebhookPayload, io: any)
       taskUrl,
       listName,
       folderName,
-      spaceName
+      spaceName,
+      listId,
+      folderId,
+      spaceId,
+      teamId
     );
+    applyWebhookTags(timeEntry);
 
     if (hasEnd) {
       // Zakończony wpis - do historii
@@ -181,7 +569,25 @@ async function handleTimeTrackedUpdated(payload: ClickUpWebhookPayload, io: any)
         space_name: spaceName,
       });
     } else {
-      // Aktywny tracking
+      // Aktywny tracking — poller nie musi odpytywać tego członka, dopóki webhook jest świeży
+      noteWebhookTimerStarted({
+        id: timeEntry.id,
+        task: { id: payload.task_id, name: taskName, url: taskUrl },
+        user: {
+          id: user.id,
+          username: user.username,
+          email: user.email,
+          color: user.color,
+          profilePicture: user.profilePicture,
+        },
+        start: timeEntry.start,
+        duration: -1,
+        list_name: listName,
+        folder_name: folderName,
+        space_name: spaceName,
+        team_id: teamId,
+      });
+
       emitScopedEvent(io, 'time_entry_started', {
         id: timeEntry.id,
         task_id: payload.task_id,
@@ -210,10 +616,19 @@ async function handleTimeTrackedUpdated(payload: ClickUpWebhookPayload, io: any)
     const wasRunning = !prevEntry.end || prevEntry.end === prevEntry.start;
     const isNowStopped = timeEntry.end && timeEntry.end !== timeEntry.start;
 
-    // Cap na maksymalny czas trwania
-    if (duration > MAX_ENTRY_DURATION_MS) {
-      console.log(`⚠️ Webhook: duration ${Math.round(duration / 3600000)}h > max ${MAX_ENTRY_DURATION_MS / 3600000}h — capping`);
-      duration = MAX_ENTRY_DURATION_MS;
+    // Wpis dłuższy niż limit: cap / drop / flag wg polityki workspace'u
+    if (isNowStopped) {
+      duration = applyLongEntryPolicy({
+        id: timeEntry.id,
+        teamId,
+        userId: String(user.id),
+        userName: user.username,
+        taskId: payload.task_id,
+        taskName,
+        startTime,
+        duration,
+        source: 'webhook',
+      }).duration;
     }
 
     if (wasRunning && isNowStopped) {
@@ -225,13 +640,30 @@ async function handleTimeTrackedUpdated(payload: ClickUpWebhookPayload, io: any)
     // Aktualizuj w bazie
     const stmt = db.prepare(`
       UPDATE time_entries
-      SET start_time = ?, end_time = ?, duration = ?, task_name = ?, task_url = ?, list_name = ?, folder_name = ?, space_name = ?
+      SET start_time = ?, end_time = ?, duration = ?, task_name = ?, task_url = ?, list_name = ?, folder_name = ?, space_name = ?,
+        list_id = COALESCE(?, list_id), folder_id = COALESCE(?, folder_id), space_id = COALESCE(?, space_id),
+        local_edit_at = NULL
       WHERE id = ?
     `);
 
-    stmt.run(startTime, endTime, duration, taskName, taskUrl, listName, folderName, spaceName, timeEntry.id);
+    stmt.run(
+      startTime,
+      endTime,
+      duration,
+      taskName,
+      taskUrl,
+      listName,
+      folderName,
+      spaceName,
+      listId,
+      folderId,
+      spaceId,
+      timeEntry.id
+    );
+    applyWebhookTags(timeEntry);
 
     if (wasRunning && isNowStopped) {
+      noteWebhookTimerStopped(timeEntry.id, String(user.id), teamId);
       emitScopedEvent(io, 'time_entry_stopped', {
         id: timeEntry.id,
         task_id: payload.task_id,
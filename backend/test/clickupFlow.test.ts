@@ -0,0 +1,306 @@
+import assert from 'node:assert/strict';
+import { after, before, describe, test } from 'node:test';
+import crypto from 'crypto';
+import Database from 'better-sqlite3';
+import {
+  TEST_TEAM_ID,
+  TEST_WEBHOOK_SECRET,
+  TestStack,
+  loginAdmin,
+  requestJson,
+  startStack,
+  waitFor,
+  waitForJob,
+} from './helpers.js';
+
+// Pełny przepływ na fake ClickUp: webhook → dziennik → wpis, uzgodnienie → ponowny import
+// oraz rejestracja webhooków z panelu admina (sekret per webhook_id)
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MEMBER_ID = 81000001;
+const OTHER_MEMBER_ID = 81000002;
+const TASK_ID = 'fk00001';
+// Lista „Important” w innym space niż lista TASK_ID (fakeData)
+const MOVE_TARGET_LIST_ID = '90120005';
+
+type EntryRow = { id: string; user_id: string; duration: number; end_time: string | null; deleted_at: string | null };
+
+describe('ClickUp → backend (fake API)', () => {
+  let stack: TestStack;
+  let db: Database.Database;
+  let token: string;
+  let manualEntryId: string;
+
+  before(async () => {
+    stack = await startStack();
+    db = new Database(stack.dbPath);
+    db.pragma('busy_timeout = 5000');
+    token = await loginAdmin(stack.backendUrl);
+  });
+
+  after(async () => {
+    db?.close();
+    await stack?.stop();
+  });
+
+  const getEntry = (id: string) => db.prepare('SELECT * FROM time_entries WHERE id = ?').get(id) as EntryRow | undefined;
+
+  test('podpisany webhook trafia do dziennika i zapisuje wpis', async () => {
+    const start = Date.now() - 2 * 60 * 60 * 1000;
+    const { status, data } = await requestJson(`${stack.fakeUrl}/__fake/entries`, {
+      method: 'POST',
+      body: { user_id: MEMBER_ID, task_id: TASK_ID, start, duration: 30 * 60 * 1000 },
+    });
+    assert.equal(status, 200);
+    manualEntryId = data.id;
+
+    const entry = await waitFor(() => getEntry(manualEntryId), 'wpis z webhooka');
+    assert.equal(entry.user_id, String(MEMBER_ID));
+    assert.equal(entry.duration, 30 * 60 * 1000);
+    assert.equal(entry.end_time, new Date(start + 30 * 60 * 1000).toISOString());
+
+    const event = db
+      .prepare(`SELECT status, event FROM webhook_events WHERE raw_body LIKE ? ORDER BY id DESC LIMIT 1`)
+      .get(`%${manualEntryId}%`) as { status: string; event: string } | undefined;
+    assert.deepEqual(event, { status: 'processed', event: 'taskTimeTrackedUpdated' });
+  });
+
+  test('webhook bez poprawnego podpisu jest odrzucany i nie trafia do dziennika', async () => {
+    const body = JSON.stringify({
+      event: 'taskTimeTrackedUpdated',
+      webhook_id: 'forged-webhook',
+      task_id: TASK_ID,
+      team_id: TEST_TEAM_ID,
+      history_items: [{ id: 'forged', date: String(Date.now()), user: { id: MEMBER_ID, username: 'x' } }],
+    });
+    const send = (headers: Record<string, string>) =>
+      fetch(`${stack.backendUrl}/webhook/clickup`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...headers },
+        body,
+      });
+
+    const forged = await send({ 'X-Signature': crypto.createHmac('sha256', 'wrong-secret').update(body).digest('hex') });
+    assert.equal(forged.status, 401);
+    assert.equal((await forged.json()).reason, 'invalid_signature');
+
+    const unsigned = await send({});
+    assert.equal(unsigned.status, 401);
+    assert.equal((await unsigned.json()).reason, 'missing_signature');
+
+    const journaled = db.prepare(`SELECT COUNT(*) as count FROM webhook_events WHERE webhook_id = 'forged-webhook'`).get() as {
+      count: number;
+    };
+    assert.equal(journaled.count, 0);
+    const rejections = db
+      .prepare(`SELECT reason FROM webhook_rejections WHERE webhook_id = 'forged-webhook' ORDER BY id`)
+      .all() as Array<{ reason: string }>;
+    assert.deepEqual(
+      rejections.map((row) => row.reason),
+      ['invalid_signature', 'missing_signature']
+    );
+  });
+
+  test('ponowiona dostawa starszego zdarzenia mieści się w oknie akceptacji', async () => {
+    const body = JSON.stringify({
+      event: 'taskDeleted',
+      webhook_id: 'fake-webhook',
+      task_id: 'unknown-task',
+      team_id: TEST_TEAM_ID,
+      history_items: [{ id: 'retry-1', date: String(Date.now() - 2 * 60 * 60 * 1000), field: 'deleted' }],
+    });
+    const response = await fetch(`${stack.backendUrl}/webhook/clickup`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'X-Signature': crypto.createHmac('sha256', TEST_WEBHOOK_SECRET).update(body).digest('hex'),
+      },
+      body,
+    });
+    assert.equal(response.status, 200);
+  });
+
+  test('ponowienie tej samej dostawy nie tworzy drugiego wpisu w dzienniku', async () => {
+    const payload = {
+      event: 'taskDeleted',
+      webhook_id: 'fake-webhook',
+      task_id: 'unknown-task',
+      team_id: TEST_TEAM_ID,
+      history_items: [{ id: 'delivery-1', date: String(Date.now()), field: 'deleted' }],
+    };
+    // Ta sama dostawa serializowana inaczej — inny podpis, ten sam klucz (webhook_id + history_items)
+    const send = async (body: string) => {
+      const response = await fetch(`${stack.backendUrl}/webhook/clickup`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'X-Signature': crypto.createHmac('sha256', TEST_WEBHOOK_SECRET).update(body).digest('hex'),
+        },
+        body,
+      });
+      return { status: response.status, data: await response.json() };
+    };
+
+    const first = await send(JSON.stringify(payload));
+    assert.equal(first.status, 200);
+    const retry = await send(JSON.stringify(payload, null, 2));
+    assert.deepEqual(retry, { status: 200, data: { received: true, event_id: first.data.event_id, duplicate: true } });
+
+    const journaled = db.prepare(`SELECT COUNT(*) as count FROM webhook_events WHERE raw_body LIKE '%delivery-1%'`).get();
+    assert.deepEqual(journaled, { count: 1 });
+  });
+
+  test('usunięcie wpisu w ClickUp oznacza go jako usunięty (soft-delete)', async () => {
+    const { status } = await requestJson(`${stack.fakeUrl}/__fake/entries/${manualEntryId}`, { method: 'DELETE' });
+    assert.equal(status, 200);
+
+    const deletedAt = await waitFor(() => getEntry(manualEntryId)?.deleted_at, 'soft-delete wpisu');
+    assert.ok(deletedAt);
+  });
+
+  test('przeniesienie zadania przenosi wpisy do nowej listy w filtrach', async () => {
+    const { data: created } = await requestJson(`${stack.fakeUrl}/__fake/entries`, {
+      method: 'POST',
+      body: { user_id: MEMBER_ID, task_id: TASK_ID, start: Date.now() - 60 * 60 * 1000, duration: 15 * 60 * 1000 },
+    });
+    const entry = await waitFor(() => getEntry(created.id), 'wpis przed przeniesieniem');
+    const oldListId = created.task_location.list_id;
+    assert.notEqual(oldListId, MOVE_TARGET_LIST_ID);
+
+    const moved = await requestJson(`${stack.fakeUrl}/__fake/tasks/${TASK_ID}/move`, {
+      method: 'POST',
+      body: { list_id: MOVE_TARGET_LIST_ID },
+    });
+    assert.equal(moved.status, 200);
+    await waitFor(
+      () => (db.prepare('SELECT list_id FROM time_entries WHERE id = ?').get(entry.id) as { list_id: string }).list_id === MOVE_TARGET_LIST_ID,
+      'list_id wpisu po taskMoved'
+    );
+
+    const historyIds = async (listId: string) => {
+      const { data } = await requestJson(`${stack.backendUrl}/api/history/filtered?list_id=${listId}`, { token });
+      return data.entries.map((row: { id: string; list_name: string }) => [row.id, row.list_name]);
+    };
+    assert.deepEqual(
+      (await historyIds(MOVE_TARGET_LIST_ID)).find(([id]: string[]) => id === created.id),
+      [created.id, moved.data.list.name]
+    );
+    assert.equal((await historyIds(oldListId)).find(([id]: string[]) => id === created.id), undefined);
+  });
+
+  test('uzgodnienie i ponowny import uzupełniają brakujące wpisy i usuwają nadmiarowe', async () => {
+    // Ostatni tydzień bez dzisiaj — fake ma historię dni roboczych, baza testowa jest pusta
+    const today = new Date();
+    const start = new Date(today.getTime() - 7 * DAY_MS).toISOString().slice(0, 10);
+    const end = new Date(today.getTime() - DAY_MS).toISOString().slice(0, 10);
+
+    // Wpis, którego ClickUp nie zna (np. usunięty, gdy webhook nie doszedł)
+    const extraStart = `${end}T03:00:00.000Z`;
+    db.prepare(
+      `INSERT INTO time_entries (id, task_id, user_id, user_name, start_time, end_time, duration, team_id)
+       VALUES ('local-only-1', ?, ?, 'Piotr Kowalski', ?, ?, ?, ?)`
+    ).run(TASK_ID, String(OTHER_MEMBER_ID), extraStart, `${end}T04:00:00.000Z`, 60 * 60 * 1000, TEST_TEAM_ID);
+
+    const reconcile = await requestJson(`${stack.backendUrl}/admin/reconcile`, {
+      method: 'POST',
+      token,
+      body: { start, end },
+    });
+    assert.equal(reconcile.status, 202);
+    const report = await waitForJob(stack.backendUrl, token, reconcile.data.job.id);
+    assert.ok(report.result.missing > 0, 'pusta baza — brakujące wpisy');
+    assert.equal(report.result.extra, 1);
+
+    const { data: details } = await requestJson(`${stack.backendUrl}/admin/reconcile/${reconcile.data.job.id}`, { token });
+    const extraDay = details.days.find((day: { extra_ids: string[] }) => day.extra_ids.includes('local-only-1'));
+    assert.equal(extraDay?.user_id, String(OTHER_MEMBER_ID));
+
+    const reimport = await requestJson(`${stack.backendUrl}/admin/reconcile/${reconcile.data.job.id}/reimport`, {
+      method: 'POST',
+      token,
+      body: {},
+    });
+    assert.equal(reimport.status, 202);
+    const reimported = await waitForJob(stack.backendUrl, token, reimport.data.job.id);
+    assert.equal(reimported.result.saved, report.result.missing);
+    assert.equal(reimported.result.deleted, 1);
+    assert.ok(getEntry('local-only-1')?.deleted_at, 'nadmiarowy wpis oznaczony jako usunięty');
+
+    // Ponowne uzgodnienie: baza zgodna z ClickUp
+    const again = await requestJson(`${stack.backendUrl}/admin/reconcile`, { method: 'POST', token, body: { start, end } });
+    const check = await waitForJob(stack.backendUrl, token, again.data.job.id);
+    assert.equal(check.result.mismatched_days, 0);
+
+    const deletedImported = db
+      .prepare(`SELECT COUNT(*) as count FROM time_entries WHERE deleted_at IS NOT NULL AND id != 'local-only-1' AND id != ?`)
+      .get(manualEntryId) as { count: number };
+    assert.equal(deletedImported.count, 0, 'wpisy zwracane przez ClickUp zostają');
+  });
+
+  test('webhook zarejestrowany z panelu admina podpisuje eventy własnym sekretem', async () => {
+    const endpoint = `${stack.backendUrl}/webhook/clickup`;
+    const created = await requestJson(`${stack.backendUrl}/admin/webhooks`, {
+      method: 'POST',
+      token,
+      body: { endpoint, events: ['taskTimeTrackedUpdated'] },
+    });
+    assert.equal(created.status, 201);
+    assert.equal(created.data.has_secret, true);
+    const webhookId: string = created.data.id;
+
+    // Sekret zwrócony przez ClickUp zapisany per webhook_id
+    const { data: fakeState } = await requestJson(`${stack.fakeUrl}/__fake/state`);
+    const fakeSecret = fakeState.webhooks.find((webhook: { id: string }) => webhook.id === webhookId)?.secret;
+    const stored = db.prepare('SELECT secret, team_id FROM webhook_secrets WHERE webhook_id = ?').get(webhookId);
+    assert.deepEqual(stored, { secret: fakeSecret, team_id: TEST_TEAM_ID });
+    assert.notEqual(fakeSecret, TEST_WEBHOOK_SECRET);
+
+    const { data: listed } = await requestJson(`${stack.backendUrl}/admin/webhooks`, { token });
+    const listedWebhook = listed.webhooks.find((webhook: { id: string }) => webhook.id === webhookId);
+    assert.equal(listedWebhook?.has_secret, true);
+    assert.equal(listedWebhook?.secret, undefined, 'sekret nie wychodzi z API');
+
+    // Event z fake'a idzie już przez zarejestrowany webhook
+    const { data: entry } = await requestJson(`${stack.fakeUrl}/__fake/entries`, {
+      method: 'POST',
+      body: { user_id: MEMBER_ID, task_id: TASK_ID, start: Date.now() - 30 * 60 * 1000, duration: 10 * 60 * 1000 },
+    });
+    await waitFor(() => getEntry(entry.id), 'wpis z zarejestrowanego webhooka');
+    const event = db.prepare(`SELECT status FROM webhook_events WHERE webhook_id = ? AND raw_body LIKE ?`).get(webhookId, `%${entry.id}%`);
+    assert.deepEqual(event, { status: 'processed' });
+
+    // Sekret globalny nie wystarcza dla webhook_id z własnym sekretem
+    const body = JSON.stringify({
+      event: 'taskTimeTrackedUpdated',
+      webhook_id: webhookId,
+      task_id: TASK_ID,
+      team_id: TEST_TEAM_ID,
+      history_items: [{ id: 'global-secret', date: String(Date.now()), user: { id: MEMBER_ID, username: 'x' } }],
+    });
+    const globalSigned = await fetch(endpoint, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'X-Signature': crypto.createHmac('sha256', TEST_WEBHOOK_SECRET).update(body).digest('hex'),
+      },
+      body,
+    });
+    assert.equal(globalSigned.status, 401);
+
+    // Zawieszony w ClickUp → reaktywacja z panelu
+    await requestJson(`${stack.fakeUrl}/clickup/api/v2/webhook/${webhookId}`, {
+      method: 'PUT',
+      token: 'pk_test_team_token',
+      body: { status: 'inactive' },
+    });
+    const enabled = await requestJson(`${stack.backendUrl}/admin/webhooks/${webhookId}/enable`, { method: 'POST', token });
+    assert.equal(enabled.status, 200);
+    assert.equal(enabled.data.status, 'active');
+
+    const removed = await requestJson(`${stack.backendUrl}/admin/webhooks/${webhookId}`, { method: 'DELETE', token });
+    assert.equal(removed.status, 200);
+    assert.equal(db.prepare('SELECT 1 FROM webhook_secrets WHERE webhook_id = ?').get(webhookId), undefined);
+    const { data: afterDelete } = await requestJson(`${stack.fakeUrl}/__fake/state`);
+    assert.deepEqual(afterDelete.webhooks, []);
+  });
+});
@@ -0,0 +1,195 @@
+import { ChildProcess, spawn } from 'child_process';
+import fs from 'fs';
+import net from 'net';
+import os from 'os';
+import path from 'path';
+import { fileURLToPath } from 'url';
+
+// Wspólne dla testów: katalog tymczasowy na bazę, procesy backendu i fake API (npm run fake-api)
+
+const BACKEND_DIR = path.join(path.dirname(fileURLToPath(import.meta.url)), '..');
+
+export const TEST_TEAM_ID = '9012345';
+export const TEST_WEBHOOK_SECRET = 'test-webhook-secret';
+export const TEST_ADMIN = { username: 'admin', password: 'test-admin-password' };
+
+export function createTempDir(): string {
+  return fs.mkdtempSync(path.join(os.tmpdir(), 'clickup-monitor-test-'));
+}
+
+export function removeTempDir(dir: string) {
+  fs.rmSync(dir, { recursive: true, force: true });
+}
+
+export function getFreePort(): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const server = net.createServer();
+    server.once('error', reject);
+    server.listen(0, '127.0.0.1', () => {
+      const { port } = server.address() as net.AddressInfo;
+      server.close(() => resolve(port));
+    });
+  });
+}
+
+export function sleep(ms: number) {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+// Ponawia check, aż zwróci wartość różną od undefined/false/null
+export async function waitFor<T>(check: () => T | Promise<T>, label: string, timeoutMs = 20_000): Promise<NonNullable<T>> {
+  const deadline = Date.now() + timeoutMs;
+  for (;;) {
+    const value = await check();
+    if (value !== undefined && value !== null && value !== false) {
+      return value as NonNullable<T>;
+    }
+    if (Date.now() > deadline) {
+      throw new Error(`Przekroczono czas oczekiwania: ${label}`);
+    }
+    await sleep(100);
+  }
+}
+
+export type TestProcess = { child: ChildProcess; output: () => string; stop: () => Promise<void> };
+
+// Skrypt z src/ uruchomiony przez tsx; wyjście zbierane do komunikatu przy błędzie testu
+export function startScript(script: string, env: Record<string, string>): TestProcess {
+  const child = spawn(process.execPath, ['--import', 'tsx', script], {
+    cwd: BACKEND_DIR,
+    env: { PATH: process.env.PATH ?? '', NODE_ENV: 'test', ...env },
+    stdio: ['ignore', 'pipe', 'pipe'],
+  });
+  let output = '';
+  child.stdout?.on('data', (chunk) => (output += chunk));
+  child.stderr?.on('data', (chunk) => (output += chunk));
+
+  return {
+    child,
+    output: () => output,
+    stop: () =>
+      new Promise((resolve) => {
+        if (child.exitCode !== null || child.signalCode !== null) return resolve();
+        child.once('exit', () => resolve());
+        child.kill('SIGTERM');
+      }),
+  };
+}
+
+export async function waitForHttp(url: string, proc: TestProcess, timeoutMs = 60_000) {
+  await waitFor(
+    async () => {
+      if (proc.child.exitCode !== null) {
+        throw new Error(`Proces zakończył się przed startem:\n${proc.output()}`);
+      }
+      try {
+        const response = await fetch(url);
+        return response.status < 500;
+      } catch {
+        return false;
+      }
+    },
+    `start ${url}`,
+    timeoutMs
+  );
+}
+
+export type TestStack = {
+  backendUrl: string;
+  fakeUrl: string;
+  dbPath: string;
+  backend: TestProcess;
+  fake: TestProcess;
+  stop: () => Promise<void>;
+};
+
+/**
+ * Backend (src/index.ts) na świeżej bazie podpięty pod fake ClickUp (src/dev/fakeApi.ts).
+ * Fake wysyła podpisane webhooki taskTimeTrackedUpdated na /webhook/clickup backendu.
+ */
+export async function startStack(): Promise<TestStack> {
+  const dir = createTempDir();
+  const dbPath = path.join(dir, 'activity.db');
+  const [backendPort, fakePort] = [await getFreePort(), await getFreePort()];
+  const backendUrl = `http://127.0.0.1:${backendPort}`;
+  const fakeUrl = `http://127.0.0.1:${fakePort}`;
+
+  const fake = startScript('src/dev/fakeApi.ts', {
+    FAKE_API_PORT: String(fakePort),
+    FAKE_API_TEAM_ID: TEST_TEAM_ID,
+    FAKE_WEBHOOK_TARGET: `${backendUrl}/webhook/clickup`,
+    FAKE_WEBHOOK_SECRET: TEST_WEBHOOK_SECRET,
+  });
+  const backend = startScript('src/index.ts', {
+    PORT: String(backendPort),
+    DB_PATH: dbPath,
+    JWT_SECRET: 'test-jwt-secret',
+    ADMIN_USERNAME: TEST_ADMIN.username,
+    ADMIN_PASSWORD: TEST_ADMIN.password,
+    CLICKUP_API_BASE: `${fakeUrl}/clickup/api/v2`,
+    CLICKUP_API_TOKEN: 'pk_test_team_token',
+    CLICKUP_TEAM_ID: TEST_TEAM_ID,
+    CLICKUP_WEBHOOK_SECRET: TEST_WEBHOOK_SECRET,
+    // Uzgodnienie kilku dni to więcej niż domyślne 100 żądań/min — test nie ma czekać na limiter
+    CLICKUP_RATE_LIMIT_PER_MIN: '10000',
+    RESYNC_ENABLED: 'false',
+  });
+
+  const stop = async () => {
+    await Promise.all([backend.stop(), fake.stop()]);
+    removeTempDir(dir);
+  };
+
+  try {
+    await waitForHttp(`${fakeUrl}/__fake/state`, fake);
+    await waitForHttp(`${backendUrl}/health`, backend);
+  } catch (error) {
+    await stop();
+    throw error;
+  }
+
+  return { backendUrl, fakeUrl, dbPath, backend, fake, stop };
+}
+
+export async function loginAdmin(backendUrl: string): Promise<string> {
+  const response = await fetch(`${backendUrl}/auth/login`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(TEST_ADMIN),
+  });
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(`Logowanie admina nie powiodło się: ${data.error}`);
+  }
+  return data.token;
+}
+
+export async function requestJson<T = any>(
+  url: string,
+  options: { method?: string; token?: string; body?: unknown } = {}
+): Promise<{ status: number; data: T }> {
+  const response = await fetch(url, {
+    method: options.method || 'GET',
+    headers: {
+      ...(options.token ? { Authorization: `Bearer ${options.token}` } : {}),
+      ...(options.body !== undefined ? { 'Content-Type': 'application/json' } : {}),
+    },
+    body: options.body !== undefined ? JSON.stringify(options.body) : undefined,
+  });
+  return { status: response.status, data: (await response.json()) as T };
+}
+
+// Zadanie w tle (jobs) zakończone — zwraca widok zadania z wynikiem
+export async function waitForJob(backendUrl: string, token: string, jobId: number, timeoutMs = 60_000) {
+  return waitFor(
+    async () => {
+      const { data } = await requestJson(`${backendUrl}/admin/jobs/${jobId}`, { token });
+      if (data.status === 'failed' || data.status === 'cancelled') {
+        throw new Error(`Zadanie #${jobId}: ${data.status} ${data.error || ''}`);
+      }
+      return data.status === 'succeeded' ? data : undefined;
+    },
+    `zadanie #${jobId}`,
+    timeoutMs
+  );
+}
@@ -0,0 +1,137 @@
+import assert from 'node:assert/strict';
+import { after, describe, test } from 'node:test';
+import path from 'path';
+import { TEST_ADMIN, createTempDir, removeTempDir } from './helpers.js';
+
+// Limity długości wpisów i stawki w czasie — bezpośrednio na bazie (bez serwera).
+// DB_PATH musi być ustawiony przed pierwszym importem database.ts.
+const dir = createTempDir();
+process.env.DB_PATH = path.join(dir, 'activity.db');
+process.env.ADMIN_PASSWORD = TEST_ADMIN.password;
+
+const database = await import('../src/database.js');
+const { MAX_ENTRY_DURATION_MS, PROJECT_PRICING_IN_EFFECT_SQL, RATE_HISTORY_START, WORKER_RATE_IN_EFFECT_SQL } =
+  await import('../src/constants.js');
+const { db } = database;
+
+await database.initDatabase();
+
+const HOUR_MS = 60 * 60 * 1000;
+const ADMIN_ID = 1;
+
+function monthOffset(offset: number): string {
+  const now = new Date();
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + offset, 1)).toISOString().slice(0, 7);
+}
+
+after(() => {
+  db.close();
+  removeTempDir(dir);
+});
+
+describe('polityki długości wpisów', () => {
+  test('wpis > pracownik > projekt > domyślny limit', () => {
+    database.upsertTask({ id: 'task-1', name: 'Zadanie', list: { id: 'list-1', name: 'Lista' } });
+    const limitFor = (id: string, userId: string, taskId = 'task-1') => database.getEntryMaxDuration({ id, userId, taskId });
+
+    assert.equal(limitFor('e1', 'u1'), MAX_ENTRY_DURATION_MS);
+
+    database.upsertDurationPolicy({ scope: 'project', targetId: 'list-1', maxDuration: 2 * HOUR_MS, updatedBy: ADMIN_ID });
+    database.upsertDurationPolicy({ scope: 'user', targetId: 'u1', maxDuration: 4 * HOUR_MS, updatedBy: ADMIN_ID });
+    database.upsertDurationPolicy({ scope: 'entry', targetId: 'e1', maxDuration: 20 * HOUR_MS, updatedBy: ADMIN_ID });
+
+    assert.equal(limitFor('e1', 'u1'), 20 * HOUR_MS);
+    assert.equal(limitFor('e2', 'u1'), 4 * HOUR_MS);
+    assert.equal(limitFor('e3', 'u2'), 2 * HOUR_MS);
+    assert.equal(limitFor('e4', 'u2', 'task-unknown'), MAX_ENTRY_DURATION_MS);
+  });
+
+  test('domyślnej polityki nie da się usunąć', () => {
+    const policy = database.getDurationPolicies().find((row) => row.scope === 'default')!;
+    assert.equal(database.deleteDurationPolicy(policy.id), false);
+  });
+});
+
+describe('stawki pracowników w czasie', () => {
+  test('podwyżka nie zmienia kosztu wpisów sprzed zmiany', () => {
+    db.prepare(
+      `INSERT INTO notion_workers (notion_page_id, clickup_user_id, name, hourly_rate) VALUES ('w-1', 'u1', 'Anna', 100)`
+    ).run();
+    assert.equal(database.recordWorkerRates('2026-01-01T00:00:00.000Z'), 1);
+
+    db.prepare(`UPDATE notion_workers SET hourly_rate = 150 WHERE notion_page_id = 'w-1'`).run();
+    assert.equal(database.recordWorkerRates('2026-03-01T00:00:00.000Z'), 1);
+    assert.equal(database.recordWorkerRates('2026-03-02T00:00:00.000Z'), 0, 'bez zmiany — bez nowej wersji');
+
+    const versions = database.getWorkerRates('u1');
+    assert.deepEqual(
+      versions.map((row) => [row.hourly_rate, row.valid_from, row.valid_to]),
+      [
+        [150, '2026-03-01T00:00:00.000Z', null],
+        [100, RATE_HISTORY_START, '2026-03-01T00:00:00.000Z'],
+      ]
+    );
+
+    const insertEntry = db.prepare(
+      `INSERT INTO time_entries (id, user_id, start_time, end_time, duration) VALUES (?, 'u1', ?, ?, ?)`
+    );
+    insertEntry.run('rate-feb', '2026-02-10T09:00:00.000Z', '2026-02-10T11:00:00.000Z', 2 * HOUR_MS);
+    insertEntry.run('rate-mar', '2026-03-10T09:00:00.000Z', '2026-03-10T11:00:00.000Z', 2 * HOUR_MS);
+
+    const cost = db
+      .prepare(
+        `SELECT SUM((te.duration / 3600000.0) * nw.hourly_rate) as cost
+         FROM time_entries te
+         JOIN worker_rates nw ON nw.clickup_user_id = te.user_id ${WORKER_RATE_IN_EFFECT_SQL}
+         WHERE te.id IN ('rate-feb', 'rate-mar')`
+      )
+      .get() as { cost: number };
+    assert.equal(cost.cost, 2 * 100 + 2 * 150);
+  });
+});
+
+describe('cenniki projektów w czasie', () => {
+  const rateInMonth = (month: string) =>
+    (
+      db
+        .prepare(
+          `SELECT np.hourly_rate FROM (SELECT ? as start_time) te
+           JOIN project_pricing np ON np.clickup_id = 'list-1' ${PROJECT_PRICING_IN_EFFECT_SQL}`
+        )
+        .get(`${month}-15T10:00:00.000Z`) as { hourly_rate: number } | undefined
+    )?.hourly_rate;
+
+  test('zmiana w Notion obowiązuje od następnego miesiąca', () => {
+    db.prepare(
+      `INSERT INTO notion_projects (notion_page_id, clickup_id, name, hourly_rate, monthly_budget) VALUES ('p-1', 'list-1', 'Lista', 200, 0)`
+    ).run();
+    assert.equal(database.recordProjectPricing().saved, 1);
+
+    const previous = database.getNotionProjectPricing();
+    db.prepare(`UPDATE notion_projects SET hourly_rate = 250 WHERE notion_page_id = 'p-1'`).run();
+    assert.deepEqual(database.recordProjectPricing(previous), { saved: 1, conflicts: [] });
+
+    assert.equal(rateInMonth('2020-05'), 200);
+    assert.equal(rateInMonth(monthOffset(0)), 200, 'bieżący miesiąc bez zmiany wstecz');
+    assert.equal(rateInMonth(monthOffset(1)), 250);
+  });
+
+  test('wersji admina synchronizacja Notion nie nadpisuje', () => {
+    database.upsertProjectPricing({
+      clickupId: 'list-1',
+      validFrom: monthOffset(1),
+      hourlyRate: 300,
+      monthlyBudget: 0,
+      source: 'admin',
+      updatedBy: ADMIN_ID,
+    });
+
+    const previous = database.getNotionProjectPricing();
+    db.prepare(`UPDATE notion_projects SET hourly_rate = 275 WHERE notion_page_id = 'p-1'`).run();
+    assert.deepEqual(database.recordProjectPricing(previous), {
+      saved: 0,
+      conflicts: [{ clickup_id: 'list-1', valid_from: monthOffset(1) }],
+    });
+    assert.equal(rateInMonth(monthOffset(1)), 300);
+  });
+});
@@ -7,8 +7,13 @@ import { ProtectedRoute } from './components/ProtectedRoute';
 import { AdminPanel } from './components/AdminPanel';
 import { EarningsTab } from './components/EarningsTab';
 import { HomeTab } from './components/HomeTab';
+import { EstimatesTab } from './components/EstimatesTab';
 import { TimeEntriesImport } from './components/TimeEntriesImport';
+import { TimerControls } from './components/TimerControls';
+import { DayTimeline } from './components/DayTimeline';
 import { DateRangePicker, DateRange, buildDateQueryParams } from './components/DateRangePicker';
+import { WorkspaceSelect, withTeamId } from './components/WorkspaceSelect';
+import { HierarchySelect, withHierarchy } from './components/HierarchySelect';
 import { Badge } from './components/ui/badge';
 import { Button } from './components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from './components/ui/card';
@@ -35,6 +40,17 @@ interface TimeEntry {
   space_name?: string;
 }
 
+// Alert o zapomnianym timerze (zdarzenie socket timer_alert)
+interface TimerAlert {
+  id: number;
+  entry_id: string;
+  kind: string;
+  user_id: string;
+  user_name: string | null;
+  task_name: string | null;
+  message: string;
+}
+
 interface User {
   id: string;
   username: string;
@@ -401,6 +417,8 @@ function LiveTab({
         </div>
       )}
 
+      <TimerControls refreshKey={activeSessions.map((session) => session.id).join(',')} />
+
       {/* Aktywne sesje */}
       <section className="mb-8">
         <h2 className="text-lg font-semibold text-foreground mb-4 flex items-center gap-2">
@@ -499,11 +517,13 @@ function StatsTab() {
   const [dateRange, setDateRange] = useState<DateRange>({ start: '', end: '', period: 'today' });
   const [stats, setStats] = useState<TeamStats | null>(null);
   const [loading, setLoading] = useState(true);
+  const [teamId, setTeamId] = useState('');
+  const [hierarchy, setHierarchy] = useState('');
 
   useEffect(() => {
     if (!token || !dateRange.start || !dateRange.end) return;
     setLoading(true);
-    const queryParams = buildDateQueryParams(dateRange);
+    const queryParams = withHierarchy(withTeamId(buildDateQueryParams(dateRange), teamId), hierarchy);
     fetch(`${API_URL}/api/stats/team?${queryParams}`, {
       headers: { 'Authorization': `Bearer ${token}` },
     })
@@ -513,13 +533,25 @@ function StatsTab() {
         setLoading(false);
       })
       .catch(() => setLoading(false));
-  }, [dateRange, token]);
+  }, [dateRange, teamId, hierarchy, token]);
+
+  // Space'y innego workspace'u mają inne ID — wybór z poprzedniego nie ma sensu
+  const handleTeamChange = (value: string) => {
+    setTeamId(value);
+    setHierarchy('');
+  };
 
   return (
     <div>
-      {/* Wybór okresu */}
-      <div className="mb-6">
+      {/* Wybór okresu i workspace'u */}
+      <div className="mb-6 flex flex-wrap items-start justify-between gap-3">
         <DateRangePicker onChange={setDateRange} initialPeriod="today" />
+        {token && (
+          <div className="flex flex-wrap gap-2">
+            <WorkspaceSelect token={token} value={teamId} onChange={handleTeamChange} allowAll />
+            <HierarchySelect token={token} teamId={teamId} value={hierarchy} onChange={setHierarchy} />
+          </div>
+        )}
       </div>
 
       {loading ? (
@@ -622,6 +654,9 @@ function StatsTab() {
               </table>
             </div>
           </Card>
+
+          {/* Oś dnia wybranej osoby */}
+          {token && <DayTimeline token={token} users={stats.users} />}
         </>
       ) : (
         <div className="text-center py-8 text-muted-foreground">Brak danych</div>
@@ -643,12 +678,13 @@ function Dashboard({ theme, onToggleTheme }: DashboardProps) {
   const [history, setHistory] = useState<TimeEntry[]>([]);
   const [users, setUsers] = useState<User[]>([]);
   const [selectedUser, setSelectedUser] = useState<string | null>(null);
-  const [activeTab, setActiveTab] = useState<'home' | 'live' | 'stats' | 'earnings'>('home');
+  const [activeTab, setActiveTab] = useState<'home' | 'live' | 'stats' | 'earnings' | 'estimates'>('home');
   const [historyRange, setHistoryRange] = useState<HistoryRange>('last_30_days');
   const [historyLimit, setHistoryLimit] = useState<number>(50);
   const [userMenuOpen, setUserMenuOpen] = useState(false);
   const [isImportOpen, setIsImportOpen] = useState(false);
   const [isNotionSyncOpen, setIsNotionSyncOpen] = useState(false);
+  const [timerAlerts, setTimerAlerts] = useState<TimerAlert[]>([]);
   const userMenuRef = useRef<HTMLDivElement | null>(null);
   const canFilterHistory = isAdmin || isPm;
 
@@ -739,6 +775,24 @@ function Dashboard({ theme, onToggleTheme }: DashboardProps) {
       );
     });
 
+    // Zadanie przeniesione / przemianowane w ClickUp
+    newSocket.on('task_updated', (data: Pick<TimeEntry, 'task_id' | 'task_name' | 'list_name' | 'folder_name' | 'space_name'>) => {
+      const applyTask = (e: TimeEntry) => (e.task_id === data.task_id ? { ...e, ...data } : e);
+      setActiveSessions((prev) => prev.map(applyTask));
+      setHistory((prev) => prev.map(applyTask));
+    });
+
+    // Wpis usunięty w ClickUp
+    newSocket.on('time_entry_deleted', (data: Pick<TimeEntry, 'id'>) => {
+      setActiveSessions((prev) => prev.filter((e) => e.id !== data.id));
+      setHistory((prev) => prev.filter((e) => e.id !== data.id));
+    });
+
+    // Zapomniany timer (długo działa / po godzinach)
+    newSocket.on('timer_alert', (alert: TimerAlert) => {
+      setTimerAlerts((prev) => [alert, ...prev.filter((a) => a.id !== alert.id)].slice(0, 5));
+    });
+
     return () => {
       newSocket.close();
     };
@@ -889,6 +943,14 @@ function Dashboard({ theme, onToggleTheme }: DashboardProps) {
             >
               Zarobki
             </button>
+            {(isAdmin || isPm) && (
+              <button
+                onClick={() => setActiveTab('estimates')}
+                  className={getTabButtonClasses(activeTab === 'estimates')}
+              >
+                Estymaty
+              </button>
+            )}
             </div>
             {isAdmin && token && activeTab === 'live' && (
               <Button
@@ -917,6 +979,23 @@ function Dashboard({ theme, onToggleTheme }: DashboardProps) {
       </header>
 
       <main className="max-w-6xl mx-auto px-4 py-8">
+        {timerAlerts.map((alert) => (
+          <div
+            key={alert.id}
+            className="mb-4 flex items-center gap-3 rounded-lg border border-amber-500/40 bg-amber-500/10 px-4 py-2 text-sm text-amber-200"
+          >
+            <span className="flex-1">
+              {String(user?.clickup_user_id) === alert.user_id ? 'Twój timer' : alert.user_name}: {alert.message}
+              {alert.task_name && <span className="text-amber-200/70"> — {alert.task_name}</span>}
+            </span>
+            <button
+              onClick={() => setTimerAlerts((prev) => prev.filter((a) => a.id !== alert.id))}
+              className="text-xs text-amber-200/80 hover:text-amber-100"
+            >
+              Zamknij
+            </button>
+          </div>
+        ))}
         {activeTab === 'home' ? (
           <HomeTab />
         ) : activeTab === 'live' ? (
@@ -966,6 +1045,8 @@ function Dashboard({ theme, onToggleTheme }: DashboardProps) {
           />
         ) : activeTab === 'stats' ? (
           <StatsTab />
+        ) : activeTab === 'estimates' ? (
+          <EstimatesTab />
         ) : (
           <EarningsTab showNotionSync={isAdmin && isNotionSyncOpen} />
         )}
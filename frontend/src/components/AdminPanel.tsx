@@ -1,5 +1,17 @@
 import { useState, useEffect, FormEvent } from 'react';
 import { useAuth } from '../contexts/AuthContext';
+import { ClickUpWebhooks } from './ClickUpWebhooks';
+import { ClickUpWorkspaces } from './ClickUpWorkspaces';
+import { WebhookSettings } from './WebhookSettings';
+import { WebhookEvents } from './WebhookEvents';
+import { SyncReports } from './SyncReports';
+import { ReconcileReport } from './ReconcileReport';
+import { BackgroundJobs } from './BackgroundJobs';
+import { LongEntriesReview } from './LongEntriesReview';
+import { DurationPolicies } from './DurationPolicies';
+import { OverlapsReport } from './OverlapsReport';
+import { ProjectPricing } from './ProjectPricing';
+import { waitForJob } from '../utils/jobs';
 
 const API_URL = import.meta.env.VITE_API_URL || '';
 
@@ -299,7 +311,16 @@ export function AdminPanel() {
       });
 
       const data = await response.json();
-      setFixResult(data);
+      if (!response.ok) {
+        throw new Error(data.error || 'Blad naprawy wpisow');
+      }
+
+      // Naprawa działa jako zadanie w tle — czekamy na wynik
+      const job = await waitForJob(token!, data.job.id);
+      if (job.status !== 'succeeded') {
+        throw new Error(job.error || 'Blad naprawy wpisow');
+      }
+      setFixResult(job.result as { message: string; fixed?: number });
     } catch (err) {
       setFixResult({ message: 'Blad naprawy wpisow' });
     } finally {
@@ -592,6 +613,30 @@ export function AdminPanel() {
         </div>
       </div>
 
+      {/* ── Workspaces Section (kilka workspace'ów ClickUp) ──────────────── */}
+      {token && <ClickUpWorkspaces token={token} />}
+
+      {/* ── Webhooks Section (rejestracja, podpisy, odrzucenia, dziennik) ── */}
+      {token && <ClickUpWebhooks token={token} />}
+      {token && <WebhookSettings token={token} />}
+      {token && <WebhookEvents token={token} />}
+
+      {/* ── Sync Section (nocna re-synchronizacja time entries) ───────────── */}
+      {token && <SyncReports token={token} />}
+      {token && <ReconcileReport token={token} />}
+
+      {/* ── Duration limits Section (limity długości wpisów) ──────────────── */}
+      {token && <DurationPolicies token={token} />}
+
+      {/* ── Forgotten timers Section (wpisy ponad limit, alerty) ─────────── */}
+      {token && <LongEntriesReview token={token} />}
+
+      {/* ── Overlaps Section (nakładające się wpisy, wykluczenia z zarobków) ── */}
+      {token && <OverlapsReport token={token} />}
+
+      {/* ── Jobs Section (zadania w tle: import, backfill, sync Notion) ───── */}
+      {token && <BackgroundJobs token={token} />}
+
       {/* ── Projects Section (is_internal toggle) ────────────────────────── */}
       <div className="bg-card rounded-2xl border border-border p-4 mb-6">
         <h2 className="text-lg font-semibold text-foreground mb-3">Projekty</h2>
@@ -656,6 +701,9 @@ export function AdminPanel() {
         )}
       </div>
 
+      {/* ── Project pricing Section (wersje stawki i budżetu) ────────────── */}
+      {token && <ProjectPricing token={token} />}
+
       {/* Create User Modal */}
       {showCreateForm && (
         <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
@@ -0,0 +1,223 @@
+import { useEffect, useState } from 'react';
+import { formatDateTime } from '../utils/formatters';
+import { Job, JobStatus, cancelJob, isJobActive } from '../utils/jobs';
+
+const API_URL = import.meta.env.VITE_API_URL || '';
+
+const STATUS_STYLES: Record<JobStatus, string> = {
+  queued: 'bg-zinc-500/20 text-zinc-300',
+  running: 'bg-blue-500/20 text-blue-300',
+  succeeded: 'bg-emerald-500/20 text-emerald-300',
+  failed: 'bg-red-500/20 text-red-300',
+  cancelled: 'bg-amber-500/20 text-amber-300',
+};
+
+const STATUS_LABELS: Record<JobStatus, string> = {
+  queued: 'W kolejce',
+  running: 'Trwa',
+  succeeded: 'OK',
+  failed: 'Błąd',
+  cancelled: 'Anulowane',
+};
+
+const TYPE_LABELS: Record<string, string> = {
+  import_time_entries: 'Import time entries',
+  backfill_tasks: 'Uzupełnianie zadań',
+  notion_sync_workers: 'Notion: pracownicy',
+  notion_sync_projects: 'Notion: projekty',
+  fix_durations: 'Naprawa duration=0',
+  sync_hierarchy: 'Hierarchia ClickUp',
+  reconcile_time_entries: 'Uzgodnienie z ClickUp',
+  reconcile_reimport: 'Ponowny import rozbieżnych dni',
+};
+
+function describeProgress(job: Job): string {
+  const progress = job.progress;
+  if (!progress) return isJobActive(job) ? '…' : '';
+
+  if (job.type === 'import_time_entries') {
+    return `użytkownik ${progress.user}/${progress.totalUsers}, pobrano ${progress.fetched ?? 0}, zapisano ${progress.saved ?? 0}`;
+  }
+  if (progress.total !== undefined) {
+    return `${progress.processed ?? 0}/${progress.total}`;
+  }
+  return '';
+}
+
+function describeResult(job: Job): string {
+  const result = job.result;
+  if (!result) return '';
+  if (typeof result.message === 'string') return result.message;
+  if (job.type === 'import_time_entries') {
+    return `zapisano ${result.saved} z ${result.fetched} (pominięto ${result.skipped})`;
+  }
+  if (job.type === 'backfill_tasks') {
+    return `uzupełniono ${result.updated} z ${result.requested}`;
+  }
+  if (result.saved !== undefined) {
+    return `zapisano ${result.saved}, pominięto ${result.skipped ?? 0}`;
+  }
+  return '';
+}
+
+export function BackgroundJobs({ token }: { token: string }) {
+  const [jobs, setJobs] = useState<Job[]>([]);
+  const [busyId, setBusyId] = useState<number | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchJobs = async () => {
+    try {
+      const response = await fetch(`${API_URL}/admin/jobs?limit=30`, {
+        headers: { Authorization: `Bearer ${token}` },
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Błąd pobierania zadań');
+      }
+      setJobs(data.jobs || []);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Błąd pobierania zadań');
+    }
+  };
+
+  useEffect(() => {
+    fetchJobs();
+  }, [token]);
+
+  // Odświeżaj częściej, dopóki coś czeka lub trwa
+  const hasActive = jobs.some(isJobActive);
+  useEffect(() => {
+    const timer = setTimeout(fetchJobs, hasActive ? 2000 : 15000);
+    return () => clearTimeout(timer);
+  }, [jobs, hasActive]);
+
+  const handleCancel = async (job: Job) => {
+    setBusyId(job.id);
+    setMessage(null);
+    setError(null);
+    try {
+      await cancelJob(token, job.id);
+      setMessage(job.status === 'running' ? `Zadanie #${job.id} zostanie przerwane` : `Zadanie #${job.id} anulowane`);
+      fetchJobs();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Błąd anulowania zadania');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleResume = async (job: Job) => {
+    setBusyId(job.id);
+    setMessage(null);
+    setError(null);
+    try {
+      const response = await fetch(`${API_URL}/admin/jobs/${job.id}/resume`, {
+        method: 'POST',
+        headers: { Authorization: `Bearer ${token}` },
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.details || data.error || 'Błąd wznawiania zadania');
+      }
+      setMessage(data.message);
+      fetchJobs();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Błąd wznawiania zadania');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <div className="bg-card rounded-2xl border border-border p-4 mb-6">
+      <div className="flex items-center justify-between mb-1">
+        <h2 className="text-lg font-semibold text-foreground">Zadania w tle</h2>
+        <button onClick={fetchJobs} className="px-2 py-1 text-foreground/80 hover:text-foreground text-xs">
+          Odśwież
+        </button>
+      </div>
+      <p className="text-xs text-muted-foreground mb-3">
+        Import, uzupełnianie zadań, synchronizacja Notion i naprawy działają na serwerze — zamknięcie karty ich nie
+        przerywa. Przerwany import można wznowić od ostatniej strony.
+      </p>
+
+      {message && <div className="mb-3 text-sm text-emerald-400">{message}</div>}
+      {error && <div className="mb-3 text-sm text-destructive">{error}</div>}
+
+      {jobs.length === 0 ? (
+        <p className="text-sm text-muted-foreground">Brak zadań</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead>
+              <tr className="border-b border-border">
+                <th className="px-3 py-2 text-left text-xs font-medium text-muted-foreground">#</th>
+                <th className="px-3 py-2 text-left text-xs font-medium text-muted-foreground">Zadanie</th>
+                <th className="px-3 py-2 text-left text-xs font-medium text-muted-foreground">Status</th>
+                <th className="px-3 py-2 text-left text-xs font-medium text-muted-foreground">Postęp / wynik</th>
+                <th className="px-3 py-2 text-left text-xs font-medium text-muted-foreground">Utworzono</th>
+                <th className="px-3 py-2 text-right text-xs font-medium text-muted-foreground">Akcje</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-border/50">
+              {jobs.map((job) => (
+                <tr key={job.id}>
+                  <td className="px-3 py-2 text-xs font-mono text-muted-foreground">{job.id}</td>
+                  <td className="px-3 py-2 text-xs">
+                    <div className="text-foreground">{TYPE_LABELS[job.type] || job.type}</div>
+                    {job.type === 'import_time_entries' && job.params && (
+                      <div className="text-muted-foreground">
+                        {String(job.params.start).split('T')[0]} → {String(job.params.end).split('T')[0]}
+                      </div>
+                    )}
+                  </td>
+                  <td className="px-3 py-2 text-xs whitespace-nowrap">
+                    <span className={`px-1.5 py-0.5 rounded text-[10px] font-semibold ${STATUS_STYLES[job.status]}`}>
+                      {STATUS_LABELS[job.status]}
+                    </span>
+                    {job.cancel_requested && job.status === 'running' && (
+                      <span className="ml-1 text-amber-300">przerywanie…</span>
+                    )}
+                    {job.attempts > 1 && <span className="ml-1 text-muted-foreground">próba {job.attempts}</span>}
+                  </td>
+                  <td className="px-3 py-2 text-xs text-muted-foreground">
+                    {isJobActive(job) ? describeProgress(job) : describeResult(job)}
+                    {job.error && job.status === 'failed' && (
+                      <div className="text-destructive break-all">{job.error}</div>
+                    )}
+                  </td>
+                  <td className="px-3 py-2 text-xs text-muted-foreground whitespace-nowrap">
+                    {formatDateTime(job.created_at)}
+                    {job.created_by_username && <div>{job.created_by_username}</div>}
+                  </td>
+                  <td className="px-3 py-2 text-right whitespace-nowrap">
+                    {isJobActive(job) && !job.cancel_requested && (
+                      <button
+                        onClick={() => handleCancel(job)}
+                        disabled={busyId === job.id}
+                        className="px-2 py-1 text-destructive/80 hover:text-destructive text-xs disabled:opacity-50"
+                      >
+                        Anuluj
+                      </button>
+                    )}
+                    {(job.status === 'failed' || job.status === 'cancelled') && (
+                      <button
+                        onClick={() => handleResume(job)}
+                        disabled={busyId === job.id}
+                        className="px-2 py-1 text-blue-400 hover:text-blue-300 text-xs disabled:opacity-50"
+                      >
+                        Wznów
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
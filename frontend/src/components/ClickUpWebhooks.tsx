@@ -0,0 +1,290 @@
+import { useEffect, useState, FormEvent } from 'react';
+import { WorkspaceSelect } from './WorkspaceSelect';
+
+const API_URL = import.meta.env.VITE_API_URL || '';
+
+type ClickUpWebhookRow = {
+  id: string;
+  endpoint: string;
+  events: string[];
+  status: string;
+  fail_count: number;
+  has_secret: boolean;
+  space_id: string | null;
+  folder_id: string | null;
+  list_id: string | null;
+  task_id: string | null;
+};
+
+const STATUS_STYLES: Record<string, string> = {
+  active: 'bg-emerald-500/20 text-emerald-300',
+  failing: 'bg-amber-500/20 text-amber-300',
+  suspended: 'bg-red-500/20 text-red-300',
+  inactive: 'bg-zinc-500/20 text-zinc-300',
+};
+
+const STATUS_LABELS: Record<string, string> = {
+  active: 'Aktywny',
+  failing: 'Błędy',
+  suspended: 'Zawieszony',
+  inactive: 'Nieaktywny',
+};
+
+function getDefaultEndpoint(): string {
+  return `${API_URL || window.location.origin}/webhook/clickup`;
+}
+
+export function ClickUpWebhooks({ token }: { token: string }) {
+  const [webhooks, setWebhooks] = useState<ClickUpWebhookRow[]>([]);
+  const [teamId, setTeamId] = useState<string | null>(null);
+  // Wybrany workspace ('' = domyślny)
+  const [workspaceId, setWorkspaceId] = useState('');
+  const teamQuery = workspaceId ? `?team_id=${encodeURIComponent(workspaceId)}` : '';
+  const [defaultEvents, setDefaultEvents] = useState<string[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const [endpoint, setEndpoint] = useState(getDefaultEndpoint());
+  const [selectedEvents, setSelectedEvents] = useState<Set<string>>(new Set());
+  const [saving, setSaving] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [confirmDeleteId, setConfirmDeleteId] = useState<string | null>(null);
+
+  const fetchWebhooks = async () => {
+    setLoading(true);
+    try {
+      const response = await fetch(`${API_URL}/admin/webhooks${teamQuery}`, {
+        headers: { Authorization: `Bearer ${token}` },
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.details || data.error || 'Błąd pobierania webhooków');
+      }
+      setWebhooks(data.webhooks || []);
+      setTeamId(data.team_id || null);
+      setDefaultEvents(data.default_events || []);
+      setSelectedEvents((prev) => (prev.size > 0 ? prev : new Set(data.default_events || [])));
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Błąd pobierania webhooków');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchWebhooks();
+  }, [token, workspaceId]);
+
+  const toggleEvent = (event: string) => {
+    setSelectedEvents((prev) => {
+      const next = new Set(prev);
+      if (next.has(event)) next.delete(event);
+      else next.add(event);
+      return next;
+    });
+  };
+
+  const handleCreate = async (e: FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    setError(null);
+    setMessage(null);
+
+    try {
+      const response = await fetch(`${API_URL}/admin/webhooks`, {
+        method: 'POST',
+        headers: {
+          Authorization: `Bearer ${token}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          endpoint: endpoint.trim(),
+          events: Array.from(selectedEvents),
+          team_id: workspaceId || undefined,
+        }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.details || data.error || 'Błąd tworzenia webhooka');
+      }
+      setMessage(data.message);
+      fetchWebhooks();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Błąd tworzenia webhooka');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleEnable = async (webhookId: string) => {
+    setBusyId(webhookId);
+    setError(null);
+    setMessage(null);
+    try {
+      const response = await fetch(`${API_URL}/admin/webhooks/${encodeURIComponent(webhookId)}/enable${teamQuery}`, {
+        method: 'POST',
+        headers: { Authorization: `Bearer ${token}` },
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.details || data.error || 'Błąd aktywacji webhooka');
+      }
+      setMessage(data.message);
+      fetchWebhooks();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Błąd aktywacji webhooka');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleDelete = async (webhookId: string) => {
+    if (confirmDeleteId !== webhookId) {
+      setConfirmDeleteId(webhookId);
+      return;
+    }
+
+    setConfirmDeleteId(null);
+    setBusyId(webhookId);
+    setError(null);
+    setMessage(null);
+    try {
+      const response = await fetch(`${API_URL}/admin/webhooks/${encodeURIComponent(webhookId)}${teamQuery}`, {
+        method: 'DELETE',
+        headers: { Authorization: `Bearer ${token}` },
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.details || data.error || 'Błąd usuwania webhooka');
+      }
+      setMessage(data.message);
+      fetchWebhooks();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Błąd usuwania webhooka');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <div className="bg-card rounded-2xl border border-border p-4 mb-6">
+      <div className="flex items-center justify-between mb-3">
+        <h2 className="text-lg font-semibold text-foreground">
+          Rejestracja webhooków ClickUp
+          {teamId && <span className="ml-2 text-xs font-normal text-muted-foreground font-mono">team {teamId}</span>}
+        </h2>
+        <div className="flex items-center gap-2">
+          <WorkspaceSelect token={token} value={workspaceId} onChange={setWorkspaceId} className="py-1 text-xs" />
+          <button
+            onClick={fetchWebhooks}
+            disabled={loading}
+            className="px-2 py-1 text-foreground/80 hover:text-foreground text-xs disabled:opacity-50"
+          >
+            {loading ? 'Ładowanie...' : 'Odśwież'}
+          </button>
+        </div>
+      </div>
+
+      {message && <div className="mb-3 text-sm text-emerald-400">{message}</div>}
+      {error && <div className="mb-3 text-sm text-destructive">{error}</div>}
+
+      {webhooks.length > 0 ? (
+        <div className="overflow-x-auto mb-4">
+          <table className="w-full">
+            <thead>
+              <tr className="border-b border-border">
+                <th className="px-3 py-2 text-left text-xs font-medium text-muted-foreground">Endpoint</th>
+                <th className="px-3 py-2 text-left text-xs font-medium text-muted-foreground">Eventy</th>
+                <th className="px-3 py-2 text-left text-xs font-medium text-muted-foreground">Status</th>
+                <th className="px-3 py-2 text-left text-xs font-medium text-muted-foreground">Sekret</th>
+                <th className="px-3 py-2 text-right text-xs font-medium text-muted-foreground">Akcje</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-border/50">
+              {webhooks.map((webhook) => (
+                <tr key={webhook.id}>
+                  <td className="px-3 py-2 text-xs">
+                    <div className="font-mono text-foreground break-all">{webhook.endpoint}</div>
+                    <div className="font-mono text-muted-foreground">{webhook.id}</div>
+                  </td>
+                  <td className="px-3 py-2 text-xs text-muted-foreground">{webhook.events.join(', ') || '—'}</td>
+                  <td className="px-3 py-2 text-xs whitespace-nowrap">
+                    <span
+                      className={`px-1.5 py-0.5 rounded text-[10px] font-semibold ${
+                        STATUS_STYLES[webhook.status] || STATUS_STYLES.inactive
+                      }`}
+                    >
+                      {STATUS_LABELS[webhook.status] || webhook.status}
+                    </span>
+                    {webhook.fail_count > 0 && (
+                      <span className="ml-1 text-destructive">błędów: {webhook.fail_count}</span>
+                    )}
+                  </td>
+                  <td className="px-3 py-2 text-xs">
+                    {webhook.has_secret ? (
+                      <span className="text-emerald-400">zapisany</span>
+                    ) : (
+                      <span className="text-destructive">brak</span>
+                    )}
+                  </td>
+                  <td className="px-3 py-2 text-right whitespace-nowrap">
+                    {webhook.status !== 'active' && (
+                      <button
+                        onClick={() => handleEnable(webhook.id)}
+                        disabled={busyId === webhook.id}
+                        className="px-2 py-1 text-blue-400 hover:text-blue-300 text-xs disabled:opacity-50"
+                      >
+                        Aktywuj
+                      </button>
+                    )}
+                    <button
+                      onClick={() => handleDelete(webhook.id)}
+                      onBlur={() => setConfirmDeleteId(null)}
+                      disabled={busyId === webhook.id}
+                      className="px-2 py-1 text-destructive/80 hover:text-destructive text-xs disabled:opacity-50"
+                    >
+                      {confirmDeleteId === webhook.id ? 'Na pewno?' : 'Usuń'}
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      ) : (
+        !loading && !error && (
+          <p className="text-sm text-muted-foreground mb-4">Brak webhooków zarejestrowanych w ClickUp</p>
+        )
+      )}
+
+      <h3 className="text-sm font-semibold text-foreground mb-2">Nowy webhook</h3>
+      <form onSubmit={handleCreate} className="space-y-2">
+        <input
+          type="url"
+          value={endpoint}
+          onChange={(e) => setEndpoint(e.target.value)}
+          placeholder="https://twoja-domena.pl/webhook/clickup"
+          className="w-full max-w-xl px-2 py-1 bg-background border border-border rounded text-sm text-foreground font-mono focus:outline-none focus:ring-2 focus:ring-ring"
+          required
+        />
+        <div className="flex flex-wrap items-center gap-3">
+          {defaultEvents.map((event) => (
+            <label key={event} className="flex items-center gap-1 text-xs text-muted-foreground">
+              <input type="checkbox" checked={selectedEvents.has(event)} onChange={() => toggleEvent(event)} />
+              <span className="font-mono">{event}</span>
+            </label>
+          ))}
+          <button
+            type="submit"
+            disabled={saving || !endpoint.trim() || selectedEvents.size === 0}
+            className="px-3 py-1 bg-emerald-600 text-white text-xs rounded hover:bg-emerald-700 disabled:opacity-50"
+          >
+            {saving ? '...' : 'Utwórz webhook'}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
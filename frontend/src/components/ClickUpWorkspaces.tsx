@@ -0,0 +1,348 @@
+import { useEffect, useState, FormEvent } from 'react';
+import { formatDateTime } from '../utils/formatters';
+
+const API_URL = import.meta.env.VITE_API_URL || '';
+
+type WorkspaceRow = {
+  team_id: string;
+  name: string;
+  is_default: boolean;
+  is_active: boolean;
+  has_own_token: boolean;
+  has_own_webhook_secret: boolean;
+  long_entry_policy: string | null;
+  effective_long_entry_policy: string;
+  maskedToken: string | null;
+  maskedWebhookSecret: string | null;
+  stats: { time_entries: number; users: number; last_entry_at: string | null };
+};
+
+// Wpisy dłuższe niż limit: cap = przytnij, drop = pomiń, flag = do przejrzenia w "Zapomniane timery"
+const LONG_ENTRY_POLICY_LABELS: Record<string, string> = {
+  cap: 'Przytnij',
+  drop: 'Pomiń',
+  flag: 'Do przejrzenia',
+};
+
+const inputClass =
+  'px-2 py-1.5 bg-background border border-border rounded text-xs text-foreground focus:outline-none focus:ring-2 focus:ring-ring';
+
+export function ClickUpWorkspaces({ token }: { token: string }) {
+  const [workspaces, setWorkspaces] = useState<WorkspaceRow[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [confirmDeleteId, setConfirmDeleteId] = useState<string | null>(null);
+
+  const [teamId, setTeamId] = useState('');
+  const [name, setName] = useState('');
+  const [apiToken, setApiToken] = useState('');
+  const [webhookSecret, setWebhookSecret] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const fetchWorkspaces = async () => {
+    try {
+      const response = await fetch(`${API_URL}/admin/workspaces`, {
+        headers: { Authorization: `Bearer ${token}` },
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Błąd pobierania workspace\'ów');
+      }
+      setWorkspaces(data.workspaces || []);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Błąd pobierania workspace\'ów');
+    }
+  };
+
+  useEffect(() => {
+    fetchWorkspaces();
+  }, [token]);
+
+  const saveWorkspace = async (id: string, body: Record<string, unknown>) => {
+    const response = await fetch(`${API_URL}/admin/workspaces/${encodeURIComponent(id)}`, {
+      method: 'PUT',
+      headers: {
+        Authorization: `Bearer ${token}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(body),
+    });
+    const data = await response.json();
+    if (!response.ok) {
+      throw new Error(data.error || 'Błąd zapisu workspace\'u');
+    }
+    return data as { message: string };
+  };
+
+  const handleSave = async (e: FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    setError(null);
+    setMessage(null);
+
+    try {
+      // Puste pola tokenu/sekretu przy edycji = bez zmian
+      const data = await saveWorkspace(teamId.trim(), {
+        name: name.trim(),
+        api_token: apiToken.trim() || undefined,
+        webhook_secret: webhookSecret.trim() || undefined,
+      });
+      setMessage(data.message);
+      setTeamId('');
+      setName('');
+      setApiToken('');
+      setWebhookSecret('');
+      fetchWorkspaces();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Błąd zapisu workspace\'u');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleToggleActive = async (workspace: WorkspaceRow) => {
+    setBusyId(workspace.team_id);
+    setError(null);
+    setMessage(null);
+    try {
+      const data = await saveWorkspace(workspace.team_id, { name: workspace.name, is_active: !workspace.is_active });
+      setMessage(data.message);
+      fetchWorkspaces();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Błąd zapisu workspace\'u');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handlePolicyChange = async (workspace: WorkspaceRow, policy: string) => {
+    setBusyId(workspace.team_id);
+    setError(null);
+    setMessage(null);
+    try {
+      const data = await saveWorkspace(workspace.team_id, { name: workspace.name, long_entry_policy: policy });
+      setMessage(data.message);
+      fetchWorkspaces();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Błąd zapisu workspace\'u');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    if (confirmDeleteId !== id) {
+      setConfirmDeleteId(id);
+      return;
+    }
+
+    setConfirmDeleteId(null);
+    setBusyId(id);
+    setError(null);
+    setMessage(null);
+    try {
+      const response = await fetch(`${API_URL}/admin/workspaces/${encodeURIComponent(id)}`, {
+        method: 'DELETE',
+        headers: { Authorization: `Bearer ${token}` },
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Błąd usuwania workspace\'u');
+      }
+      setMessage(data.message);
+      fetchWorkspaces();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Błąd usuwania workspace\'u');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  // Space'y / foldery / listy — zadanie w tle (także co noc razem z re-synchronizacją)
+  const handleSyncHierarchy = async (id?: string) => {
+    setBusyId(id ?? 'hierarchy');
+    setError(null);
+    setMessage(null);
+    try {
+      const response = await fetch(`${API_URL}/admin/jobs`, {
+        method: 'POST',
+        headers: {
+          Authorization: `Bearer ${token}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ type: 'sync_hierarchy', params: id ? { team_id: id } : {} }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Błąd synchronizacji hierarchii');
+      }
+      setMessage(data.message);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Błąd synchronizacji hierarchii');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const startEdit = (workspace: WorkspaceRow) => {
+    setTeamId(workspace.team_id);
+    setName(workspace.name);
+    setApiToken('');
+    setWebhookSecret('');
+  };
+
+  return (
+    <div className="bg-card rounded-2xl border border-border p-4 mb-6">
+      <div className="flex items-center justify-between mb-1">
+        <h2 className="text-lg font-semibold text-foreground">Workspace'y ClickUp</h2>
+        <div>
+          <button
+            onClick={() => handleSyncHierarchy()}
+            disabled={busyId === 'hierarchy'}
+            className="px-2 py-1 text-blue-400 hover:text-blue-300 text-xs disabled:opacity-50"
+          >
+            Synchronizuj hierarchię
+          </button>
+          <button onClick={fetchWorkspaces} className="px-2 py-1 text-foreground/80 hover:text-foreground text-xs">
+            Odśwież
+          </button>
+        </div>
+      </div>
+      <p className="text-xs text-muted-foreground mb-3">
+        Domyślny workspace to CLICKUP_TEAM_ID. Kolejne mogą mieć własny token API i sekret webhooków — bez nich
+        używane są ustawienia globalne. Po dodaniu workspace'u zaimportuj jego historię.
+      </p>
+
+      {message && <div className="mb-3 text-sm text-emerald-400">{message}</div>}
+      {error && <div className="mb-3 text-sm text-destructive">{error}</div>}
+
+      <div className="overflow-x-auto mb-4">
+        <table className="w-full">
+          <thead>
+            <tr className="border-b border-border">
+              <th className="px-3 py-2 text-left text-xs font-medium text-muted-foreground">Workspace</th>
+              <th className="px-3 py-2 text-left text-xs font-medium text-muted-foreground">Token</th>
+              <th className="px-3 py-2 text-left text-xs font-medium text-muted-foreground">Sekret webhooków</th>
+              <th className="px-3 py-2 text-left text-xs font-medium text-muted-foreground">Wpisy ponad limit</th>
+              <th className="px-3 py-2 text-right text-xs font-medium text-muted-foreground">Wpisy</th>
+              <th className="px-3 py-2 text-left text-xs font-medium text-muted-foreground">Ostatni wpis</th>
+              <th className="px-3 py-2 text-right text-xs font-medium text-muted-foreground">Akcje</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-border/50">
+            {workspaces.map((workspace) => (
+              <tr key={workspace.team_id} className={workspace.is_active ? '' : 'opacity-60'}>
+                <td className="px-3 py-2 text-xs">
+                  <div className="text-foreground">
+                    {workspace.name}
+                    {workspace.is_default && <span className="ml-1 text-muted-foreground">(domyślny)</span>}
+                    {!workspace.is_active && <span className="ml-1 text-amber-300">wyłączony</span>}
+                  </div>
+                  <div className="font-mono text-muted-foreground">{workspace.team_id}</div>
+                </td>
+                <td className="px-3 py-2 text-xs font-mono text-muted-foreground">
+                  {workspace.maskedToken || '—'}
+                  {!workspace.has_own_token && workspace.maskedToken && <span className="ml-1 font-sans">(globalny)</span>}
+                </td>
+                <td className="px-3 py-2 text-xs font-mono text-muted-foreground">
+                  {workspace.maskedWebhookSecret || '—'}
+                  {!workspace.has_own_webhook_secret && workspace.maskedWebhookSecret && (
+                    <span className="ml-1 font-sans">(globalny)</span>
+                  )}
+                </td>
+                <td className="px-3 py-2 text-xs">
+                  <select
+                    value={workspace.long_entry_policy ?? ''}
+                    onChange={(e) => handlePolicyChange(workspace, e.target.value)}
+                    disabled={busyId === workspace.team_id}
+                    className={inputClass}
+                  >
+                    <option value="">
+                      Globalnie
+                      {!workspace.long_entry_policy &&
+                        ` (${LONG_ENTRY_POLICY_LABELS[workspace.effective_long_entry_policy] ?? workspace.effective_long_entry_policy})`}
+                    </option>
+                    {Object.entries(LONG_ENTRY_POLICY_LABELS).map(([value, label]) => (
+                      <option key={value} value={value}>
+                        {label}
+                      </option>
+                    ))}
+                  </select>
+                </td>
+                <td className="px-3 py-2 text-xs text-right text-foreground">{workspace.stats.time_entries}</td>
+                <td className="px-3 py-2 text-xs text-muted-foreground whitespace-nowrap">
+                  {formatDateTime(workspace.stats.last_entry_at)}
+                </td>
+                <td className="px-3 py-2 text-right whitespace-nowrap">
+                  <button
+                    onClick={() => startEdit(workspace)}
+                    className="px-2 py-1 text-foreground/80 hover:text-foreground text-xs"
+                  >
+                    Edytuj
+                  </button>
+                  {!workspace.is_default && (
+                    <>
+                      <button
+                        onClick={() => handleToggleActive(workspace)}
+                        disabled={busyId === workspace.team_id}
+                        className="px-2 py-1 text-blue-400 hover:text-blue-300 text-xs disabled:opacity-50"
+                      >
+                        {workspace.is_active ? 'Wyłącz' : 'Włącz'}
+                      </button>
+                      <button
+                        onClick={() => handleDelete(workspace.team_id)}
+                        disabled={busyId === workspace.team_id}
+                        className="px-2 py-1 text-destructive/80 hover:text-destructive text-xs disabled:opacity-50"
+                      >
+                        {confirmDeleteId === workspace.team_id ? 'Na pewno?' : 'Usuń'}
+                      </button>
+                    </>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <form onSubmit={handleSave} className="grid grid-cols-1 sm:grid-cols-5 gap-2 items-end">
+        <input
+          type="text"
+          placeholder="Team ID"
+          value={teamId}
+          onChange={(e) => setTeamId(e.target.value)}
+          className={`${inputClass} font-mono`}
+        />
+        <input
+          type="text"
+          placeholder="Nazwa"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          className={inputClass}
+        />
+        <input
+          type="password"
+          placeholder="Token API (opcjonalnie)"
+          value={apiToken}
+          onChange={(e) => setApiToken(e.target.value)}
+          className={inputClass}
+        />
+        <input
+          type="password"
+          placeholder="Sekret webhooków (opcjonalnie)"
+          value={webhookSecret}
+          onChange={(e) => setWebhookSecret(e.target.value)}
+          className={inputClass}
+        />
+        <button
+          type="submit"
+          disabled={saving || !teamId.trim() || !name.trim()}
+          className="px-3 py-1.5 bg-emerald-600 text-white text-xs rounded hover:bg-emerald-700 disabled:opacity-50"
+        >
+          {saving ? 'Zapisuję...' : 'Zapisz workspace'}
+        </button>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,193 @@
+import { useEffect, useState } from 'react';
+import { formatHours } from '../utils/formatters';
+
+const API_URL = import.meta.env.VITE_API_URL || '';
+
+type TimelineSpan = { start: string; end: string; duration: number };
+
+type TimelineEntry = {
+  id: string;
+  task_id: string | null;
+  task_name: string | null;
+  start: string;
+  end: string;
+  running: boolean;
+};
+
+type DayTimelineData = {
+  date: string;
+  timezone: string;
+  day: { start: string; end: string };
+  work_window: { start: string; end: string; label: string };
+  first_start: string | null;
+  last_stop: string | null;
+  tracked_duration: number;
+  tracked_in_window: number;
+  untracked_in_window: number;
+  longest_gap: TimelineSpan | null;
+  blocks: TimelineSpan[];
+  gaps: TimelineSpan[];
+  entries: TimelineEntry[];
+};
+
+type TimelineUser = { id: string; username: string };
+
+function today(): string {
+  return new Date().toISOString().split('T')[0];
+}
+
+function formatMs(ms: number): string {
+  return formatHours(ms / 3600000);
+}
+
+/**
+ * Pasek dnia jednego pracownika: bloki z trackingiem na tle godzin pracy, przerwy w oknie
+ * zaznaczone na czerwono. Godziny w strefie firmy (POLL_TIMEZONE), nie przeglądarki.
+ */
+export function DayTimeline({ token, users }: { token: string; users: TimelineUser[] }) {
+  const [userId, setUserId] = useState(users[0]?.id || '');
+  const [date, setDate] = useState(today());
+  const [data, setData] = useState<DayTimelineData | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Lista osób zależy od filtrów zakładki — wybrana osoba mogła z niej zniknąć
+  useEffect(() => {
+    if (users.length > 0 && !users.some((user) => user.id === userId)) {
+      setUserId(users[0].id);
+    }
+  }, [users]);
+
+  useEffect(() => {
+    if (!userId || !date) return;
+    setLoading(true);
+    fetch(`${API_URL}/api/users/${userId}/day-timeline?date=${date}`, {
+      headers: { Authorization: `Bearer ${token}` },
+    })
+      .then(async (response) => {
+        const body = await response.json();
+        if (!response.ok) {
+          throw new Error(body.details || body.error || 'Błąd pobierania osi dnia');
+        }
+        setData(body);
+        setError(null);
+      })
+      .catch((err) => {
+        setData(null);
+        setError(err instanceof Error ? err.message : 'Błąd pobierania osi dnia');
+      })
+      .finally(() => setLoading(false));
+  }, [token, userId, date]);
+
+  const formatTime = (value: string | null) =>
+    value
+      ? new Date(value).toLocaleTimeString('pl-PL', { hour: '2-digit', minute: '2-digit', timeZone: data?.timezone })
+      : '—';
+
+  // Pozycja na pasku w % doby (doba ze zmianą czasu ma 23 lub 25 h)
+  const dayStart = data ? new Date(data.day.start).getTime() : 0;
+  const dayLength = data ? new Date(data.day.end).getTime() - dayStart : 1;
+  const spanStyle = (span: { start: string; end: string }) => ({
+    left: `${((new Date(span.start).getTime() - dayStart) / dayLength) * 100}%`,
+    width: `${((new Date(span.end).getTime() - new Date(span.start).getTime()) / dayLength) * 100}%`,
+  });
+
+  return (
+    <div className="bg-card rounded-2xl border border-border p-4 mt-8">
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-1">
+        <h2 className="text-lg font-semibold text-foreground">Oś dnia</h2>
+        <div className="flex flex-wrap items-center gap-2">
+          <select
+            value={userId}
+            onChange={(e) => setUserId(e.target.value)}
+            className="px-2 py-1 bg-background border border-border rounded text-xs text-foreground focus:outline-none focus:ring-2 focus:ring-ring"
+          >
+            {users.map((user) => (
+              <option key={user.id} value={user.id}>
+                {user.username}
+              </option>
+            ))}
+          </select>
+          <input
+            type="date"
+            value={date}
+            onChange={(e) => setDate(e.target.value)}
+            className="px-2 py-1 bg-background border border-border rounded text-xs text-foreground focus:outline-none focus:ring-2 focus:ring-ring"
+          />
+        </div>
+      </div>
+      <p className="text-xs text-muted-foreground mb-3">
+        Kiedy pracownik zaczął i skończył trackować oraz ile czasu w godzinach pracy
+        {data ? ` (${data.work_window.label})` : ''} nie ma żadnego wpisu — np. zapomniany timer po przerwie.
+      </p>
+
+      {error && <div className="mb-3 text-sm text-destructive">{error}</div>}
+
+      {!userId ? (
+        <p className="text-sm text-muted-foreground">Brak pracowników</p>
+      ) : !data ? (
+        <p className="text-sm text-muted-foreground">{loading ? 'Ładowanie…' : 'Brak danych'}</p>
+      ) : (
+        <>
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-3 mb-4 text-xs">
+            <div>
+              <div className="text-muted-foreground">Pierwszy start</div>
+              <div className="text-foreground font-mono text-sm">{formatTime(data.first_start)}</div>
+            </div>
+            <div>
+              <div className="text-muted-foreground">Ostatni stop</div>
+              <div className="text-foreground font-mono text-sm">{formatTime(data.last_stop)}</div>
+            </div>
+            <div>
+              <div className="text-muted-foreground">Zalogowane</div>
+              <div className="text-foreground font-mono text-sm">{formatMs(data.tracked_duration)}</div>
+            </div>
+            <div>
+              <div className="text-muted-foreground">Bez wpisu w godz. pracy</div>
+              <div className={`font-mono text-sm ${data.untracked_in_window > 0 ? 'text-red-300' : 'text-foreground'}`}>
+                {formatMs(data.untracked_in_window)}
+              </div>
+            </div>
+            <div>
+              <div className="text-muted-foreground">Najdłuższa przerwa</div>
+              <div className="text-foreground font-mono text-sm">
+                {data.longest_gap
+                  ? `${formatMs(data.longest_gap.duration)} (${formatTime(data.longest_gap.start)}–${formatTime(data.longest_gap.end)})`
+                  : '—'}
+              </div>
+            </div>
+          </div>
+
+          <div className="relative h-8 rounded bg-muted/40 overflow-hidden">
+            <div className="absolute inset-y-0 bg-muted" style={spanStyle(data.work_window)} />
+            {data.gaps.map((gap) => (
+              <div
+                key={`gap-${gap.start}`}
+                className="absolute inset-y-0 bg-red-500/30"
+                style={spanStyle(gap)}
+                title={`Przerwa ${formatTime(gap.start)}–${formatTime(gap.end)} (${formatMs(gap.duration)})`}
+              />
+            ))}
+            {data.entries.map((entry) => (
+              <div
+                key={entry.id}
+                className={`absolute top-1 bottom-1 rounded-sm ${entry.running ? 'bg-emerald-400' : 'bg-primary'}`}
+                style={spanStyle(entry)}
+                title={`${entry.task_name || entry.task_id || '—'}: ${formatTime(entry.start)}–${formatTime(entry.end)}${
+                  entry.running ? ' (trwa)' : ''
+                }`}
+              />
+            ))}
+          </div>
+          <div className="relative h-4 mt-1 text-[10px] text-muted-foreground">
+            {[0, 6, 12, 18].map((hour) => (
+              <span key={hour} className="absolute" style={{ left: `${(hour / 24) * 100}%` }}>
+                {hour}:00
+              </span>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,381 @@
+import { useEffect, useState, FormEvent } from 'react';
+import { formatDateTime, formatHours } from '../utils/formatters';
+
+const API_URL = import.meta.env.VITE_API_URL || '';
+
+type PolicyScope = 'default' | 'user' | 'project' | 'entry';
+
+type Policy = {
+  id: number;
+  scope: PolicyScope;
+  target_id: string;
+  target_name: string | null;
+  max_duration: number;
+  note: string | null;
+  updated_at: string;
+  excluded_count: number;
+  excluded_duration: number;
+};
+
+type ExcludedEntry = {
+  id: string;
+  user_name: string | null;
+  task_id: string | null;
+  task_name: string | null;
+  start_time: string | null;
+  duration: number;
+  max_duration: number;
+  review_status: string | null;
+};
+
+type Option = { id: string; name: string };
+
+const SCOPE_LABELS: Record<PolicyScope, string> = {
+  default: 'Domyślny',
+  user: 'Pracownik',
+  project: 'Projekt',
+  entry: 'Wpis',
+};
+
+const inputClass =
+  'px-2 py-1.5 bg-background border border-border rounded text-xs text-foreground focus:outline-none focus:ring-2 focus:ring-ring';
+
+function formatMs(ms: number): string {
+  return formatHours(ms / 3600000);
+}
+
+/**
+ * Limity długości wpisu: domyślny i nadpisania per pracownik / projekt / wpis
+ * (pierwszeństwo: wpis → pracownik → projekt → domyślny). Wpis ponad swój limit
+ * nie liczy się w statystykach ani zarobkach — przy każdej polityce widać, które wpisy wyklucza.
+ */
+export function DurationPolicies({ token }: { token: string }) {
+  const [policies, setPolicies] = useState<Policy[]>([]);
+  const [users, setUsers] = useState<Option[]>([]);
+  const [projects, setProjects] = useState<Option[]>([]);
+  const [openPolicyId, setOpenPolicyId] = useState<number | null>(null);
+  const [excluded, setExcluded] = useState<ExcludedEntry[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const [scope, setScope] = useState<PolicyScope>('user');
+  const [targetId, setTargetId] = useState('');
+  const [hours, setHours] = useState('');
+  const [note, setNote] = useState('');
+
+  const authHeaders = { Authorization: `Bearer ${token}` };
+
+  const fetchPolicies = async () => {
+    try {
+      const response = await fetch(`${API_URL}/admin/duration-policies`, { headers: authHeaders });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Błąd pobierania limitów');
+      }
+      setPolicies(data.policies || []);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Błąd pobierania limitów');
+    }
+  };
+
+  const fetchExcluded = async (policyId: number) => {
+    try {
+      const response = await fetch(`${API_URL}/admin/duration-policies/${policyId}/excluded`, { headers: authHeaders });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Błąd pobierania wpisów');
+      }
+      setExcluded(data.entries || []);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Błąd pobierania wpisów');
+    }
+  };
+
+  // Listy do wyboru pracownika i projektu
+  const fetchOptions = async () => {
+    try {
+      const [usersResponse, projectsResponse] = await Promise.all([
+        fetch(`${API_URL}/api/users`, { headers: authHeaders }),
+        fetch(`${API_URL}/admin/projects`, { headers: authHeaders }),
+      ]);
+      const usersData = await usersResponse.json();
+      const projectsData = await projectsResponse.json();
+      if (Array.isArray(usersData)) {
+        setUsers(usersData.map((user: { id: string; username: string }) => ({ id: String(user.id), name: user.username })));
+      }
+      if (Array.isArray(projectsData)) {
+        const seen = new Set<string>();
+        setProjects(
+          projectsData
+            .filter((project: { clickup_id: string | null }) => {
+              if (!project.clickup_id || seen.has(project.clickup_id)) return false;
+              seen.add(project.clickup_id);
+              return true;
+            })
+            .map((project: { clickup_id: string; name: string }) => ({ id: project.clickup_id, name: project.name }))
+        );
+      }
+    } catch (err) {
+      console.error('Błąd pobierania list do limitów:', err);
+    }
+  };
+
+  useEffect(() => {
+    fetchPolicies();
+    fetchOptions();
+  }, [token]);
+
+  const togglePolicy = (policyId: number) => {
+    if (openPolicyId === policyId) {
+      setOpenPolicyId(null);
+      return;
+    }
+    setOpenPolicyId(policyId);
+    setExcluded([]);
+    fetchExcluded(policyId);
+  };
+
+  const savePolicy = async (body: Record<string, unknown>) => {
+    setBusy(true);
+    setError(null);
+    setMessage(null);
+    try {
+      const response = await fetch(`${API_URL}/admin/duration-policies`, {
+        method: 'PUT',
+        headers: { ...authHeaders, 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Błąd zapisu limitu');
+      }
+      setMessage(data.message);
+      await fetchPolicies();
+      if (openPolicyId) fetchExcluded(openPolicyId);
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Błąd zapisu limitu');
+      return false;
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    const saved = await savePolicy({ scope, target_id: targetId, hours: Number(hours), note });
+    if (saved) {
+      setTargetId('');
+      setHours('');
+      setNote('');
+    }
+  };
+
+  const handleEditHours = (policy: Policy) => {
+    const value = prompt('Limit (godziny)', String(policy.max_duration / 3600000));
+    if (!value) return;
+    savePolicy({ scope: policy.scope, target_id: policy.target_id, hours: Number(value), note: policy.note ?? '' });
+  };
+
+  // Wyjątek dla jednego wpisu — limit równy jego czasowi (zaokrąglony w górę do 15 min)
+  const handleAllowEntry = (entry: ExcludedEntry) => {
+    const allowedHours = Math.ceil(entry.duration / (15 * 60 * 1000)) / 4;
+    savePolicy({ scope: 'entry', target_id: entry.id, hours: allowedHours, note: 'Dopuszczony z listy wykluczonych' });
+  };
+
+  const handleDelete = async (policy: Policy) => {
+    if (!confirm('Usunąć nadpisanie limitu?')) return;
+    setBusy(true);
+    setError(null);
+    setMessage(null);
+    try {
+      const response = await fetch(`${API_URL}/admin/duration-policies/${policy.id}`, {
+        method: 'DELETE',
+        headers: authHeaders,
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Błąd usuwania limitu');
+      }
+      setMessage(data.message);
+      if (openPolicyId === policy.id) setOpenPolicyId(null);
+      fetchPolicies();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Błąd usuwania limitu');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const targetOptions = scope === 'user' ? users : scope === 'project' ? projects : [];
+
+  return (
+    <div className="bg-card rounded-2xl border border-border p-4 mb-6">
+      <div className="flex items-center justify-between gap-2 mb-1">
+        <h2 className="text-lg font-semibold text-foreground">Limity długości wpisów</h2>
+        <button onClick={fetchPolicies} className="px-2 py-1 text-foreground/80 hover:text-foreground text-xs">
+          Odśwież
+        </button>
+      </div>
+      <p className="text-xs text-muted-foreground mb-3">
+        Wpis dłuższy niż jego limit nie liczy się w statystykach ani zarobkach. Pierwszeństwo: wpis → pracownik →
+        projekt → limit domyślny.
+      </p>
+
+      {message && <div className="mb-3 text-sm text-emerald-400">{message}</div>}
+      {error && <div className="mb-3 text-sm text-destructive">{error}</div>}
+
+      <div className="overflow-x-auto mb-4">
+        <table className="w-full">
+          <thead>
+            <tr className="border-b border-border">
+              <th className="px-3 py-2 text-left text-xs font-medium text-muted-foreground">Zakres</th>
+              <th className="px-3 py-2 text-left text-xs font-medium text-muted-foreground">Dotyczy</th>
+              <th className="px-3 py-2 text-right text-xs font-medium text-muted-foreground">Limit</th>
+              <th className="px-3 py-2 text-right text-xs font-medium text-muted-foreground">Wykluczone</th>
+              <th className="px-3 py-2 text-right text-xs font-medium text-muted-foreground">Akcje</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-border/50">
+            {policies.map((policy) => (
+              <tr key={policy.id} className={openPolicyId === policy.id ? 'bg-muted/30' : ''}>
+                <td className="px-3 py-2 text-xs text-foreground">{SCOPE_LABELS[policy.scope]}</td>
+                <td className="px-3 py-2 text-xs">
+                  <div className="text-foreground">{policy.target_name || (policy.scope === 'default' ? 'Wszystkie wpisy' : '—')}</div>
+                  {policy.target_id && <div className="font-mono text-muted-foreground">{policy.target_id}</div>}
+                  {policy.note && <div className="text-muted-foreground">{policy.note}</div>}
+                </td>
+                <td className="px-3 py-2 text-xs text-right text-foreground font-mono">{formatMs(policy.max_duration)}</td>
+                <td className="px-3 py-2 text-xs text-right">
+                  {policy.excluded_count > 0 ? (
+                    <button onClick={() => togglePolicy(policy.id)} className="text-amber-300 hover:text-amber-200 underline">
+                      {policy.excluded_count} ({formatMs(policy.excluded_duration)})
+                    </button>
+                  ) : (
+                    <span className="text-muted-foreground">0</span>
+                  )}
+                </td>
+                <td className="px-3 py-2 text-right whitespace-nowrap">
+                  <button
+                    onClick={() => handleEditHours(policy)}
+                    disabled={busy}
+                    className="px-2 py-1 text-foreground/80 hover:text-foreground text-xs disabled:opacity-50"
+                  >
+                    Zmień
+                  </button>
+                  {policy.scope !== 'default' && (
+                    <button
+                      onClick={() => handleDelete(policy)}
+                      disabled={busy}
+                      className="px-2 py-1 text-destructive/80 hover:text-destructive text-xs disabled:opacity-50"
+                    >
+                      Usuń
+                    </button>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {openPolicyId !== null && (
+        <div className="mb-4">
+          <h3 className="text-sm font-semibold text-foreground mb-2">Wpisy wykluczone przez ten limit</h3>
+          {excluded.length === 0 ? (
+            <p className="text-sm text-muted-foreground">Brak wpisów</p>
+          ) : (
+            <div className="overflow-x-auto max-h-80 overflow-y-auto">
+              <table className="w-full">
+                <tbody className="divide-y divide-border/50">
+                  {excluded.map((entry) => (
+                    <tr key={entry.id}>
+                      <td className="px-3 py-2 text-xs text-foreground whitespace-nowrap">{formatDateTime(entry.start_time)}</td>
+                      <td className="px-3 py-2 text-xs text-foreground">{entry.user_name}</td>
+                      <td className="px-3 py-2 text-xs text-foreground">
+                        {entry.task_name || entry.task_id || '—'}
+                        {entry.review_status === 'pending' && (
+                          <span className="ml-1 text-amber-300">(w kolejce zapomnianych timerów)</span>
+                        )}
+                      </td>
+                      <td className="px-3 py-2 text-xs text-right text-foreground font-mono whitespace-nowrap">
+                        {formatMs(entry.duration)} / {formatMs(entry.max_duration)}
+                      </td>
+                      <td className="px-3 py-2 text-xs text-right whitespace-nowrap">
+                        <button
+                          onClick={() => handleAllowEntry(entry)}
+                          disabled={busy}
+                          className="px-2 py-1 text-foreground/80 hover:text-foreground disabled:opacity-50"
+                        >
+                          Dopuść wpis
+                        </button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      )}
+
+      <form onSubmit={handleSubmit} className="grid grid-cols-1 sm:grid-cols-5 gap-2 items-end">
+        <select
+          value={scope}
+          onChange={(e) => {
+            setScope(e.target.value as PolicyScope);
+            setTargetId('');
+          }}
+          className={inputClass}
+        >
+          <option value="user">Pracownik</option>
+          <option value="project">Projekt</option>
+          <option value="entry">Wpis (ID)</option>
+        </select>
+        {scope === 'entry' ? (
+          <input
+            type="text"
+            placeholder="ID wpisu"
+            value={targetId}
+            onChange={(e) => setTargetId(e.target.value)}
+            className={inputClass}
+          />
+        ) : (
+          <select value={targetId} onChange={(e) => setTargetId(e.target.value)} className={inputClass}>
+            <option value="">Wybierz...</option>
+            {targetOptions.map((option) => (
+              <option key={option.id} value={option.id}>
+                {option.name}
+              </option>
+            ))}
+          </select>
+        )}
+        <input
+          type="number"
+          min="0.25"
+          step="0.25"
+          placeholder="Limit (h)"
+          value={hours}
+          onChange={(e) => setHours(e.target.value)}
+          className={inputClass}
+        />
+        <input
+          type="text"
+          placeholder="Notatka (np. wyjazdy na budowę)"
+          value={note}
+          onChange={(e) => setNote(e.target.value)}
+          className={inputClass}
+        />
+        <button
+          type="submit"
+          disabled={busy || !targetId || !hours}
+          className="px-3 py-1.5 bg-emerald-600 text-white text-xs rounded hover:bg-emerald-700 disabled:opacity-50"
+        >
+          Zapisz limit
+        </button>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,127 @@
+import { useEffect, useState } from 'react';
+import { useAuth } from '../contexts/AuthContext';
+import { DateRange, buildDateQueryParams } from './DateRangePicker';
+import { EarningsProjectRow } from './EarningsByProject';
+import { withTeamId } from './WorkspaceSelect';
+import { withTags } from './TagFilter';
+import { formatHours } from '../utils/formatters';
+
+const API_URL = import.meta.env.VITE_API_URL || '';
+
+type TagRow = {
+  tag: string | null;
+  entries: number;
+  hours: number;
+  share: number;
+};
+
+type ByTagResponse = {
+  total: { entries: number; hours: number };
+  tags: TagRow[];
+};
+
+interface EarningsByTagProps {
+  dateRange: DateRange;
+  teamId: string;
+  tags: string[];
+  projects: EarningsProjectRow[];
+}
+
+// Czas per tag (np. spotkania vs realizacja) — całościowo albo dla wybranego projektu
+export function EarningsByTag({ dateRange, teamId, tags, projects }: EarningsByTagProps) {
+  const { token } = useAuth();
+  const [projectId, setProjectId] = useState('');
+  const [data, setData] = useState<ByTagResponse | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!token || !dateRange.start || !dateRange.end) return;
+
+    const fetchByTag = async () => {
+      setError(null);
+      try {
+        let queryParams = withTags(withTeamId(buildDateQueryParams(dateRange), teamId), tags);
+        if (projectId) {
+          queryParams += `&project_id=${encodeURIComponent(projectId)}`;
+        }
+        const res = await fetch(`${API_URL}/api/earnings/by-tag?${queryParams}`, {
+          headers: { Authorization: `Bearer ${token}` },
+        });
+        if (!res.ok) throw new Error('Błąd pobierania czasu per tag');
+        setData((await res.json()) as ByTagResponse);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Błąd');
+      }
+    };
+
+    fetchByTag();
+  }, [token, dateRange, teamId, tags, projectId]);
+
+  return (
+    <div className="bg-card rounded-2xl overflow-hidden border border-border">
+      <div className="px-6 py-4 border-b border-border flex flex-wrap items-center justify-between gap-3">
+        <h3 className="text-lg font-semibold text-foreground">Czas per tag</h3>
+        <select
+          value={projectId}
+          onChange={(e) => setProjectId(e.target.value)}
+          className="px-3 py-2 text-sm border border-border rounded-md bg-background text-foreground focus:outline-none focus:border-ring focus:ring-2 focus:ring-ring/20"
+        >
+          <option value="">Wszystkie projekty</option>
+          {projects.map((project) => (
+            <option key={project.project_clickup_id} value={project.project_clickup_id}>
+              {project.project_name}
+            </option>
+          ))}
+        </select>
+      </div>
+      {error ? (
+        <div className="px-6 py-4 text-sm text-destructive">{error}</div>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-border">
+            <thead className="bg-muted">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">
+                  Tag
+                </th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-muted-foreground uppercase tracking-wider">
+                  Godziny
+                </th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-muted-foreground uppercase tracking-wider">
+                  Udział
+                </th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-muted-foreground uppercase tracking-wider">
+                  Wpisy
+                </th>
+              </tr>
+            </thead>
+            <tbody className="bg-card divide-y divide-border">
+              {(data?.tags || []).map((row) => (
+                <tr key={row.tag ?? ''}>
+                  <td className="px-6 py-4 whitespace-nowrap text-foreground font-medium">
+                    {row.tag ?? <span className="text-muted-foreground font-normal">bez tagu</span>}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-right text-foreground">{formatHours(row.hours)}</td>
+                  <td className="px-6 py-4 whitespace-nowrap text-right text-foreground">{row.share}%</td>
+                  <td className="px-6 py-4 whitespace-nowrap text-right text-muted-foreground">{row.entries}</td>
+                </tr>
+              ))}
+              {data && data.tags.length === 0 && (
+                <tr>
+                  <td colSpan={4} className="px-6 py-8 text-center text-muted-foreground">
+                    Brak danych dla wybranego okresu
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      )}
+      {data && data.total.hours > 0 && (
+        <p className="px-6 py-3 text-xs text-muted-foreground border-t border-border">
+          Łącznie {formatHours(data.total.hours)}. Wpis z kilkoma tagami liczy się w każdym z nich.
+        </p>
+      )}
+    </div>
+  );
+}
@@ -6,6 +6,9 @@ import { EarningsByProject, EarningsProjectRow } from './EarningsByProject';
 import { NotionSync } from './NotionSync';
 import { DateRangePicker, DateRange, buildDateQueryParams } from './DateRangePicker';
 import { UnmappedEntries } from './UnmappedEntries';
+import { WorkspaceSelect, withTeamId } from './WorkspaceSelect';
+import { TagFilter, withTags } from './TagFilter';
+import { EarningsByTag } from './EarningsByTag';
 type EarningsTabProps = {
   showNotionSync?: boolean;
 };
@@ -36,6 +39,8 @@ export function EarningsTab({ showNotionSync = false }: EarningsTabProps) {
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [isUnmappedOpen, setIsUnmappedOpen] = useState(false);
+  const [teamId, setTeamId] = useState('');
+  const [tags, setTags] = useState<string[]>([]);
 
   const fetchEarnings = async () => {
     if (!token || !dateRange.start || !dateRange.end) return;
@@ -43,7 +48,7 @@ export function EarningsTab({ showNotionSync = false }: EarningsTabProps) {
     setError(null);
 
     try {
-      const queryParams = buildDateQueryParams(dateRange);
+      const queryParams = withTags(withTeamId(buildDateQueryParams(dateRange), teamId), tags);
 
       const [summaryRes, byUserRes, byProjectRes] = await Promise.all([
         fetch(`${API_URL}/api/earnings/summary?${queryParams}`, {
@@ -77,7 +82,7 @@ export function EarningsTab({ showNotionSync = false }: EarningsTabProps) {
 
   useEffect(() => {
     fetchEarnings();
-  }, [dateRange, token]);
+  }, [dateRange, teamId, tags, token]);
 
   useEffect(() => {
     if (summary && summary.entries.unmapped === 0) {
@@ -95,7 +100,11 @@ export function EarningsTab({ showNotionSync = false }: EarningsTabProps) {
         <NotionSync token={token} onSynced={fetchEarnings} />
       )}
 
-      <DateRangePicker onChange={setDateRange} initialPeriod="today" />
+      <div className="flex flex-wrap items-start justify-between gap-3">
+        <DateRangePicker onChange={setDateRange} initialPeriod="today" />
+        <WorkspaceSelect token={token} value={teamId} onChange={setTeamId} allowAll />
+      </div>
+      <TagFilter token={token} value={tags} onChange={setTags} />
 
       {loading ? (
         <div className="text-center py-8 text-muted-foreground">Ładowanie...</div>
@@ -113,11 +122,12 @@ export function EarningsTab({ showNotionSync = false }: EarningsTabProps) {
 
           {/* Niezmapowane wpisy - rozwijalna sekcja */}
           {isAdmin && summary.entries.unmapped > 0 && isUnmappedOpen && (
-            <UnmappedEntries dateRange={dateRange} unmappedCount={summary.entries.unmapped} />
+            <UnmappedEntries dateRange={dateRange} teamId={teamId} unmappedCount={summary.entries.unmapped} />
           )}
 
           <EarningsByUser rows={byUser} isAdmin={isAdmin} showUserRate={showUserRate} />
           <EarningsByProject rows={byProject} isAdmin={isAdmin} />
+          <EarningsByTag dateRange={dateRange} teamId={teamId} tags={tags} projects={byProject} />
         </>
       ) : (
         <div className="text-center py-8 text-muted-foreground">Brak danych</div>
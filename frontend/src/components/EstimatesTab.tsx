@@ -0,0 +1,279 @@
+import { useEffect, useState } from 'react';
+import { useAuth } from '../contexts/AuthContext';
+import { WorkspaceSelect, withTeamId } from './WorkspaceSelect';
+import { HierarchySelect, withHierarchy } from './HierarchySelect';
+import { formatHours } from '../utils/formatters';
+
+const API_URL = import.meta.env.VITE_API_URL || '';
+
+type EstimateStatus = 'no_estimate' | 'ok' | 'warning' | 'critical';
+type EstimatesGroup = 'task' | 'list' | 'assignee';
+
+type TaskRow = {
+  task_id: string;
+  task_name: string | null;
+  task_url: string;
+  status: string | null;
+  list_name: string | null;
+  due_date: string | null;
+  assignees: Array<{ id: string; username: string }>;
+  time_estimate: number | null;
+  tracked_ms: number;
+  overrun_pct: number | null;
+  estimate_status: EstimateStatus;
+};
+
+type GroupRow = {
+  key: string;
+  name: string;
+  estimate_ms: number;
+  tracked_ms: number;
+  tasks_count: number;
+  estimated_tasks: number;
+  warning_tasks: number;
+  critical_tasks: number;
+  overrun_pct: number | null;
+  estimate_status: EstimateStatus;
+};
+
+type EstimatesResponse = {
+  group: EstimatesGroup;
+  thresholds: { warning: number; critical: number };
+  totals: { tasks: number; estimated_tasks: number; warning_tasks: number; critical_tasks: number };
+  rows: Array<TaskRow | GroupRow>;
+};
+
+const GROUP_LABELS: Record<EstimatesGroup, string> = {
+  task: 'Zadania',
+  list: 'Listy',
+  assignee: 'Osoby',
+};
+
+const DAYS_OPTIONS = [
+  { value: '30', label: 'Aktywne w ostatnich 30 dniach' },
+  { value: '90', label: 'Aktywne w ostatnich 90 dniach' },
+  { value: '365', label: 'Aktywne w ostatnim roku' },
+  { value: '0', label: 'Wszystkie zadania' },
+];
+
+const STATUS_CLASSES: Record<EstimateStatus, string> = {
+  no_estimate: 'bg-muted text-muted-foreground',
+  ok: 'bg-emerald-500/15 text-emerald-400',
+  warning: 'bg-amber-500/15 text-amber-300',
+  critical: 'bg-red-500/15 text-red-400',
+};
+
+const selectClass =
+  'px-3 py-2 text-sm border border-border rounded-md bg-background text-foreground focus:outline-none focus:border-ring focus:ring-2 focus:ring-ring/20';
+
+const msToHours = (ms: number) => ms / (60 * 60 * 1000);
+
+function OverrunBadge({ status, pct }: { status: EstimateStatus; pct: number | null }) {
+  const label = pct === null ? 'brak estymaty' : `${pct > 0 ? '+' : ''}${pct}%`;
+  return <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${STATUS_CLASSES[status]}`}>{label}</span>;
+}
+
+// Estymaty zadań ClickUp vs czas zalogowany — per zadanie, lista albo osoba przypisana
+export function EstimatesTab() {
+  const { token } = useAuth();
+  const [group, setGroup] = useState<EstimatesGroup>('task');
+  const [days, setDays] = useState('90');
+  const [teamId, setTeamId] = useState('');
+  const [hierarchy, setHierarchy] = useState('');
+  const [onlyOver, setOnlyOver] = useState(false);
+  const [data, setData] = useState<EstimatesResponse | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!token) return;
+
+    const fetchEstimates = async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        let queryParams = withHierarchy(withTeamId(`group=${group}&days=${days}`, teamId), hierarchy);
+        if (onlyOver) {
+          queryParams += '&only=over';
+        }
+        const res = await fetch(`${API_URL}/api/tasks/estimates?${queryParams}`, {
+          headers: { Authorization: `Bearer ${token}` },
+        });
+        const json = await res.json();
+        if (!res.ok) throw new Error(json.error || 'Błąd pobierania estymat');
+        setData(json as EstimatesResponse);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Błąd');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchEstimates();
+  }, [token, group, days, teamId, hierarchy, onlyOver]);
+
+  const handleTeamChange = (value: string) => {
+    setTeamId(value);
+    setHierarchy('');
+  };
+
+  if (!token) return null;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center gap-3">
+        <div className="inline-flex gap-1 rounded-full bg-muted/60 p-1 border border-border">
+          {(Object.keys(GROUP_LABELS) as EstimatesGroup[]).map((key) => (
+            <button
+              key={key}
+              onClick={() => setGroup(key)}
+              className={`px-3 py-1 rounded-full text-sm ${
+                group === key ? 'bg-background text-foreground shadow-sm' : 'text-muted-foreground hover:text-foreground'
+              }`}
+            >
+              {GROUP_LABELS[key]}
+            </button>
+          ))}
+        </div>
+        <select value={days} onChange={(e) => setDays(e.target.value)} className={selectClass}>
+          {DAYS_OPTIONS.map((option) => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+        <WorkspaceSelect token={token} value={teamId} onChange={handleTeamChange} allowAll />
+        <HierarchySelect token={token} teamId={teamId} value={hierarchy} onChange={setHierarchy} />
+        <label className="flex items-center gap-2 text-sm text-foreground">
+          <input type="checkbox" checked={onlyOver} onChange={(e) => setOnlyOver(e.target.checked)} />
+          Tylko przekroczone
+        </label>
+      </div>
+
+      {data && (
+        <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+          <div className="bg-card rounded-2xl border border-border p-4">
+            <div className="text-xs text-muted-foreground">Zadania</div>
+            <div className="text-2xl font-semibold text-foreground">{data.totals.tasks}</div>
+          </div>
+          <div className="bg-card rounded-2xl border border-border p-4">
+            <div className="text-xs text-muted-foreground">Z estymatą</div>
+            <div className="text-2xl font-semibold text-foreground">{data.totals.estimated_tasks}</div>
+          </div>
+          <div className="bg-card rounded-2xl border border-border p-4">
+            <div className="text-xs text-muted-foreground">Ponad {data.thresholds.warning}%</div>
+            <div className="text-2xl font-semibold text-amber-300">{data.totals.warning_tasks}</div>
+          </div>
+          <div className="bg-card rounded-2xl border border-border p-4">
+            <div className="text-xs text-muted-foreground">Ponad {data.thresholds.critical}%</div>
+            <div className="text-2xl font-semibold text-red-400">{data.totals.critical_tasks}</div>
+          </div>
+        </div>
+      )}
+
+      <div className="bg-card rounded-2xl overflow-hidden border border-border">
+        {error ? (
+          <div className="px-6 py-4 text-sm text-destructive">{error}</div>
+        ) : loading && !data ? (
+          <div className="text-center py-8 text-muted-foreground">Ładowanie...</div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-border">
+              <thead className="bg-muted">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">
+                    {group === 'task' ? 'Zadanie' : group === 'list' ? 'Lista' : 'Osoba'}
+                  </th>
+                  {group === 'task' ? (
+                    <th className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">
+                      Przypisani
+                    </th>
+                  ) : (
+                    <th className="px-6 py-3 text-right text-xs font-medium text-muted-foreground uppercase tracking-wider">
+                      Zadania
+                    </th>
+                  )}
+                  <th className="px-6 py-3 text-right text-xs font-medium text-muted-foreground uppercase tracking-wider">
+                    Estymata
+                  </th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-muted-foreground uppercase tracking-wider">
+                    Zalogowano
+                  </th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-muted-foreground uppercase tracking-wider">
+                    Przekroczenie
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="bg-card divide-y divide-border">
+                {group === 'task'
+                  ? (data?.rows as TaskRow[] | undefined)?.map((row) => (
+                      <tr key={row.task_id}>
+                        <td className="px-6 py-4 text-foreground">
+                          <a href={row.task_url} target="_blank" rel="noreferrer" className="font-medium hover:underline">
+                            {row.task_name || row.task_id}
+                          </a>
+                          <div className="text-xs text-muted-foreground">
+                            {row.list_name || 'Bez listy'}
+                            {row.status && ` · ${row.status}`}
+                            {row.due_date && ` · termin ${new Date(row.due_date).toLocaleDateString('pl-PL')}`}
+                          </div>
+                        </td>
+                        <td className="px-6 py-4 text-sm text-muted-foreground">
+                          {row.assignees.map((a) => a.username).join(', ') || '—'}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-right text-foreground">
+                          {row.time_estimate ? formatHours(msToHours(row.time_estimate)) : '—'}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-right text-foreground">
+                          {formatHours(msToHours(row.tracked_ms))}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-right">
+                          <OverrunBadge status={row.estimate_status} pct={row.overrun_pct} />
+                        </td>
+                      </tr>
+                    ))
+                  : (data?.rows as GroupRow[] | undefined)?.map((row) => (
+                      <tr key={row.key}>
+                        <td className="px-6 py-4 text-foreground font-medium">
+                          {row.name}
+                          {(row.warning_tasks > 0 || row.critical_tasks > 0) && (
+                            <div className="text-xs font-normal text-muted-foreground">
+                              przekroczone: {row.warning_tasks + row.critical_tasks} (krytyczne: {row.critical_tasks})
+                            </div>
+                          )}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-right text-muted-foreground">
+                          {row.estimated_tasks} / {row.tasks_count}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-right text-foreground">
+                          {row.estimate_ms ? formatHours(msToHours(row.estimate_ms)) : '—'}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-right text-foreground">
+                          {formatHours(msToHours(row.tracked_ms))}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-right">
+                          <OverrunBadge status={row.estimate_status} pct={row.overrun_pct} />
+                        </td>
+                      </tr>
+                    ))}
+                {data && data.rows.length === 0 && (
+                  <tr>
+                    <td colSpan={5} className="px-6 py-8 text-center text-muted-foreground">
+                      Brak zadań dla wybranych filtrów
+                    </td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+        )}
+        {data && group !== 'task' && (
+          <p className="px-6 py-3 text-xs text-muted-foreground border-t border-border">
+            Przekroczenie grupy liczone tylko z zadań z estymatą.
+            {group === 'assignee' && ' Zadanie z kilkoma przypisanymi osobami liczy się u każdej z nich.'}
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
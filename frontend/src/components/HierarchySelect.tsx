@@ -0,0 +1,79 @@
+import { useEffect, useState } from 'react';
+
+const API_URL = import.meta.env.VITE_API_URL || '';
+
+type HierarchyNode = {
+  id: string;
+  name: string;
+  archived: boolean;
+};
+
+type HierarchySpace = HierarchyNode & {
+  folders: Array<HierarchyNode & { lists: HierarchyNode[] }>;
+  lists: HierarchyNode[];
+};
+
+type HierarchySelectProps = {
+  token: string;
+  teamId?: string;
+  // "space:ID" / "folder:ID" / "list:ID" albo '' (wszystko)
+  value: string;
+  onChange: (value: string) => void;
+  className?: string;
+};
+
+// Dopisuje space_id / folder_id / list_id do query string na podstawie wartości z HierarchySelect
+export function withHierarchy(queryParams: string, value: string): string {
+  const [level, id] = value.split(':');
+  if (!id || !['space', 'folder', 'list'].includes(level)) return queryParams;
+  return `${queryParams}&${level}_id=${encodeURIComponent(id)}`;
+}
+
+// Filtr po space / folderze / liście ClickUp — jedna lista z wcięciami zamiast trzech selectów
+export function HierarchySelect({ token, teamId = '', value, onChange, className = '' }: HierarchySelectProps) {
+  const [spaces, setSpaces] = useState<HierarchySpace[]>([]);
+
+  useEffect(() => {
+    const query = teamId ? `?team_id=${encodeURIComponent(teamId)}` : '';
+    fetch(`${API_URL}/api/hierarchy${query}`, {
+      headers: { Authorization: `Bearer ${token}` },
+    })
+      .then((res) => (res.ok ? res.json() : []))
+      .then((data: HierarchySpace[]) => setSpaces(Array.isArray(data) ? data : []))
+      .catch(() => setSpaces([]));
+  }, [token, teamId]);
+
+  if (spaces.length === 0) {
+    return null;
+  }
+
+  return (
+    <select
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      className={`px-3 py-2 text-sm border border-border rounded-md bg-background text-foreground focus:outline-none focus:border-ring focus:ring-2 focus:ring-ring/20 ${className}`}
+    >
+      <option value="">Wszystkie projekty</option>
+      {spaces.map((space) => [
+        <option key={`space:${space.id}`} value={`space:${space.id}`}>
+          {space.name}
+        </option>,
+        ...space.folders.flatMap((folder) => [
+          <option key={`folder:${folder.id}`} value={`folder:${folder.id}`}>
+            {`\u00a0\u00a0${folder.name}`}
+          </option>,
+          ...folder.lists.map((list) => (
+            <option key={`list:${list.id}`} value={`list:${list.id}`}>
+              {`\u00a0\u00a0\u00a0\u00a0${list.name}`}
+            </option>
+          )),
+        ]),
+        ...space.lists.map((list) => (
+          <option key={`list:${list.id}`} value={`list:${list.id}`}>
+            {`\u00a0\u00a0${list.name}`}
+          </option>
+        )),
+      ])}
+    </select>
+  );
+}
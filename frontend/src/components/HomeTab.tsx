@@ -1,9 +1,12 @@
 import { useEffect, useState } from 'react';
 import { useAuth } from '../contexts/AuthContext';
 import { DateRangePicker, DateRange, buildDateQueryParams } from './DateRangePicker';
+import { TagFilter, withTags } from './TagFilter';
 import { Card, CardContent } from './ui/card';
 import { Badge } from './ui/badge';
 import { Avatar } from './Avatar';
+import { TimerControls } from './TimerControls';
+import { TimeEntryForm } from './TimeEntryForm';
 
 const API_URL = import.meta.env.VITE_API_URL || '';
 
@@ -24,6 +27,10 @@ interface HomeSummaryTask {
   entries_count: number;
   first_start_time: string | null;
   users: TaskUser[];
+  // Tylko w trybie rollup: czas/wpisy samego zadania (bez subtasków) i subtaski
+  own_duration?: number;
+  own_entries_count?: number;
+  children?: HomeSummaryTask[];
 }
 
 interface HomeSummaryResponse {
@@ -51,6 +58,8 @@ interface TaskEntry {
   user_name: string;
   user_color: string | null;
   user_avatar: string | null;
+  // 1 = zmieniony z aplikacji, czeka na potwierdzenie z ClickUp
+  pending_sync: number;
 }
 
 function formatDurationCompact(ms: number): string {
@@ -121,27 +130,30 @@ function stripListPrefix(taskName: string, listName?: string | null): string {
 }
 
 export function HomeTab() {
-  const { token, isAdmin } = useAuth();
+  const { token, user, isAdmin, isPm } = useAuth();
   const [dateRange, setDateRange] = useState<DateRange>({ start: '', end: '', period: 'today' });
   const [data, setData] = useState<HomeSummaryResponse | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [tags, setTags] = useState<string[]>([]);
+  const [rollup, setRollup] = useState(false);
+  const [openTreeIds, setOpenTreeIds] = useState<Set<string>>(new Set());
 
   // Expandable entries state
   const [expandedTaskId, setExpandedTaskId] = useState<string | null>(null);
   const [taskEntries, setTaskEntries] = useState<TaskEntry[]>([]);
   const [entriesLoading, setEntriesLoading] = useState(false);
+  // ID edytowanego wpisu albo 'new' (formularz "Dodaj czas")
+  const [editingEntryId, setEditingEntryId] = useState<string | null>(null);
+  const canManageOthers = isAdmin || isPm;
 
-  useEffect(() => {
-    if (!token || !dateRange.start || !dateRange.end) return;
-    setLoading(true);
-    setError(null);
-    setExpandedTaskId(null);
-    setTaskEntries([]);
-
-    const queryParams = buildDateQueryParams(dateRange);
+  const fetchSummary = () => {
+    let queryParams = withTags(buildDateQueryParams(dateRange), tags);
+    if (rollup) {
+      queryParams += '&rollup=1';
+    }
 
-    fetch(`${API_URL}/api/home/summary?${queryParams}`, {
+    return fetch(`${API_URL}/api/home/summary?${queryParams}`, {
       headers: { Authorization: `Bearer ${token}` },
     })
       .then((res) => {
@@ -157,9 +169,21 @@ export function HomeTab() {
       .finally(() => {
         setLoading(false);
       });
-  }, [dateRange, token]);
+  };
+
+  useEffect(() => {
+    if (!token || !dateRange.start || !dateRange.end) return;
+    setLoading(true);
+    setError(null);
+    setExpandedTaskId(null);
+    setTaskEntries([]);
+    setEditingEntryId(null);
+    setOpenTreeIds(new Set());
+    fetchSummary();
+  }, [dateRange, tags, rollup, token]);
 
   const toggleExpand = async (task: HomeSummaryTask) => {
+    setEditingEntryId(null);
     if (expandedTaskId === task.task_id) {
       setExpandedTaskId(null);
       setTaskEntries([]);
@@ -168,11 +192,14 @@ export function HomeTab() {
 
     setExpandedTaskId(task.task_id);
     setEntriesLoading(true);
+    await loadTaskEntries(task.task_id);
+  };
 
+  const loadTaskEntries = async (taskId: string) => {
     try {
       const queryParams = buildDateQueryParams(dateRange);
       const res = await fetch(
-        `${API_URL}/api/home/task-entries?task_id=${task.task_id}&${queryParams}`,
+        `${API_URL}/api/home/task-entries?task_id=${taskId}&${queryParams}`,
         { headers: { Authorization: `Bearer ${token}` } }
       );
       if (!res.ok) throw new Error('Blad');
@@ -185,11 +212,315 @@ export function HomeTab() {
     }
   };
 
+  // Po zapisie w ClickUp: wpisy zadania i sumy od razu z bazy (zapis optymistyczny)
+  const onEntrySaved = async (taskId: string) => {
+    setEditingEntryId(null);
+    await Promise.all([loadTaskEntries(taskId), fetchSummary()]);
+  };
+
+  const canEditEntry = (entry: TaskEntry) =>
+    canManageOthers || (!!user?.clickup_user_id && entry.user_id === String(user.clickup_user_id));
+
+  // Admin / PM wybiera pracownika (osoby z zadania + on sam), pracownik loguje na siebie
+  const entryUserOptions = (task: HomeSummaryTask) => {
+    if (!canManageOthers) return undefined;
+    const options = (task.users || []).map((u) => ({ user_id: u.user_id, user_name: u.user_name }));
+    if (user?.clickup_user_id && !options.some((o) => o.user_id === String(user.clickup_user_id))) {
+      options.unshift({ user_id: String(user.clickup_user_id), user_name: user.display_name || user.username });
+    }
+    return options;
+  };
+
+  const toggleTree = (taskId: string) => {
+    setOpenTreeIds((prev) => {
+      const next = new Set(prev);
+      if (next.has(taskId)) {
+        next.delete(taskId);
+      } else {
+        next.add(taskId);
+      }
+      return next;
+    });
+  };
+
+  const renderTask = (task: HomeSummaryTask): JSX.Element => {
+    const isExpanded = expandedTaskId === task.task_id;
+    // Wpisy po rozwinięciu to wpisy samego zadania — w rollupie bez subtasków
+    const ownEntries = task.own_entries_count ?? task.entries_count;
+    const hasMultiple = ownEntries > 1;
+    const subtasks = task.children || [];
+    const isTreeOpen = openTreeIds.has(task.task_id);
+    const taskLabel = stripListPrefix(task.task_name, task.list_name);
+    const durationParts = formatDurationParts(task.total_duration);
+    const firstUser = task.users?.[0];
+    const extraUsers = (task.users?.length || 0) - 1;
+
+    return (
+      <div key={task.task_id} className="space-y-2">
+        <Card>
+          <CardContent className="p-3">
+            <div
+              className="flex items-center gap-3 cursor-pointer"
+              onClick={() => toggleExpand(task)}
+            >
+              {/* Avatar(s) */}
+              <div className="shrink-0">
+                {firstUser ? (
+                  extraUsers > 0 ? (
+                    /* Stacked avatars for multi-user */
+                    <div className="relative w-10 h-8">
+                      <div className="absolute top-0 left-0">
+                        <Avatar
+                          name={firstUser.user_name}
+                          color={firstUser.user_color || undefined}
+                          avatar={firstUser.user_avatar || undefined}
+                          size="sm"
+                        />
+                      </div>
+                      <div className="absolute top-0 left-5 w-5 h-8 flex items-center">
+                        <span className="text-xs text-muted-foreground font-medium">
+                          +{extraUsers}
+                        </span>
+                      </div>
+                    </div>
+                  ) : (
+                    <Avatar
+                      name={firstUser.user_name}
+                      color={firstUser.user_color || undefined}
+                      avatar={firstUser.user_avatar || undefined}
+                      size="sm"
+                    />
+                  )
+                ) : (
+                  <div className="w-8 h-8 rounded-full bg-muted flex items-center justify-center text-muted-foreground text-xs">
+                    ?
+                  </div>
+                )}
+              </div>
+
+              {/* Task info */}
+              <div className="flex-1 min-w-0">
+                <div className="flex items-center gap-2">
+                  <span className="font-medium text-foreground">
+                    {firstUser?.user_name || 'Nieznany'}
+                  </span>
+                  {task.list_name && (
+                    <Badge
+                      variant="outline"
+                      className="border-[var(--active-border)] bg-[var(--active-surface)] text-muted-foreground shrink-0"
+                    >
+                      {task.list_name}
+                    </Badge>
+                  )}
+                  {hasMultiple && (
+                    <Badge
+                      variant="outline"
+                      className="border-border text-muted-foreground shrink-0"
+                    >
+                      {ownEntries}x
+                    </Badge>
+                  )}
+                  {subtasks.length > 0 && (
+                    <button
+                      type="button"
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        toggleTree(task.task_id);
+                      }}
+                      className="text-xs text-muted-foreground hover:text-foreground shrink-0"
+                    >
+                      {isTreeOpen ? '\u25BE' : '\u25B8'} subtaski: {subtasks.length}
+                    </button>
+                  )}
+                </div>
+                {task.task_url ? (
+                  <a
+                    href={task.task_url}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="text-primary hover:underline text-sm truncate block"
+                    onClick={(e) => e.stopPropagation()}
+                  >
+                    {taskLabel}
+                  </a>
+                ) : (
+                  <span className="text-primary text-sm truncate block">
+                    {taskLabel}
+                  </span>
+                )}
+              </div>
+
+              {/* Duration + date */}
+              <div className="text-right text-sm shrink-0">
+                <div className="flex items-baseline justify-end gap-1">
+                  {durationParts.hours && (
+                    <span className="font-mono text-base font-semibold text-foreground">
+                      {durationParts.hours}
+                    </span>
+                  )}
+                  {durationParts.minutes && (
+                    <span className="font-mono text-base font-semibold text-foreground">
+                      {durationParts.minutes}
+                    </span>
+                  )}
+                  <span className="font-mono text-base font-semibold text-foreground">
+                    {durationParts.seconds}
+                  </span>
+                </div>
+                {/* Date only for single-entry tasks */}
+                {!hasMultiple && task.first_start_time && (
+                  <div className="flex items-center justify-end gap-2 text-xs text-muted-foreground">
+                    <span>{formatTime(task.first_start_time)}</span>
+                    <span className="text-muted-foreground/60">&bull;</span>
+                    <span>{formatDate(task.first_start_time)}</span>
+                  </div>
+                )}
+              </div>
+            </div>
+
+            {/* Expanded entries list */}
+            {isExpanded && (
+              <div className="mt-2 pt-2 border-t border-border/50 space-y-1">
+                {entriesLoading ? (
+                  <div className="text-sm text-muted-foreground py-1 pl-11">
+                    Ladowanie wpisow...
+                  </div>
+                ) : taskEntries.length === 0 ? (
+                  <div className="text-sm text-muted-foreground py-1 pl-11">
+                    Brak wpisow
+                  </div>
+                ) : (
+                  taskEntries.map((entry) => {
+                    const entryParts = formatDurationParts(entry.duration);
+                    if (editingEntryId === entry.id && token) {
+                      return (
+                        <TimeEntryForm
+                          key={entry.id}
+                          token={token}
+                          taskId={task.task_id}
+                          entry={entry}
+                          onSaved={() => onEntrySaved(task.task_id)}
+                          onCancel={() => setEditingEntryId(null)}
+                        />
+                      );
+                    }
+                    return (
+                      <div
+                        key={entry.id}
+                        className="flex items-center gap-3 pl-3 py-1.5"
+                      >
+                        <Avatar
+                          name={entry.user_name}
+                          color={entry.user_color || undefined}
+                          avatar={entry.user_avatar || undefined}
+                          size="sm"
+                        />
+                        <div className="flex-1 min-w-0">
+                          <span className="text-sm font-medium text-foreground">
+                            {entry.user_name}
+                          </span>
+                          {entry.pending_sync === 1 && (
+                            <Badge variant="outline" className="ml-2 border-amber-200 bg-amber-50 text-amber-700">
+                              czeka na ClickUp
+                            </Badge>
+                          )}
+                          {canEditEntry(entry) && (
+                            <button
+                              type="button"
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                setEditingEntryId(entry.id);
+                              }}
+                              className="ml-2 text-xs text-muted-foreground hover:text-foreground underline"
+                            >
+                              Edytuj
+                            </button>
+                          )}
+                          {entry.description && (
+                            <span className="text-sm text-muted-foreground block truncate">
+                              {entry.description}
+                            </span>
+                          )}
+                        </div>
+                        <div className="text-right text-sm shrink-0">
+                          <div className="flex items-baseline justify-end gap-1">
+                            {entryParts.hours && (
+                              <span className="font-mono text-base font-semibold text-foreground">
+                                {entryParts.hours}
+                              </span>
+                            )}
+                            {entryParts.minutes && (
+                              <span className="font-mono text-base font-semibold text-foreground">
+                                {entryParts.minutes}
+                              </span>
+                            )}
+                            <span className="font-mono text-base font-semibold text-foreground">
+                              {entryParts.seconds}
+                            </span>
+                          </div>
+                          <div className="flex items-center justify-end gap-2 text-xs text-muted-foreground">
+                            <span>
+                              {formatEntryTimeRange(entry.start_time, entry.end_time)}
+                            </span>
+                            <span className="text-muted-foreground/60">&bull;</span>
+                            <span>{formatDate(entry.start_time)}</span>
+                          </div>
+                        </div>
+                      </div>
+                    );
+                  })
+                )}
+                {!entriesLoading && token && (user?.clickup_user_id || canManageOthers) && (
+                  editingEntryId === 'new' ? (
+                    <TimeEntryForm
+                      token={token}
+                      taskId={task.task_id}
+                      users={entryUserOptions(task)}
+                      onSaved={() => onEntrySaved(task.task_id)}
+                      onCancel={() => setEditingEntryId(null)}
+                    />
+                  ) : (
+                    <button
+                      type="button"
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        setEditingEntryId('new');
+                      }}
+                      className="pl-3 py-1 text-sm text-primary hover:underline"
+                    >
+                      + Dodaj czas
+                    </button>
+                  )
+                )}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+        {isTreeOpen && subtasks.length > 0 && (
+          <div className="ml-6 pl-3 border-l border-border space-y-2">
+            {subtasks.map((subtask) => renderTask(subtask))}
+          </div>
+        )}
+      </div>
+    );
+  };
+
   return (
     <div>
+      <TimerControls />
+
       {/* Date range picker */}
       <div className="mb-6">
         <DateRangePicker onChange={setDateRange} initialPeriod="today" />
+        {token && (
+          <div className="mt-3 flex flex-wrap items-center gap-3">
+            <TagFilter token={token} value={tags} onChange={setTags} />
+            <label className="flex items-center gap-2 text-sm text-muted-foreground">
+              <input type="checkbox" checked={rollup} onChange={(e) => setRollup(e.target.checked)} />
+              Zwiń subtaski pod zadania nadrzędne
+            </label>
+          </div>
+        )}
       </div>
 
       {error && (
@@ -251,193 +582,7 @@ export function HomeTab() {
                 </CardContent>
               </Card>
             ) : (
-              data.tasks.map((task) => {
-                const isExpanded = expandedTaskId === task.task_id;
-                const hasMultiple = task.entries_count > 1;
-                const taskLabel = stripListPrefix(task.task_name, task.list_name);
-                const durationParts = formatDurationParts(task.total_duration);
-                const firstUser = task.users?.[0];
-                const extraUsers = (task.users?.length || 0) - 1;
-
-                return (
-                  <Card key={task.task_id}>
-                    <CardContent className="p-3">
-                      <div
-                        className={`flex items-center gap-3${hasMultiple ? ' cursor-pointer' : ''}`}
-                        onClick={hasMultiple ? () => toggleExpand(task) : undefined}
-                      >
-                        {/* Avatar(s) */}
-                        <div className="shrink-0">
-                          {firstUser ? (
-                            extraUsers > 0 ? (
-                              /* Stacked avatars for multi-user */
-                              <div className="relative w-10 h-8">
-                                <div className="absolute top-0 left-0">
-                                  <Avatar
-                                    name={firstUser.user_name}
-                                    color={firstUser.user_color || undefined}
-                                    avatar={firstUser.user_avatar || undefined}
-                                    size="sm"
-                                  />
-                                </div>
-                                <div className="absolute top-0 left-5 w-5 h-8 flex items-center">
-                                  <span className="text-xs text-muted-foreground font-medium">
-                                    +{extraUsers}
-                                  </span>
-                                </div>
-                              </div>
-                            ) : (
-                              <Avatar
-                                name={firstUser.user_name}
-                                color={firstUser.user_color || undefined}
-                                avatar={firstUser.user_avatar || undefined}
-                                size="sm"
-                              />
-                            )
-                          ) : (
-                            <div className="w-8 h-8 rounded-full bg-muted flex items-center justify-center text-muted-foreground text-xs">
-                              ?
-                            </div>
-                          )}
-                        </div>
-
-                        {/* Task info */}
-                        <div className="flex-1 min-w-0">
-                          <div className="flex items-center gap-2">
-                            <span className="font-medium text-foreground">
-                              {firstUser?.user_name || 'Nieznany'}
-                            </span>
-                            {task.list_name && (
-                              <Badge
-                                variant="outline"
-                                className="border-[var(--active-border)] bg-[var(--active-surface)] text-muted-foreground shrink-0"
-                              >
-                                {task.list_name}
-                              </Badge>
-                            )}
-                            {hasMultiple && (
-                              <Badge
-                                variant="outline"
-                                className="border-border text-muted-foreground shrink-0"
-                              >
-                                {task.entries_count}x
-                              </Badge>
-                            )}
-                          </div>
-                          {task.task_url ? (
-                            <a
-                              href={task.task_url}
-                              target="_blank"
-                              rel="noopener noreferrer"
-                              className="text-primary hover:underline text-sm truncate block"
-                              onClick={(e) => e.stopPropagation()}
-                            >
-                              {taskLabel}
-                            </a>
-                          ) : (
-                            <span className="text-primary text-sm truncate block">
-                              {taskLabel}
-                            </span>
-                          )}
-                        </div>
-
-                        {/* Duration + date */}
-                        <div className="text-right text-sm shrink-0">
-                          <div className="flex items-baseline justify-end gap-1">
-                            {durationParts.hours && (
-                              <span className="font-mono text-base font-semibold text-foreground">
-                                {durationParts.hours}
-                              </span>
-                            )}
-                            {durationParts.minutes && (
-                              <span className="font-mono text-base font-semibold text-foreground">
-                                {durationParts.minutes}
-                              </span>
-                            )}
-                            <span className="font-mono text-base font-semibold text-foreground">
-                              {durationParts.seconds}
-                            </span>
-                          </div>
-                          {/* Date only for single-entry tasks */}
-                          {!hasMultiple && task.first_start_time && (
-                            <div className="flex items-center justify-end gap-2 text-xs text-muted-foreground">
-                              <span>{formatTime(task.first_start_time)}</span>
-                              <span className="text-muted-foreground/60">&bull;</span>
-                              <span>{formatDate(task.first_start_time)}</span>
-                            </div>
-                          )}
-                        </div>
-                      </div>
-
-                      {/* Expanded entries list */}
-                      {isExpanded && (
-                        <div className="mt-2 pt-2 border-t border-border/50 space-y-1">
-                          {entriesLoading ? (
-                            <div className="text-sm text-muted-foreground py-1 pl-11">
-                              Ladowanie wpisow...
-                            </div>
-                          ) : taskEntries.length === 0 ? (
-                            <div className="text-sm text-muted-foreground py-1 pl-11">
-                              Brak wpisow
-                            </div>
-                          ) : (
-                            taskEntries.map((entry) => {
-                              const entryParts = formatDurationParts(entry.duration);
-                              return (
-                                <div
-                                  key={entry.id}
-                                  className="flex items-center gap-3 pl-3 py-1.5"
-                                >
-                                  <Avatar
-                                    name={entry.user_name}
-                                    color={entry.user_color || undefined}
-                                    avatar={entry.user_avatar || undefined}
-                                    size="sm"
-                                  />
-                                  <div className="flex-1 min-w-0">
-                                    <span className="text-sm font-medium text-foreground">
-                                      {entry.user_name}
-                                    </span>
-                                    {entry.description && (
-                                      <span className="text-sm text-muted-foreground block truncate">
-                                        {entry.description}
-                                      </span>
-                                    )}
-                                  </div>
-                                  <div className="text-right text-sm shrink-0">
-                                    <div className="flex items-baseline justify-end gap-1">
-                                      {entryParts.hours && (
-                                        <span className="font-mono text-base font-semibold text-foreground">
-                                          {entryParts.hours}
-                                        </span>
-                                      )}
-                                      {entryParts.minutes && (
-                                        <span className="font-mono text-base font-semibold text-foreground">
-                                          {entryParts.minutes}
-                                        </span>
-                                      )}
-                                      <span className="font-mono text-base font-semibold text-foreground">
-                                        {entryParts.seconds}
-                                      </span>
-                                    </div>
-                                    <div className="flex items-center justify-end gap-2 text-xs text-muted-foreground">
-                                      <span>
-                                        {formatEntryTimeRange(entry.start_time, entry.end_time)}
-                                      </span>
-                                      <span className="text-muted-foreground/60">&bull;</span>
-                                      <span>{formatDate(entry.start_time)}</span>
-                                    </div>
-                                  </div>
-                                </div>
-                              );
-                            })
-                          )}
-                        </div>
-                      )}
-                    </CardContent>
-                  </Card>
-                );
-              })
+              data.tasks.map((task) => renderTask(task))
             )}
           </div>
         </>
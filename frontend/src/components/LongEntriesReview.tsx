@@ -0,0 +1,242 @@
+import { useEffect, useState } from 'react';
+import { formatDateTime, formatHours } from '../utils/formatters';
+
+const API_URL = import.meta.env.VITE_API_URL || '';
+
+type LongEntry = {
+  entry_id: string;
+  team_id: string | null;
+  user_id: string | null;
+  user_name: string | null;
+  task_id: string | null;
+  task_name: string | null;
+  start_time: string | null;
+  raw_duration: number;
+  max_duration: number;
+  source: string;
+  status: string;
+  resolved_duration: number | null;
+  resolved_at: string | null;
+  entry_deleted: number;
+};
+
+type TimerAlert = {
+  id: number;
+  entry_id: string;
+  kind: string;
+  user_name: string | null;
+  task_name: string | null;
+  start_time: string | null;
+  message: string;
+  created_at: string;
+  end_time: string | null;
+  duration: number | null;
+};
+
+const STATUS_LABELS: Record<string, string> = {
+  pending: 'Do przejrzenia',
+  capped: 'Przycięte',
+  dropped: 'Pominięte',
+  adjusted: 'Poprawione',
+  excluded: 'Wykluczone',
+};
+
+function formatMs(ms: number | null): string {
+  return ms === null ? '—' : formatHours(ms / 3600000);
+}
+
+/**
+ * Wpisy dłuższe niż limit (polityka cap / drop / flag per workspace) i ostatnie alerty
+ * o zapomnianych timerach. Admin decyduje o wpisach z kolejki: przycięcie do limitu,
+ * własny czas albo wykluczenie ze statystyk.
+ */
+export function LongEntriesReview({ token }: { token: string }) {
+  const [status, setStatus] = useState('pending');
+  const [entries, setEntries] = useState<LongEntry[]>([]);
+  const [counts, setCounts] = useState<Record<string, number>>({});
+  const [alerts, setAlerts] = useState<TimerAlert[]>([]);
+  const [hoursById, setHoursById] = useState<Record<string, string>>({});
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchData = async () => {
+    try {
+      const headers = { Authorization: `Bearer ${token}` };
+      const [entriesResponse, alertsResponse] = await Promise.all([
+        fetch(`${API_URL}/admin/long-entries?status=${status}`, { headers }),
+        fetch(`${API_URL}/admin/timer-alerts?days=7`, { headers }),
+      ]);
+      const entriesData = await entriesResponse.json();
+      const alertsData = await alertsResponse.json();
+      if (!entriesResponse.ok) {
+        throw new Error(entriesData.error || 'Błąd pobierania wpisów');
+      }
+      if (!alertsResponse.ok) {
+        throw new Error(alertsData.error || 'Błąd pobierania alertów');
+      }
+      setEntries(entriesData.entries || []);
+      setCounts(entriesData.counts || {});
+      setAlerts(alertsData.alerts || []);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Błąd pobierania wpisów');
+    }
+  };
+
+  useEffect(() => {
+    fetchData();
+  }, [token, status]);
+
+  const resolve = async (entryId: string, action: 'cap' | 'set' | 'exclude') => {
+    setBusyId(entryId);
+    setError(null);
+    try {
+      const response = await fetch(`${API_URL}/admin/long-entries/${entryId}/resolve`, {
+        method: 'POST',
+        headers: {
+          Authorization: `Bearer ${token}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ action, hours: action === 'set' ? Number(hoursById[entryId]) : undefined }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Błąd zapisu decyzji');
+      }
+      await fetchData();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Błąd zapisu decyzji');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <div className="bg-card rounded-2xl border border-border p-4 mb-6">
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-1">
+        <h2 className="text-lg font-semibold text-foreground">Zapomniane timery</h2>
+        <div className="flex flex-wrap items-center gap-2">
+          <select
+            value={status}
+            onChange={(e) => setStatus(e.target.value)}
+            className="px-2 py-1 bg-background border border-border rounded text-xs text-foreground focus:outline-none focus:ring-2 focus:ring-ring"
+          >
+            <option value="all">Wszystkie</option>
+            {Object.entries(STATUS_LABELS).map(([value, label]) => (
+              <option key={value} value={value}>
+                {label} ({counts[value] ?? 0})
+              </option>
+            ))}
+          </select>
+          <button onClick={fetchData} className="px-2 py-1 text-foreground/80 hover:text-foreground text-xs">
+            Odśwież
+          </button>
+        </div>
+      </div>
+      <p className="text-xs text-muted-foreground mb-3">
+        Wpisy dłuższe niż limit trafiają tu zgodnie z polityką workspace'u (cap / drop / flag). Wpisy do przejrzenia
+        nie liczą się w statystykach, dopóki nie zdecydujesz — decyzja zmienia tylko naszą bazę, nie ClickUp.
+      </p>
+
+      {error && <div className="mb-3 text-sm text-destructive">{error}</div>}
+
+      {entries.length === 0 ? (
+        <p className="text-sm text-muted-foreground">Brak wpisów</p>
+      ) : (
+        <div className="overflow-x-auto max-h-96 overflow-y-auto">
+          <table className="w-full">
+            <thead>
+              <tr className="border-b border-border">
+                <th className="px-3 py-2 text-left text-xs font-medium text-muted-foreground">Start</th>
+                <th className="px-3 py-2 text-left text-xs font-medium text-muted-foreground">Użytkownik</th>
+                <th className="px-3 py-2 text-left text-xs font-medium text-muted-foreground">Zadanie</th>
+                <th className="px-3 py-2 text-right text-xs font-medium text-muted-foreground">Czas</th>
+                <th className="px-3 py-2 text-left text-xs font-medium text-muted-foreground">Status</th>
+                <th className="px-3 py-2 text-right text-xs font-medium text-muted-foreground"></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-border/50">
+              {entries.map((entry) => (
+                <tr key={entry.entry_id}>
+                  <td className="px-3 py-2 text-xs text-foreground whitespace-nowrap">{formatDateTime(entry.start_time)}</td>
+                  <td className="px-3 py-2 text-xs text-foreground">{entry.user_name || entry.user_id}</td>
+                  <td className="px-3 py-2 text-xs text-foreground">
+                    {entry.task_name || entry.task_id || '—'}
+                    {entry.entry_deleted ? <span className="ml-1 text-muted-foreground">(usunięty)</span> : null}
+                  </td>
+                  <td className="px-3 py-2 text-xs text-right text-foreground font-mono whitespace-nowrap">
+                    {formatMs(entry.raw_duration)}
+                    {entry.resolved_duration !== null && (
+                      <span className="text-muted-foreground"> → {formatMs(entry.resolved_duration)}</span>
+                    )}
+                  </td>
+                  <td className="px-3 py-2 text-xs text-foreground">
+                    {STATUS_LABELS[entry.status] || entry.status}
+                    {entry.resolved_at && (
+                      <div className="text-muted-foreground">{formatDateTime(entry.resolved_at)}</div>
+                    )}
+                  </td>
+                  <td className="px-3 py-2 text-xs text-right whitespace-nowrap">
+                    {!entry.resolved_at && (
+                      <div className="flex items-center justify-end gap-1">
+                        <button
+                          onClick={() => resolve(entry.entry_id, 'cap')}
+                          disabled={busyId === entry.entry_id}
+                          className="px-2 py-1 text-foreground/80 hover:text-foreground disabled:opacity-50"
+                        >
+                          Przytnij do {formatMs(entry.max_duration)}
+                        </button>
+                        <input
+                          type="number"
+                          min="0"
+                          step="0.25"
+                          value={hoursById[entry.entry_id] ?? ''}
+                          onChange={(e) => setHoursById((prev) => ({ ...prev, [entry.entry_id]: e.target.value }))}
+                          placeholder="h"
+                          className="w-16 px-2 py-1 bg-background border border-border rounded text-xs text-foreground"
+                        />
+                        <button
+                          onClick={() => resolve(entry.entry_id, 'set')}
+                          disabled={busyId === entry.entry_id || !hoursById[entry.entry_id]}
+                          className="px-2 py-1 text-foreground/80 hover:text-foreground disabled:opacity-50"
+                        >
+                          Ustaw
+                        </button>
+                        <button
+                          onClick={() => resolve(entry.entry_id, 'exclude')}
+                          disabled={busyId === entry.entry_id}
+                          className="px-2 py-1 text-red-300 hover:text-red-200 disabled:opacity-50"
+                        >
+                          Wyklucz
+                        </button>
+                      </div>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <h3 className="mt-4 mb-2 text-sm font-semibold text-foreground">Alerty z ostatnich 7 dni</h3>
+      {alerts.length === 0 ? (
+        <p className="text-sm text-muted-foreground">Brak alertów</p>
+      ) : (
+        <div className="space-y-1 max-h-64 overflow-y-auto">
+          {alerts.map((alert) => (
+            <div key={alert.id} className="flex flex-wrap items-center gap-2 text-xs">
+              <span className="text-muted-foreground whitespace-nowrap">{formatDateTime(alert.created_at)}</span>
+              <span className="text-foreground font-medium">{alert.user_name}</span>
+              <span className="text-amber-300">{alert.message}</span>
+              <span className="text-muted-foreground">{alert.task_name}</span>
+              <span className="text-muted-foreground">
+                {alert.end_time ? `zatrzymany, ${formatMs(alert.duration)}` : 'nadal działa / brak wpisu'}
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
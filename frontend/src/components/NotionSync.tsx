@@ -2,6 +2,7 @@ import { useEffect, useState } from 'react';
 import { formatDateTime } from '../utils/formatters';
 import { Button } from './ui/button';
 import { Card, CardContent } from './ui/card';
+import { Job, waitForJob } from '../utils/jobs';
 
 const API_URL = import.meta.env.VITE_API_URL || '';
 
@@ -9,6 +10,9 @@ type SyncResult = {
   saved: number;
   skipped: number;
   total_pages: number;
+  rate_changes?: number;
+  pricing_changes?: number;
+  pricing_conflicts?: Array<{ clickup_id: string; valid_from: string }>;
 };
 
 type NotionRow = {
@@ -89,12 +93,29 @@ export function NotionSync({
         throw new Error('Synchronizacja nie powiodła się');
       }
 
-      const workersData = (await workersRes.json()) as SyncResult;
-      const projectsData = (await projectsRes.json()) as SyncResult;
+      // Synchronizacje idą jako zadania w tle — czekamy na oba wyniki
+      const [workersJob, projectsJob] = await Promise.all([
+        workersRes.json().then((data) => waitForJob(token, data.job.id)),
+        projectsRes.json().then((data) => waitForJob(token, data.job.id)),
+      ]);
+
+      for (const job of [workersJob, projectsJob]) {
+        if (job.status !== 'succeeded') {
+          throw new Error(job.error || 'Synchronizacja nie powiodła się');
+        }
+      }
+
+      const workersData = workersJob.result as SyncResult;
+      const projectsData = projectsJob.result as SyncResult;
 
       setStatus(
-        `Pracownicy: zapisano ${workersData.saved}, pominięto ${workersData.skipped}. ` +
-          `Projekty: zapisano ${projectsData.saved}, pominięto ${projectsData.skipped}.`
+        `Pracownicy: zapisano ${workersData.saved}, pominięto ${workersData.skipped}` +
+          (workersData.rate_changes ? `, nowe stawki: ${workersData.rate_changes}. ` : '. ') +
+          `Projekty: zapisano ${projectsData.saved}, pominięto ${projectsData.skipped}` +
+          (projectsData.pricing_changes ? `, nowe cenniki: ${projectsData.pricing_changes}.` : '.') +
+          (projectsData.pricing_conflicts?.length
+            ? ` Pominięte zmiany cennika (wersję ustawił admin): ${projectsData.pricing_conflicts.length} — sprawdź Cenniki projektów.`
+            : '')
       );
 
       await fetchLastSync();
@@ -119,10 +140,16 @@ export function NotionSync({
 
       if (!response.ok) {
         const data = await response.json();
-        throw new Error(data.details || 'Błąd uzupełniania zadań');
+        throw new Error(data.details || data.error || 'Błąd uzupełniania zadań');
+      }
+
+      const { job } = (await response.json()) as { job: Job };
+      const finished = await waitForJob(token, job.id);
+      if (finished.status !== 'succeeded') {
+        throw new Error(finished.error || 'Błąd uzupełniania zadań');
       }
 
-      const data = await response.json();
+      const data = finished.result as { updated: number; requested: number; failed: number };
       setBackfillStatus(
         `Zadania: uzupełniono ${data.updated} z ${data.requested}. ` +
           (data.failed ? `Niepowodzenia: ${data.failed}.` : 'Brak błędów.')
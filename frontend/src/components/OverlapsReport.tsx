@@ -0,0 +1,222 @@
+import { useEffect, useState } from 'react';
+import { formatDateTime, formatHours } from '../utils/formatters';
+
+const API_URL = import.meta.env.VITE_API_URL || '';
+
+type OverlapSide = {
+  id: string;
+  task_id: string | null;
+  task_name: string | null;
+  start_time: string;
+  end_time: string;
+  duration: number;
+  excluded: boolean;
+};
+
+type OverlapPair = {
+  user_id: string;
+  user_name: string | null;
+  overlap_minutes: number;
+  entries: [OverlapSide, OverlapSide];
+};
+
+type OverlapUser = {
+  user_id: string;
+  user_name: string | null;
+  overlaps: number;
+  unresolved: number;
+  overlap_minutes: number;
+};
+
+function daysAgo(days: number): string {
+  return new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString().split('T')[0];
+}
+
+function formatTime(value: string): string {
+  return new Date(value).toLocaleTimeString('pl-PL', { hour: '2-digit', minute: '2-digit' });
+}
+
+/**
+ * Nakładające się wpisy tego samego pracownika (np. ręczny wpis + timer) — w zarobkach liczą się podwójnie.
+ * Admin wyklucza jedną ze stron z zarobków; wpis zostaje w bazie i w ClickUp.
+ */
+export function OverlapsReport({ token }: { token: string }) {
+  const [start, setStart] = useState(daysAgo(30));
+  const [end, setEnd] = useState(daysAgo(0));
+  const [userId, setUserId] = useState('');
+  const [users, setUsers] = useState<OverlapUser[]>([]);
+  const [pairs, setPairs] = useState<OverlapPair[]>([]);
+  const [truncated, setTruncated] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchReport = async () => {
+    setLoading(true);
+    try {
+      const params = new URLSearchParams({ start, end });
+      const response = await fetch(`${API_URL}/admin/overlaps?${params.toString()}`, {
+        headers: { Authorization: `Bearer ${token}` },
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.details || data.error || 'Błąd pobierania raportu');
+      }
+      setUsers(data.users || []);
+      setPairs(data.pairs || []);
+      setTruncated(Boolean(data.truncated));
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Błąd pobierania raportu');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchReport();
+  }, [token]);
+
+  const toggleExcluded = async (entry: OverlapSide, other: OverlapSide) => {
+    setBusyId(entry.id);
+    setError(null);
+    try {
+      const response = entry.excluded
+        ? await fetch(`${API_URL}/admin/overlaps/exclude/${entry.id}`, {
+            method: 'DELETE',
+            headers: { Authorization: `Bearer ${token}` },
+          })
+        : await fetch(`${API_URL}/admin/overlaps/exclude`, {
+            method: 'POST',
+            headers: {
+              Authorization: `Bearer ${token}`,
+              'Content-Type': 'application/json',
+            },
+            body: JSON.stringify({ entry_id: entry.id, overlaps_with: other.id }),
+          });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Błąd zapisu');
+      }
+      await fetchReport();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Błąd zapisu');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const visiblePairs = userId ? pairs.filter((pair) => pair.user_id === userId) : pairs;
+
+  const renderSide = (entry: OverlapSide, other: OverlapSide) => (
+    <div className={`flex items-center gap-2 ${entry.excluded ? 'opacity-60' : ''}`}>
+      <div className="flex-1 min-w-0">
+        <div className={`text-foreground truncate ${entry.excluded ? 'line-through' : ''}`}>
+          {entry.task_name || entry.task_id || '—'}
+        </div>
+        <div className="text-muted-foreground font-mono">
+          {formatTime(entry.start_time)}–{formatTime(entry.end_time)} ({formatHours(entry.duration / 3600000)})
+        </div>
+      </div>
+      <button
+        onClick={() => toggleExcluded(entry, other)}
+        disabled={busyId === entry.id}
+        className={`px-2 py-1 whitespace-nowrap disabled:opacity-50 ${
+          entry.excluded ? 'text-foreground/80 hover:text-foreground' : 'text-red-300 hover:text-red-200'
+        }`}
+      >
+        {entry.excluded ? 'Przywróć' : 'Wyklucz z zarobków'}
+      </button>
+    </div>
+  );
+
+  return (
+    <div className="bg-card rounded-2xl border border-border p-4 mb-6">
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-1">
+        <h2 className="text-lg font-semibold text-foreground">Nakładające się wpisy</h2>
+        <div className="flex flex-wrap items-center gap-2">
+          <input
+            type="date"
+            value={start}
+            onChange={(e) => setStart(e.target.value)}
+            className="px-2 py-1 bg-background border border-border rounded text-xs text-foreground focus:outline-none focus:ring-2 focus:ring-ring"
+          />
+          <span className="text-xs text-muted-foreground">→</span>
+          <input
+            type="date"
+            value={end}
+            onChange={(e) => setEnd(e.target.value)}
+            className="px-2 py-1 bg-background border border-border rounded text-xs text-foreground focus:outline-none focus:ring-2 focus:ring-ring"
+          />
+          <button
+            onClick={fetchReport}
+            disabled={loading || !start || !end}
+            className="px-3 py-1 bg-emerald-600 text-white text-xs rounded hover:bg-emerald-700 disabled:opacity-50"
+          >
+            {loading ? 'Sprawdzanie...' : 'Sprawdź'}
+          </button>
+        </div>
+      </div>
+      <p className="text-xs text-muted-foreground mb-3">
+        Wpisy jednego pracownika, których czas się pokrywa (co najmniej minuta), liczą się w zarobkach podwójnie.
+        Wykluczony wpis nie wchodzi do zarobków — zostaje w statystykach i w ClickUp.
+      </p>
+
+      {error && <div className="mb-3 text-sm text-destructive">{error}</div>}
+
+      {users.length === 0 ? (
+        <p className="text-sm text-muted-foreground">{loading ? 'Sprawdzanie…' : 'Brak nakładających się wpisów'}</p>
+      ) : (
+        <>
+          <div className="overflow-x-auto mb-4">
+            <table className="w-full">
+              <thead>
+                <tr className="border-b border-border">
+                  <th className="px-3 py-2 text-left text-xs font-medium text-muted-foreground">Pracownik</th>
+                  <th className="px-3 py-2 text-right text-xs font-medium text-muted-foreground">Pary</th>
+                  <th className="px-3 py-2 text-right text-xs font-medium text-muted-foreground">Do decyzji</th>
+                  <th className="px-3 py-2 text-right text-xs font-medium text-muted-foreground">Nakładka</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-border/50">
+                {users.map((user) => (
+                  <tr
+                    key={user.user_id}
+                    onClick={() => setUserId(userId === user.user_id ? '' : user.user_id)}
+                    className={`cursor-pointer hover:bg-muted/30 ${userId === user.user_id ? 'bg-muted/30' : ''}`}
+                  >
+                    <td className="px-3 py-2 text-xs text-foreground">{user.user_name || user.user_id}</td>
+                    <td className="px-3 py-2 text-xs text-right text-foreground">{user.overlaps}</td>
+                    <td className="px-3 py-2 text-xs text-right text-amber-300">{user.unresolved || '—'}</td>
+                    <td className="px-3 py-2 text-xs text-right text-foreground font-mono">{user.overlap_minutes} min</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          {truncated && (
+            <p className="mb-2 text-xs text-amber-300">Pokazano pierwsze pary — zawęź zakres dat, żeby zobaczyć wszystkie.</p>
+          )}
+          <div className="space-y-2 max-h-[32rem] overflow-y-auto">
+            {visiblePairs.map((pair) => (
+              <div key={`${pair.entries[0].id}-${pair.entries[1].id}`} className="rounded-md border border-border p-2 text-xs">
+                <div className="mb-1 flex items-center justify-between gap-2 text-muted-foreground">
+                  <span>
+                    <span className="text-foreground font-medium">{pair.user_name || pair.user_id}</span>,{' '}
+                    {formatDateTime(pair.entries[0].start_time)}
+                  </span>
+                  <span className="text-amber-300">{pair.overlap_minutes} min wspólnie</span>
+                </div>
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                  {renderSide(pair.entries[0], pair.entries[1])}
+                  {renderSide(pair.entries[1], pair.entries[0])}
+                </div>
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
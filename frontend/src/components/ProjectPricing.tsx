@@ -0,0 +1,270 @@
+import { useEffect, useState, FormEvent } from 'react';
+import { formatCurrency, formatCurrencyPerHour, formatDateTime } from '../utils/formatters';
+
+const API_URL = import.meta.env.VITE_API_URL || '';
+
+// Pierwsza wersja cennika obowiązuje od początku historii (PRICING_HISTORY_START_MONTH w backendzie)
+const HISTORY_START_MONTH = '1970-01';
+
+type PricingVersion = {
+  id: number;
+  clickup_id: string;
+  project_name: string | null;
+  hourly_rate: number;
+  monthly_budget: number;
+  valid_from: string;
+  valid_to: string | null;
+  source: 'notion' | 'admin';
+  updated_at: string;
+};
+
+const inputClass =
+  'px-2 py-1.5 bg-background border border-border rounded text-xs text-foreground focus:outline-none focus:ring-2 focus:ring-ring';
+
+function currentMonth(): string {
+  return new Date().toISOString().slice(0, 7);
+}
+
+// valid_to to pierwszy miesiąc następnej wersji — ostatni miesiąc tej wersji jest o jeden wcześniej
+function previousMonth(month: string): string {
+  const [year, monthIndex] = month.split('-').map(Number);
+  const date = new Date(Date.UTC(year, monthIndex - 2, 1));
+  return date.toISOString().slice(0, 7);
+}
+
+/**
+ * Wersje cennika projektów (stawka godzinowa, budżet miesięczny) od danego miesiąca.
+ * Synchronizacja Notion dopisuje wersję od następnego miesiąca, gdy cennik się zmienił (wersji admina
+ * nie nadpisuje); admin może dodać albo poprawić wersję wstecz — zarobki liczą wpis wersją z jego miesiąca.
+ */
+export function ProjectPricing({ token }: { token: string }) {
+  const [versions, setVersions] = useState<PricingVersion[]>([]);
+  const [clickupId, setClickupId] = useState('');
+  const [validFrom, setValidFrom] = useState(currentMonth());
+  const [hourlyRate, setHourlyRate] = useState('');
+  const [monthlyBudget, setMonthlyBudget] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const authHeaders = { Authorization: `Bearer ${token}` };
+
+  const fetchVersions = async () => {
+    try {
+      const response = await fetch(`${API_URL}/admin/project-pricing`, { headers: authHeaders });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Błąd pobierania cenników');
+      }
+      setVersions(data.versions || []);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Błąd pobierania cenników');
+    }
+  };
+
+  useEffect(() => {
+    fetchVersions();
+  }, [token]);
+
+  const projects = [...new Map(versions.map((version) => [version.clickup_id, version.project_name])).entries()]
+    .map(([id, name]) => ({ id, name: name || id }))
+    .sort((a, b) => a.name.localeCompare(b.name, 'pl'));
+  const projectVersions = versions.filter((version) => version.clickup_id === clickupId);
+
+  const resetForm = () => {
+    setValidFrom(currentMonth());
+    setHourlyRate('');
+    setMonthlyBudget('');
+  };
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    setBusy(true);
+    setError(null);
+    setMessage(null);
+    try {
+      const response = await fetch(`${API_URL}/admin/project-pricing`, {
+        method: 'PUT',
+        headers: { ...authHeaders, 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          clickup_id: clickupId,
+          valid_from: validFrom,
+          hourly_rate: Number(hourlyRate || 0),
+          monthly_budget: Number(monthlyBudget || 0),
+        }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Błąd zapisu cennika');
+      }
+      setMessage(data.message);
+      resetForm();
+      await fetchVersions();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Błąd zapisu cennika');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleEdit = (version: PricingVersion) => {
+    setValidFrom(version.valid_from);
+    setHourlyRate(String(version.hourly_rate));
+    setMonthlyBudget(String(version.monthly_budget));
+  };
+
+  const handleDelete = async (version: PricingVersion) => {
+    if (!confirm(`Usunąć wersję od ${version.valid_from}? Obowiązywać będzie poprzednia.`)) return;
+    setBusy(true);
+    setError(null);
+    setMessage(null);
+    try {
+      const response = await fetch(`${API_URL}/admin/project-pricing/${version.id}`, {
+        method: 'DELETE',
+        headers: authHeaders,
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Błąd usuwania wersji');
+      }
+      setMessage(data.message);
+      fetchVersions();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Błąd usuwania wersji');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="bg-card rounded-2xl border border-border p-4 mb-6">
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-1">
+        <h2 className="text-lg font-semibold text-foreground">Cenniki projektów</h2>
+        <select
+          value={clickupId}
+          onChange={(e) => {
+            setClickupId(e.target.value);
+            resetForm();
+          }}
+          className={inputClass}
+        >
+          <option value="">Wybierz projekt...</option>
+          {projects.map((project) => (
+            <option key={project.id} value={project.id}>
+              {project.name}
+            </option>
+          ))}
+        </select>
+      </div>
+      <p className="text-xs text-muted-foreground mb-3">
+        Zmiana stawki albo budżetu w Notion obowiązuje od miesiąca po synchronizacji — bieżący i wcześniejsze miesiące
+        zostają przy starym cenniku, a wersji wpisanej tutaj Notion nie nadpisuje. Poprawka wstecz albo od razu: dodaj
+        wersję od właściwego miesiąca.
+      </p>
+
+      {message && <div className="mb-3 text-sm text-emerald-400">{message}</div>}
+      {error && <div className="mb-3 text-sm text-destructive">{error}</div>}
+
+      {!clickupId ? (
+        <p className="text-sm text-muted-foreground">
+          {projects.length === 0 ? 'Brak projektów. Zsynchronizuj dane z Notion w zakładce Zarobki.' : 'Wybierz projekt'}
+        </p>
+      ) : (
+        <>
+          <div className="overflow-x-auto mb-4">
+            <table className="w-full">
+              <thead>
+                <tr className="border-b border-border">
+                  <th className="px-3 py-2 text-left text-xs font-medium text-muted-foreground">Od</th>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-muted-foreground">Do</th>
+                  <th className="px-3 py-2 text-right text-xs font-medium text-muted-foreground">Stawka</th>
+                  <th className="px-3 py-2 text-right text-xs font-medium text-muted-foreground">Budżet / mies.</th>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-muted-foreground">Źródło</th>
+                  <th className="px-3 py-2 text-right text-xs font-medium text-muted-foreground">Akcje</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-border/50">
+                {projectVersions.map((version) => (
+                  <tr key={version.id}>
+                    <td className="px-3 py-2 text-xs text-foreground font-mono">
+                      {version.valid_from === HISTORY_START_MONTH ? 'początek' : version.valid_from}
+                    </td>
+                    <td className="px-3 py-2 text-xs text-foreground font-mono">
+                      {version.valid_to ? previousMonth(version.valid_to) : 'obecnie'}
+                    </td>
+                    <td className="px-3 py-2 text-xs text-right text-foreground">
+                      {formatCurrencyPerHour(version.hourly_rate)}
+                    </td>
+                    <td className="px-3 py-2 text-xs text-right text-foreground">
+                      {version.monthly_budget > 0 ? formatCurrency(version.monthly_budget) : '—'}
+                    </td>
+                    <td className="px-3 py-2 text-xs text-muted-foreground">
+                      {version.source === 'admin' ? 'Admin' : 'Notion'}, {formatDateTime(version.updated_at)}
+                    </td>
+                    <td className="px-3 py-2 text-right whitespace-nowrap">
+                      <button
+                        onClick={() => handleEdit(version)}
+                        disabled={busy}
+                        className="px-2 py-1 text-foreground/80 hover:text-foreground text-xs disabled:opacity-50"
+                      >
+                        Zmień
+                      </button>
+                      {version.valid_from !== HISTORY_START_MONTH && (
+                        <button
+                          onClick={() => handleDelete(version)}
+                          disabled={busy}
+                          className="px-2 py-1 text-destructive/80 hover:text-destructive text-xs disabled:opacity-50"
+                        >
+                          Usuń
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <form onSubmit={handleSubmit} className="grid grid-cols-1 sm:grid-cols-4 gap-2 items-end">
+            {validFrom === HISTORY_START_MONTH ? (
+              <div className={`${inputClass} text-muted-foreground`}>Od początku</div>
+            ) : (
+              <input
+                type="month"
+                value={validFrom}
+                onChange={(e) => setValidFrom(e.target.value)}
+                className={inputClass}
+              />
+            )}
+            <input
+              type="number"
+              min="0"
+              step="0.01"
+              placeholder="Stawka (PLN/h)"
+              value={hourlyRate}
+              onChange={(e) => setHourlyRate(e.target.value)}
+              className={inputClass}
+            />
+            <input
+              type="number"
+              min="0"
+              step="0.01"
+              placeholder="Budżet miesięczny (PLN)"
+              value={monthlyBudget}
+              onChange={(e) => setMonthlyBudget(e.target.value)}
+              className={inputClass}
+            />
+            <button
+              type="submit"
+              disabled={busy || !validFrom}
+              className="px-3 py-1.5 bg-emerald-600 text-white text-xs rounded hover:bg-emerald-700 disabled:opacity-50"
+            >
+              Zapisz wersję
+            </button>
+          </form>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,312 @@
+import { useEffect, useState } from 'react';
+import { formatDateTime, formatHours } from '../utils/formatters';
+import { Job, JobStatus, isJobActive } from '../utils/jobs';
+import { WorkspaceSelect } from './WorkspaceSelect';
+
+const API_URL = import.meta.env.VITE_API_URL || '';
+
+type ReconcileDay = {
+  id: number;
+  team_id: string;
+  user_id: string;
+  user_name: string | null;
+  day: string;
+  clickup_duration: number;
+  local_duration: number;
+  clickup_count: number;
+  local_count: number;
+  missing_ids: string[];
+  extra_ids: string[];
+  changed_ids: string[];
+  reimport_job_id: number | null;
+  reimported_at: string | null;
+};
+
+const STATUS_LABELS: Record<JobStatus, string> = {
+  queued: 'W kolejce',
+  running: 'Trwa',
+  succeeded: 'OK',
+  failed: 'Błąd',
+  cancelled: 'Anulowane',
+};
+
+function daysAgo(days: number): string {
+  return new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString().split('T')[0];
+}
+
+function formatMs(ms: number): string {
+  return formatHours(ms / 3600000);
+}
+
+function IdList({ label, ids, className }: { label: string; ids: string[]; className: string }) {
+  if (ids.length === 0) return null;
+  return (
+    <div className={className}>
+      {label} ({ids.length}): <span className="font-mono break-all">{ids.join(', ')}</span>
+    </div>
+  );
+}
+
+export function ReconcileReport({ token }: { token: string }) {
+  const [jobs, setJobs] = useState<Job[]>([]);
+  const [openReport, setOpenReport] = useState<{ job: Job; days: ReconcileDay[] } | null>(null);
+  const [start, setStart] = useState(daysAgo(30));
+  const [end, setEnd] = useState(daysAgo(0));
+  const [teamId, setTeamId] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchJobs = async () => {
+    try {
+      const response = await fetch(`${API_URL}/admin/reconcile`, {
+        headers: { Authorization: `Bearer ${token}` },
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Błąd pobierania raportów');
+      }
+      setJobs(Array.isArray(data) ? data : []);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Błąd pobierania raportów');
+    }
+  };
+
+  const fetchReport = async (jobId: number) => {
+    const response = await fetch(`${API_URL}/admin/reconcile/${jobId}`, {
+      headers: { Authorization: `Bearer ${token}` },
+    });
+    const data = await response.json();
+    if (!response.ok) {
+      throw new Error(data.error || 'Błąd pobierania raportu');
+    }
+    setOpenReport(data);
+  };
+
+  useEffect(() => {
+    fetchJobs();
+  }, [token]);
+
+  // Odświeżaj listę i otwarty raport, dopóki uzgodnienie trwa
+  const hasActive = jobs.some(isJobActive);
+  useEffect(() => {
+    if (!hasActive) return;
+    const timer = setTimeout(() => {
+      fetchJobs();
+      if (openReport) fetchReport(openReport.job.id).catch(() => undefined);
+    }, 3000);
+    return () => clearTimeout(timer);
+  }, [jobs, hasActive]);
+
+  const toggleReport = async (jobId: number) => {
+    if (openReport?.job.id === jobId) {
+      setOpenReport(null);
+      return;
+    }
+    try {
+      await fetchReport(jobId);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Błąd pobierania raportu');
+    }
+  };
+
+  const post = async (path: string, body: Record<string, unknown>, fallbackError: string) => {
+    setBusy(true);
+    setMessage(null);
+    setError(null);
+    try {
+      const response = await fetch(`${API_URL}${path}`, {
+        method: 'POST',
+        headers: {
+          Authorization: `Bearer ${token}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(body),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.details || data.error || fallbackError);
+      }
+      setMessage(data.message);
+      fetchJobs();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : fallbackError);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleStart = () =>
+    post('/admin/reconcile', { start, end, team_id: teamId || undefined }, 'Błąd uruchamiania uzgodnienia');
+
+  const handleReimport = (jobId: number, dayIds?: number[]) =>
+    post(`/admin/reconcile/${jobId}/reimport`, { day_ids: dayIds }, 'Błąd uruchamiania ponownego importu');
+
+  const pendingDays = openReport?.days.filter((day) => !day.reimported_at) ?? [];
+
+  return (
+    <div className="bg-card rounded-2xl border border-border p-4 mb-6">
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-1">
+        <h2 className="text-lg font-semibold text-foreground">Uzgodnienie z ClickUp</h2>
+        <div className="flex flex-wrap items-center gap-2">
+          <WorkspaceSelect token={token} value={teamId} onChange={setTeamId} allowAll className="py-1 text-xs" />
+          <input
+            type="date"
+            value={start}
+            onChange={(e) => setStart(e.target.value)}
+            className="px-2 py-1 bg-background border border-border rounded text-xs text-foreground focus:outline-none focus:ring-2 focus:ring-ring"
+          />
+          <span className="text-xs text-muted-foreground">→</span>
+          <input
+            type="date"
+            value={end}
+            onChange={(e) => setEnd(e.target.value)}
+            className="px-2 py-1 bg-background border border-border rounded text-xs text-foreground focus:outline-none focus:ring-2 focus:ring-ring"
+          />
+          <button
+            onClick={handleStart}
+            disabled={busy || hasActive || !start || !end}
+            className="px-3 py-1 bg-emerald-600 text-white text-xs rounded hover:bg-emerald-700 disabled:opacity-50"
+          >
+            {hasActive ? 'W toku...' : 'Sprawdź'}
+          </button>
+          <button onClick={fetchJobs} className="px-2 py-1 text-foreground/80 hover:text-foreground text-xs">
+            Odśwież
+          </button>
+        </div>
+      </div>
+      <p className="text-xs text-muted-foreground mb-3">
+        Porównuje sumy czasu z ClickUp z naszą bazą dla każdego użytkownika i dnia (UTC). Dni z rozbieżnościami
+        można ponownie zaimportować — tylko te pary użytkownik/dzień, bez pełnego importu.
+      </p>
+
+      {message && <div className="mb-3 text-sm text-emerald-400">{message}</div>}
+      {error && <div className="mb-3 text-sm text-destructive">{error}</div>}
+
+      {jobs.length === 0 ? (
+        <p className="text-sm text-muted-foreground">Brak raportów</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead>
+              <tr className="border-b border-border">
+                <th className="px-3 py-2 text-left text-xs font-medium text-muted-foreground">#</th>
+                <th className="px-3 py-2 text-left text-xs font-medium text-muted-foreground">Start</th>
+                <th className="px-3 py-2 text-left text-xs font-medium text-muted-foreground">Zakres</th>
+                <th className="px-3 py-2 text-left text-xs font-medium text-muted-foreground">Status</th>
+                <th className="px-3 py-2 text-right text-xs font-medium text-muted-foreground">Dni</th>
+                <th className="px-3 py-2 text-right text-xs font-medium text-muted-foreground">Brakujące</th>
+                <th className="px-3 py-2 text-right text-xs font-medium text-muted-foreground">Nadmiarowe</th>
+                <th className="px-3 py-2 text-right text-xs font-medium text-muted-foreground">Zmienione</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-border/50">
+              {jobs.map((job) => {
+                const totals = job.result || job.progress;
+                return (
+                  <tr
+                    key={job.id}
+                    onClick={() => toggleReport(job.id)}
+                    className={`cursor-pointer hover:bg-muted/30 ${openReport?.job.id === job.id ? 'bg-muted/30' : ''}`}
+                  >
+                    <td className="px-3 py-2 text-xs font-mono text-muted-foreground">{job.id}</td>
+                    <td className="px-3 py-2 text-xs text-foreground whitespace-nowrap">{formatDateTime(job.created_at)}</td>
+                    <td className="px-3 py-2 text-xs text-muted-foreground whitespace-nowrap">
+                      {String(job.params?.start).split('T')[0]} → {String(job.params?.end).split('T')[0]}
+                    </td>
+                    <td className="px-3 py-2 text-xs text-foreground">
+                      {STATUS_LABELS[job.status]}
+                      {job.status === 'running' && ` (${job.progress?.processed ?? 0}/${job.progress?.total ?? '…'})`}
+                      {job.error && <div className="mt-1 text-destructive break-all">{job.error}</div>}
+                    </td>
+                    <td className="px-3 py-2 text-xs text-right text-foreground">{String(totals?.mismatched_days ?? '—')}</td>
+                    <td className="px-3 py-2 text-xs text-right text-foreground">{String(totals?.missing ?? '—')}</td>
+                    <td className="px-3 py-2 text-xs text-right text-foreground">{String(totals?.extra ?? '—')}</td>
+                    <td className="px-3 py-2 text-xs text-right text-foreground">{String(totals?.changed ?? '—')}</td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {openReport && (
+        <div className="mt-4">
+          <div className="flex items-center justify-between mb-2">
+            <h3 className="text-sm font-semibold text-foreground">Rozbieżne dni w raporcie #{openReport.job.id}</h3>
+            {pendingDays.length > 0 && !isJobActive(openReport.job) && (
+              <button
+                onClick={() => handleReimport(openReport.job.id)}
+                disabled={busy}
+                className="px-3 py-1 bg-emerald-600 text-white text-xs rounded hover:bg-emerald-700 disabled:opacity-50"
+              >
+                Importuj ponownie ({pendingDays.length})
+              </button>
+            )}
+          </div>
+          {Array.isArray(openReport.job.result?.truncated_users) && openReport.job.result.truncated_users.length > 0 && (
+            <p className="mb-2 text-xs text-amber-300">
+              Pominięci (niepełna lista wpisów z ClickUp): {openReport.job.result.truncated_users.join(', ')}
+            </p>
+          )}
+          {openReport.days.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              {isJobActive(openReport.job) ? 'Sprawdzanie w toku…' : 'Brak rozbieżności — dane zgodne z ClickUp'}
+            </p>
+          ) : (
+            <div className="overflow-x-auto max-h-96 overflow-y-auto">
+              <table className="w-full">
+                <thead>
+                  <tr className="border-b border-border">
+                    <th className="px-3 py-2 text-left text-xs font-medium text-muted-foreground">Dzień</th>
+                    <th className="px-3 py-2 text-left text-xs font-medium text-muted-foreground">Użytkownik</th>
+                    <th className="px-3 py-2 text-right text-xs font-medium text-muted-foreground">ClickUp</th>
+                    <th className="px-3 py-2 text-right text-xs font-medium text-muted-foreground">U nas</th>
+                    <th className="px-3 py-2 text-left text-xs font-medium text-muted-foreground">Wpisy</th>
+                    <th className="px-3 py-2 text-right text-xs font-medium text-muted-foreground"></th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-border/50">
+                  {openReport.days.map((day) => (
+                    <tr key={day.id}>
+                      <td className="px-3 py-2 text-xs text-foreground whitespace-nowrap">{day.day}</td>
+                      <td className="px-3 py-2 text-xs text-foreground">{day.user_name || day.user_id}</td>
+                      <td className="px-3 py-2 text-xs text-right text-foreground font-mono whitespace-nowrap">
+                        {formatMs(day.clickup_duration)} <span className="text-muted-foreground">({day.clickup_count})</span>
+                      </td>
+                      <td className="px-3 py-2 text-xs text-right text-foreground font-mono whitespace-nowrap">
+                        {formatMs(day.local_duration)} <span className="text-muted-foreground">({day.local_count})</span>
+                      </td>
+                      <td className="px-3 py-2 text-xs">
+                        <IdList label="Brakujące" ids={day.missing_ids} className="text-amber-300" />
+                        <IdList label="Nadmiarowe" ids={day.extra_ids} className="text-red-300" />
+                        <IdList label="Zmienione" ids={day.changed_ids} className="text-blue-300" />
+                      </td>
+                      <td className="px-3 py-2 text-xs text-right whitespace-nowrap">
+                        {day.reimported_at ? (
+                          <span className="text-muted-foreground">
+                            zaimportowano {formatDateTime(day.reimported_at)} (#{day.reimport_job_id})
+                          </span>
+                        ) : (
+                          <button
+                            onClick={() => handleReimport(openReport.job.id, [day.id])}
+                            disabled={busy || isJobActive(openReport.job)}
+                            className="px-2 py-1 text-foreground/80 hover:text-foreground disabled:opacity-50"
+                          >
+                            Importuj
+                          </button>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
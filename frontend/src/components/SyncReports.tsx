@@ -0,0 +1,288 @@
+import { useEffect, useState } from 'react';
+import { formatDateTime, formatHours } from '../utils/formatters';
+
+const API_URL = import.meta.env.VITE_API_URL || '';
+
+type SyncRunStatus = 'running' | 'success' | 'failed';
+
+type SyncRunRow = {
+  id: number;
+  trigger: string;
+  status: SyncRunStatus;
+  window_start: string;
+  window_end: string;
+  fetched: number;
+  created: number;
+  updated: number;
+  deleted: number;
+  skipped: number;
+  error: string | null;
+  started_at: string;
+  finished_at: string | null;
+};
+
+type SyncChangeRow = {
+  id: number;
+  entry_id: string;
+  change: 'created' | 'updated' | 'deleted';
+  field: string | null;
+  old_value: string | null;
+  new_value: string | null;
+  user_id: string | null;
+  task_id: string | null;
+  task_name: string | null;
+  user_name: string | null;
+  start_time: string | null;
+};
+
+const STATUS_STYLES: Record<SyncRunStatus, string> = {
+  running: 'bg-blue-500/20 text-blue-300',
+  success: 'bg-emerald-500/20 text-emerald-300',
+  failed: 'bg-red-500/20 text-red-300',
+};
+
+const STATUS_LABELS: Record<SyncRunStatus, string> = {
+  running: 'W toku',
+  success: 'OK',
+  failed: 'Błąd',
+};
+
+const CHANGE_LABELS: Record<SyncChangeRow['change'], string> = {
+  created: 'Nowy',
+  updated: 'Zmieniony',
+  deleted: 'Usunięty',
+};
+
+const FIELD_LABELS: Record<string, string> = {
+  task_id: 'zadanie',
+  duration: 'czas',
+  start_time: 'start',
+  end_time: 'koniec',
+  billable: 'billable',
+  deleted_at: 'przywrócony',
+};
+
+function formatChangeValue(field: string | null, value: string | null): string {
+  if (value === null) return '—';
+  if (field === 'duration' || field === null) {
+    const ms = Number(value);
+    return Number.isFinite(ms) ? formatHours(ms / 3600000) : value;
+  }
+  if (field === 'start_time' || field === 'end_time' || field === 'deleted_at') {
+    return formatDateTime(value);
+  }
+  return value;
+}
+
+export function SyncReports({ token }: { token: string }) {
+  const [runs, setRuns] = useState<SyncRunRow[]>([]);
+  const [runningId, setRunningId] = useState<number | null>(null);
+  const [openRun, setOpenRun] = useState<{ run: SyncRunRow; changes: SyncChangeRow[] } | null>(null);
+  const [days, setDays] = useState('14');
+  const [starting, setStarting] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchRuns = async () => {
+    try {
+      const response = await fetch(`${API_URL}/admin/sync/runs`, {
+        headers: { Authorization: `Bearer ${token}` },
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Błąd pobierania raportów');
+      }
+      setRuns(data.runs || []);
+      setRunningId(data.running_id ?? null);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Błąd pobierania raportów');
+    }
+  };
+
+  useEffect(() => {
+    fetchRuns();
+  }, [token]);
+
+  // Odświeżaj listę, dopóki przebieg trwa
+  useEffect(() => {
+    if (runningId === null) return;
+    const timer = setTimeout(fetchRuns, 5000);
+    return () => clearTimeout(timer);
+  }, [runningId, runs]);
+
+  const toggleRun = async (runId: number) => {
+    if (openRun?.run.id === runId) {
+      setOpenRun(null);
+      return;
+    }
+    try {
+      const response = await fetch(`${API_URL}/admin/sync/runs/${runId}`, {
+        headers: { Authorization: `Bearer ${token}` },
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Błąd pobierania raportu');
+      }
+      setOpenRun(data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Błąd pobierania raportu');
+    }
+  };
+
+  const handleStart = async () => {
+    setStarting(true);
+    setMessage(null);
+    setError(null);
+    try {
+      const response = await fetch(`${API_URL}/admin/sync/run`, {
+        method: 'POST',
+        headers: {
+          Authorization: `Bearer ${token}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ days: parseInt(days, 10) }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.details || data.error || 'Błąd uruchamiania re-synchronizacji');
+      }
+      setMessage(data.message);
+      fetchRuns();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Błąd uruchamiania re-synchronizacji');
+    } finally {
+      setStarting(false);
+    }
+  };
+
+  return (
+    <div className="bg-card rounded-2xl border border-border p-4 mb-6">
+      <div className="flex items-center justify-between mb-1">
+        <h2 className="text-lg font-semibold text-foreground">Re-synchronizacja time entries</h2>
+        <div className="flex items-center gap-2">
+          <input
+            type="number"
+            min={1}
+            max={365}
+            value={days}
+            onChange={(e) => setDays(e.target.value)}
+            className="w-16 px-2 py-1 bg-background border border-border rounded text-xs text-foreground focus:outline-none focus:ring-2 focus:ring-ring"
+          />
+          <span className="text-xs text-muted-foreground">dni</span>
+          <button
+            onClick={handleStart}
+            disabled={starting || runningId !== null || !(parseInt(days, 10) > 0)}
+            className="px-3 py-1 bg-emerald-600 text-white text-xs rounded hover:bg-emerald-700 disabled:opacity-50"
+          >
+            {runningId !== null ? 'W toku...' : 'Uruchom teraz'}
+          </button>
+          <button onClick={fetchRuns} className="px-2 py-1 text-foreground/80 hover:text-foreground text-xs">
+            Odśwież
+          </button>
+        </div>
+      </div>
+      <p className="text-xs text-muted-foreground mb-3">
+        Co noc ponownie pobieramy wpisy z ostatnich dni i zapisujemy zmiany, które nie dotarły webhookiem
+        (czas, zadanie, usunięcia). Harmonogram: RESYNC_HOUR / RESYNC_DAYS w ustawieniach.
+      </p>
+
+      {message && <div className="mb-3 text-sm text-emerald-400">{message}</div>}
+      {error && <div className="mb-3 text-sm text-destructive">{error}</div>}
+
+      {runs.length === 0 ? (
+        <p className="text-sm text-muted-foreground">Brak przebiegów</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead>
+              <tr className="border-b border-border">
+                <th className="px-3 py-2 text-left text-xs font-medium text-muted-foreground">#</th>
+                <th className="px-3 py-2 text-left text-xs font-medium text-muted-foreground">Start</th>
+                <th className="px-3 py-2 text-left text-xs font-medium text-muted-foreground">Zakres</th>
+                <th className="px-3 py-2 text-left text-xs font-medium text-muted-foreground">Status</th>
+                <th className="px-3 py-2 text-right text-xs font-medium text-muted-foreground">Pobrane</th>
+                <th className="px-3 py-2 text-right text-xs font-medium text-muted-foreground">Nowe</th>
+                <th className="px-3 py-2 text-right text-xs font-medium text-muted-foreground">Zmienione</th>
+                <th className="px-3 py-2 text-right text-xs font-medium text-muted-foreground">Usunięte</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-border/50">
+              {runs.map((run) => (
+                <tr
+                  key={run.id}
+                  onClick={() => toggleRun(run.id)}
+                  className={`cursor-pointer hover:bg-muted/30 ${openRun?.run.id === run.id ? 'bg-muted/30' : ''}`}
+                >
+                  <td className="px-3 py-2 text-xs font-mono text-muted-foreground">
+                    {run.id}
+                    <span className="ml-1">{run.trigger === 'manual' ? '(ręcznie)' : ''}</span>
+                  </td>
+                  <td className="px-3 py-2 text-xs text-foreground whitespace-nowrap">{formatDateTime(run.started_at)}</td>
+                  <td className="px-3 py-2 text-xs text-muted-foreground whitespace-nowrap">
+                    {run.window_start.split('T')[0]} → {run.window_end.split('T')[0]}
+                  </td>
+                  <td className="px-3 py-2 text-xs">
+                    <span className={`px-1.5 py-0.5 rounded text-[10px] font-semibold ${STATUS_STYLES[run.status]}`}>
+                      {STATUS_LABELS[run.status]}
+                    </span>
+                    {run.error && <div className="mt-1 text-destructive break-all">{run.error}</div>}
+                  </td>
+                  <td className="px-3 py-2 text-xs text-right text-muted-foreground">{run.fetched}</td>
+                  <td className="px-3 py-2 text-xs text-right text-foreground">{run.created}</td>
+                  <td className="px-3 py-2 text-xs text-right text-foreground">{run.updated}</td>
+                  <td className="px-3 py-2 text-xs text-right text-foreground">{run.deleted}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {openRun && (
+        <div className="mt-4">
+          <h3 className="text-sm font-semibold text-foreground mb-2">Zmiany w przebiegu #{openRun.run.id}</h3>
+          {openRun.changes.length === 0 ? (
+            <p className="text-sm text-muted-foreground">Brak zmian — dane były zgodne z ClickUp</p>
+          ) : (
+            <div className="overflow-x-auto max-h-96 overflow-y-auto">
+              <table className="w-full">
+                <thead>
+                  <tr className="border-b border-border">
+                    <th className="px-3 py-2 text-left text-xs font-medium text-muted-foreground">Zmiana</th>
+                    <th className="px-3 py-2 text-left text-xs font-medium text-muted-foreground">Wpis</th>
+                    <th className="px-3 py-2 text-left text-xs font-medium text-muted-foreground">Pole</th>
+                    <th className="px-3 py-2 text-left text-xs font-medium text-muted-foreground">Było</th>
+                    <th className="px-3 py-2 text-left text-xs font-medium text-muted-foreground">Jest</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-border/50">
+                  {openRun.changes.map((change) => (
+                    <tr key={change.id}>
+                      <td className="px-3 py-2 text-xs text-foreground">{CHANGE_LABELS[change.change]}</td>
+                      <td className="px-3 py-2 text-xs">
+                        <div className="text-foreground">{change.task_name || change.task_id || '—'}</div>
+                        <div className="text-muted-foreground">
+                          {change.user_name || change.user_id || '—'} · {formatDateTime(change.start_time)}
+                        </div>
+                      </td>
+                      <td className="px-3 py-2 text-xs text-muted-foreground">
+                        {change.field ? FIELD_LABELS[change.field] || change.field : '—'}
+                      </td>
+                      <td className="px-3 py-2 text-xs text-muted-foreground font-mono">
+                        {change.change === 'created' ? '—' : formatChangeValue(change.field, change.old_value)}
+                      </td>
+                      <td className="px-3 py-2 text-xs text-foreground font-mono">
+                        {change.change === 'deleted' ? '—' : change.field ? formatChangeValue(change.field, change.new_value) : '—'}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
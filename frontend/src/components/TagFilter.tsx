@@ -0,0 +1,65 @@
+import { useEffect, useState } from 'react';
+
+const API_URL = import.meta.env.VITE_API_URL || '';
+
+type TagOption = {
+  tag: string;
+  entries: number;
+};
+
+type TagFilterProps = {
+  token: string;
+  value: string[];
+  onChange: (tags: string[]) => void;
+};
+
+// Dopisuje tags do query string, jeśli wybrano jakiekolwiek tagi
+export function withTags(queryParams: string, tags: string[]): string {
+  return tags.length > 0 ? `${queryParams}&tags=${encodeURIComponent(tags.join(','))}` : queryParams;
+}
+
+// Filtr po tagach wpisów ClickUp — wpis pasuje, jeśli ma którykolwiek z zaznaczonych tagów
+export function TagFilter({ token, value, onChange }: TagFilterProps) {
+  const [tags, setTags] = useState<TagOption[]>([]);
+
+  useEffect(() => {
+    fetch(`${API_URL}/api/tags`, {
+      headers: { Authorization: `Bearer ${token}` },
+    })
+      .then((res) => (res.ok ? res.json() : []))
+      .then((data: TagOption[]) => setTags(Array.isArray(data) ? data : []))
+      .catch(() => setTags([]));
+  }, [token]);
+
+  if (tags.length === 0) {
+    return null;
+  }
+
+  const toggle = (tag: string) => {
+    onChange(value.includes(tag) ? value.filter((t) => t !== tag) : [...value, tag]);
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-1.5">
+      <span className="text-xs text-muted-foreground">Tagi:</span>
+      {tags.map(({ tag }) => (
+        <button
+          key={tag}
+          onClick={() => toggle(tag)}
+          className={`px-2 py-0.5 rounded-full text-xs border ${
+            value.includes(tag)
+              ? 'bg-blue-500/20 border-blue-400 text-blue-300'
+              : 'border-border text-muted-foreground hover:text-foreground'
+          }`}
+        >
+          {tag}
+        </button>
+      ))}
+      {value.length > 0 && (
+        <button onClick={() => onChange([])} className="px-2 py-0.5 text-xs text-foreground/80 hover:text-foreground">
+          Wyczyść
+        </button>
+      )}
+    </div>
+  );
+}
@@ -1,6 +1,8 @@
 import { useEffect, useMemo, useRef, useState } from 'react';
 import { Button } from './ui/button';
+import { WorkspaceSelect, withTeamId } from './WorkspaceSelect';
 import { Card, CardContent } from './ui/card';
+import { Job, cancelJob, isJobActive, waitForJob } from '../utils/jobs';
 
 const API_URL = import.meta.env.VITE_API_URL || '';
 
@@ -61,7 +63,6 @@ const PRESET_LABELS: Record<RangePreset, string> = {
 };
 
 type ImportProgress = {
-  type: 'progress';
   user: number;
   totalUsers: number;
   assigneeId?: string;
@@ -69,6 +70,13 @@ type ImportProgress = {
   saved?: number;
 };
 
+type ImportResult = {
+  saved?: number;
+  fetched?: number;
+  skipped?: number;
+  assignees?: number;
+};
+
 export function TimeEntriesImport({
   token,
   onImported,
@@ -84,7 +92,11 @@ export function TimeEntriesImport({
   const [customEnd, setCustomEnd] = useState('');
   const [elapsed, setElapsed] = useState(0);
   const [progress, setProgress] = useState<ImportProgress | null>(null);
+  const [jobId, setJobId] = useState<number | null>(null);
+  const [isCancelling, setIsCancelling] = useState(false);
+  const [teamId, setTeamId] = useState('');
   const timerRef = useRef<ReturnType<typeof setInterval> | null>(null);
+  const unmountedRef = useRef(false);
 
   // Elapsed timer during import
   useEffect(() => {
@@ -127,78 +139,98 @@ export function TimeEntriesImport({
 
   const canImport = start && end && new Date(start) <= new Date(end);
 
+  // Import działa na serwerze jako zadanie w tle — zamknięcie karty go nie przerywa,
+  // a po powrocie podłączamy się do trwającego zadania
+  const followJob = async (id: number) => {
+    setJobId(id);
+    setIsImporting(true);
+    try {
+      const job = await waitForJob(
+        token,
+        id,
+        (update: Job) => {
+          if (update.progress) setProgress(update.progress as ImportProgress);
+        },
+        () => unmountedRef.current
+      );
+      if (unmountedRef.current) return;
+
+      if (job.status === 'succeeded') {
+        const result = (job.result || {}) as ImportResult;
+        setStatus(
+          `Zapisano ${result.saved} z ${result.fetched} wpisów (pominięto: ${result.skipped}, członków: ${result.assignees}).`
+        );
+        onImported();
+      } else if (job.status === 'cancelled') {
+        setStatus(`Import #${job.id} anulowany — można go wznowić w panelu admina.`);
+        onImported();
+      } else {
+        throw new Error(job.error || 'Błąd importu historii');
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Błąd importu historii');
+    } finally {
+      setIsImporting(false);
+      setIsCancelling(false);
+      setJobId(null);
+    }
+  };
+
+  useEffect(() => {
+    unmountedRef.current = false;
+    const attach = async () => {
+      try {
+        const response = await fetch(`${API_URL}/admin/jobs?type=import_time_entries&limit=1`, {
+          headers: { Authorization: `Bearer ${token}` },
+        });
+        if (!response.ok) return;
+        const data = await response.json();
+        const job = data.jobs?.[0] as Job | undefined;
+        if (job && isJobActive(job) && !unmountedRef.current) {
+          followJob(job.id);
+        }
+      } catch {
+        // brak aktywnego importu
+      }
+    };
+    attach();
+    return () => {
+      unmountedRef.current = true;
+    };
+  }, [token]);
+
   const handleImport = async () => {
     if (!canImport) return;
 
-    setIsImporting(true);
     setError(null);
     setStatus(null);
 
     try {
-      const url = `${API_URL}/api/earnings/import-time-entries?start=${start}&end=${end}`;
+      const url = `${API_URL}/api/earnings/import-time-entries?${withTeamId(`start=${start}&end=${end}`, teamId)}`;
 
       const response = await fetch(url, {
         method: 'POST',
         headers: { Authorization: `Bearer ${token}` },
       });
-
+      const data = await response.json();
       if (!response.ok) {
-        // Może być zwykły JSON error (np. 401)
-        const text = await response.text();
-        try {
-          const data = JSON.parse(text);
-          throw new Error(data.details || 'Błąd importu historii');
-        } catch {
-          throw new Error(`Błąd ${response.status}: ${text.slice(0, 200)}`);
-        }
+        throw new Error(data.details || data.error || 'Błąd importu historii');
       }
 
-      // Czytaj NDJSON stream linia po linii
-      const reader = response.body?.getReader();
-      if (!reader) throw new Error('Brak body w odpowiedzi');
-
-      const decoder = new TextDecoder();
-      let buffer = '';
-      let result: { saved?: number; fetched?: number; skipped?: number; assignees?: number } | null = null;
-
-      while (true) {
-        const { done, value } = await reader.read();
-        if (done) break;
-
-        buffer += decoder.decode(value, { stream: true });
-        const lines = buffer.split('\n');
-        buffer = lines.pop() || ''; // ostatnia linia może być niekompletna
-
-        for (const line of lines) {
-          if (!line.trim()) continue;
-          try {
-            const msg = JSON.parse(line);
-            if (msg.type === 'progress') {
-              setProgress(msg as ImportProgress);
-            } else if (msg.type === 'done') {
-              result = msg;
-            } else if (msg.type === 'error') {
-              throw new Error(msg.details || msg.error || 'Błąd importu');
-            }
-          } catch (parseErr) {
-            // Ignoruj nieparsowalne linie
-            if (parseErr instanceof Error && parseErr.message.includes('Błąd')) throw parseErr;
-          }
-        }
-      }
-
-      if (result) {
-        setStatus(
-          `Zapisano ${result.saved} z ${result.fetched} wpisów (pominięto: ${result.skipped}, członków: ${result.assignees}).`
-        );
-        onImported();
-      } else {
-        throw new Error('Import nie zwrócił wyniku końcowego');
-      }
+      await followJob(data.job.id);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Błąd importu historii');
-    } finally {
-      setIsImporting(false);
+    }
+  };
+
+  const handleCancel = async () => {
+    if (jobId === null) return;
+    setIsCancelling(true);
+    try {
+      await cancelJob(token, jobId);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Błąd anulowania importu');
+      setIsCancelling(false);
     }
   };
 
@@ -253,7 +285,8 @@ export function TimeEntriesImport({
 
       {/* Import button + progress */}
       <div className="flex flex-wrap items-center justify-between gap-3">
-        <div className="text-sm text-muted-foreground">
+        <div className="flex flex-wrap items-center gap-3 text-sm text-muted-foreground">
+          <WorkspaceSelect token={token} value={teamId} onChange={setTeamId} className="py-1.5" />
           {rangeLabel && `Zakres: ${rangeLabel}`}
         </div>
         <Button
@@ -278,6 +311,11 @@ export function TimeEntriesImport({
               : 'Rozpoczynam import...'}
           </span>
           <span className="font-mono text-xs ml-auto">{elapsed}s</span>
+          {jobId !== null && (
+            <Button onClick={handleCancel} disabled={isCancelling} size="sm" variant="outline">
+              {isCancelling ? 'Anuluję...' : 'Anuluj'}
+            </Button>
+          )}
         </div>
       )}
 
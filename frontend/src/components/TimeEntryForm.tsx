@@ -0,0 +1,134 @@
+import { useState } from 'react';
+import { Button } from './ui/button';
+
+const API_URL = import.meta.env.VITE_API_URL || '';
+
+export type EditableEntry = {
+  id: string;
+  start_time: string;
+  end_time: string;
+  description: string | null;
+  user_id: string;
+};
+
+type UserOption = { user_id: string; user_name: string };
+
+// Wartość dla <input type="datetime-local"> w strefie przeglądarki
+function toLocalInput(date: Date): string {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+}
+
+/**
+ * Formularz "Dodaj czas" (entry = undefined) albo edycji wpisu. Zapis idzie do ClickUp przez /api/entries,
+ * wiersz w bazie jest aktualizowany od razu i oznaczony jako czekający na potwierdzenie z ClickUp.
+ * users — wybór pracownika (admin / PM); bez listy wpis jest logowany na siebie.
+ */
+export function TimeEntryForm({
+  token,
+  taskId,
+  entry,
+  users,
+  onSaved,
+  onCancel,
+}: {
+  token: string;
+  taskId: string;
+  entry?: EditableEntry;
+  users?: UserOption[];
+  onSaved: () => void;
+  onCancel: () => void;
+}) {
+  const defaultEnd = new Date();
+  const defaultStart = new Date(defaultEnd.getTime() - 60 * 60 * 1000);
+  const [start, setStart] = useState(toLocalInput(entry ? new Date(entry.start_time) : defaultStart));
+  const [end, setEnd] = useState(toLocalInput(entry ? new Date(entry.end_time) : defaultEnd));
+  const [description, setDescription] = useState(entry?.description || '');
+  const [userId, setUserId] = useState(users?.[0]?.user_id || '');
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const send = async (method: string, path: string, body?: Record<string, unknown>) => {
+    setBusy(true);
+    setError(null);
+    try {
+      const response = await fetch(`${API_URL}/api/entries${path}`, {
+        method,
+        headers: {
+          Authorization: `Bearer ${token}`,
+          ...(body ? { 'Content-Type': 'application/json' } : {}),
+        },
+        body: body ? JSON.stringify(body) : undefined,
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.details ? `${data.error}: ${data.details}` : data.error || 'Błąd zapisu wpisu');
+      }
+      onSaved();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Błąd zapisu wpisu');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const save = () => {
+    const payload = {
+      start: new Date(start).toISOString(),
+      end: new Date(end).toISOString(),
+      description,
+    };
+    if (entry) {
+      send('PUT', `/${entry.id}`, payload);
+    } else {
+      send('POST', '', { ...payload, task_id: taskId, ...(userId ? { user_id: userId } : {}) });
+    }
+  };
+
+  const remove = () => {
+    if (!entry || !confirm('Usunąć wpis także w ClickUp?')) return;
+    send('DELETE', `/${entry.id}`);
+  };
+
+  const inputClass = 'h-9 px-3 py-2 border border-border rounded-md bg-background text-foreground text-sm';
+
+  return (
+    <div className="ml-3 my-1 p-3 rounded-md border border-border bg-muted/30 space-y-2" onClick={(e) => e.stopPropagation()}>
+      <div className="flex flex-wrap items-center gap-2">
+        {users && users.length > 0 && !entry && (
+          <select value={userId} onChange={(e) => setUserId(e.target.value)} className={inputClass}>
+            {users.map((user) => (
+              <option key={user.user_id} value={user.user_id}>
+                {user.user_name}
+              </option>
+            ))}
+          </select>
+        )}
+        <input type="datetime-local" value={start} onChange={(e) => setStart(e.target.value)} className={inputClass} />
+        <span className="text-muted-foreground">–</span>
+        <input type="datetime-local" value={end} onChange={(e) => setEnd(e.target.value)} className={inputClass} />
+      </div>
+      <input
+        type="text"
+        value={description}
+        onChange={(e) => setDescription(e.target.value)}
+        placeholder="Opis (opcjonalnie)"
+        className={`${inputClass} w-full`}
+      />
+      <div className="flex flex-wrap items-center gap-2">
+        <Button size="sm" onClick={save} disabled={busy || !start || !end}>
+          {entry ? 'Zapisz' : 'Dodaj czas'}
+        </Button>
+        <Button size="sm" variant="outline" onClick={onCancel} disabled={busy}>
+          Anuluj
+        </Button>
+        {entry && (
+          <Button size="sm" variant="destructive" onClick={remove} disabled={busy} className="ml-auto">
+            Usuń
+          </Button>
+        )}
+      </div>
+      {error && <p className="text-sm text-destructive">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,263 @@
+import { useEffect, useState } from 'react';
+import { useAuth } from '../contexts/AuthContext';
+import { Card, CardContent } from './ui/card';
+import { Button } from './ui/button';
+
+const API_URL = import.meta.env.VITE_API_URL || '';
+
+type TokenStatus = {
+  linked: boolean;
+  configured: boolean;
+  matches: boolean;
+  clickup_username: string | null;
+};
+
+type RunningTimer = {
+  id: string;
+  team_id: string;
+  task_id: string | null;
+  task_name: string | null;
+  task_url: string | null;
+  start_time: string | null;
+};
+
+type RecentTask = {
+  task_id: string;
+  task_name: string | null;
+  task_url: string | null;
+  list_name: string | null;
+  last_tracked_at: string | null;
+};
+
+function formatElapsed(startTime: string | null): string {
+  if (!startTime) return '';
+  const totalSeconds = Math.max(0, Math.floor((Date.now() - new Date(startTime).getTime()) / 1000));
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  return `${hours}:${String(minutes).padStart(2, '0')}:${String(seconds).padStart(2, '0')}`;
+}
+
+/**
+ * Start / stop / przełączanie własnego timera ClickUp (osobisty token użytkownika).
+ * refreshKey — zmiana (np. lista aktywnych sesji z socketu) odświeża stan timera.
+ */
+export function TimerControls({ refreshKey }: { refreshKey?: string }) {
+  const { token, user } = useAuth();
+  const [status, setStatus] = useState<TokenStatus | null>(null);
+  const [timer, setTimer] = useState<RunningTimer | null>(null);
+  const [tasks, setTasks] = useState<RecentTask[]>([]);
+  const [selectedTaskId, setSelectedTaskId] = useState('');
+  const [search, setSearch] = useState('');
+  const [apiToken, setApiToken] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [, setTick] = useState(0);
+
+  const linked = Boolean(user?.clickup_user_id);
+  const ready = Boolean(status?.configured && status.matches);
+
+  const request = async (path: string, init: RequestInit = {}) => {
+    const response = await fetch(`${API_URL}/api/timer${path}`, {
+      ...init,
+      headers: {
+        Authorization: `Bearer ${token}`,
+        ...(init.body ? { 'Content-Type': 'application/json' } : {}),
+      },
+    });
+    const data = await response.json();
+    if (!response.ok) {
+      throw new Error(data.details ? `${data.error}: ${data.details}` : data.error || 'Błąd timera');
+    }
+    return data;
+  };
+
+  const fetchStatus = async () => {
+    try {
+      setStatus(await request('/token'));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Błąd pobierania stanu tokenu');
+    }
+  };
+
+  const fetchTimer = async () => {
+    try {
+      const data = await request('/current');
+      setTimer(data.timer);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Błąd pobierania timera');
+    }
+  };
+
+  useEffect(() => {
+    if (token && linked) fetchStatus();
+  }, [token, linked]);
+
+  useEffect(() => {
+    if (ready) fetchTimer();
+  }, [ready, refreshKey]);
+
+  // Ostatnie zadania albo wyszukiwanie (z opóźnieniem, żeby nie pytać o każdą literę)
+  useEffect(() => {
+    if (!ready) return;
+    const handle = setTimeout(async () => {
+      try {
+        const query = search.trim() ? `?q=${encodeURIComponent(search.trim())}` : '';
+        const data = await request(`/recent-tasks${query}`);
+        setTasks(data.tasks || []);
+        setSelectedTaskId((current) =>
+          data.tasks?.some((task: RecentTask) => task.task_id === current) ? current : data.tasks?.[0]?.task_id || ''
+        );
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Błąd pobierania zadań');
+      }
+    }, search ? 300 : 0);
+    return () => clearTimeout(handle);
+  }, [ready, search]);
+
+  useEffect(() => {
+    if (!timer) return;
+    const interval = setInterval(() => setTick((value) => value + 1), 1000);
+    return () => clearInterval(interval);
+  }, [timer]);
+
+  if (!token || !linked) return null;
+
+  const run = async (action: () => Promise<void>) => {
+    setBusy(true);
+    setError(null);
+    try {
+      await action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Błąd timera');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const saveToken = () =>
+    run(async () => {
+      await request('/token', { method: 'PUT', body: JSON.stringify({ api_token: apiToken }) });
+      setApiToken('');
+      await fetchStatus();
+    });
+
+  const removeToken = () =>
+    run(async () => {
+      if (!confirm('Usunąć zapisany token ClickUp?')) return;
+      await request('/token', { method: 'DELETE' });
+      setTimer(null);
+      await fetchStatus();
+    });
+
+  const startOrSwitch = () =>
+    run(async () => {
+      const data = await request(timer ? '/switch' : '/start', {
+        method: 'POST',
+        body: JSON.stringify({ task_id: selectedTaskId }),
+      });
+      setTimer(data.timer);
+    });
+
+  const stop = () =>
+    run(async () => {
+      await request('/stop', { method: 'POST', body: JSON.stringify({ team_id: timer?.team_id }) });
+      setTimer(null);
+    });
+
+  return (
+    <Card className="mb-6">
+      <CardContent className="p-4 space-y-3">
+        <div className="flex items-center justify-between gap-2">
+          <h3 className="text-sm font-semibold text-foreground">Mój timer ClickUp</h3>
+          {ready && (
+            <button onClick={removeToken} className="text-xs text-muted-foreground hover:text-foreground underline">
+              Usuń token
+            </button>
+          )}
+        </div>
+
+        {status && !ready && (
+          <div className="space-y-2">
+            <p className="text-sm text-muted-foreground">
+              {status.configured
+                ? 'Zapisany token należy do innego użytkownika ClickUp niż powiązany z kontem — zapisz swój token ponownie.'
+                : 'Żeby uruchamiać timer stąd, zapisz osobisty token ClickUp (ClickUp → Settings → Apps → API Token).'}
+            </p>
+            <div className="flex flex-wrap gap-2">
+              <input
+                type="password"
+                value={apiToken}
+                onChange={(e) => setApiToken(e.target.value)}
+                placeholder="pk_..."
+                className="h-9 flex-1 min-w-[12rem] px-3 py-2 border border-border rounded-md bg-background text-foreground text-sm"
+              />
+              <Button size="sm" onClick={saveToken} disabled={busy || !apiToken.trim()}>
+                Zapisz token
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {ready && (
+          <>
+            {timer ? (
+              <div className="flex flex-wrap items-center gap-3">
+                <span className="w-2 h-2 bg-emerald-500 rounded-full animate-pulse"></span>
+                <div className="flex-1 min-w-0 text-sm">
+                  {timer.task_url ? (
+                    <a href={timer.task_url} target="_blank" rel="noreferrer" className="font-medium text-foreground hover:underline">
+                      {timer.task_name || timer.task_id}
+                    </a>
+                  ) : (
+                    <span className="font-medium text-foreground">{timer.task_name || timer.task_id}</span>
+                  )}
+                  <span className="ml-2 font-mono text-muted-foreground">{formatElapsed(timer.start_time)}</span>
+                </div>
+                <Button size="sm" variant="destructive" onClick={stop} disabled={busy}>
+                  Zatrzymaj
+                </Button>
+              </div>
+            ) : (
+              <p className="text-sm text-muted-foreground">Timer nie działa</p>
+            )}
+
+            <div className="flex flex-wrap gap-2">
+              <input
+                type="search"
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+                placeholder="Szukaj zadania..."
+                className="h-9 w-full sm:w-48 px-3 py-2 border border-border rounded-md bg-background text-foreground text-sm"
+              />
+              <select
+                value={selectedTaskId}
+                onChange={(e) => setSelectedTaskId(e.target.value)}
+                className="h-9 flex-1 min-w-[12rem] px-3 py-2 border border-border rounded-md bg-background text-foreground text-sm"
+              >
+                {tasks.length === 0 && <option value="">Brak zadań</option>}
+                {tasks.map((task) => (
+                  <option key={task.task_id} value={task.task_id}>
+                    {task.task_name || task.task_id}
+                    {task.list_name ? ` — ${task.list_name}` : ''}
+                  </option>
+                ))}
+              </select>
+              <Button
+                size="sm"
+                variant={timer ? 'outline' : 'default'}
+                onClick={startOrSwitch}
+                disabled={busy || !selectedTaskId || selectedTaskId === timer?.task_id}
+              >
+                {timer ? 'Przełącz' : 'Start'}
+              </Button>
+            </div>
+          </>
+        )}
+
+        {error && <p className="text-sm text-destructive">{error}</p>}
+      </CardContent>
+    </Card>
+  );
+}
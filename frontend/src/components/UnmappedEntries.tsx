@@ -1,6 +1,7 @@
 import { useState, useEffect } from 'react';
 import { useAuth } from '../contexts/AuthContext';
 import { DateRange, buildDateQueryParams } from './DateRangePicker';
+import { withTeamId } from './WorkspaceSelect';
 import { Button } from './ui/button';
 
 const API_URL = import.meta.env.VITE_API_URL || '';
@@ -17,7 +18,10 @@ type UnmappedEntry = {
   list_name: string | null;
   space_name: string | null;
   folder_name: string | null;
-  reason: 'missing_task' | 'missing_list_id' | 'missing_project' | 'missing_worker';
+  project_field: string | null;
+  // Reguła mapowania projektu: pole własne ClickUp (CLICKUP_PROJECT_FIELD) albo lista
+  mapping_rule: 'field' | 'list' | null;
+  reason: 'missing_task' | 'field_project_not_found' | 'missing_list_id' | 'missing_project' | 'missing_worker';
 };
 
 type UnmappedResponse = {
@@ -31,6 +35,11 @@ const REASON_LABELS: Record<string, { label: string; description: string; color:
     description: 'Zadanie nie istnieje w bazie tasks',
     color: 'bg-red-100 text-red-800',
   },
+  field_project_not_found: {
+    label: 'Nieznany projekt w polu',
+    description: 'Pole projektu w ClickUp wskazuje projekt, którego nie ma w Notion Projects',
+    color: 'bg-amber-100 text-amber-800',
+  },
   missing_list_id: {
     label: 'Brak list_id',
     description: 'Zadanie nie ma przypisanej listy ClickUp',
@@ -50,10 +59,11 @@ const REASON_LABELS: Record<string, { label: string; description: string; color:
 
 interface UnmappedEntriesProps {
   dateRange: DateRange;
+  teamId?: string;
   unmappedCount: number;
 }
 
-export function UnmappedEntries({ dateRange, unmappedCount }: UnmappedEntriesProps) {
+export function UnmappedEntries({ dateRange, teamId = '', unmappedCount }: UnmappedEntriesProps) {
   const { token } = useAuth();
   const [entries, setEntries] = useState<UnmappedEntry[]>([]);
   const [loading, setLoading] = useState(false);
@@ -67,7 +77,7 @@ export function UnmappedEntries({ dateRange, unmappedCount }: UnmappedEntriesPro
       setLoading(true);
       setError(null);
       try {
-        const queryParams = buildDateQueryParams(dateRange);
+        const queryParams = withTeamId(buildDateQueryParams(dateRange), teamId);
         const res = await fetch(`${API_URL}/api/earnings/unmapped?${queryParams}&limit=500`, {
           headers: { Authorization: `Bearer ${token}` },
         });
@@ -82,7 +92,7 @@ export function UnmappedEntries({ dateRange, unmappedCount }: UnmappedEntriesPro
     };
 
     fetchUnmapped();
-  }, [dateRange, token]);
+  }, [dateRange, teamId, token]);
 
   if (unmappedCount === 0) return null;
 
@@ -379,6 +389,11 @@ function EntryRow({
           <div className="text-xs text-muted-foreground flex flex-wrap gap-x-3 gap-y-1 mt-1">
             <span>{entry.user_name}</span>
             {entry.list_name && <span>{entry.list_name}</span>}
+            {entry.mapping_rule === 'field' ? (
+              <span>pole projektu: {entry.project_field}</span>
+            ) : entry.mapping_rule === 'list' ? (
+              <span>mapowanie po liście</span>
+            ) : null}
             {entry.space_name && <span className="text-muted-foreground">{entry.space_name}</span>}
           </div>
         </div>
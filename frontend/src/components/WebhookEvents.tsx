@@ -0,0 +1,306 @@
+import { Fragment, useEffect, useState } from 'react';
+import { formatDateTime } from '../utils/formatters';
+
+const API_URL = import.meta.env.VITE_API_URL || '';
+
+type WebhookEventStatus = 'pending' | 'processed' | 'ignored' | 'failed';
+
+type WebhookEventRow = {
+  id: number;
+  webhook_id: string | null;
+  event: string | null;
+  task_id: string | null;
+  status: WebhookEventStatus;
+  error: string | null;
+  attempts: number;
+  received_at: string;
+  processed_at: string | null;
+  body_size: number;
+};
+
+type WebhookEventsResponse = {
+  total: number;
+  by_status: Partial<Record<WebhookEventStatus, number>>;
+  event_types: string[];
+  events: WebhookEventRow[];
+};
+
+const STATUS_STYLES: Record<WebhookEventStatus, string> = {
+  pending: 'bg-zinc-500/20 text-zinc-300',
+  processed: 'bg-emerald-500/20 text-emerald-300',
+  ignored: 'bg-blue-500/20 text-blue-300',
+  failed: 'bg-red-500/20 text-red-300',
+};
+
+const STATUS_LABELS: Record<WebhookEventStatus, string> = {
+  pending: 'Oczekuje',
+  processed: 'Przetworzony',
+  ignored: 'Pominięty',
+  failed: 'Błąd',
+};
+
+const PAGE_SIZE = 50;
+
+export function WebhookEvents({ token }: { token: string }) {
+  const [data, setData] = useState<WebhookEventsResponse | null>(null);
+  const [statusFilter, setStatusFilter] = useState<WebhookEventStatus | ''>('');
+  const [eventFilter, setEventFilter] = useState('');
+  const [taskFilter, setTaskFilter] = useState('');
+  const [offset, setOffset] = useState(0);
+  const [selected, setSelected] = useState<Set<number>>(new Set());
+  const [openBody, setOpenBody] = useState<{ id: number; body: string } | null>(null);
+  const [replaying, setReplaying] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const buildFilterParams = () => {
+    const params = new URLSearchParams({ limit: String(PAGE_SIZE), offset: String(offset) });
+    if (statusFilter) params.set('status', statusFilter);
+    if (eventFilter) params.set('event', eventFilter);
+    if (taskFilter.trim()) params.set('task_id', taskFilter.trim());
+    return params;
+  };
+
+  const fetchEvents = async () => {
+    try {
+      const response = await fetch(`${API_URL}/admin/webhooks/events?${buildFilterParams().toString()}`, {
+        headers: { Authorization: `Bearer ${token}` },
+      });
+      if (!response.ok) {
+        const body = await response.json();
+        throw new Error(body.error || 'Błąd pobierania eventów');
+      }
+      setData(await response.json());
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Błąd pobierania eventów');
+    }
+  };
+
+  useEffect(() => {
+    fetchEvents();
+  }, [token, statusFilter, eventFilter, offset]);
+
+  useEffect(() => {
+    setSelected(new Set());
+  }, [statusFilter, eventFilter, taskFilter, offset]);
+
+  const toggleSelected = (id: number) => {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const showBody = async (id: number) => {
+    if (openBody?.id === id) {
+      setOpenBody(null);
+      return;
+    }
+    try {
+      const response = await fetch(`${API_URL}/admin/webhooks/events/${id}`, {
+        headers: { Authorization: `Bearer ${token}` },
+      });
+      if (!response.ok) throw new Error('Błąd pobierania eventu');
+      const row = await response.json();
+      let pretty = row.raw_body as string;
+      try {
+        pretty = JSON.stringify(JSON.parse(row.raw_body), null, 2);
+      } catch {
+        // zostaw surowy tekst
+      }
+      setOpenBody({ id, body: pretty });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Błąd pobierania eventu');
+    }
+  };
+
+  const replay = async (payload: Record<string, unknown>) => {
+    setReplaying(true);
+    setMessage(null);
+    setError(null);
+    try {
+      const response = await fetch(`${API_URL}/admin/webhooks/events/replay`, {
+        method: 'POST',
+        headers: {
+          Authorization: `Bearer ${token}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(payload),
+      });
+      const body = await response.json();
+      if (!response.ok) {
+        throw new Error(body.error || 'Błąd replay');
+      }
+      setMessage(
+        `Odtworzono ${body.replayed}: przetworzone ${body.processed}, pominięte ${body.ignored}, błędy ${body.failed}`
+      );
+      setSelected(new Set());
+      fetchEvents();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Błąd replay');
+    } finally {
+      setReplaying(false);
+    }
+  };
+
+  const events = data?.events || [];
+  const failedCount = data?.by_status.failed ?? 0;
+
+  return (
+    <div className="bg-card rounded-2xl border border-border p-4 mb-6">
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-3">
+        <h2 className="text-lg font-semibold text-foreground">Dziennik webhooków</h2>
+        <div className="flex flex-wrap items-center gap-2">
+          {(Object.keys(STATUS_LABELS) as WebhookEventStatus[]).map((status) => (
+            <span key={status} className={`px-2 py-0.5 rounded text-[11px] font-semibold ${STATUS_STYLES[status]}`}>
+              {STATUS_LABELS[status]}: {data?.by_status[status] ?? 0}
+            </span>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 mb-3">
+        <select
+          value={statusFilter}
+          onChange={(e) => { setOffset(0); setStatusFilter(e.target.value as WebhookEventStatus | ''); }}
+          className="h-8 px-2 bg-background border border-border rounded text-sm text-foreground"
+        >
+          <option value="">Wszystkie statusy</option>
+          {(Object.keys(STATUS_LABELS) as WebhookEventStatus[]).map((status) => (
+            <option key={status} value={status}>{STATUS_LABELS[status]}</option>
+          ))}
+        </select>
+        <select
+          value={eventFilter}
+          onChange={(e) => { setOffset(0); setEventFilter(e.target.value); }}
+          className="h-8 px-2 bg-background border border-border rounded text-sm text-foreground"
+        >
+          <option value="">Wszystkie eventy</option>
+          {(data?.event_types || []).map((type) => (
+            <option key={type} value={type}>{type}</option>
+          ))}
+        </select>
+        <input
+          type="text"
+          value={taskFilter}
+          onChange={(e) => setTaskFilter(e.target.value)}
+          onKeyDown={(e) => { if (e.key === 'Enter') { setOffset(0); fetchEvents(); } }}
+          placeholder="task_id (Enter)"
+          className="h-8 w-40 px-2 bg-background border border-border rounded text-sm text-foreground font-mono"
+        />
+        <div className="flex gap-2 sm:ml-auto">
+          <button
+            onClick={() => replay({ ids: Array.from(selected) })}
+            disabled={replaying || selected.size === 0}
+            className="px-3 py-1 bg-blue-600 text-white text-xs rounded hover:bg-blue-700 disabled:opacity-50"
+          >
+            Odtwórz zaznaczone ({selected.size})
+          </button>
+          <button
+            onClick={() => replay({ status: 'failed' })}
+            disabled={replaying || failedCount === 0}
+            className="px-3 py-1 bg-amber-600 text-white text-xs rounded hover:bg-amber-700 disabled:opacity-50"
+          >
+            {replaying ? 'Odtwarzam...' : `Odtwórz błędne (${failedCount})`}
+          </button>
+        </div>
+      </div>
+
+      {message && <div className="mb-3 text-sm text-emerald-400">{message}</div>}
+      {error && <div className="mb-3 text-sm text-destructive">{error}</div>}
+
+      <div className="overflow-x-auto">
+        <table className="w-full">
+          <thead>
+            <tr className="border-b border-border">
+              <th className="px-2 py-2" />
+              <th className="px-3 py-2 text-left text-xs font-medium text-muted-foreground">#</th>
+              <th className="px-3 py-2 text-left text-xs font-medium text-muted-foreground">Odebrano</th>
+              <th className="px-3 py-2 text-left text-xs font-medium text-muted-foreground">Event</th>
+              <th className="px-3 py-2 text-left text-xs font-medium text-muted-foreground">Task</th>
+              <th className="px-3 py-2 text-left text-xs font-medium text-muted-foreground">Status</th>
+              <th className="px-3 py-2 text-right text-xs font-medium text-muted-foreground">Akcje</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-border/50">
+            {events.map((row) => (
+              <Fragment key={row.id}>
+                <tr>
+                  <td className="px-2 py-2">
+                    <input type="checkbox" checked={selected.has(row.id)} onChange={() => toggleSelected(row.id)} />
+                  </td>
+                  <td className="px-3 py-2 text-xs font-mono text-muted-foreground">{row.id}</td>
+                  <td className="px-3 py-2 text-xs text-muted-foreground">{formatDateTime(row.received_at)}</td>
+                  <td className="px-3 py-2 text-xs text-foreground">{row.event || '—'}</td>
+                  <td className="px-3 py-2 text-xs font-mono text-muted-foreground">{row.task_id || '—'}</td>
+                  <td className="px-3 py-2 text-xs">
+                    <span className={`px-1.5 py-0.5 rounded text-[10px] font-semibold ${STATUS_STYLES[row.status]}`}>
+                      {STATUS_LABELS[row.status]}
+                    </span>
+                    {row.attempts > 1 && <span className="ml-1 text-muted-foreground">×{row.attempts}</span>}
+                    {row.error && <div className="mt-1 text-destructive truncate max-w-xs" title={row.error}>{row.error}</div>}
+                  </td>
+                  <td className="px-3 py-2 text-right whitespace-nowrap">
+                    <button
+                      onClick={() => showBody(row.id)}
+                      className="px-2 py-1 text-foreground/80 hover:text-foreground text-xs"
+                    >
+                      {openBody?.id === row.id ? 'Ukryj' : 'Payload'}
+                    </button>
+                    <button
+                      onClick={() => replay({ ids: [row.id] })}
+                      disabled={replaying}
+                      className="px-2 py-1 text-blue-400 hover:text-blue-300 text-xs disabled:opacity-50"
+                    >
+                      Odtwórz
+                    </button>
+                  </td>
+                </tr>
+                {openBody?.id === row.id && (
+                  <tr>
+                    <td colSpan={7} className="px-3 py-2">
+                      <pre className="max-h-72 overflow-auto rounded bg-background border border-border p-3 text-[11px] text-muted-foreground">
+                        {openBody.body}
+                      </pre>
+                    </td>
+                  </tr>
+                )}
+              </Fragment>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {events.length === 0 && (
+        <p className="text-sm text-muted-foreground text-center py-4">Brak eventów dla wybranych filtrów</p>
+      )}
+
+      {data && data.total > PAGE_SIZE && (
+        <div className="mt-3 flex items-center justify-between text-xs text-muted-foreground">
+          <span>
+            {offset + 1}–{Math.min(offset + PAGE_SIZE, data.total)} z {data.total}
+          </span>
+          <div className="flex gap-2">
+            <button
+              onClick={() => setOffset(Math.max(0, offset - PAGE_SIZE))}
+              disabled={offset === 0}
+              className="px-2 py-1 border border-border rounded disabled:opacity-50"
+            >
+              Poprzednie
+            </button>
+            <button
+              onClick={() => setOffset(offset + PAGE_SIZE)}
+              disabled={offset + PAGE_SIZE >= data.total}
+              className="px-2 py-1 border border-border rounded disabled:opacity-50"
+            >
+              Następne
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
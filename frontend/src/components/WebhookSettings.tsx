@@ -0,0 +1,278 @@
+import { useEffect, useState, FormEvent } from 'react';
+import { formatDateTime } from '../utils/formatters';
+
+const API_URL = import.meta.env.VITE_API_URL || '';
+
+type WebhookSecretRow = {
+  webhook_id: string;
+  maskedSecret: string;
+  description: string | null;
+  created_at: string;
+  updated_at: string;
+};
+
+type RejectionStats = {
+  total: number;
+  last_24h: number;
+  retention_days: number;
+  last_rejected_at: string | null;
+  by_reason: Array<{ reason: string; count: number }>;
+  recent: Array<{
+    id: number;
+    webhook_id: string | null;
+    event: string | null;
+    reason: string;
+    remote_ip: string | null;
+    created_at: string;
+  }>;
+};
+
+const REASON_LABELS: Record<string, string> = {
+  missing_signature: 'Brak podpisu',
+  missing_secret: 'Brak sekretu',
+  invalid_signature: 'Zły podpis',
+  stale_timestamp: 'Przeterminowany',
+  replay: 'Powtórzony',
+};
+
+export function WebhookSettings({ token }: { token: string }) {
+  const [secrets, setSecrets] = useState<WebhookSecretRow[]>([]);
+  const [hasGlobalSecret, setHasGlobalSecret] = useState(false);
+  const [stats, setStats] = useState<RejectionStats | null>(null);
+  const [showRecent, setShowRecent] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const [newWebhookId, setNewWebhookId] = useState('');
+  const [newSecret, setNewSecret] = useState('');
+  const [newDescription, setNewDescription] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const fetchSecrets = async () => {
+    try {
+      const response = await fetch(`${API_URL}/admin/webhooks/secrets`, {
+        headers: { Authorization: `Bearer ${token}` },
+      });
+      if (response.ok) {
+        const data = await response.json();
+        setSecrets(data.secrets || []);
+        setHasGlobalSecret(Boolean(data.has_global_secret));
+      }
+    } catch {
+      // non-critical
+    }
+  };
+
+  const fetchStats = async () => {
+    try {
+      const response = await fetch(`${API_URL}/admin/webhooks/rejections`, {
+        headers: { Authorization: `Bearer ${token}` },
+      });
+      if (response.ok) {
+        setStats(await response.json());
+      }
+    } catch {
+      // non-critical
+    }
+  };
+
+  useEffect(() => {
+    fetchSecrets();
+    fetchStats();
+  }, [token]);
+
+  const handleSave = async (e: FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`${API_URL}/admin/webhooks/secrets/${encodeURIComponent(newWebhookId.trim())}`, {
+        method: 'PUT',
+        headers: {
+          Authorization: `Bearer ${token}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ secret: newSecret, description: newDescription || undefined }),
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || 'Błąd zapisu sekretu');
+      }
+
+      setNewWebhookId('');
+      setNewSecret('');
+      setNewDescription('');
+      fetchSecrets();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Błąd zapisu sekretu');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (webhookId: string) => {
+    setError(null);
+    try {
+      const response = await fetch(`${API_URL}/admin/webhooks/secrets/${encodeURIComponent(webhookId)}`, {
+        method: 'DELETE',
+        headers: { Authorization: `Bearer ${token}` },
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || 'Błąd usuwania sekretu');
+      }
+
+      fetchSecrets();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Błąd usuwania sekretu');
+    }
+  };
+
+  return (
+    <div className="bg-card rounded-2xl border border-border p-4 mb-6">
+      <div className="flex items-center justify-between mb-3">
+        <h2 className="text-lg font-semibold text-foreground">Webhooki ClickUp</h2>
+        <button onClick={fetchStats} className="px-2 py-1 text-foreground/80 hover:text-foreground text-xs">
+          Odśwież
+        </button>
+      </div>
+
+      {error && <div className="mb-3 text-sm text-destructive">{error}</div>}
+
+      {/* Licznik odrzuceń */}
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-3 mb-4">
+        <div className="rounded-lg border border-border p-3">
+          <div className={`text-2xl font-semibold ${stats && stats.total > 0 ? 'text-destructive' : 'text-foreground'}`}>
+            {stats?.total ?? 0}
+          </div>
+          <div className="text-xs text-muted-foreground">Odrzucone ({stats?.retention_days ?? 30} dni)</div>
+        </div>
+        <div className="rounded-lg border border-border p-3">
+          <div className="text-2xl font-semibold text-foreground">{stats?.last_24h ?? 0}</div>
+          <div className="text-xs text-muted-foreground">Odrzucone (24h)</div>
+        </div>
+        <div className="rounded-lg border border-border p-3">
+          <div className="text-sm font-medium text-foreground">{formatDateTime(stats?.last_rejected_at)}</div>
+          <div className="text-xs text-muted-foreground">Ostatnie odrzucenie</div>
+        </div>
+      </div>
+
+      {stats && stats.by_reason.length > 0 && (
+        <div className="mb-4 flex flex-wrap items-center gap-2">
+          {stats.by_reason.map((row) => (
+            <span key={row.reason} className="px-2 py-1 rounded text-xs font-medium bg-destructive/15 text-destructive">
+              {REASON_LABELS[row.reason] || row.reason}: {row.count}
+            </span>
+          ))}
+          <button
+            onClick={() => setShowRecent((prev) => !prev)}
+            className="px-2 py-1 text-foreground/80 hover:text-foreground text-xs"
+          >
+            {showRecent ? 'Ukryj ostatnie' : 'Pokaż ostatnie'}
+          </button>
+        </div>
+      )}
+
+      {showRecent && stats && (
+        <div className="overflow-x-auto mb-4">
+          <table className="w-full">
+            <thead>
+              <tr className="border-b border-border">
+                <th className="px-3 py-2 text-left text-xs font-medium text-muted-foreground">Czas</th>
+                <th className="px-3 py-2 text-left text-xs font-medium text-muted-foreground">Powód</th>
+                <th className="px-3 py-2 text-left text-xs font-medium text-muted-foreground">Webhook</th>
+                <th className="px-3 py-2 text-left text-xs font-medium text-muted-foreground">Event</th>
+                <th className="px-3 py-2 text-left text-xs font-medium text-muted-foreground">IP</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-border/50">
+              {stats.recent.map((row) => (
+                <tr key={row.id}>
+                  <td className="px-3 py-2 text-xs text-muted-foreground">{formatDateTime(row.created_at)}</td>
+                  <td className="px-3 py-2 text-xs text-foreground">{REASON_LABELS[row.reason] || row.reason}</td>
+                  <td className="px-3 py-2 text-xs font-mono text-muted-foreground">{row.webhook_id || '—'}</td>
+                  <td className="px-3 py-2 text-xs text-muted-foreground">{row.event || '—'}</td>
+                  <td className="px-3 py-2 text-xs font-mono text-muted-foreground">{row.remote_ip || '—'}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {/* Sekrety per webhook */}
+      <h3 className="text-sm font-semibold text-foreground mb-2">Sekrety per webhook</h3>
+      <p className="text-xs text-muted-foreground mb-3">
+        Webhook bez własnego sekretu jest weryfikowany przez CLICKUP_WEBHOOK_SECRET
+        {hasGlobalSecret ? ' (ustawiony).' : ' — obecnie nieustawiony, takie webhooki będą odrzucane.'}
+      </p>
+
+      {secrets.length > 0 && (
+        <div className="overflow-x-auto mb-3">
+          <table className="w-full">
+            <thead>
+              <tr className="border-b border-border">
+                <th className="px-3 py-2 text-left text-xs font-medium text-muted-foreground">Webhook ID</th>
+                <th className="px-3 py-2 text-left text-xs font-medium text-muted-foreground">Sekret</th>
+                <th className="px-3 py-2 text-left text-xs font-medium text-muted-foreground">Opis</th>
+                <th className="px-3 py-2 text-right text-xs font-medium text-muted-foreground">Akcje</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-border/50">
+              {secrets.map((row) => (
+                <tr key={row.webhook_id}>
+                  <td className="px-3 py-2 text-sm font-mono text-foreground">{row.webhook_id}</td>
+                  <td className="px-3 py-2 text-sm font-mono text-muted-foreground">{row.maskedSecret}</td>
+                  <td className="px-3 py-2 text-sm text-muted-foreground">{row.description || '—'}</td>
+                  <td className="px-3 py-2 text-right">
+                    <button
+                      onClick={() => handleDelete(row.webhook_id)}
+                      className="px-2 py-1 text-destructive/80 hover:text-destructive text-xs"
+                    >
+                      Usuń
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <form onSubmit={handleSave} className="flex flex-wrap items-center gap-2">
+        <input
+          type="text"
+          value={newWebhookId}
+          onChange={(e) => setNewWebhookId(e.target.value)}
+          placeholder="webhook_id"
+          className="w-56 px-2 py-1 bg-background border border-border rounded text-sm text-foreground font-mono focus:outline-none focus:ring-2 focus:ring-ring"
+          required
+        />
+        <input
+          type="password"
+          value={newSecret}
+          onChange={(e) => setNewSecret(e.target.value)}
+          placeholder="secret"
+          className="w-56 px-2 py-1 bg-background border border-border rounded text-sm text-foreground font-mono focus:outline-none focus:ring-2 focus:ring-ring"
+          required
+        />
+        <input
+          type="text"
+          value={newDescription}
+          onChange={(e) => setNewDescription(e.target.value)}
+          placeholder="opis (opcjonalnie)"
+          className="w-48 px-2 py-1 bg-background border border-border rounded text-sm text-foreground focus:outline-none focus:ring-2 focus:ring-ring"
+        />
+        <button
+          type="submit"
+          disabled={saving || !newWebhookId.trim() || !newSecret.trim()}
+          className="px-3 py-1 bg-emerald-600 text-white text-xs rounded hover:bg-emerald-700 disabled:opacity-50"
+        >
+          {saving ? '...' : 'Zapisz sekret'}
+        </button>
+      </form>
+    </div>
+  );
+}
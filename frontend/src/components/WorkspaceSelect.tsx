@@ -0,0 +1,57 @@
+import { useEffect, useState } from 'react';
+
+const API_URL = import.meta.env.VITE_API_URL || '';
+
+export type WorkspaceOption = {
+  team_id: string;
+  name: string;
+  is_default: boolean;
+};
+
+type WorkspaceSelectProps = {
+  token: string;
+  value: string;
+  onChange: (teamId: string) => void;
+  // Opcja "Wszystkie workspace'y" (filtry). Bez niej pusta wartość = workspace domyślny.
+  allowAll?: boolean;
+  className?: string;
+};
+
+// Dopisuje team_id do query string, jeśli wybrano konkretny workspace
+export function withTeamId(queryParams: string, teamId: string): string {
+  return teamId ? `${queryParams}&team_id=${encodeURIComponent(teamId)}` : queryParams;
+}
+
+// Wybór workspace'u ClickUp — ukryty, gdy instancja obsługuje tylko jeden
+export function WorkspaceSelect({ token, value, onChange, allowAll = false, className = '' }: WorkspaceSelectProps) {
+  const [workspaces, setWorkspaces] = useState<WorkspaceOption[]>([]);
+
+  useEffect(() => {
+    fetch(`${API_URL}/api/workspaces`, {
+      headers: { Authorization: `Bearer ${token}` },
+    })
+      .then((res) => (res.ok ? res.json() : []))
+      .then((data: WorkspaceOption[]) => setWorkspaces(Array.isArray(data) ? data : []))
+      .catch(() => setWorkspaces([]));
+  }, [token]);
+
+  if (workspaces.length < 2) {
+    return null;
+  }
+
+  return (
+    <select
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      className={`px-3 py-2 text-sm border border-border rounded-md bg-background text-foreground focus:outline-none focus:border-ring focus:ring-2 focus:ring-ring/20 ${className}`}
+    >
+      {allowAll && <option value="">Wszystkie workspace'y</option>}
+      {workspaces.map((workspace) => (
+        <option key={workspace.team_id} value={allowAll || !workspace.is_default ? workspace.team_id : ''}>
+          {workspace.name}
+          {workspace.is_default ? ' (domyślny)' : ''}
+        </option>
+      ))}
+    </select>
+  );
+}
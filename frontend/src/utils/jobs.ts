@@ -0,0 +1,71 @@
+const API_URL = import.meta.env.VITE_API_URL || '';
+
+const POLL_INTERVAL_MS = 2000;
+
+export type JobStatus = 'queued' | 'running' | 'succeeded' | 'failed' | 'cancelled';
+
+export type Job = {
+  id: number;
+  type: string;
+  status: JobStatus;
+  params: Record<string, unknown> | null;
+  progress: Record<string, unknown> | null;
+  checkpoint: Record<string, unknown> | null;
+  result: Record<string, unknown> | null;
+  error: string | null;
+  cancel_requested: boolean;
+  attempts: number;
+  created_by: number | null;
+  created_by_username?: string | null;
+  created_at: string;
+  started_at: string | null;
+  finished_at: string | null;
+  updated_at: string;
+};
+
+export function isJobActive(job: Job): boolean {
+  return job.status === 'queued' || job.status === 'running';
+}
+
+export async function fetchJob(token: string, jobId: number): Promise<Job> {
+  const response = await fetch(`${API_URL}/admin/jobs/${jobId}`, {
+    headers: { Authorization: `Bearer ${token}` },
+  });
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.error || 'Błąd pobierania zadania');
+  }
+  return data as Job;
+}
+
+/**
+ * Odpytuje zadanie aż do zakończenia. onUpdate dostaje każdy stan (postęp).
+ * Zwraca zadanie w stanie końcowym — status trzeba sprawdzić po stronie wywołującej.
+ */
+export async function waitForJob(
+  token: string,
+  jobId: number,
+  onUpdate?: (job: Job) => void,
+  isAborted?: () => boolean
+): Promise<Job> {
+  while (true) {
+    const job = await fetchJob(token, jobId);
+    onUpdate?.(job);
+    if (!isJobActive(job) || isAborted?.()) {
+      return job;
+    }
+    await new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL_MS));
+  }
+}
+
+export async function cancelJob(token: string, jobId: number): Promise<Job> {
+  const response = await fetch(`${API_URL}/admin/jobs/${jobId}/cancel`, {
+    method: 'POST',
+    headers: { Authorization: `Bearer ${token}` },
+  });
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.error || 'Błąd anulowania zadania');
+  }
+  return data.job as Job;
+}